@@ -1,9 +1,27 @@
 // assets/scripts/components/CharacterStats.ts
 
-import { _decorator, Component, Sprite } from 'cc';
+import { _decorator, Component, Sprite, Node } from 'cc';
 import { MonsterAnimationController } from '../controllers/MonsterAnimationController';
 import { EnemyData } from '../configs/EnemyConfig';
+import { EliteStatModifiers } from '../configs/EliteAffixConfig';
+import { StatGrowth } from '../configs/ExperienceConfig';
+import {
+    ActiveStatModifier,
+    PERSISTENT_MODIFIER_SOURCES,
+    StatModifier,
+    StatModifierSource,
+    StatType,
+    computeStatValue,
+    createBuffModifiers,
+    createEliteModifiers,
+    createLevelGrowthModifiers,
+    matchesModifierSource
+} from '../configs/StatModifierConfig';
+import { DamageType, DamageInfo, DamageResult, DAMAGE_DEFAULTS, calculateDamage, clampResistance } from '../configs/DamageConfig';
+import { POISE_DEFAULTS } from '../configs/PoiseConfig';
+import { SeededRandom, gameRandom } from '../utils/SeededRandom';
 import { eventManager } from '../managers/EventManager';
+import { simulationManager } from '../managers/SimulationManager';
 import { GameEvents } from './GameEvents';
 
 const { ccclass, property } = _decorator;
@@ -11,11 +29,13 @@ const { ccclass, property } = _decorator;
 /**
  * 角色属性组件
  * 负责管理角色的基本属性、生命值、攻击力、防御力等
+ * 基础属性只由敌人配置和难度倍率决定；精英词缀、等级成长、技能增益、光环等通过属性修正叠加，
+ * 实际属性在读取时按修正计算。修正变化时发送节点事件 'stats-changed'。
  */
 @ccclass('CharacterStats')
 export class CharacterStats extends Component {
     
-    // 基础属性
+    // 基础属性（不受属性修正影响）
     private _maxHealth: number = 100;
     private _currentHealth: number = 100;
     private _baseAttack: number = 10;
@@ -26,6 +46,29 @@ export class CharacterStats extends Component {
     // 霸体值属性
     private _maxPoise: number = 50;
     private _currentPoise: number = 50;
+    private _poiseRegenDelay: number = 0;       // 距离开始恢复霸体的剩余时间（秒）
+    
+    // 法力值（玩家技能消耗，敌人没有法力值）
+    private _maxMana: number = 0;
+    private _currentMana: number = 0;
+    private _manaRegen: number = 0;
+    
+    // 无敌时间（闪避翻滚等，期间不受伤害）
+    private _invulnerableTime: number = 0;
+    
+    // 属性修正（按施加顺序，限时修正在 update 中按模拟时间到期移除）
+    private _modifiers: ActiveStatModifier[] = [];
+    private _nextModifierId: number = 1;
+    
+    // 精英词缀修正（生成时施加，回收时还原）
+    private _eliteModifiers: EliteStatModifiers | null = null;
+    
+    // 难度倍率（波次生成时设置，随 initWithEnemyData 一起生效，回收时还原）
+    private _healthScaling: number = 1.0;
+    private _attackScaling: number = 1.0;
+    
+    // 等级成长（玩家升级时由 ExperienceManager 设置，累计值）
+    private _levelGrowth: StatGrowth = { maxHealth: 0, attack: 0, defense: 0 };
     // 阵营管理已移至BaseCharacterDemo的aiFaction属性
     
     // 组件引用
@@ -63,7 +106,7 @@ export class CharacterStats extends Component {
     // ========== 属性访问器 ==========
     
     public get maxHealth(): number {
-        return this._maxHealth;
+        return Math.max(1, Math.floor(this.getEffectiveStat(StatType.MaxHealth)));
     }
     
     public get currentHealth(): number {
@@ -71,11 +114,35 @@ export class CharacterStats extends Component {
     }
     
     public get baseAttack(): number {
-        return this._baseAttack;
+        return Math.max(0, Math.floor(this.getEffectiveStat(StatType.Attack)));
     }
     
     public get baseDefense(): number {
-        return this._baseDefense;
+        return this.getEffectiveStat(StatType.Defense);
+    }
+    
+    public get moveSpeedMultiplier(): number {
+        return Math.max(0, this.getEffectiveStat(StatType.MoveSpeed));
+    }
+    
+    public get attackSpeedMultiplier(): number {
+        return Math.max(0, this.getEffectiveStat(StatType.AttackSpeed));
+    }
+    
+    public get healthScaling(): number {
+        return this._healthScaling;
+    }
+    
+    public get attackScaling(): number {
+        return this._attackScaling;
+    }
+    
+    public get levelGrowth(): Readonly<StatGrowth> {
+        return this._levelGrowth;
+    }
+    
+    public get isElite(): boolean {
+        return this._eliteModifiers !== null;
     }
     
     public get moveSpeed(): number {
@@ -102,6 +169,51 @@ export class CharacterStats extends Component {
         return this._currentPoise;
     }
     
+    public get maxMana(): number {
+        return this._maxMana;
+    }
+    
+    public get currentMana(): number {
+        return this._currentMana;
+    }
+    
+    public get manaRegen(): number {
+        return this._manaRegen;
+    }
+    
+    public get isInvulnerable(): boolean {
+        return this._invulnerableTime > 0;
+    }
+    
+    /**
+     * 普通攻击的伤害类型
+     */
+    public get damageType(): DamageType {
+        return this._enemyData?.damageType || DAMAGE_DEFAULTS.damageType;
+    }
+
+    public get critChance(): number {
+        return this._enemyData?.critChance ?? DAMAGE_DEFAULTS.critChance;
+    }
+
+    public get critMultiplier(): number {
+        return this._enemyData?.critMultiplier ?? DAMAGE_DEFAULTS.critMultiplier;
+    }
+
+    /**
+     * 普通攻击的攻击重量（削韧倍率和击退强度）
+     */
+    public get attackWeight(): number {
+        return this._enemyData?.attackWeight ?? POISE_DEFAULTS.attackWeight;
+    }
+
+    /**
+     * 每秒恢复的霸体值
+     */
+    public get poiseRegen(): number {
+        return this._enemyData?.poiseRegen ?? POISE_DEFAULTS.regenPerSecond;
+    }
+
     public get enemyData(): EnemyData | null {
         return this._enemyData;
     }
@@ -122,16 +234,24 @@ export class CharacterStats extends Component {
         this._enemyData = enemyData;
         
         // 设置基础属性
-        this._maxHealth = enemyData.baseHealth;
-        this._currentHealth = enemyData.baseHealth;
-        this._baseAttack = enemyData.baseAttack;
+        this._maxHealth = Math.floor(enemyData.baseHealth * this._healthScaling);
+        this._baseAttack = Math.floor(enemyData.baseAttack * this._attackScaling);
         this._baseDefense = enemyData.baseDefense;
         this._moveSpeed = enemyData.moveSpeed;
         this._expReward = enemyData.expReward;
         
         // 初始化霸体值
-        this._maxPoise = enemyData.poise || 50; // 如果配置中没有，给一个默认值
+        this._maxPoise = enemyData.poise || POISE_DEFAULTS.maxPoise; // 如果配置中没有，给一个默认值
         this._currentPoise = this._maxPoise;
+        this._poiseRegenDelay = 0;
+        
+        // 角色重新初始化，精英修正和等级成长由初始化事件的监听方重新施加
+        this.discardModifiers(modifier =>
+            matchesModifierSource(modifier.source, StatModifierSource.Elite) ||
+            matchesModifierSource(modifier.source, StatModifierSource.LevelGrowth));
+        this._eliteModifiers = null;
+        this._levelGrowth = { maxHealth: 0, attack: 0, defense: 0 };
+        this._currentHealth = this.maxHealth;
         
         // 初始化动画控制器
         if (this._animationController) {
@@ -146,56 +266,101 @@ export class CharacterStats extends Component {
      */
     public setStats(maxHealth: number, baseAttack: number, baseDefense: number, moveSpeed: number, expReward: number = 0, maxPoise: number = 50) {
         this._maxHealth = maxHealth;
-        this._currentHealth = maxHealth;
         this._baseAttack = baseAttack;
         this._baseDefense = baseDefense;
         this._moveSpeed = moveSpeed;
         this._expReward = expReward;
         this._maxPoise = maxPoise;
         this._currentPoise = maxPoise;
+        this.discardModifiers(modifier => matchesModifierSource(modifier.source, StatModifierSource.LevelGrowth));
+        this._levelGrowth = { maxHealth: 0, attack: 0, defense: 0 };
+        this._currentHealth = this.maxHealth;
         
         eventManager.emit(GameEvents.CHARACTER_STATS_INITIALIZED, this);
     }
 
+    /**
+     * 获取指定伤害类型的抗性（已限制在上下限内）
+     */
+    public getResistance(damageType: DamageType): number {
+        return clampResistance(this._enemyData?.resistances?.[damageType] ?? 0);
+    }
+
+    /**
+     * 以本角色为攻击方构造伤害输入，按暴击率掷骰决定是否暴击
+     * @param amount 基础伤害
+     * @param damageType 伤害类型，缺省为普通攻击的伤害类型
+     * @param random 随机数源（无头模拟使用自己的随机数）
+     */
+    public createDamageInfo(amount: number, damageType: DamageType = this.damageType, random: SeededRandom = gameRandom): DamageInfo {
+        const critChance = this.critChance;
+        return {
+            amount,
+            type: damageType,
+            isCrit: critChance > 0 && random.next() < critChance,
+            critMultiplier: this.critMultiplier,
+            weight: this.attackWeight
+        };
+    }
+
     /**
      * 受到伤害
-     * @param damage 伤害值
-     * @returns 包含死亡和硬直信息的对象
+     * @param damage 伤害值（按物理伤害结算）或完整的伤害输入
+     * @param attacker 攻击者节点（可选，用于吸血、反伤等效果）
+     * @returns 伤害结算记录，包含死亡和硬直信息
      */
-    public takeDamage(damage: number): { isDead: boolean, isStunned: boolean } {
+    public takeDamage(damage: number | DamageInfo, attacker: Node | null = null): DamageResult {
+        const info: DamageInfo = typeof damage === 'number' ? { amount: damage } : damage;
+        const result = calculateDamage(info, this.baseDefense, this._enemyData?.resistances);
+
         if (!this.isAlive) {
-            return { isDead: true, isStunned: false };
+            result.finalDamage = 0;
+            result.isDead = true;
+            return result;
         }
 
-        // 计算实际伤害（考虑防御力）
-        const actualDamage = Math.max(1, damage - this._baseDefense);
+        // 无敌时间内闪避伤害（不扣血、不削韧）
+        if (this._invulnerableTime > 0) {
+            result.finalDamage = 0;
+            this.node.emit('damage-evaded', attacker);
+            return result;
+        }
+
+        const actualDamage = result.finalDamage;
         
         this._currentHealth -= actualDamage;
         this._currentHealth = Math.max(0, this._currentHealth);
 
         let isStunned = false;
-        // 只有在霸体值大于0时才扣减，否则每次都会硬直
-        if (this._currentPoise > 0) {
-            this._currentPoise -= actualDamage; // 简化处理：伤害值直接作为削韧值
-        }
+        if (!info.ignorePoise) {
+            // 削韧值 = 实际伤害 × 攻击重量；只有在霸体值大于0时才扣减，否则每次都会硬直
+            const poiseDamage = actualDamage * Math.max(0, info.weight ?? POISE_DEFAULTS.attackWeight);
+            if (this._currentPoise > 0) {
+                result.poiseDamage = Math.min(this._currentPoise, poiseDamage);
+                this._currentPoise -= poiseDamage;
+            }
+            this._poiseRegenDelay = this._enemyData?.poiseRegenDelay ?? POISE_DEFAULTS.regenDelay;
 
-        // 如果霸体值被扣光，则产生硬直
-        if (this._currentPoise <= 0) {
-            isStunned = true;
-            this._currentPoise = this._maxPoise; // 硬直后立刻重置霸体值
+            // 如果霸体值被扣光，则产生硬直
+            // 霸体值保持为0，直到硬直真正生效时由受击方调用 resetPoise；攻击等不可打断的状态结束后的下一次受击仍会硬直
+            if (this._currentPoise <= 0) {
+                isStunned = true;
+                this._currentPoise = 0;
+            }
         }
 
         // 发送血量变化事件（用于血条组件）
-        this.node.emit('health-changed', this._currentHealth, this._maxHealth);
+        this.node.emit('health-changed', this._currentHealth, this.maxHealth);
         
-        eventManager.emit(GameEvents.CHARACTER_DAMAGED, this, actualDamage);
+        result.isStunned = isStunned;
+        result.isDead = this._currentHealth <= 0;
+        eventManager.emit(GameEvents.CHARACTER_DAMAGED, this, actualDamage, attacker, result);
 
-        if (this._currentHealth <= 0) {
-            eventManager.emit(GameEvents.CHARACTER_DIED, this);
-            return { isDead: true, isStunned: isStunned };
+        if (result.isDead) {
+            eventManager.emit(GameEvents.CHARACTER_DIED, this, attacker);
         }
 
-        return { isDead: false, isStunned: isStunned };
+        return result;
     }
 
     /**
@@ -208,28 +373,427 @@ export class CharacterStats extends Component {
         }
 
         this._currentHealth += healAmount;
-        this._currentHealth = Math.min(this._maxHealth, this._currentHealth);
+        this._currentHealth = Math.min(this.maxHealth, this._currentHealth);
 
         // 发送血量变化事件（用于血条组件）
-        this.node.emit('health-changed', this._currentHealth, this._maxHealth);
+        this.node.emit('health-changed', this._currentHealth, this.maxHealth);
         
         eventManager.emit(GameEvents.CHARACTER_HEALED, this, healAmount);
     }
 
+    // ========== 法力与无敌 ==========
+
+    /**
+     * 设置法力值上限和每秒恢复量（用于玩家），当前法力回满
+     */
+    public setMana(maxMana: number, manaRegen: number) {
+        this._maxMana = Math.max(0, maxMana);
+        this._manaRegen = Math.max(0, manaRegen);
+        this._currentMana = this._maxMana;
+        this.node.emit('mana-changed', this._currentMana, this._maxMana);
+    }
+
+    /**
+     * 消耗法力值
+     * @returns 法力不足时返回 false，不扣除
+     */
+    public spendMana(amount: number): boolean {
+        if (amount <= 0) {
+            return true;
+        }
+        if (this._currentMana < amount) {
+            return false;
+        }
+        this._currentMana -= amount;
+        this.node.emit('mana-changed', this._currentMana, this._maxMana);
+        return true;
+    }
+
+    /**
+     * 恢复法力值
+     */
+    public restoreMana(amount: number) {
+        if (amount <= 0 || this._currentMana >= this._maxMana) {
+            return;
+        }
+        this._currentMana = Math.min(this._maxMana, this._currentMana + amount);
+        this.node.emit('mana-changed', this._currentMana, this._maxMana);
+    }
+
+    /**
+     * 法力恢复：按 manaRegen 每秒恢复
+     * @param deltaTime 模拟时间步长（秒）
+     */
+    public regenerateMana(deltaTime: number): void {
+        if (!this.isAlive || this._manaRegen <= 0) {
+            return;
+        }
+        this.restoreMana(this._manaRegen * deltaTime);
+    }
+
+    /**
+     * 进入无敌时间（已在无敌中时取较长的剩余时间）
+     * @param duration 无敌时间（秒）
+     */
+    public setInvulnerable(duration: number) {
+        this._invulnerableTime = Math.max(this._invulnerableTime, duration);
+    }
+
+    // ========== 属性修正 ==========
+
+    /**
+     * 当前生效的所有属性修正
+     */
+    public get modifiers(): readonly ActiveStatModifier[] {
+        return this._modifiers;
+    }
+
+    /**
+     * 获取属性的基础值（敌人配置 × 难度倍率；速度类属性为 1）
+     */
+    public getBaseStat(stat: StatType): number {
+        switch (stat) {
+            case StatType.MaxHealth:
+                return this._maxHealth;
+            case StatType.Attack:
+                return this._baseAttack;
+            case StatType.Defense:
+                return this._baseDefense;
+            default:
+                return 1;
+        }
+    }
+
+    /**
+     * 按当前修正计算属性的实际值（未取整）
+     */
+    public getEffectiveStat(stat: StatType): number {
+        return computeStatValue(stat, this.getBaseStat(stat), this._modifiers);
+    }
+
+    /**
+     * 添加一个属性修正
+     * @returns 修正编号，用于 removeModifier
+     */
+    public addModifier(modifier: StatModifier): number {
+        const previousMaxHealth = this.maxHealth;
+        const id = this.insertModifier(modifier);
+        this.onModifiersChanged(previousMaxHealth);
+        return id;
+    }
+
+    /**
+     * 批量添加属性修正（只触发一次属性变化通知）
+     * @returns 各修正的编号
+     */
+    public addModifiers(modifiers: readonly StatModifier[]): number[] {
+        const previousMaxHealth = this.maxHealth;
+        const ids = modifiers.map(modifier => this.insertModifier(modifier));
+        if (ids.length > 0) {
+            this.onModifiersChanged(previousMaxHealth);
+        }
+        return ids;
+    }
+
+    /**
+     * 按编号移除属性修正
+     * @returns 是否移除成功
+     */
+    public removeModifier(id: number): boolean {
+        const previousMaxHealth = this.maxHealth;
+        if (this.discardModifiers(modifier => modifier.id === id) === 0) {
+            return false;
+        }
+        this.onModifiersChanged(previousMaxHealth);
+        return true;
+    }
+
+    /**
+     * 移除指定来源的所有属性修正（'aura' 同时匹配 'aura:<id>' 等带后缀的来源）
+     * @returns 移除的数量
+     */
+    public removeModifiersBySource(source: string): number {
+        const previousMaxHealth = this.maxHealth;
+        const removed = this.discardModifiers(modifier => matchesModifierSource(modifier.source, source));
+        if (removed > 0) {
+            this.onModifiersChanged(previousMaxHealth);
+        }
+        return removed;
+    }
+
+    /**
+     * 是否存在指定来源的属性修正
+     */
+    public hasModifiersFrom(source: string): boolean {
+        return this._modifiers.some(modifier => matchesModifierSource(modifier.source, source));
+    }
+
+    /**
+     * 推进限时修正的剩余时间并移除到期的修正
+     * @param deltaTime 模拟时间步长（秒）
+     */
+    public tickModifiers(deltaTime: number): void {
+        let hasExpired = false;
+        for (const modifier of this._modifiers) {
+            if (modifier.remaining !== Infinity) {
+                modifier.remaining -= deltaTime;
+                hasExpired = hasExpired || modifier.remaining <= 0;
+            }
+        }
+        if (!hasExpired) {
+            return;
+        }
+
+        const previousMaxHealth = this.maxHealth;
+        this.discardModifiers(modifier => modifier.remaining <= 0);
+        this.onModifiersChanged(previousMaxHealth);
+    }
+
+    protected update(frameDeltaTime: number): void {
+        if (this._modifiers.length === 0 && this._currentPoise >= this._maxPoise
+            && this._currentMana >= this._maxMana && this._invulnerableTime <= 0) {
+            return;
+        }
+
+        const deltaTime = simulationManager.getDeltaTime(frameDeltaTime);
+        if (this._modifiers.length > 0) {
+            this.tickModifiers(deltaTime);
+        }
+        this.regeneratePoise(deltaTime);
+        this.regenerateMana(deltaTime);
+        if (this._invulnerableTime > 0) {
+            this._invulnerableTime = Math.max(0, this._invulnerableTime - deltaTime);
+        }
+    }
+
+    /**
+     * 加入修正（不发送通知）
+     */
+    private insertModifier(modifier: StatModifier): number {
+        const id = this._nextModifierId++;
+        const duration = modifier.duration ?? 0;
+        this._modifiers.push({
+            ...modifier,
+            id,
+            remaining: duration > 0 ? duration : Infinity
+        });
+        return id;
+    }
+
+    /**
+     * 移除满足条件的修正（不发送通知）
+     * @returns 移除的数量
+     */
+    private discardModifiers(predicate: (modifier: ActiveStatModifier) => boolean): number {
+        const before = this._modifiers.length;
+        this._modifiers = this._modifiers.filter(modifier => !predicate(modifier));
+        return before - this._modifiers.length;
+    }
+
+    /**
+     * 修正变化后同步当前生命值并发送通知
+     * 最大生命值提升时当前生命值同步增加，降低时当前生命值同步减少（存活角色至少保留1点）
+     */
+    private onModifiersChanged(previousMaxHealth: number): void {
+        const maxHealth = this.maxHealth;
+        if (maxHealth !== previousMaxHealth) {
+            if (this.isAlive) {
+                this._currentHealth = Math.max(1, Math.min(maxHealth, this._currentHealth + maxHealth - previousMaxHealth));
+            }
+            this.node.emit('health-changed', this._currentHealth, maxHealth);
+        }
+        this.node.emit('stats-changed', this);
+    }
+
+    /**
+     * 施加临时属性增益（同一来源重复施加时替换上一次的增益，不同来源之间叠加）
+     * @param attackBonus 攻击力加成
+     * @param defenseBonus 防御力加成
+     * @param moveSpeedMultiplier 移动速度倍率
+     * @param duration 持续时间（秒），小于等于0表示持续到 reset / clearTemporaryBuffs
+     * @param source 来源标签，见 StatModifierSource
+     */
+    public applyTemporaryBuff(attackBonus: number, defenseBonus: number, moveSpeedMultiplier: number, duration: number, source: string = StatModifierSource.Buff) {
+        if (!this.isAlive) {
+            return;
+        }
+
+        const previousMaxHealth = this.maxHealth;
+        this.discardModifiers(modifier => modifier.source === source);
+        for (const modifier of createBuffModifiers(attackBonus, defenseBonus, moveSpeedMultiplier, source, duration)) {
+            this.insertModifier(modifier);
+        }
+        this.onModifiersChanged(previousMaxHealth);
+    }
+
+    /**
+     * 清除所有临时增益（保留精英词缀、等级成长和装备等持久来源的修正）
+     */
+    public clearTemporaryBuffs() {
+        const previousMaxHealth = this.maxHealth;
+        const removed = this.discardModifiers(modifier =>
+            !PERSISTENT_MODIFIER_SOURCES.some(tag => matchesModifierSource(modifier.source, tag)));
+        if (removed > 0) {
+            this.onModifiersChanged(previousMaxHealth);
+        }
+    }
+
+    /**
+     * 施加精英属性修正（重复调用会替换上一次的修正）
+     * @param modifiers 合并后的精英属性修正
+     */
+    public applyEliteModifiers(modifiers: EliteStatModifiers) {
+        this.discardModifiers(modifier => matchesModifierSource(modifier.source, StatModifierSource.Elite));
+        this._eliteModifiers = modifiers;
+        for (const modifier of createEliteModifiers(modifiers)) {
+            this.insertModifier(modifier);
+        }
+
+        // 精英生成时满血
+        this._currentHealth = this.maxHealth;
+        this.node.emit('health-changed', this._currentHealth, this.maxHealth);
+        this.node.emit('stats-changed', this);
+    }
+
+    /**
+     * 还原精英属性修正
+     */
+    public clearEliteModifiers() {
+        if (!this._eliteModifiers) {
+            return;
+        }
+
+        this.discardModifiers(modifier => matchesModifierSource(modifier.source, StatModifierSource.Elite));
+        this._eliteModifiers = null;
+        this._currentHealth = Math.min(this._currentHealth, this.maxHealth);
+
+        this.node.emit('health-changed', this._currentHealth, this.maxHealth);
+        this.node.emit('stats-changed', this);
+    }
+
+    /**
+     * 设置难度倍率并按敌人配置重新计算生命和攻击（满血）
+     * 只改变基础属性，已施加的精英词缀等修正继续生效；属性尚未初始化时会在 initWithEnemyData 中生效
+     * @param healthMultiplier 生命倍率
+     * @param attackMultiplier 攻击倍率
+     */
+    public setDifficultyScaling(healthMultiplier: number, attackMultiplier: number) {
+        if (this._healthScaling === healthMultiplier && this._attackScaling === attackMultiplier) {
+            return;
+        }
+
+        this._healthScaling = healthMultiplier;
+        this._attackScaling = attackMultiplier;
+
+        if (!this._enemyData) {
+            return;
+        }
+
+        this._maxHealth = Math.floor(this._enemyData.baseHealth * healthMultiplier);
+        this._baseAttack = Math.floor(this._enemyData.baseAttack * attackMultiplier);
+        this._currentHealth = this.maxHealth;
+        this.node.emit('health-changed', this._currentHealth, this.maxHealth);
+    }
+
+    /**
+     * 设置等级成长（累计值，重复调用只应用差值）
+     * 最大生命值提升时当前生命值同步增加
+     * @param growth 相对1级的累计属性成长
+     */
+    public applyLevelGrowth(growth: StatGrowth) {
+        if (growth.maxHealth === this._levelGrowth.maxHealth &&
+            growth.attack === this._levelGrowth.attack &&
+            growth.defense === this._levelGrowth.defense) {
+            return;
+        }
+
+        const previousMaxHealth = this.maxHealth;
+        this.discardModifiers(modifier => matchesModifierSource(modifier.source, StatModifierSource.LevelGrowth));
+        for (const modifier of createLevelGrowthModifiers(growth)) {
+            this.insertModifier(modifier);
+        }
+        this._levelGrowth = { ...growth };
+        this.onModifiersChanged(previousMaxHealth);
+    }
+
+    /**
+     * 热重载敌人数据：按新配置重新计算基础属性，难度倍率和所有属性修正（精英、等级成长、增益）保持不变
+     * 当前生命值和霸体值按原比例保留，已死亡的角色不会复活；动画配置不会重新加载
+     * @param enemyData 新的敌人数据
+     */
+    public applyEnemyDataUpdate(enemyData: EnemyData) {
+        const wasAlive = this.isAlive;
+        const healthRatio = this._currentHealth / this.maxHealth;
+        const poiseRatio = this._maxPoise > 0 ? this._currentPoise / this._maxPoise : 1;
+
+        this._enemyData = enemyData;
+        this._maxHealth = Math.floor(enemyData.baseHealth * this._healthScaling);
+        this._baseAttack = Math.floor(enemyData.baseAttack * this._attackScaling);
+        this._baseDefense = enemyData.baseDefense;
+        this._moveSpeed = enemyData.moveSpeed;
+        this._expReward = enemyData.expReward;
+        this._maxPoise = enemyData.poise || POISE_DEFAULTS.maxPoise;
+
+        const maxHealth = this.maxHealth;
+        this._currentHealth = wasAlive ? Math.max(1, Math.min(maxHealth, Math.round(maxHealth * healthRatio))) : 0;
+        this._currentPoise = Math.max(0, Math.min(this._maxPoise, Math.round(this._maxPoise * poiseRatio)));
+        this.node.emit('health-changed', this._currentHealth, this.maxHealth);
+    }
+
+    /**
+     * 硬直生效后重置霸体值
+     */
+    public resetPoise(): void {
+        this._currentPoise = this._maxPoise;
+    }
+
+    /**
+     * 霸体恢复：受到削韧后等待 poiseRegenDelay 秒，之后按 poiseRegen 每秒恢复
+     * @param deltaTime 模拟时间步长（秒）
+     */
+    public regeneratePoise(deltaTime: number): void {
+        if (!this.isAlive || this._currentPoise >= this._maxPoise) {
+            return;
+        }
+        if (this._poiseRegenDelay > 0) {
+            this._poiseRegenDelay -= deltaTime;
+            return;
+        }
+        this._currentPoise = Math.min(this._maxPoise, this._currentPoise + this.poiseRegen * deltaTime);
+    }
+
+    /**
+     * 恢复存档中的当前生命值和霸体值（最大值由敌人配置、难度倍率、词缀和等级成长重新计算）
+     * 'health-changed' 事件附带第三个参数 true，监听方据此区分读档与受伤/治疗（例如Boss不因读档切换阶段）
+     * @param currentHealth 当前生命值
+     * @param currentPoise 当前霸体值
+     */
+    public restoreVitals(currentHealth: number, currentPoise: number) {
+        this._currentHealth = Math.max(1, Math.min(this.maxHealth, currentHealth));
+        this._currentPoise = Math.max(0, Math.min(this._maxPoise, currentPoise));
+        this.node.emit('health-changed', this._currentHealth, this.maxHealth, true);
+    }
+
     /**
      * 完全恢复生命值
      */
     public fullHeal() {
-        this.heal(this._maxHealth);
+        this.heal(this.maxHealth);
     }
 
     /**
      * 重置属性到初始状态
      */
     public reset() {
-        this._currentHealth = this._maxHealth;
-        // 重置时也要恢复霸体值
+        // 先清除技能增益，再按清除后的最大生命值回满
+        this.clearTemporaryBuffs();
+        
+        this._currentHealth = this.maxHealth;
+        // 重置时也要恢复霸体值和法力值
         this._currentPoise = this._maxPoise;
+        this._poiseRegenDelay = 0;
+        this._currentMana = this._maxMana;
+        this._invulnerableTime = 0;
         
         // 重置动画到待机状态
         if (this._animationController && this._animationController.isReady()) {
@@ -310,7 +874,7 @@ export class CharacterStats extends Component {
      * 获取属性信息字符串
      */
     public getStatsInfo(): string {
-        return `Health: ${this._currentHealth}/${this._maxHealth}, Attack: ${this._baseAttack}, Defense: ${this._baseDefense}, Speed: ${this._moveSpeed}, Poise: ${this._currentPoise}/${this._maxPoise}`;
+        return `Health: ${this._currentHealth}/${this.maxHealth}, Attack: ${this.baseAttack}, Defense: ${this.baseDefense}, Speed: ${this._moveSpeed}, Poise: ${Math.round(this._currentPoise)}/${this._maxPoise}`;
     }
     
     /**
@@ -334,6 +898,6 @@ export class CharacterStats extends Component {
      * 获取生命值百分比
      */
     public getHealthPercentage(): number {
-        return this._maxHealth > 0 ? (this._currentHealth / this._maxHealth) * 100 : 0;
+        return (this._currentHealth / this.maxHealth) * 100;
     }
 } 
\ No newline at end of file
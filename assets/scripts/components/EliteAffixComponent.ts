@@ -0,0 +1,259 @@
+// assets/scripts/components/EliteAffixComponent.ts
+
+import { _decorator, Component, Node, Vec3 } from 'cc';
+import {
+    EliteAffixData,
+    EliteAffixType,
+    EliteStatModifiers,
+    ELITE_AFFIX_DATABASE,
+    ELITE_AFFIX_ROLL_CONFIG,
+    combineEliteStatModifiers,
+    rollEliteAffixes
+} from '../configs/EliteAffixConfig';
+import { DamageInfo, DAMAGE_DEFAULTS } from '../configs/DamageConfig';
+import { eventManager } from '../managers/EventManager';
+import { factionManager } from '../managers/FactionManager';
+import { gridManager } from '../systems/GridManager';
+import { CharacterStats } from './CharacterStats';
+import { GameEvents } from './GameEvents';
+import { gameRandom } from '../utils/SeededRandom';
+
+const { ccclass } = _decorator;
+
+/**
+ * 精英词缀组件
+ * 由 MonsterSpawner 在生成精英怪物时挂载并随机词缀：
+ * - 属性类词缀（迅捷、坚韧）一次性修正 CharacterStats，回收时还原
+ * - 事件类词缀（吸血、荆棘、爆裂）监听全局受伤/死亡事件生效
+ * 词缀变化通过节点事件 'affixes-changed' 通知血条刷新名称显示。
+ */
+@ccclass('EliteAffixComponent')
+export class EliteAffixComponent extends Component {
+
+    private _affixes: EliteAffixData[] = [];
+    private _stats: CharacterStats | null = null;
+    private _isListening: boolean = false;
+
+    // ========== 访问器 ==========
+
+    public get affixes(): readonly EliteAffixData[] {
+        return this._affixes;
+    }
+
+    public get hasAffixes(): boolean {
+        return this._affixes.length > 0;
+    }
+
+    public hasAffix(type: EliteAffixType): boolean {
+        return this._affixes.some(affix => affix.id === type);
+    }
+
+    /**
+     * 获取词缀显示名称列表
+     */
+    public getAffixNames(): string[] {
+        return this._affixes.map(affix => affix.name);
+    }
+
+    // ========== 施加与清除 ==========
+
+    /**
+     * 按 ELITE_AFFIX_ROLL_CONFIG 随机词缀并施加
+     * @returns 抽中的词缀类型
+     */
+    public rollAndApply(): EliteAffixType[] {
+        const { minAffixes, maxAffixes } = ELITE_AFFIX_ROLL_CONFIG;
+        const count = minAffixes + Math.floor(gameRandom.next() * (maxAffixes - minAffixes + 1));
+        const types = rollEliteAffixes(count);
+        this.applyAffixes(types);
+        return types;
+    }
+
+    /**
+     * 施加指定词缀（会先清除已有词缀）
+     * @param types 词缀类型列表
+     */
+    public applyAffixes(types: EliteAffixType[]): void {
+        this.clearAffixes();
+
+        this._affixes = types
+            .map(type => ELITE_AFFIX_DATABASE[type])
+            .filter(affix => !!affix);
+        this._stats = this.getComponent(CharacterStats);
+
+        if (this._affixes.length === 0) {
+            return;
+        }
+
+        this.registerEvents();
+
+        // 对象池首次创建时属性可能仍在异步初始化，此时由 onStatsInitialized 负责施加
+        if (this._stats && this._stats.enemyData) {
+            this.applyStatModifiers();
+        }
+
+        this.node.emit('affixes-changed', this._affixes);
+        eventManager.emit(GameEvents.ELITE_AFFIXES_APPLIED, this.node, this._affixes.map(affix => affix.id));
+        console.log(`EliteAffixComponent: [${this.node.name}] 精英词缀: ${this.getAffixNames().join(', ')}`);
+    }
+
+    /**
+     * 清除所有词缀并还原属性（回收到对象池时调用）
+     */
+    public clearAffixes(): void {
+        this.unregisterEvents();
+        this.unscheduleAllCallbacks();
+
+        if (this._stats) {
+            this._stats.clearEliteModifiers();
+        }
+
+        if (this._affixes.length > 0) {
+            this._affixes = [];
+            this.node.emit('affixes-changed', this._affixes);
+        }
+    }
+
+    private applyStatModifiers(): void {
+        if (!this._stats) {
+            return;
+        }
+
+        const modifiers: EliteStatModifiers[] = [ELITE_AFFIX_ROLL_CONFIG.baseStats];
+        for (const affix of this._affixes) {
+            if (affix.stats) {
+                modifiers.push(affix.stats);
+            }
+        }
+
+        this._stats.applyEliteModifiers(combineEliteStatModifiers(modifiers));
+    }
+
+    // ========== 事件监听 ==========
+
+    private registerEvents(): void {
+        if (this._isListening) {
+            return;
+        }
+        eventManager.on(GameEvents.CHARACTER_STATS_INITIALIZED, this.onStatsInitialized);
+        eventManager.on(GameEvents.CHARACTER_DAMAGED, this.onCharacterDamaged);
+        eventManager.on(GameEvents.CHARACTER_DIED, this.onCharacterDied);
+        this._isListening = true;
+    }
+
+    private unregisterEvents(): void {
+        if (!this._isListening) {
+            return;
+        }
+        eventManager.off(GameEvents.CHARACTER_STATS_INITIALIZED, this.onStatsInitialized);
+        eventManager.off(GameEvents.CHARACTER_DAMAGED, this.onCharacterDamaged);
+        eventManager.off(GameEvents.CHARACTER_DIED, this.onCharacterDied);
+        this._isListening = false;
+    }
+
+    private onStatsInitialized = (stats: CharacterStats): void => {
+        if (stats.node !== this.node) {
+            return;
+        }
+
+        // 重新初始化会覆盖基础属性，因此每次都需要重新施加
+        this._stats = stats;
+        this.applyStatModifiers();
+    }
+
+    private onCharacterDamaged = (stats: CharacterStats, damage: number, attacker?: Node | null): void => {
+        if (!this._stats || !this._stats.isAlive || damage <= 0) {
+            return;
+        }
+
+        // 吸血：自己造成的伤害
+        if (attacker === this.node && stats !== this._stats) {
+            const lifeSteal = this.sumAffixValue(affix => affix.lifeStealPercent);
+            if (lifeSteal > 0) {
+                this._stats.heal(Math.max(1, Math.floor(damage * lifeSteal)));
+            }
+            return;
+        }
+
+        // 荆棘：自己受到的伤害，反弹给攻击者
+        if (stats === this._stats && attacker && attacker.isValid && attacker !== this.node) {
+            const thorns = this.sumAffixValue(affix => affix.thornsPercent);
+            if (thorns > 0) {
+                // 反伤不携带攻击者，避免两个荆棘精英之间无限反弹
+                this.dealAffixDamage(attacker, Math.max(1, Math.floor(damage * thorns)));
+            }
+        }
+    }
+
+    private onCharacterDied = (stats: CharacterStats): void => {
+        if (stats !== this._stats) {
+            return;
+        }
+
+        const explosive = this._affixes.find(affix => affix.deathExplosion);
+        if (!explosive || !explosive.deathExplosion) {
+            return;
+        }
+
+        const config = explosive.deathExplosion;
+        const center = this.node.position.clone();
+        const damage = Math.floor(config.damage + stats.baseAttack * (config.attackScaling ?? 0));
+        this.scheduleOnce(() => this.explode(center, config.radius, { amount: damage, type: config.damageType }), config.delay);
+    }
+
+    // ========== 词缀效果 ==========
+
+    /**
+     * 死亡爆炸 - 对半径内所有敌对单位造成伤害
+     */
+    private explode(center: Vec3, radius: number, damage: DamageInfo): void {
+        const owner = this.getComponent('BaseCharacterDemo') as any;
+        if (!owner || !owner.getFaction) {
+            return;
+        }
+
+        const myFaction = owner.getFaction();
+        const victims = gridManager.getNearbyCharacters(center, radius);
+
+        let hitCount = 0;
+        for (const victim of victims) {
+            if (victim.node === this.node || !victim.isAlive()) {
+                continue;
+            }
+            if (!factionManager.doesAttack(myFaction, victim.getFaction())) {
+                continue;
+            }
+            this.dealAffixDamage(victim.node, damage);
+            hitCount++;
+        }
+
+        console.log(`EliteAffixComponent: [${this.node.name}] 死亡爆炸命中 ${hitCount} 个目标，伤害 ${damage.amount}(${damage.type || DAMAGE_DEFAULTS.damageType})`);
+    }
+
+    /**
+     * 造成词缀伤害 - 优先走 BaseCharacterDemo.takeDamage 以触发受伤/死亡状态
+     */
+    private dealAffixDamage(target: Node, damage: number | DamageInfo): void {
+        const characterDemo = target.getComponent('BaseCharacterDemo');
+        if (characterDemo && (characterDemo as any).takeDamage) {
+            (characterDemo as any).takeDamage(damage, null);
+            return;
+        }
+        const stats = target.getComponent(CharacterStats);
+        if (stats) {
+            stats.takeDamage(damage, null);
+        }
+    }
+
+    private sumAffixValue(selector: (affix: EliteAffixData) => number | undefined): number {
+        let total = 0;
+        for (const affix of this._affixes) {
+            total += selector(affix) ?? 0;
+        }
+        return total;
+    }
+
+    protected onDestroy(): void {
+        this.unregisterEvents();
+    }
+}
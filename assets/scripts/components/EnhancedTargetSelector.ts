@@ -3,6 +3,7 @@ import { ITargetSelector, TargetInfo } from '../components/MonsterAI';
 import { Faction } from '../configs/FactionConfig';
 import { factionManager } from '../managers/FactionManager';
 import { CharacterStats } from './CharacterStats';
+import { simulationManager } from '../managers/SimulationManager';
 
 const { ccclass, property } = _decorator;
 
@@ -321,7 +322,7 @@ export class EnhancedTargetSelector extends Component implements ITargetSelector
      */
     private checkLineOfSight(fromPos: Vec3, toPos: Vec3, target: Node, myFaction?: Faction): LineOfSightResult {
         const cacheKey = `${fromPos.x.toFixed(1)},${fromPos.y.toFixed(1)}-${toPos.x.toFixed(1)},${toPos.y.toFixed(1)}`;
-        const currentTime = Date.now() / 1000;
+        const currentTime = simulationManager.now() / 1000;
         
         // 检查缓存
         const cached = this.losCache.get(cacheKey);
@@ -424,7 +425,7 @@ export class EnhancedTargetSelector extends Component implements ITargetSelector
      * 更新目标记忆
      */
     private updateTargetMemory(target: Node, position: Vec3, faction: Faction, wasVisible: boolean): void {
-        const currentTime = Date.now() / 1000;
+        const currentTime = simulationManager.now() / 1000;
         
         if (!this.targetMemories.has(target)) {
             this.targetMemories.set(target, {
@@ -450,7 +451,7 @@ export class EnhancedTargetSelector extends Component implements ITargetSelector
      * 基于记忆进行搜索
      */
     private searchBasedOnMemory(myPosition: Vec3, myFaction: Faction, detectionRange: number): TargetInfo | null {
-        const currentTime = Date.now() / 1000;
+        const currentTime = simulationManager.now() / 1000;
         let bestMemoryTarget: TargetInfo | null = null;
         let bestMemoryScore = -1;
         
@@ -580,7 +581,7 @@ export class EnhancedTargetSelector extends Component implements ITargetSelector
             return true; // 如果未启用1对1，总是允许
         }
         
-        const currentTime = Date.now() / 1000;
+        const currentTime = simulationManager.now() / 1000;
         
         // 检查目标是否已被其他单位锁定
         const existingLock = this.targetLocks.get(target);
@@ -740,7 +741,7 @@ export class EnhancedTargetSelector extends Component implements ITargetSelector
      * @returns 我方单位列表
      */
     private getAllMyFactionUnits(myFaction: Faction): Node[] {
-        const now = Date.now() / 1000; // 转换为秒
+        const now = simulationManager.now() / 1000; // 转换为秒
         
         // 如果缓存还有效，直接返回缓存
         if (now - this.myFactionCacheTime < this.FACTION_CACHE_DURATION && this.myFactionUnitsCache.length > 0) {
@@ -1073,7 +1074,7 @@ export class EnhancedTargetSelector extends Component implements ITargetSelector
         let score = this.calculateEnhancedTargetScore(targetInfo.node, memory.lastSeenPosition, targetInfo.distance, { visible: true, distance: targetInfo.distance }, myFaction);
         
         // 记忆时间惩罚（记忆越旧分数越低）
-        const currentTime = Date.now() / 1000;
+        const currentTime = simulationManager.now() / 1000;
         const memoryAge = currentTime - memory.lastSeenTime;
         const memoryFactor = Math.max(0.3, 1 - (memoryAge / this.memoryDuration));
         score *= memoryFactor;
@@ -1088,7 +1089,7 @@ export class EnhancedTargetSelector extends Component implements ITargetSelector
      * 清理过期记忆
      */
     private cleanupExpiredMemories(): void {
-        const currentTime = Date.now() / 1000;
+        const currentTime = simulationManager.now() / 1000;
         const expiredTargets: Node[] = [];
         
         for (const [target, memory] of this.targetMemories) {
@@ -1108,7 +1109,7 @@ export class EnhancedTargetSelector extends Component implements ITargetSelector
      * 清理视线检测缓存
      */
     private cleanupLOSCache(): void {
-        const currentTime = Date.now() / 1000;
+        const currentTime = simulationManager.now() / 1000;
         const expiredKeys: string[] = [];
         
         for (const [key, cached] of this.losCache) {
@@ -1257,7 +1258,7 @@ export class EnhancedTargetSelector extends Component implements ITargetSelector
      * 基于记忆进行搜索（带攻击者信息）
      */
     private searchBasedOnMemoryWithAttacker(myPosition: Vec3, myFaction: Faction, detectionRange: number, attacker: Node): TargetInfo | null {
-        const currentTime = Date.now() / 1000;
+        const currentTime = simulationManager.now() / 1000;
         let bestMemoryTarget: TargetInfo | null = null;
         let bestMemoryScore = -1;
         
@@ -1310,7 +1311,7 @@ export class EnhancedTargetSelector extends Component implements ITargetSelector
         let score = this.calculateEnhancedTargetScore(targetInfo.node, memory.lastSeenPosition, targetInfo.distance, { visible: true, distance: targetInfo.distance }, myFaction, attacker);
         
         // 记忆时间惩罚（记忆越旧分数越低）
-        const currentTime = Date.now() / 1000;
+        const currentTime = simulationManager.now() / 1000;
         const memoryAge = currentTime - memory.lastSeenTime;
         const memoryFactor = Math.max(0.3, 1 - (memoryAge / this.memoryDuration));
         score *= memoryFactor;
@@ -1383,7 +1384,7 @@ export class EnhancedTargetSelector extends Component implements ITargetSelector
      * 获取记忆统计信息
      */
     public getMemoryStats(): { totalMemories: number; activeMemories: number; averageAge: number } {
-        const currentTime = Date.now() / 1000;
+        const currentTime = simulationManager.now() / 1000;
         let totalAge = 0;
         let activeCount = 0;
         
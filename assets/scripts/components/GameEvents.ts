@@ -28,6 +28,9 @@ export enum GameEvents {
     /** 游戏数据加载完成事件 - 参数: 无 */
     GAME_DATA_LOADED = 'GameDataLoaded',
     
+    /** 游戏数据热重载完成事件 - 参数: DataReloadResult */
+    GAME_DATA_RELOADED = 'GameDataReloaded',
+    
     /** 游戏状态变化事件 - 参数: GameState */
     GAME_STATE_CHANGED = 'GameStateChanged',
     
@@ -38,10 +41,10 @@ export enum GameEvents {
     /** 角色属性初始化完成事件 - 参数: CharacterStats */
     CHARACTER_STATS_INITIALIZED = 'CharacterStatsInitialized',
     
-    /** 角色受伤事件 - 参数: CharacterStats, number */
+    /** 角色受伤事件 - 参数: CharacterStats, number, Node | null (攻击者), DamageResult */
     CHARACTER_DAMAGED = 'CharacterDamaged',
     
-    /** 角色死亡事件 - 参数: CharacterStats */
+    /** 角色死亡事件 - 参数: CharacterStats, Node | null (击杀者) */
     CHARACTER_DIED = 'CharacterDied',
     
     /** 角色治疗事件 - 参数: CharacterStats, number */
@@ -50,6 +53,12 @@ export enum GameEvents {
     /** 角色重置事件 - 参数: CharacterStats */
     CHARACTER_RESET = 'CharacterReset',
     
+    /** 状态效果施加事件 - 参数: Node, StatusEffectType, number (当前层数), Node | null (施加者) */
+    STATUS_EFFECT_APPLIED = 'StatusEffectApplied',
+    
+    /** 状态效果移除事件（到期、死亡或清除） - 参数: Node, StatusEffectType */
+    STATUS_EFFECT_REMOVED = 'StatusEffectRemoved',
+    
     // ========== 玩家专用事件 ==========
     /** 玩家移动事件 - 参数: Vec3 */
     PLAYER_MOVED = 'PlayerMoved',
@@ -60,10 +69,56 @@ export enum GameEvents {
     /** 玩家血量变化事件 - 参数: number, number */
     PLAYER_HEALTH_CHANGED = 'PlayerHealthChanged',
     
+    /** 玩家闪避翻滚事件 - 参数: Node, Vec2(翻滚方向) */
+    PLAYER_DODGED = 'PlayerDodged',
+    
+    /** 玩家施放技能栏技能事件 - 参数: Node, string(技能ID), number(技能栏序号) */
+    PLAYER_ABILITY_USED = 'PlayerAbilityUsed',
+    
     // ========== 怪物专用事件 ==========
     /** 怪物死亡动画完成事件 - 参数: MonsterAnimationController */
     MONSTER_DEATH_ANIMATION_FINISHED = 'MonsterDeathAnimationFinished',
     
+    /** 精英词缀施加完成事件 - 参数: Node, string[] (词缀ID列表) */
+    ELITE_AFFIXES_APPLIED = 'EliteAffixesApplied',
+    
+    // ========== Boss战斗事件 ==========
+    /** Boss战开始事件 - 参数: Node, EnemyData */
+    BOSS_ENCOUNTER_STARTED = 'BossEncounterStarted',
+    
+    /** Boss阶段切换事件 - 参数: Node, number (阶段索引), string (阶段名称) */
+    BOSS_PHASE_CHANGED = 'BossPhaseChanged',
+    
+    /** Boss狂暴事件 - 参数: Node */
+    BOSS_ENRAGED = 'BossEnraged',
+    
+    /** Boss被击败事件 - 参数: Node */
+    BOSS_DEFEATED = 'BossDefeated',
+    
+    // ========== 掉落系统事件 ==========
+    /** 掉落产生事件 - 参数: Node (死亡角色), DropResult[] */
+    LOOT_DROPPED = 'LootDropped',
+    
+    /** 掉落物被拾取事件 - 参数: Node (拾取者), PickupItemData, number (数量) */
+    PICKUP_COLLECTED = 'PickupCollected',
+    
+    // ========== 经验系统事件 ==========
+    /** 玩家获得经验事件 - 参数: number (获得量), number (当前等级内经验), number (升级所需经验) */
+    EXP_GAINED = 'ExpGained',
+    
+    /** 玩家升级事件 - 参数: number (新等级), number (旧等级), StatGrowth (累计属性成长) */
+    PLAYER_LEVEL_UP = 'PlayerLevelUp',
+    
+    // ========== 技能系统事件 ==========
+    /** 技能开始施放事件 - 参数: SkillCaster, SkillData */
+    SKILL_CAST_STARTED = 'SkillCastStarted',
+    
+    /** 技能施放完成事件（后摇结束） - 参数: SkillCaster, SkillData */
+    SKILL_CAST_FINISHED = 'SkillCastFinished',
+    
+    /** 技能施放被打断事件 - 参数: SkillCaster, SkillData */
+    SKILL_CAST_INTERRUPTED = 'SkillCastInterrupted',
+    
     // ========== 关卡系统事件 ==========
     /** 关卡开始事件 - 参数: LevelData */
     LEVEL_STARTED = 'LevelStarted',
@@ -73,6 +128,51 @@ export enum GameEvents {
     
     /** 关卡数据加载完成事件 - 参数: Record<number, LevelData> */
     LEVEL_DATA_LOADED = 'LevelDataLoaded',
+    
+    /** 关卡目标进度变化事件 - 参数: ObjectiveProgress */
+    LEVEL_OBJECTIVE_UPDATED = 'LevelObjectiveUpdated',
+    
+    /** 关卡目标完成事件 - 参数: ObjectiveProgress */
+    LEVEL_OBJECTIVE_COMPLETED = 'LevelObjectiveCompleted',
+    
+    /** 关卡目标失败事件 - 参数: ObjectiveProgress */
+    LEVEL_OBJECTIVE_FAILED = 'LevelObjectiveFailed',
+    
+    /** 关卡胜利事件 - 参数: LevelResult */
+    LEVEL_VICTORY = 'LevelVictory',
+    
+    /** 关卡失败事件 - 参数: LevelResult */
+    LEVEL_DEFEAT = 'LevelDefeat',
+    
+    /** 怪物生成器被摧毁事件 - 参数: Node, string (生成器ID) */
+    SPAWNER_DESTROYED = 'SpawnerDestroyed',
+    
+    // ========== 波次系统事件 ==========
+    /** 波次开始事件 - 参数: Node (生成器), number (波次序号), string (波次名称) */
+    WAVE_STARTED = 'WaveStarted',
+    
+    /** 波次清场事件 - 参数: Node (生成器), number (波次序号) */
+    WAVE_CLEARED = 'WaveCleared',
+    
+    /** 所有波次完成事件 - 参数: Node (生成器), number (总波次数) */
+    WAVES_COMPLETED = 'WavesCompleted',
+    
+    // ========== 战斗存档事件 ==========
+    /** 战斗存档写入事件 - 参数: string (存档槽位), BattleSnapshot */
+    BATTLE_SAVED = 'BattleSaved',
+    
+    /** 战斗存档恢复完成事件 - 参数: string (存档槽位), BattleSnapshot */
+    BATTLE_LOADED = 'BattleLoaded',
+    
+    // ========== 输入回放事件 ==========
+    /** 输入录制完成事件 - 参数: ReplayData */
+    REPLAY_RECORDED = 'ReplayRecorded',
+    
+    /** 输入回放开始事件 - 参数: ReplayData */
+    REPLAY_STARTED = 'ReplayStarted',
+    
+    /** 输入回放结束事件 - 参数: ReplayData, boolean (是否完整播放) */
+    REPLAY_FINISHED = 'ReplayFinished',
 }
 
 /**
@@ -87,17 +187,48 @@ export interface GameEventParams {
     [GameEvents.MOUSE_MOVED]: [any]; // Vec3 世界坐标
     [GameEvents.AI_MOUSE_FOLLOW_TOGGLED]: [boolean]; // 是否启用AI跟随鼠标模式
     [GameEvents.GAME_DATA_LOADED]: [];
+    [GameEvents.GAME_DATA_RELOADED]: [any]; // DataReloadResult
     [GameEvents.GAME_STATE_CHANGED]: [any]; // GameState
     [GameEvents.GAME_MODE_CHANGED]: [any, any]; // GameMode, GameMode
     [GameEvents.CHARACTER_STATS_INITIALIZED]: [any]; // CharacterStats
-    [GameEvents.CHARACTER_DAMAGED]: [any, number]; // CharacterStats, damage
-    [GameEvents.CHARACTER_DIED]: [any]; // CharacterStats
+    [GameEvents.CHARACTER_DAMAGED]: [any, number, any?, any?]; // CharacterStats, damage, attacker node (optional), DamageResult
+    [GameEvents.CHARACTER_DIED]: [any, any?]; // CharacterStats, killer Node | null
     [GameEvents.CHARACTER_HEALED]: [any, number]; // CharacterStats, healAmount
     [GameEvents.CHARACTER_RESET]: [any]; // CharacterStats
+    [GameEvents.STATUS_EFFECT_APPLIED]: [any, string, number, any?]; // Node, StatusEffectType, stacks, source Node | null
+    [GameEvents.STATUS_EFFECT_REMOVED]: [any, string]; // Node, StatusEffectType
     [GameEvents.PLAYER_MOVED]: [any]; // Vec3
     [GameEvents.PLAYER_DAMAGED]: [any, number]; // CharacterStats, damage
     [GameEvents.PLAYER_HEALTH_CHANGED]: [number, number]; // currentHealth, maxHealth
+    [GameEvents.PLAYER_DODGED]: [any, any]; // Node, Vec2
+    [GameEvents.PLAYER_ABILITY_USED]: [any, string, number]; // Node, skillId, slotIndex
     [GameEvents.MONSTER_DEATH_ANIMATION_FINISHED]: [any]; // MonsterAnimationController
+    [GameEvents.ELITE_AFFIXES_APPLIED]: [any, string[]]; // Node, affix ids
+    [GameEvents.BOSS_ENCOUNTER_STARTED]: [any, any]; // Node, EnemyData
+    [GameEvents.BOSS_PHASE_CHANGED]: [any, number, string]; // Node, phaseIndex, phaseName
+    [GameEvents.BOSS_ENRAGED]: [any]; // Node
+    [GameEvents.BOSS_DEFEATED]: [any]; // Node
+    [GameEvents.LOOT_DROPPED]: [any, any[]]; // Node, DropResult[]
+    [GameEvents.PICKUP_COLLECTED]: [any, any, number]; // Node, PickupItemData, count
+    [GameEvents.EXP_GAINED]: [number, number, number]; // amount, exp, expToNext
+    [GameEvents.PLAYER_LEVEL_UP]: [number, number, any]; // newLevel, oldLevel, StatGrowth
+    [GameEvents.SKILL_CAST_STARTED]: [any, any]; // SkillCaster, SkillData
+    [GameEvents.SKILL_CAST_FINISHED]: [any, any]; // SkillCaster, SkillData
+    [GameEvents.SKILL_CAST_INTERRUPTED]: [any, any]; // SkillCaster, SkillData
+    [GameEvents.LEVEL_OBJECTIVE_UPDATED]: [any]; // ObjectiveProgress
+    [GameEvents.LEVEL_OBJECTIVE_COMPLETED]: [any]; // ObjectiveProgress
+    [GameEvents.LEVEL_OBJECTIVE_FAILED]: [any]; // ObjectiveProgress
+    [GameEvents.LEVEL_VICTORY]: [any]; // LevelResult
+    [GameEvents.LEVEL_DEFEAT]: [any]; // LevelResult
+    [GameEvents.SPAWNER_DESTROYED]: [any, string]; // Node, spawnerId
+    [GameEvents.WAVE_STARTED]: [any, number, string]; // Node, waveNumber, waveName
+    [GameEvents.WAVE_CLEARED]: [any, number]; // Node, waveNumber
+    [GameEvents.WAVES_COMPLETED]: [any, number]; // Node, totalWaves
+    [GameEvents.BATTLE_SAVED]: [string, any]; // slot, BattleSnapshot
+    [GameEvents.BATTLE_LOADED]: [string, any]; // slot, BattleSnapshot
+    [GameEvents.REPLAY_RECORDED]: [any]; // ReplayData
+    [GameEvents.REPLAY_STARTED]: [any]; // ReplayData
+    [GameEvents.REPLAY_FINISHED]: [any, boolean]; // ReplayData, 是否完整播放
 }
 
 /**
@@ -112,6 +243,7 @@ export const GameEventDescriptions: Record<GameEvents, string> = {
     [GameEvents.MOUSE_MOVED]: '当鼠标移动时触发，提供世界坐标位置',
     [GameEvents.AI_MOUSE_FOLLOW_TOGGLED]: '当AI鼠标跟随模式开关切换时触发',
     [GameEvents.GAME_DATA_LOADED]: '当游戏配置数据加载完成时触发',
+    [GameEvents.GAME_DATA_RELOADED]: '当游戏配置数据热重载完成并推送到场上角色和生成器后触发',
     [GameEvents.GAME_STATE_CHANGED]: '当游戏状态发生变化时触发（如菜单、游戏中、暂停等）',
     [GameEvents.GAME_MODE_CHANGED]: '当游戏模式发生变化时触发（如正常模式、测试模式）',
     [GameEvents.CHARACTER_STATS_INITIALIZED]: '当角色属性初始化完成时触发',
@@ -119,13 +251,43 @@ export const GameEventDescriptions: Record<GameEvents, string> = {
     [GameEvents.CHARACTER_DIED]: '当角色死亡时触发',
     [GameEvents.CHARACTER_HEALED]: '当角色被治疗时触发',
     [GameEvents.CHARACTER_RESET]: '当角色属性被重置时触发',
+    [GameEvents.STATUS_EFFECT_APPLIED]: '当角色被施加或叠加状态效果（灼烧、冰冻、减速、中毒、眩晕）时触发',
+    [GameEvents.STATUS_EFFECT_REMOVED]: '当角色的状态效果到期、死亡或被清除时触发',
     [GameEvents.PLAYER_MOVED]: '当玩家位置发生变化时触发',
     [GameEvents.PLAYER_DAMAGED]: '当玩家受到伤害时触发',
     [GameEvents.PLAYER_HEALTH_CHANGED]: '当玩家血量发生变化时触发',
+    [GameEvents.PLAYER_DODGED]: '当玩家闪避翻滚并获得无敌时间时触发',
+    [GameEvents.PLAYER_ABILITY_USED]: '当玩家施放技能栏中的技能时触发',
     [GameEvents.MONSTER_DEATH_ANIMATION_FINISHED]: '当怪物死亡动画播放完成时触发',
+    [GameEvents.ELITE_AFFIXES_APPLIED]: '当精英怪物生成并施加词缀后触发',
+    [GameEvents.BOSS_ENCOUNTER_STARTED]: '当Boss生成并开始战斗时触发',
+    [GameEvents.BOSS_PHASE_CHANGED]: '当Boss生命值降到阈值并进入新阶段时触发',
+    [GameEvents.BOSS_ENRAGED]: '当Boss狂暴计时结束进入狂暴时触发',
+    [GameEvents.BOSS_DEFEATED]: '当Boss被击败时触发',
+    [GameEvents.LOOT_DROPPED]: '当敌人死亡并按掉落表产生掉落物时触发',
+    [GameEvents.PICKUP_COLLECTED]: '当玩家拾取掉落物时触发',
+    [GameEvents.EXP_GAINED]: '当玩家阵营击杀敌人或拾取经验获得经验时触发',
+    [GameEvents.PLAYER_LEVEL_UP]: '当玩家经验达到升级要求并提升等级时触发',
+    [GameEvents.SKILL_CAST_STARTED]: '当角色开始施放技能时触发',
+    [GameEvents.SKILL_CAST_FINISHED]: '当技能施放流程（含后摇）完成时触发',
+    [GameEvents.SKILL_CAST_INTERRUPTED]: '当技能施放被硬直或死亡打断时触发',
     [GameEvents.LEVEL_STARTED]: '当关卡开始时触发',
     [GameEvents.LEVEL_ENDED]: '当关卡结束时触发',
-    [GameEvents.LEVEL_DATA_LOADED]: '当关卡数据加载完成时触发'
+    [GameEvents.LEVEL_DATA_LOADED]: '当关卡数据加载完成时触发',
+    [GameEvents.LEVEL_OBJECTIVE_UPDATED]: '当关卡目标进度变化时触发',
+    [GameEvents.LEVEL_OBJECTIVE_COMPLETED]: '当关卡目标完成时触发',
+    [GameEvents.LEVEL_OBJECTIVE_FAILED]: '当关卡目标失败时触发',
+    [GameEvents.LEVEL_VICTORY]: '当所有必需关卡目标完成时触发',
+    [GameEvents.LEVEL_DEFEAT]: '当必需关卡目标失败或关卡超时时触发',
+    [GameEvents.SPAWNER_DESTROYED]: '当怪物生成器被摧毁并停止生成时触发',
+    [GameEvents.WAVE_STARTED]: '当波次模式生成器开始新的一波时触发',
+    [GameEvents.WAVE_CLEARED]: '当一波生成的怪物全部死亡时触发',
+    [GameEvents.WAVES_COMPLETED]: '当非循环波次生成器的所有波次都已清场时触发',
+    [GameEvents.BATTLE_SAVED]: '当战斗快照写入本地存储时触发',
+    [GameEvents.BATTLE_LOADED]: '当从本地存储恢复战斗快照完成时触发',
+    [GameEvents.REPLAY_RECORDED]: '当输入录制停止并生成回放数据时触发',
+    [GameEvents.REPLAY_STARTED]: '当输入回放开始时触发（真实输入被屏蔽）',
+    [GameEvents.REPLAY_FINISHED]: '当输入回放播放完毕或被中止时触发'
 };
 
 /**
@@ -168,6 +330,7 @@ export const EventCategories = {
     /** 游戏状态相关事件 */
     GameState: [
         GameEvents.GAME_DATA_LOADED,
+        GameEvents.GAME_DATA_RELOADED,
         GameEvents.GAME_STATE_CHANGED,
         GameEvents.GAME_MODE_CHANGED
     ],
@@ -178,18 +341,83 @@ export const EventCategories = {
         GameEvents.CHARACTER_DAMAGED,
         GameEvents.CHARACTER_DIED,
         GameEvents.CHARACTER_HEALED,
-        GameEvents.CHARACTER_RESET
+        GameEvents.CHARACTER_RESET,
+        GameEvents.STATUS_EFFECT_APPLIED,
+        GameEvents.STATUS_EFFECT_REMOVED
     ],
     
     /** 玩家专用事件 */
     Player: [
         GameEvents.PLAYER_MOVED,
         GameEvents.PLAYER_DAMAGED,
-        GameEvents.PLAYER_HEALTH_CHANGED
+        GameEvents.PLAYER_HEALTH_CHANGED,
+        GameEvents.PLAYER_DODGED,
+        GameEvents.PLAYER_ABILITY_USED
     ],
     
     /** 怪物专用事件 */
     Monster: [
-        GameEvents.MONSTER_DEATH_ANIMATION_FINISHED
+        GameEvents.MONSTER_DEATH_ANIMATION_FINISHED,
+        GameEvents.ELITE_AFFIXES_APPLIED
+    ],
+    
+    /** Boss战斗事件 */
+    Boss: [
+        GameEvents.BOSS_ENCOUNTER_STARTED,
+        GameEvents.BOSS_PHASE_CHANGED,
+        GameEvents.BOSS_ENRAGED,
+        GameEvents.BOSS_DEFEATED
+    ],
+    
+    /** 掉落系统事件 */
+    Loot: [
+        GameEvents.LOOT_DROPPED,
+        GameEvents.PICKUP_COLLECTED
+    ],
+    
+    /** 经验系统事件 */
+    Experience: [
+        GameEvents.EXP_GAINED,
+        GameEvents.PLAYER_LEVEL_UP
+    ],
+    
+    /** 技能系统事件 */
+    Skill: [
+        GameEvents.SKILL_CAST_STARTED,
+        GameEvents.SKILL_CAST_FINISHED,
+        GameEvents.SKILL_CAST_INTERRUPTED
+    ],
+    
+    /** 关卡系统事件 */
+    Level: [
+        GameEvents.LEVEL_STARTED,
+        GameEvents.LEVEL_ENDED,
+        GameEvents.LEVEL_DATA_LOADED,
+        GameEvents.LEVEL_OBJECTIVE_UPDATED,
+        GameEvents.LEVEL_OBJECTIVE_COMPLETED,
+        GameEvents.LEVEL_OBJECTIVE_FAILED,
+        GameEvents.LEVEL_VICTORY,
+        GameEvents.LEVEL_DEFEAT,
+        GameEvents.SPAWNER_DESTROYED
+    ],
+    
+    /** 波次系统事件 */
+    Wave: [
+        GameEvents.WAVE_STARTED,
+        GameEvents.WAVE_CLEARED,
+        GameEvents.WAVES_COMPLETED
+    ],
+    
+    /** 战斗存档事件 */
+    Save: [
+        GameEvents.BATTLE_SAVED,
+        GameEvents.BATTLE_LOADED
+    ],
+    
+    /** 输入回放事件 */
+    Replay: [
+        GameEvents.REPLAY_RECORDED,
+        GameEvents.REPLAY_STARTED,
+        GameEvents.REPLAY_FINISHED
     ]
 }; 
\ No newline at end of file
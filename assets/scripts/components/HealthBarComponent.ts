@@ -1,7 +1,8 @@
 // assets/scripts/components/HealthBarComponent.ts
 
-import { _decorator, Component, Node, Graphics, UITransform, Color } from 'cc';
+import { _decorator, Component, Node, Graphics, UITransform, Color, RichText } from 'cc';
 import { systemConfigManager } from '../configs/SystemConfig';
+import { EliteAffixData } from '../configs/EliteAffixConfig';
 
 const { ccclass, property } = _decorator;
 
@@ -57,6 +58,8 @@ export class HealthBarComponent extends Component {
         
         // 监听新目标的血量变化事件
         this._targetNode.on('health-changed', this.onHealthChanged, this);
+        // 【新增】监听精英词缀变化事件
+        this._targetNode.on('affixes-changed', this.onAffixesChanged, this);
         
         // 重新创建血条以应用新的角色类型样式
         if (this.healthBarNode) {
@@ -76,6 +79,7 @@ export class HealthBarComponent extends Component {
         if (this._targetNode) {
             // 关键：解除事件监听，防止内存泄漏
             this._targetNode.off('health-changed', this.onHealthChanged, this);
+            this._targetNode.off('affixes-changed', this.onAffixesChanged, this);
             
             if (this.showDebugInfo) {
                 console.log(`[HealthBarComponent] 从节点 ${this._targetNode.name} 解绑`);
@@ -108,6 +112,54 @@ export class HealthBarComponent extends Component {
         }
     }
 
+    /**
+     * 接收到精英词缀变化事件后的回调函数
+     * @param affixes 当前词缀列表（为空表示已清除）
+     */
+    private onAffixesChanged(affixes: readonly EliteAffixData[]): void {
+        if (this.healthBarNode) {
+            HealthBarComponent.renderAffixLabel(this.healthBarNode, affixes);
+        }
+    }
+
+    /**
+     * 在血条上方显示精英词缀名称（按词缀颜色着色）
+     * 内置血条和 HealthBarComponent 共用此方法
+     * @param barNode 血条节点
+     * @param affixes 词缀列表，为空时隐藏名称
+     */
+    public static renderAffixLabel(barNode: Node, affixes: readonly EliteAffixData[]): void {
+        let labelNode = barNode.getChildByName('AffixLabel');
+
+        if (affixes.length === 0) {
+            if (labelNode) {
+                labelNode.active = false;
+            }
+            return;
+        }
+
+        if (!labelNode) {
+            labelNode = new Node('AffixLabel');
+            labelNode.setParent(barNode);
+            labelNode.addComponent(UITransform);
+            const richText = labelNode.addComponent(RichText);
+            richText.fontSize = 12;
+            richText.lineHeight = 14;
+        }
+
+        // 放在血条正上方
+        const barTransform = barNode.getComponent(UITransform);
+        const barHeight = barTransform ? barTransform.contentSize.height : 4;
+        labelNode.setPosition(0, barHeight / 2 + 8, 0);
+        labelNode.active = true;
+
+        const richText = labelNode.getComponent(RichText)!;
+        richText.string = affixes.map(affix => {
+            const hex = new Color(affix.color[0], affix.color[1], affix.color[2], 255).toHEX('#rrggbb');
+            return `<color=#${hex}>${affix.name}</color>`;
+        }).join(' ');
+    }
+
     /**
      * 创建血条UI
      */
@@ -178,6 +230,12 @@ export class HealthBarComponent extends Component {
         // 初始化显示
         this.updateHealthBar();
         
+        // 血条重建后恢复词缀名称显示
+        const affixComponent = this._targetNode?.getComponent('EliteAffixComponent') as any;
+        if (this.healthBarNode && affixComponent && affixComponent.hasAffixes) {
+            HealthBarComponent.renderAffixLabel(this.healthBarNode, affixComponent.affixes);
+        }
+        
         if (this.showDebugInfo) {
             console.log(`[HealthBarComponent] 血条已创建 - 类型: ${this._characterType}`);
             console.log(`- 血条配置: ${finalConfig.width}x${finalConfig.height}, Y=${finalConfig.offsetY}px`);
@@ -1,7 +1,7 @@
 // assets/scripts/core/MonsterAI.ts
 
 import { _decorator, Component, Node, Vec3, Vec2 } from 'cc';
-import { EnemyData } from '../configs/EnemyConfig';
+import { EnemyData, AiBehavior } from '../configs/EnemyConfig';
 import { Faction } from '../configs/FactionConfig';
 
 const { ccclass, property } = _decorator;
@@ -26,9 +26,32 @@ export enum AIState {
 export enum AIBehaviorType {
     MELEE = 'melee',            // 近战型AI
     RANGED = 'ranged',          // 远程型AI
-    MIXED = 'mixed'             // 混合型AI
+    MIXED = 'mixed',            // 混合型AI
+    PASSIVE = 'passive',        // 被动型AI：受击后才反击
+    SUPPORT = 'support',        // 辅助型AI：跟随友军并治疗/增益
+    KAMIKAZE = 'kamikaze'       // 自爆型AI：冲向目标并自爆
 }
 
+/**
+ * 根据敌人配置的 ai 字段获取AI行为类型
+ * @param enemyData 敌人数据配置
+ * @returns AI行为类型
+ */
+export function getAIBehaviorTypeFromEnemyData(enemyData: EnemyData): AIBehaviorType {
+    switch (enemyData.ai) {
+        case AiBehavior.Ranged:
+            return AIBehaviorType.RANGED;
+        case AiBehavior.Passive:
+            return AIBehaviorType.PASSIVE;
+        case AiBehavior.Support:
+            return AIBehaviorType.SUPPORT;
+        case AiBehavior.Kamikaze:
+            return AIBehaviorType.KAMIKAZE;
+        case AiBehavior.Melee:
+        default:
+            return AIBehaviorType.MELEE;
+    }
+}
 
 
 /**
@@ -1,5 +1,6 @@
 import { _decorator, Component, Vec2, Node, Enum } from 'cc';
 import { ICrowdableCharacter } from '../systems/GridManager'; // 复用GridManager中的接口
+import { StatusEffectComponent } from './StatusEffectComponent';
 
 const { ccclass, property } = _decorator;
 
@@ -114,6 +115,7 @@ export class OrcaAgent extends Component {
 
     // --- 引用 ---
     private _character: ICrowdableCharacter | null = null;
+    private _statusEffects: StatusEffectComponent | null = null;
     
     /**
      * 获取关联的角色组件
@@ -167,20 +169,32 @@ export class OrcaAgent extends Component {
 
     /**
      * 获取角色的最大速度
+     * 减速、冰冻、眩晕等状态效果的速度倍率在此生效（包括冲刺等 maxSpeed 覆盖）
      */
     public getMaxSpeed(): number {
+        const statusMultiplier = this.getStatusSpeedMultiplier();
         
         if (this.maxSpeed > 0) {
-            return this.maxSpeed;
+            return this.maxSpeed * statusMultiplier;
         }
         
         const char = this.character;
         if (char) {
             const speed = char.getMoveSpeed();
-            return speed;
+            return speed * statusMultiplier;
         }
         
-        return 5; // 默认速度
+        return 5 * statusMultiplier; // 默认速度
+    }
+
+    /**
+     * 获取状态效果的移动速度倍率
+     */
+    private getStatusSpeedMultiplier(): number {
+        if (!this._statusEffects || !this._statusEffects.isValid) {
+            this._statusEffects = this.getComponent(StatusEffectComponent);
+        }
+        return this._statusEffects ? this._statusEffects.moveSpeedMultiplier : 1.0;
     }
 
     /**
@@ -216,10 +230,11 @@ export class OrcaAgent extends Component {
 
     /**
      * 设置角色的速度（通过刚体）
+     * 击退中的角色由物理冲量控制速度，不覆盖
      */
     public setVelocity(velocity: Vec2): void {
         const char = this.character;
-        if (char) {
+        if (char && !(char.isKnockedBack && char.isKnockedBack())) {
             const rb = char.getRigidBody();
             if (rb) {
                 rb.linearVelocity = velocity;
@@ -0,0 +1,149 @@
+// assets/scripts/components/PickupItem.ts
+
+import { _decorator, Component, Node, Graphics, UITransform, Color } from 'cc';
+import { PickupItemData, PickupType, DROP_DEFAULTS } from '../configs/DropConfig';
+import { Faction } from '../configs/FactionConfig';
+import { eventManager } from '../managers/EventManager';
+import { gridManager } from '../systems/GridManager';
+import { CharacterStats } from './CharacterStats';
+import { GameEvents } from './GameEvents';
+import { simulationManager } from '../managers/SimulationManager';
+
+const { ccclass } = _decorator;
+
+/**
+ * 世界掉落物组件
+ * 由 DropManager 从节点池取出并初始化；玩家阵营角色进入拾取范围时自动拾取，
+ * 超过存在时间未拾取则消失。拾取或消失后通过回调交还 DropManager 回收。
+ */
+@ccclass('PickupItem')
+export class PickupItem extends Component {
+
+    private _itemData: PickupItemData | null = null;
+    private _count: number = 0;
+    private _lifetime: number = 0;
+    private _checkTimer: number = 0;
+    private _onFinished: ((node: Node) => void) | null = null;
+
+    private _graphics: Graphics | null = null;
+
+    public get itemData(): PickupItemData | null {
+        return this._itemData;
+    }
+
+    public get count(): number {
+        return this._count;
+    }
+
+    /**
+     * 初始化掉落物
+     * @param itemData 掉落物定义
+     * @param count 数量
+     * @param onFinished 拾取或消失后的回收回调
+     */
+    public init(itemData: PickupItemData, count: number, onFinished: (node: Node) => void): void {
+        this._itemData = itemData;
+        this._count = count;
+        this._lifetime = itemData.lifetime || DROP_DEFAULTS.pickupLifetime;
+        this._checkTimer = 0;
+        this._onFinished = onFinished;
+
+        this.draw();
+    }
+
+    /**
+     * 清理状态（回收到节点池时调用）
+     */
+    public reset(): void {
+        this._itemData = null;
+        this._count = 0;
+        this._lifetime = 0;
+        this._onFinished = null;
+        if (this._graphics) {
+            this._graphics.clear();
+        }
+    }
+
+    /**
+     * 绘制掉落物：带描边的圆形，数量越多略大
+     */
+    private draw(): void {
+        if (!this._itemData) {
+            return;
+        }
+
+        if (!this._graphics) {
+            const transform = this.getComponent(UITransform) || this.addComponent(UITransform);
+            transform.setContentSize(32, 32);
+            this._graphics = this.getComponent(Graphics) || this.addComponent(Graphics);
+        }
+
+        const baseSize = this._itemData.size || 8;
+        const radius = baseSize + Math.min(4, this._count - 1);
+        const [r, g, b] = this._itemData.color;
+
+        this._graphics.clear();
+        this._graphics.fillColor = new Color(r, g, b, 255);
+        this._graphics.circle(0, 0, radius);
+        this._graphics.fill();
+        this._graphics.strokeColor = new Color(255, 255, 255, 200);
+        this._graphics.lineWidth = 1;
+        this._graphics.circle(0, 0, radius);
+        this._graphics.stroke();
+    }
+
+    protected update(frameDeltaTime: number): void {
+        const deltaTime = simulationManager.getDeltaTime(frameDeltaTime);
+        if (!this._itemData) {
+            return;
+        }
+
+        this._lifetime -= deltaTime;
+        if (this._lifetime <= 0) {
+            this.finish();
+            return;
+        }
+
+        this._checkTimer -= deltaTime;
+        if (this._checkTimer > 0) {
+            return;
+        }
+        this._checkTimer = DROP_DEFAULTS.checkInterval;
+
+        const players = gridManager.getNearbyCharacters(this.node.position, DROP_DEFAULTS.pickupRadius, Faction.PLAYER);
+        for (const player of players) {
+            if (player.isAlive()) {
+                this.collect(player.node);
+                return;
+            }
+        }
+    }
+
+    /**
+     * 被拾取：执行物品效果并发送拾取事件
+     */
+    private collect(collector: Node): void {
+        const itemData = this._itemData!;
+        const count = this._count;
+
+        if (itemData.type === PickupType.Heal) {
+            const stats = collector.getComponent(CharacterStats);
+            if (stats) {
+                stats.heal(itemData.value * count);
+            }
+        }
+
+        console.log(`PickupItem: ${collector.name} 拾取了 ${itemData.name} x${count}`);
+        eventManager.emit(GameEvents.PICKUP_COLLECTED, collector, itemData, count);
+
+        this.finish();
+    }
+
+    private finish(): void {
+        const onFinished = this._onFinished;
+        this.reset();
+        if (onFinished) {
+            onFinished(this.node);
+        }
+    }
+}
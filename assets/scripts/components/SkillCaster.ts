@@ -0,0 +1,782 @@
+// assets/scripts/components/SkillCaster.ts
+
+import { _decorator, Component, Node, Vec3 } from 'cc';
+import { EnemyData, EnemySkill } from '../configs/EnemyConfig';
+import { SkillData, SkillEffectType, SkillPhase, SkillTargetType } from '../configs/SkillConfig';
+import { DamageInfo } from '../configs/DamageConfig';
+import { AreaEffectData, AreaShape } from '../configs/AreaEffectConfig';
+import { StatModifierSource } from '../configs/StatModifierConfig';
+import { ControlMode } from '../state-machine/CharacterEnums';
+import { dataManager } from '../managers/DataManager';
+import { eventManager } from '../managers/EventManager';
+import { areaEffectManager } from '../managers/AreaEffectManager';
+import { gridManager, ICrowdableCharacter } from '../systems/GridManager';
+import { CharacterPoolFactory, CharacterPoolInitializer } from '../pool/CharacterPoolSystem';
+import { FireballLauncher } from '../controllers/FireballLauncher';
+import { CharacterStats } from './CharacterStats';
+import { GameEvents } from './GameEvents';
+import { AIBehaviorType, getAIBehaviorTypeFromEnemyData } from './MonsterAI';
+import { gameRandom } from '../utils/SeededRandom';
+import { simulationManager } from '../managers/SimulationManager';
+
+const { ccclass } = _decorator;
+
+/**
+ * 技能槽位 - 运行时的单个技能状态
+ */
+interface SkillSlot {
+    config: EnemySkill;         // 敌人配置中的技能条目（等级、冷却、概率）
+    data: SkillData;            // skills.json 中的技能定义
+    lastCastTime: number;       // 上次施放时间（秒）
+    nextRollTime: number;       // 概率判定失败后，下次允许判定的时间（秒）
+}
+
+/**
+ * 施法者接口 - 阵营判定之外还需要控制模式（AI 施法者的投射物会预判目标移动）
+ */
+export interface ISkillCasterOwner extends ICrowdableCharacter {
+    readonly controlMode: ControlMode;
+}
+
+/**
+ * 技能施放组件
+ * 负责读取 EnemyData.skills 并结合 skills.json 中的技能定义，管理冷却、概率判定、
+ * 目标选择以及 施法 -> 引导 -> 后摇 的阶段推进。
+ * 阶段变化通过节点事件 'skill-phase-changed' 通知角色播放对应动画。
+ */
+@ccclass('SkillCaster')
+export class SkillCaster extends Component {
+
+    // 概率判定失败后的重试间隔（秒），避免每次AI决策都重新掷骰
+    private readonly CHANCE_RETRY_INTERVAL = 1.0;
+
+    private _slots: SkillSlot[] = [];
+
+    // 技能循环（Boss阶段使用）：设置后只按顺序施放循环中的技能
+    private _rotationSlots: SkillSlot[] | null = null;
+    private _rotationIndex: number = 0;
+
+    // 冷却倍率（狂暴等效果使用）
+    private _cooldownMultiplier: number = 1.0;
+    private _owner: ISkillCasterOwner | null = null;
+    private _stats: CharacterStats | null = null;
+
+    // 待施放技能（由 prepareCast 选出，由 beginCast 开始）
+    private _pendingSlot: SkillSlot | null = null;
+    private _pendingTarget: Node | null = null;
+
+    // 当前施放状态
+    private _phase: SkillPhase = SkillPhase.Idle;
+    private _activeSlot: SkillSlot | null = null;
+    private _activeTarget: Node | null = null;
+    private _phaseTimer: number = 0;
+    private _channelTickTimer: number = 0;
+    private _onFinished: (() => void) | null = null;
+
+    // 召唤物记录（用于限制最大存活数量）
+    private _summonedNodes: Node[] = [];
+
+    // ========== 初始化 ==========
+
+    /**
+     * 根据敌人配置初始化技能槽位（热重载时重新调用，保留仍存在的技能的冷却进度）
+     * @param enemyData 敌人数据配置
+     * @param owner 施法者（用于阵营判定和控制模式）
+     */
+    public initWithEnemyData(enemyData: EnemyData, owner: ISkillCasterOwner): void {
+        this._owner = owner;
+        this._stats = this.getComponent(CharacterStats);
+        const previousSlots = this._slots;
+        this._slots = [];
+
+        if (!enemyData.skills || enemyData.skills.length === 0) {
+            return;
+        }
+
+        for (const skillConfig of enemyData.skills) {
+            const slot = this.createSlot(skillConfig);
+            if (!slot) {
+                console.warn(`SkillCaster: 未找到技能定义 ${skillConfig.id}（敌人: ${enemyData.id}），已跳过`);
+                continue;
+            }
+            const previous = previousSlots.find(s => s.data.id === skillConfig.id);
+            if (previous) {
+                slot.lastCastTime = previous.lastCastTime;
+                slot.nextRollTime = previous.nextRollTime;
+            }
+            this._slots.push(slot);
+        }
+
+        console.log(`SkillCaster: ${enemyData.id} 加载了 ${this._slots.length} 个技能: ${this._slots.map(s => s.data.id).join(', ')}`);
+    }
+
+    private createSlot(skillConfig: EnemySkill): SkillSlot | null {
+        const skillData = dataManager.getSkillDataById(skillConfig.id);
+        if (!skillData) {
+            return null;
+        }
+        return {
+            config: skillConfig,
+            data: skillData,
+            lastCastTime: -Infinity,
+            nextRollTime: 0
+        };
+    }
+
+    /**
+     * 设置技能循环，传入 null 恢复为按冷却和概率自由选择
+     * @param skills 循环中的技能，按数组顺序依次施放
+     */
+    public setRotation(skills: EnemySkill[] | null): void {
+        this.cancelPendingCast();
+        this._rotationIndex = 0;
+
+        if (!skills) {
+            this._rotationSlots = null;
+            return;
+        }
+
+        this._rotationSlots = [];
+        for (const skillConfig of skills) {
+            const slot = this.createSlot(skillConfig);
+            if (!slot) {
+                console.warn(`SkillCaster: [${this.node.name}] 技能循环中未找到技能定义 ${skillConfig.id}，已跳过`);
+                continue;
+            }
+            this._rotationSlots.push(slot);
+        }
+
+        console.log(`SkillCaster: [${this.node.name}] 技能循环: ${this._rotationSlots.map(s => s.data.id).join(' -> ')}`);
+    }
+
+    /**
+     * 热重载技能定义：从 DataManager 重新读取所有槽位（包括技能循环和施放中的槽位）的技能数据，冷却进度保持不变
+     * @param skillIds 发生变化的技能ID，缺省时刷新全部
+     * @returns 刷新的槽位数量
+     */
+    public refreshSkillData(skillIds?: string[]): number {
+        const slots = new Set<SkillSlot>(this._slots);
+        for (const slot of this._rotationSlots || []) {
+            slots.add(slot);
+        }
+        if (this._activeSlot) {
+            slots.add(this._activeSlot);
+        }
+        if (this._pendingSlot) {
+            slots.add(this._pendingSlot);
+        }
+
+        let count = 0;
+        for (const slot of slots) {
+            if (skillIds && skillIds.indexOf(slot.data.id) === -1) {
+                continue;
+            }
+            const skillData = dataManager.getSkillDataById(slot.data.id);
+            if (skillData) {
+                slot.data = skillData;
+                count++;
+            }
+        }
+        return count;
+    }
+
+    /**
+     * 设置冷却倍率，例如 0.5 表示冷却减半
+     */
+    public setCooldownMultiplier(multiplier: number): void {
+        this._cooldownMultiplier = Math.max(0, multiplier);
+    }
+
+    // ========== 状态查询 ==========
+
+    public get phase(): SkillPhase {
+        return this._phase;
+    }
+
+    public get isCasting(): boolean {
+        return this._phase !== SkillPhase.Idle;
+    }
+
+    public get hasSkills(): boolean {
+        return this._rotationSlots ? this._rotationSlots.length > 0 : this._slots.length > 0;
+    }
+
+    public get hasPendingCast(): boolean {
+        return this._pendingSlot !== null;
+    }
+
+    /**
+     * 当前施放的技能定义（用于动画和UI）
+     */
+    public getActiveSkill(): SkillData | null {
+        return this._activeSlot ? this._activeSlot.data : null;
+    }
+
+    /**
+     * 当前施放中的技能能否被硬直打断
+     */
+    public isInterruptible(): boolean {
+        if (!this._activeSlot) {
+            return true;
+        }
+        return this._activeSlot.data.interruptible !== false;
+    }
+
+    /**
+     * 获取技能剩余冷却时间（秒）
+     */
+    public getRemainingCooldown(skillId: string): number {
+        const slots = this._rotationSlots || this._slots;
+        const slot = slots.find(s => s.data.id === skillId);
+        if (!slot) {
+            return 0;
+        }
+        const now = simulationManager.now() / 1000;
+        return Math.max(0, this.getCooldown(slot) - (now - slot.lastCastTime));
+    }
+
+    private getCooldown(slot: SkillSlot): number {
+        return slot.config.cooldown * this._cooldownMultiplier;
+    }
+
+    // ========== 技能选择 ==========
+
+    /**
+     * 选择一个可施放的技能作为待施放技能
+     * 设置了技能循环时只考虑循环中的下一个技能
+     * @param enemyTarget 当前敌对目标，为空时只会选出不需要敌对目标的技能（治疗、增益等）
+     * @returns 是否选出了技能
+     */
+    public prepareCast(enemyTarget: Node | null): boolean {
+        if (this.isCasting || !this.hasSkills) {
+            return false;
+        }
+        if (this._stats && !this._stats.isAlive) {
+            return false;
+        }
+
+        if (this._rotationSlots) {
+            return this.prepareRotationCast(enemyTarget);
+        }
+
+        const now = simulationManager.now() / 1000;
+
+        for (const slot of this._slots) {
+            if (this.tryPrepareSlot(slot, enemyTarget, now)) {
+                return true;
+            }
+        }
+
+        return false;
+    }
+
+    /**
+     * 技能循环模式：只检查循环中的下一个技能
+     * 冷却中则等待；目标条件不满足时跳到下一个，避免循环卡死
+     */
+    private prepareRotationCast(enemyTarget: Node | null): boolean {
+        const rotation = this._rotationSlots!;
+        const slot = rotation[this._rotationIndex % rotation.length];
+        const now = simulationManager.now() / 1000;
+
+        if (now - slot.lastCastTime < this.getCooldown(slot) || now < slot.nextRollTime) {
+            return false;
+        }
+
+        if (!this.resolveTarget(slot.data, enemyTarget)) {
+            this._rotationIndex = (this._rotationIndex + 1) % rotation.length;
+            return false;
+        }
+
+        return this.tryPrepareSlot(slot, enemyTarget, now);
+    }
+
+    /**
+     * 依次检查：冷却 -> 目标条件 -> 概率判定，全部通过则设为待施放技能
+     */
+    private tryPrepareSlot(slot: SkillSlot, enemyTarget: Node | null, now: number): boolean {
+        if (now - slot.lastCastTime < this.getCooldown(slot) || now < slot.nextRollTime) {
+            return false;
+        }
+
+        const target = this.resolveTarget(slot.data, enemyTarget);
+        if (!target) {
+            return false;
+        }
+
+        // 概率判定：失败后等待一段时间再判定，保证 chance 的含义与决策频率无关
+        if (gameRandom.next() >= slot.config.chance) {
+            slot.nextRollTime = now + this.CHANCE_RETRY_INTERVAL;
+            return false;
+        }
+
+        this._pendingSlot = slot;
+        this._pendingTarget = target;
+        return true;
+    }
+
+    /**
+     * 取消待施放技能
+     */
+    public cancelPendingCast(): void {
+        this._pendingSlot = null;
+        this._pendingTarget = null;
+    }
+
+    /**
+     * 根据技能目标类型确定施放目标
+     * @returns 目标节点；条件不满足时返回 null
+     */
+    private resolveTarget(skill: SkillData, enemyTarget: Node | null): Node | null {
+        switch (skill.targetType) {
+            case SkillTargetType.Ally:
+                return this.findAllyTarget(skill);
+
+            case SkillTargetType.Self:
+                if (skill.effectType === SkillEffectType.Heal) {
+                    return this.isBelowHealthThreshold(this.node, skill) ? this.node : null;
+                }
+                // 自身为中心的战斗技能：要求敌对目标在施放距离内
+                return this.isEnemyInRange(enemyTarget, skill.range) ? this.node : null;
+
+            case SkillTargetType.Enemy:
+            default:
+                return this.isEnemyInRange(enemyTarget, skill.range) ? enemyTarget : null;
+        }
+    }
+
+    private isEnemyInRange(target: Node | null, range: number): boolean {
+        if (!target || !target.isValid || !target.active) {
+            return false;
+        }
+        const targetStats = target.getComponent(CharacterStats);
+        if (targetStats && !targetStats.isAlive) {
+            return false;
+        }
+        return Vec3.distance(this.node.position, target.position) <= range;
+    }
+
+    private isBelowHealthThreshold(target: Node, skill: SkillData): boolean {
+        const stats = target.getComponent(CharacterStats);
+        if (!stats || !stats.isAlive) {
+            return false;
+        }
+        const threshold = skill.minHealthPercent !== undefined ? skill.minHealthPercent : 1.0;
+        return stats.currentHealth / stats.maxHealth < threshold;
+    }
+
+    /**
+     * 在施放距离内寻找生命百分比最低的友军（包括自身）
+     */
+    private findAllyTarget(skill: SkillData): Node | null {
+        if (!this._owner) {
+            return null;
+        }
+
+        const allies = gridManager.getNearbyCharacters(this.node.position, skill.range, this._owner.getFaction());
+        let bestNode: Node | null = this.isBelowHealthThreshold(this.node, skill) ? this.node : null;
+        let lowestPercent = bestNode ? this.getHealthPercent(this.node) : Infinity;
+
+        for (const ally of allies) {
+            if (!ally.isAlive() || !this.isBelowHealthThreshold(ally.node, skill)) {
+                continue;
+            }
+            const percent = this.getHealthPercent(ally.node);
+            if (percent < lowestPercent) {
+                lowestPercent = percent;
+                bestNode = ally.node;
+            }
+        }
+
+        return bestNode;
+    }
+
+    private getHealthPercent(target: Node): number {
+        const stats = target.getComponent(CharacterStats);
+        return stats && stats.maxHealth > 0 ? stats.currentHealth / stats.maxHealth : 1;
+    }
+
+    // ========== 施放流程 ==========
+
+    /**
+     * 开始施放待施放技能（由 CastingState 调用）
+     * @param onFinished 整个施放流程结束（后摇完成）时的回调
+     * @returns 是否成功开始施放
+     */
+    public beginCast(onFinished: () => void): boolean {
+        const slot = this._pendingSlot;
+        if (!slot) {
+            return false;
+        }
+
+        this._activeSlot = slot;
+        this._activeTarget = this._pendingTarget;
+        this._pendingSlot = null;
+        this._pendingTarget = null;
+        this._onFinished = onFinished;
+
+        slot.lastCastTime = simulationManager.now() / 1000;
+
+        // 技能循环推进到下一个技能
+        if (this._rotationSlots && this._rotationSlots.indexOf(slot) !== -1) {
+            this._rotationIndex = (this._rotationIndex + 1) % this._rotationSlots.length;
+        }
+
+        console.log(`SkillCaster: [${this.node.name}] 开始施放 ${slot.data.name} (Lv.${slot.config.level})`);
+        eventManager.emit(GameEvents.SKILL_CAST_STARTED, this, slot.data);
+
+        this.enterPhase(SkillPhase.Casting, slot.data.castTime);
+        return true;
+    }
+
+    /**
+     * 打断当前施放（硬直、死亡或回收时调用）
+     * 已进入冷却的技能不会返还冷却
+     */
+    public interrupt(): void {
+        if (!this.isCasting) {
+            this.cancelPendingCast();
+            return;
+        }
+
+        const skill = this._activeSlot ? this._activeSlot.data : null;
+        console.log(`SkillCaster: [${this.node.name}] 技能 ${skill?.name} 被打断`);
+
+        this.clearActiveCast();
+        if (skill) {
+            eventManager.emit(GameEvents.SKILL_CAST_INTERRUPTED, this, skill);
+        }
+    }
+
+    /**
+     * 重置所有冷却和施放状态（对象池重用时调用）
+     */
+    public resetState(): void {
+        this.clearActiveCast();
+        this.cancelPendingCast();
+        this._summonedNodes = [];
+        this._rotationSlots = null;
+        this._rotationIndex = 0;
+        this._cooldownMultiplier = 1.0;
+        for (const slot of this._slots) {
+            slot.lastCastTime = -Infinity;
+            slot.nextRollTime = 0;
+        }
+    }
+
+    protected update(frameDeltaTime: number): void {
+        const deltaTime = simulationManager.getDeltaTime(frameDeltaTime);
+        if (this._phase === SkillPhase.Idle || !this._activeSlot) {
+            return;
+        }
+
+        this._phaseTimer -= deltaTime;
+        const skill = this._activeSlot.data;
+
+        switch (this._phase) {
+            case SkillPhase.Casting:
+                if (this._phaseTimer <= 0) {
+                    this.applySkillEffect(this._activeSlot);
+                    if (skill.channelTime && skill.channelTime > 0) {
+                        this._channelTickTimer = skill.channelTickInterval || skill.channelTime;
+                        this.enterPhase(SkillPhase.Channeling, skill.channelTime);
+                    } else {
+                        this.enterPhase(SkillPhase.Recovery, skill.recoveryTime);
+                    }
+                }
+                break;
+
+            case SkillPhase.Channeling:
+                this._channelTickTimer -= deltaTime;
+                if (this._channelTickTimer <= 0 && this._phaseTimer > 0) {
+                    this._channelTickTimer += skill.channelTickInterval || skill.channelTime || 0;
+                    this.applySkillEffect(this._activeSlot);
+                }
+                if (this._phaseTimer <= 0) {
+                    this.enterPhase(SkillPhase.Recovery, skill.recoveryTime);
+                }
+                break;
+
+            case SkillPhase.Recovery:
+                if (this._phaseTimer <= 0) {
+                    this.finishCast();
+                }
+                break;
+        }
+    }
+
+    private enterPhase(phase: SkillPhase, duration: number): void {
+        this._phase = phase;
+        this._phaseTimer = Math.max(0, duration || 0);
+        this.node.emit('skill-phase-changed', phase, this._activeSlot ? this._activeSlot.data : null);
+    }
+
+    private finishCast(): void {
+        const skill = this._activeSlot ? this._activeSlot.data : null;
+        const onFinished = this._onFinished;
+
+        this.clearActiveCast();
+        if (skill) {
+            eventManager.emit(GameEvents.SKILL_CAST_FINISHED, this, skill);
+        }
+        if (onFinished) {
+            onFinished();
+        }
+    }
+
+    private clearActiveCast(): void {
+        this._phase = SkillPhase.Idle;
+        this._activeSlot = null;
+        this._activeTarget = null;
+        this._phaseTimer = 0;
+        this._channelTickTimer = 0;
+        this._onFinished = null;
+    }
+
+    // ========== 技能效果 ==========
+
+    /**
+     * 技能等级带来的数值倍率
+     */
+    private getLevelMultiplier(slot: SkillSlot): number {
+        const scaling = slot.data.levelScaling || 0;
+        return 1 + Math.max(0, slot.config.level - 1) * scaling;
+    }
+
+    private calculateDamage(slot: SkillSlot): number {
+        const attack = this._stats ? this._stats.baseAttack : 0;
+        const base = (slot.data.damage || 0) + attack * (slot.data.attackScaling || 0);
+        return Math.max(1, Math.floor(base * this.getLevelMultiplier(slot)));
+    }
+
+    /**
+     * 技能伤害输入：未配置伤害类型和攻击重量时使用施法者普通攻击的配置，暴击按施法者暴击率掷骰
+     */
+    private createDamageInfo(slot: SkillSlot, damage: number): DamageInfo {
+        const info: DamageInfo = this._stats
+            ? this._stats.createDamageInfo(damage, slot.data.damageType)
+            : { amount: damage, type: slot.data.damageType };
+        if (slot.data.attackWeight !== undefined) {
+            info.weight = slot.data.attackWeight;
+        }
+        return info;
+    }
+
+    private calculateHeal(slot: SkillSlot): number {
+        const attack = this._stats ? this._stats.baseAttack : 0;
+        const base = (slot.data.healAmount || 0) + attack * (slot.data.attackScaling || 0);
+        return Math.max(1, Math.floor(base * this.getLevelMultiplier(slot)));
+    }
+
+    /**
+     * 效果中心点：以敌人/友军为目标的技能取目标位置，否则取自身位置
+     */
+    private getEffectCenter(): Vec3 {
+        if (this._activeTarget && this._activeTarget.isValid) {
+            return this._activeTarget.position;
+        }
+        return this.node.position;
+    }
+
+    private applySkillEffect(slot: SkillSlot): void {
+        try {
+            switch (slot.data.effectType) {
+                case SkillEffectType.Projectile:
+                    this.applyProjectile(slot);
+                    break;
+                case SkillEffectType.AreaDamage:
+                    this.applyAreaDamage(slot);
+                    break;
+                case SkillEffectType.Heal:
+                    this.applyHeal(slot);
+                    break;
+                case SkillEffectType.Summon:
+                    this.applySummon(slot);
+                    break;
+                case SkillEffectType.Buff:
+                    this.applyBuff(slot);
+                    break;
+                default:
+                    console.warn(`SkillCaster: 未知的技能效果类型 ${slot.data.effectType}（技能: ${slot.data.id}）`);
+            }
+        } catch (error) {
+            console.error(`SkillCaster: 技能 ${slot.data.id} 生效失败`, error);
+        }
+    }
+
+    private applyProjectile(slot: SkillSlot): void {
+        const projectileId = slot.data.projectileId || 'fireball';
+
+        let launcher = this.getComponent(FireballLauncher);
+        if (!launcher) {
+            launcher = this.addComponent(FireballLauncher);
+        }
+        if (this._owner) {
+            launcher.setFactionInfo(this._owner.getFaction(), this.node);
+        }
+
+        const damage = this.calculateDamage(slot);
+        if (this._activeTarget && this._activeTarget.isValid && this._activeTarget !== this.node) {
+            // AI 施法者预判目标移动，手动施法保持精确瞄准
+            const leadTarget = this._owner?.controlMode === ControlMode.AI;
+            launcher.launchProjectileAtTarget(projectileId, this._activeTarget, damage, leadTarget);
+        } else {
+            launcher.launchProjectileAtAngle(projectileId, launcher.defaultAngle, damage);
+        }
+    }
+
+    /**
+     * 范围伤害：圆形以效果中心为圆心，扇形和直线从施法者朝目标方向展开；配置了 duration 时生成持续区域
+     */
+    private applyAreaDamage(slot: SkillSlot): void {
+        if (!this._owner) {
+            return;
+        }
+
+        const damage = this.calculateDamage(slot);
+        // 未配置 area 时使用 radius 构造圆形范围；状态效果缺省沿用技能的 statusEffects
+        const area: AreaEffectData = { ...(slot.data.area || { radius: slot.data.radius || 0 }) };
+        if (area.statusEffects === undefined) {
+            area.statusEffects = slot.data.statusEffects;
+        }
+
+        const isDirectional = area.shape === AreaShape.Cone || area.shape === AreaShape.Line;
+        const origin = isDirectional ? this.node.position : this.getEffectCenter();
+        let direction: Vec3 | null = null;
+        if (isDirectional && this._activeTarget && this._activeTarget.isValid && this._activeTarget !== this.node) {
+            direction = new Vec3();
+            Vec3.subtract(direction, this._activeTarget.position, this.node.position);
+            direction.normalize();
+        }
+
+        areaEffectManager.trigger(area, origin, direction, {
+            damage,
+            faction: this._owner.getFaction(),
+            sourceNode: this.node,
+            damageType: slot.data.damageType,
+            attackWeight: slot.data.attackWeight,
+            label: `[${this.node.name}] ${slot.data.name}`
+        });
+    }
+
+    private applyHeal(slot: SkillSlot): void {
+        const amount = this.calculateHeal(slot);
+        for (const target of this.collectSupportTargets(slot)) {
+            const stats = target.getComponent(CharacterStats);
+            if (stats && stats.isAlive) {
+                stats.heal(amount);
+            }
+        }
+    }
+
+    private applyBuff(slot: SkillSlot): void {
+        const buff = slot.data.buff;
+        if (!buff) {
+            console.warn(`SkillCaster: 技能 ${slot.data.id} 缺少 buff 配置`);
+            return;
+        }
+
+        const multiplier = this.getLevelMultiplier(slot);
+        const attackBonus = Math.floor((buff.attackBonus || 0) * multiplier);
+        const defenseBonus = Math.floor((buff.defenseBonus || 0) * multiplier);
+        const speedMultiplier = buff.moveSpeedMultiplier && buff.moveSpeedMultiplier > 0 ? buff.moveSpeedMultiplier : 1.0;
+
+        // 同一施法者的同一技能重复施加时刷新，不同施法者之间叠加
+        const source = `${StatModifierSource.Skill}:${slot.data.id}:${this.node.uuid}`;
+        for (const target of this.collectSupportTargets(slot)) {
+            const stats = target.getComponent(CharacterStats);
+            if (stats && stats.isAlive) {
+                stats.applyTemporaryBuff(attackBonus, defenseBonus, speedMultiplier, buff.duration, source);
+            }
+        }
+    }
+
+    /**
+     * 收集治疗/增益的作用目标：主目标，以及 radius 范围内的同阵营单位
+     */
+    private collectSupportTargets(slot: SkillSlot): Node[] {
+        const primary = this._activeTarget && this._activeTarget.isValid ? this._activeTarget : this.node;
+        const targets: Node[] = [primary];
+
+        const radius = slot.data.radius || 0;
+        if (radius > 0 && this._owner) {
+            const allies = gridManager.getNearbyCharacters(primary.position, radius, this._owner.getFaction());
+            for (const ally of allies) {
+                if (ally.isAlive() && targets.indexOf(ally.node) === -1) {
+                    targets.push(ally.node);
+                }
+            }
+        }
+
+        return targets;
+    }
+
+    private applySummon(slot: SkillSlot): void {
+        const summon = slot.data.summon;
+        if (!summon || !this._owner) {
+            console.warn(`SkillCaster: 技能 ${slot.data.id} 缺少 summon 配置`);
+            return;
+        }
+
+        // 清理已失效的召唤物
+        this._summonedNodes = this._summonedNodes.filter(node => {
+            if (!node.isValid || !node.active) {
+                return false;
+            }
+            const stats = node.getComponent(CharacterStats);
+            return !stats || stats.isAlive;
+        });
+
+        const maxAlive = summon.maxAlive || Infinity;
+        const count = Math.min(summon.count, maxAlive - this._summonedNodes.length);
+        if (count <= 0) {
+            console.log(`SkillCaster: [${this.node.name}] 召唤物已达上限 ${maxAlive}`);
+            return;
+        }
+
+        if (!CharacterPoolInitializer.isPoolInitialized(summon.enemyType)) {
+            CharacterPoolInitializer.initializePoolForEnemyType(summon.enemyType);
+        }
+
+        const faction = this._owner.getFaction();
+        const enemyData = dataManager.getEnemyData(summon.enemyType);
+        const behaviorType = enemyData ? getAIBehaviorTypeFromEnemyData(enemyData) : AIBehaviorType.MELEE;
+        const center = this.node.position;
+
+        for (let i = 0; i < count; i++) {
+            const angle = gameRandom.next() * Math.PI * 2;
+            const distance = gameRandom.next() * summon.radius;
+            const position = new Vec3(
+                center.x + Math.cos(angle) * distance,
+                center.y + Math.sin(angle) * distance,
+                0
+            );
+
+            const minion = CharacterPoolFactory.getInstance().createCharacter(summon.enemyType, {
+                position: position,
+                controlMode: ControlMode.AI,
+                aiFaction: faction,
+                aiBehaviorType: behaviorType
+            });
+
+            if (!minion) {
+                console.warn(`SkillCaster: 召唤 ${summon.enemyType} 失败`);
+                continue;
+            }
+
+            const minionNode = minion.node as Node;
+            if (this.node.parent && minionNode.parent !== this.node.parent) {
+                this.node.parent.addChild(minionNode);
+            }
+            this._summonedNodes.push(minionNode);
+        }
+
+        console.log(`SkillCaster: [${this.node.name}] ${slot.data.name} 召唤了 ${count} 个 ${summon.enemyType}`);
+    }
+
+    protected onDestroy(): void {
+        this.clearActiveCast();
+        this.cancelPendingCast();
+        this._summonedNodes = [];
+    }
+}
@@ -0,0 +1,303 @@
+// assets/scripts/components/StatusEffectComponent.ts
+
+import { _decorator, Component, Node, Color } from 'cc';
+import {
+    ActiveStatusEffect,
+    StatusEffectApplication,
+    StatusEffectType,
+    StatusStackMode,
+    STATUS_EFFECT_DATABASE
+} from '../configs/StatusEffectConfig';
+import { DamageInfo } from '../configs/DamageConfig';
+import { eventManager } from '../managers/EventManager';
+import { simulationManager } from '../managers/SimulationManager';
+import { CharacterStats } from './CharacterStats';
+import { GameEvents } from './GameEvents';
+import { SeededRandom, gameRandom } from '../utils/SeededRandom';
+
+const { ccclass } = _decorator;
+
+/**
+ * 状态效果组件
+ * 由 BaseCharacterDemo 在初始化时挂载，投射物和技能命中时通过 applyEffects 施加效果：
+ * - 持续伤害（灼烧、中毒）按间隔结算，不削减霸体
+ * - 移动速度倍率由 OrcaAgent.getMaxSpeed 读取
+ * - 控制效果（冰冻、眩晕）通过 isActionLocked 让角色进入 STUNNED 状态
+ * 效果变化通过节点事件 'status-effects-changed' 通知角色刷新着色和动画。
+ */
+@ccclass('StatusEffectComponent')
+export class StatusEffectComponent extends Component {
+
+    private _effects: Map<StatusEffectType, ActiveStatusEffect> = new Map();
+    private _stats: CharacterStats | null = null;
+
+    // ========== 访问器 ==========
+
+    public get effects(): ActiveStatusEffect[] {
+        return Array.from(this._effects.values());
+    }
+
+    public get hasEffects(): boolean {
+        return this._effects.size > 0;
+    }
+
+    public hasEffect(type: StatusEffectType): boolean {
+        return this._effects.has(type);
+    }
+
+    public getStacks(type: StatusEffectType): number {
+        const effect = this._effects.get(type);
+        return effect ? effect.stacks : 0;
+    }
+
+    /**
+     * 所有效果叠加后的移动速度倍率（0 表示无法移动）
+     */
+    public get moveSpeedMultiplier(): number {
+        let multiplier = 1.0;
+        for (const effect of this._effects.values()) {
+            multiplier *= effect.moveSpeedMultiplier;
+        }
+        return multiplier;
+    }
+
+    /**
+     * 是否处于控制效果中（禁止移动、攻击和施法）
+     */
+    public get isActionLocked(): boolean {
+        for (const effect of this._effects.values()) {
+            if (effect.definition.locksActions) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * 是否需要暂停动画（冰冻）
+     */
+    public get pausesAnimation(): boolean {
+        for (const effect of this._effects.values()) {
+            if (effect.definition.pausesAnimation) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * 当前身体着色（优先级最高的效果），没有效果时返回 null
+     */
+    public get tintColor(): Color | null {
+        let top: ActiveStatusEffect | null = null;
+        for (const effect of this._effects.values()) {
+            if (!top || effect.definition.priority > top.definition.priority) {
+                top = effect;
+            }
+        }
+        if (!top) {
+            return null;
+        }
+        const [r, g, b] = top.definition.tint;
+        return new Color(r, g, b, 255);
+    }
+
+    // ========== 施加与移除 ==========
+
+    /**
+     * 施加一组状态效果（投射物、技能命中时调用）
+     * @param applications 施加配置
+     * @param source 施加者节点
+     * @param random 随机数源（概率判定）
+     * @returns 实际施加的效果类型
+     */
+    public applyEffects(applications: readonly StatusEffectApplication[] | undefined, source: Node | null = null, random: SeededRandom = gameRandom): StatusEffectType[] {
+        const applied: StatusEffectType[] = [];
+        if (!applications) {
+            return applied;
+        }
+        for (const application of applications) {
+            if (this.applyEffect(application, source, random)) {
+                applied.push(application.type);
+            }
+        }
+        return applied;
+    }
+
+    /**
+     * 施加单个状态效果，按定义中的叠加规则与已有效果合并
+     * @returns 是否施加成功（概率未命中、免疫或角色已死亡时返回 false）
+     */
+    public applyEffect(application: StatusEffectApplication, source: Node | null = null, random: SeededRandom = gameRandom): boolean {
+        const definition = STATUS_EFFECT_DATABASE[application.type];
+        if (!definition || application.duration <= 0) {
+            return false;
+        }
+
+        const stats = this.getStats();
+        if (!stats || !stats.isAlive || this.isImmune(application.type)) {
+            return false;
+        }
+
+        const chance = application.chance ?? 1;
+        if (chance < 1 && random.next() >= chance) {
+            return false;
+        }
+
+        const duration = Math.min(application.duration, definition.maxDuration);
+        const tickDamage = application.tickDamage ?? definition.tickDamage ?? 0;
+        const moveSpeedMultiplier = Math.max(0, application.moveSpeedMultiplier ?? definition.moveSpeedMultiplier ?? 1);
+        const wasLocked = this.isActionLocked;
+
+        let effect = this._effects.get(application.type);
+        if (!effect) {
+            effect = {
+                definition,
+                stacks: 1,
+                remaining: duration,
+                tickTimer: definition.tickInterval ?? 0,
+                tickDamage,
+                moveSpeedMultiplier,
+                source
+            };
+            this._effects.set(application.type, effect);
+        } else {
+            switch (definition.stackMode) {
+                case StatusStackMode.Stack:
+                    effect.stacks = Math.min(definition.maxStacks, effect.stacks + 1);
+                    effect.remaining = Math.max(effect.remaining, duration);
+                    break;
+                case StatusStackMode.Extend:
+                    effect.remaining = Math.min(definition.maxDuration, effect.remaining + duration);
+                    break;
+                default:
+                    effect.remaining = Math.max(effect.remaining, duration);
+                    break;
+            }
+            effect.tickDamage = Math.max(effect.tickDamage, tickDamage);
+            effect.moveSpeedMultiplier = Math.min(effect.moveSpeedMultiplier, moveSpeedMultiplier);
+            effect.source = source;
+        }
+
+        // 控制效果打断当前动作
+        if (!wasLocked && definition.locksActions) {
+            const owner = this.getComponent('BaseCharacterDemo') as any;
+            if (owner && owner.stopMovement) {
+                owner.stopMovement();
+            }
+        }
+
+        this.node.emit('status-effects-changed', this);
+        eventManager.emit(GameEvents.STATUS_EFFECT_APPLIED, this.node, application.type, effect.stacks, source);
+        return true;
+    }
+
+    /**
+     * 移除指定状态效果
+     */
+    public removeEffect(type: StatusEffectType): void {
+        if (!this._effects.delete(type)) {
+            return;
+        }
+        this.node.emit('status-effects-changed', this);
+        eventManager.emit(GameEvents.STATUS_EFFECT_REMOVED, this.node, type);
+    }
+
+    /**
+     * 清除所有状态效果（死亡、回收到对象池时调用）
+     */
+    public clearEffects(): void {
+        if (this._effects.size === 0) {
+            return;
+        }
+        const types = Array.from(this._effects.keys());
+        this._effects.clear();
+        this.node.emit('status-effects-changed', this);
+        for (const type of types) {
+            eventManager.emit(GameEvents.STATUS_EFFECT_REMOVED, this.node, type);
+        }
+    }
+
+    // ========== 更新 ==========
+
+    protected update(frameDeltaTime: number): void {
+        if (this._effects.size === 0) {
+            return;
+        }
+
+        const stats = this.getStats();
+        if (!stats || !stats.isAlive) {
+            this.clearEffects();
+            return;
+        }
+
+        const deltaTime = simulationManager.getDeltaTime(frameDeltaTime);
+        const expired: StatusEffectType[] = [];
+
+        for (const effect of Array.from(this._effects.values())) {
+            const interval = effect.definition.tickInterval;
+            if (interval && interval > 0 && effect.tickDamage > 0) {
+                effect.tickTimer -= deltaTime;
+                while (effect.tickTimer <= 0 && stats.isAlive) {
+                    effect.tickTimer += interval;
+                    this.dealTickDamage(effect);
+                }
+            }
+
+            effect.remaining -= deltaTime;
+            if (effect.remaining <= 0) {
+                expired.push(effect.definition.type);
+            }
+
+            if (!stats.isAlive) {
+                // 持续伤害致死，死亡后统一清除
+                this.clearEffects();
+                return;
+            }
+        }
+
+        for (const type of expired) {
+            this.removeEffect(type);
+        }
+    }
+
+    /**
+     * 结算一次持续伤害 - 优先走 BaseCharacterDemo.takeDamage 以触发死亡状态和伤害数字
+     */
+    private dealTickDamage(effect: ActiveStatusEffect): void {
+        const damage: DamageInfo = {
+            amount: effect.tickDamage * effect.stacks,
+            type: effect.definition.damageType,
+            ignorePoise: true
+        };
+        const attacker = effect.source && effect.source.isValid ? effect.source : null;
+
+        const characterDemo = this.getComponent('BaseCharacterDemo') as any;
+        if (characterDemo && characterDemo.takeDamage) {
+            characterDemo.takeDamage(damage, attacker);
+            return;
+        }
+        const stats = this.getStats();
+        if (stats) {
+            stats.takeDamage(damage, attacker);
+        }
+    }
+
+    // ========== 工具 ==========
+
+    private getStats(): CharacterStats | null {
+        if (!this._stats || !this._stats.isValid) {
+            this._stats = this.getComponent(CharacterStats);
+        }
+        return this._stats;
+    }
+
+    private isImmune(type: StatusEffectType): boolean {
+        const immunities = this._stats?.enemyData?.statusImmunities;
+        return !!immunities && immunities.indexOf(type) !== -1;
+    }
+
+    protected onDestroy(): void {
+        this._effects.clear();
+    }
+}
@@ -5,6 +5,7 @@ import { ITargetSelector, TargetInfo } from './MonsterAI';
 import { Faction } from '../configs/FactionConfig';
 import { factionManager } from '../managers/FactionManager';
 import { CharacterStats } from './CharacterStats';
+import { simulationManager } from '../managers/SimulationManager';
 
 const { ccclass } = _decorator;
 
@@ -87,7 +88,7 @@ export class TargetSelector extends Component implements ITargetSelector {
      */
     public findBestTarget(myPosition: Vec3, myFaction: Faction, detectionRange: number): TargetInfo | null {
         // 【性能优化】减少调试输出频率
-        const now = Date.now();
+        const now = simulationManager.now();
         const shouldDebug = !this.lastDebugTime || (now - this.lastDebugTime > 3000); // 每3秒输出一次详细调试信息
         
         if (shouldDebug) {
@@ -1401,6 +1401,7 @@ export interface ProjectileAnimationConfig {
     animations: {
         [key in ProjectileAnimationState]?: {
             framePrefix: string;
+            startFrame?: number;    // 起始帧序号，缺省为 生成0 / 飞行1 / 爆炸4
             frameCount: number;
             frameRate: number;
             loop: boolean;
@@ -1410,6 +1411,7 @@ export interface ProjectileAnimationConfig {
 
 /**
  * 投射物动画配置数据库
+ * 未在此登记的投射物由 AnimationManager 按 skills.json 中的 resources 和 animationFrames 生成配置
  */
 export const projectileAnimationConfigDatabase: Record<string, ProjectileAnimationConfig> = {
     // 火球配置
@@ -0,0 +1,116 @@
+// assets/scripts/configs/AreaEffectConfig.ts
+
+import { StatusEffectApplication } from './StatusEffectConfig';
+
+/**
+ * 范围效果形状
+ * - Circle：以中心点为圆心、radius 为半径的圆
+ * - Cone：从原点沿朝向展开、夹角为 angle 的扇形，radius 为扇形半径
+ * - Line：从原点沿朝向延伸 radius 长度、宽度为 width 的矩形
+ */
+export enum AreaShape {
+    Circle = 'circle',
+    Cone = 'cone',
+    Line = 'line',
+}
+
+/**
+ * 伤害衰减方式
+ * - None：范围内伤害相同
+ * - Linear：按距中心（扇形/直线为距原点）的距离线性衰减到 minFalloff
+ */
+export enum AreaFalloff {
+    None = 'none',
+    Linear = 'linear',
+}
+
+/**
+ * 范围效果默认参数（距离单位为像素）
+ */
+export const AREA_EFFECT_DEFAULTS = {
+    shape: AreaShape.Circle,
+    coneAngle: 90,                      // 未配置 angle 时的扇形夹角（度）
+    lineWidth: 40,                      // 未配置 width 时的直线宽度
+    falloff: AreaFalloff.None,
+    minFalloff: 0.3,                    // 线性衰减时范围边缘的伤害倍率
+    friendlyFireRatio: 0.5,             // 开启友军伤害时，对非敌对单位的伤害倍率
+    tickInterval: 0.5,                  // 持续区域未配置 tickInterval 时的生效间隔（秒）
+    zoneAlpha: 70,                      // 持续区域地面显示的透明度
+};
+
+/**
+ * 范围效果配置
+ * 瞬时爆发（duration 不配置或为0）在触发时结算一次；持续区域（duration > 0）按 tickInterval 周期结算。
+ * 伤害 = 来源伤害 × damageRatio × 衰减倍率（× 友军伤害倍率）
+ */
+export interface AreaEffectData {
+    shape?: AreaShape;                  // 形状，缺省为圆形
+    radius: number;                     // 圆形/扇形半径，直线长度（像素）
+    angle?: number;                     // 扇形夹角（度）
+    width?: number;                     // 直线宽度（像素）
+    damageRatio?: number;               // 伤害占来源伤害的比例，缺省为 1，0 表示只施加状态效果
+    falloff?: AreaFalloff;              // 伤害衰减方式，缺省不衰减
+    minFalloff?: number;                // 线性衰减时范围边缘的伤害倍率（0-1）
+    friendlyFire?: boolean;             // 是否伤害非敌对单位（不包括来源自身）
+    friendlyFireRatio?: number;         // 对非敌对单位的伤害倍率，缺省使用 AREA_EFFECT_DEFAULTS.friendlyFireRatio
+    statusEffects?: StatusEffectApplication[]; // 对范围内目标施加的状态效果
+    duration?: number;                  // 持续时间（秒），大于0时生成持续区域
+    tickInterval?: number;              // 持续区域的生效间隔（秒）
+}
+
+/**
+ * 计算点在范围内的距离度量
+ * @param area 范围配置
+ * @param origin 圆心（扇形、直线为原点）
+ * @param direction 朝向（单位向量，扇形、直线使用；缺省朝右）
+ * @param point 待检测的位置
+ * @returns 圆形/扇形返回距原点距离，直线返回沿朝向的投影长度；不在范围内返回 -1
+ */
+export function getAreaDistance(
+    area: AreaEffectData,
+    origin: { x: number, y: number },
+    direction: { x: number, y: number } | null,
+    point: { x: number, y: number }
+): number {
+    const dx = point.x - origin.x;
+    const dy = point.y - origin.y;
+    const distance = Math.sqrt(dx * dx + dy * dy);
+    const shape = area.shape || AREA_EFFECT_DEFAULTS.shape;
+
+    if (shape === AreaShape.Circle) {
+        return distance <= area.radius ? distance : -1;
+    }
+
+    const dirX = direction ? direction.x : 1;
+    const dirY = direction ? direction.y : 0;
+
+    if (shape === AreaShape.Cone) {
+        if (distance > area.radius) {
+            return -1;
+        }
+        if (distance < 1e-6) {
+            return 0;
+        }
+        const halfAngle = (area.angle ?? AREA_EFFECT_DEFAULTS.coneAngle) * Math.PI / 360;
+        const cos = (dx * dirX + dy * dirY) / distance;
+        return cos >= Math.cos(halfAngle) ? distance : -1;
+    }
+
+    // 直线：沿朝向的投影在 [0, radius] 内，垂直距离不超过半宽
+    const along = dx * dirX + dy * dirY;
+    const across = Math.abs(dx * dirY - dy * dirX);
+    const halfWidth = (area.width ?? AREA_EFFECT_DEFAULTS.lineWidth) / 2;
+    return along >= 0 && along <= area.radius && across <= halfWidth ? along : -1;
+}
+
+/**
+ * 按距离计算伤害衰减倍率
+ */
+export function getAreaFalloffMultiplier(area: AreaEffectData, distance: number): number {
+    if ((area.falloff || AREA_EFFECT_DEFAULTS.falloff) !== AreaFalloff.Linear || area.radius <= 0) {
+        return 1;
+    }
+    const minFalloff = Math.max(0, Math.min(1, area.minFalloff ?? AREA_EFFECT_DEFAULTS.minFalloff));
+    const t = Math.max(0, Math.min(1, distance / area.radius));
+    return 1 - (1 - minFalloff) * t;
+}
@@ -0,0 +1,125 @@
+// assets/scripts/configs/BattleSaveConfig.ts
+
+import { ObjectiveProgress } from './LevelObjectiveConfig';
+import { PlayerProgressState } from './ExperienceConfig';
+
+/**
+ * 战斗快照格式版本，结构不兼容地变化时递增
+ */
+export const BATTLE_SAVE_VERSION = 1;
+
+/**
+ * 本地存储键前缀，完整键为 前缀 + 槽位名
+ */
+export const BATTLE_SAVE_KEY_PREFIX = 'battle_save_';
+
+/**
+ * 默认存档槽位
+ */
+export const DEFAULT_SAVE_SLOT = 'quick';
+
+/**
+ * 关卡进度快照
+ */
+export interface LevelSaveState {
+    levelId: number;
+    elapsedTime: number;                // 关卡已进行时间（秒）
+    objectives: ObjectiveProgress[];    // 目标进度（按 id 匹配恢复）
+}
+
+/**
+ * 波次模式生成器快照
+ */
+export interface WaveSaveState {
+    waveIndex: number;
+    waveNumber: number;
+    nextWaveIndex: number;
+    nextWaveCountdown: number;
+    currentWaveElapsed: number;
+    currentWaveAdvanced: boolean;
+    waveSpawnTimer: number;
+    wavesCompleted: boolean;
+    activeWaves: { waveNumber: number, pendingCount: number }[];
+    spawnQueue: {
+        type: string;
+        faction: string;
+        healthMultiplier: number;
+        attackMultiplier: number;
+        waveNumber: number;
+    }[];
+}
+
+/**
+ * 怪物生成器快照（存活怪物记录在 CharacterSaveState.spawnerId 中）
+ */
+export interface SpawnerSaveState {
+    id: string;
+    elapsedTime: number;                    // 生成器已运行时间（秒），用于恢复首次生成的剩余延迟
+    spawnUpdateTimer: number;
+    spawnTimers: Record<string, number>;    // 敌人类型 -> 重生倒计时
+    pendingInitialGroups: number[];         // 尚未首次生成的 enemies 下标
+    isDestroyed: boolean;
+    wave?: WaveSaveState;
+}
+
+/**
+ * Boss战斗快照（恢复时直接设置阶段和狂暴状态，不重新执行阶段切换和召唤）
+ */
+export interface BossSaveState {
+    phaseIndex: number;
+    encounterElapsed: number;           // Boss战已进行时间（秒），用于恢复狂暴倒计时
+    isEnraged: boolean;
+}
+
+/**
+ * 角色快照
+ */
+export interface CharacterSaveState {
+    id: string;                         // 快照内唯一ID，供投射物引用发射者
+    enemyType: string;                  // 敌人类型ID（对象池类型）
+    faction: string;
+    controlMode: number;                // ControlMode
+    behaviorType: string;
+    position: { x: number, y: number };
+    currentHealth: number;
+    currentPoise: number;
+    state: string;                      // CharacterState
+    healthScaling: number;
+    attackScaling: number;
+    affixes: string[];                  // 精英词缀类型
+    spawnerId?: string;                 // 所属生成器，缺省为独立角色（测试角色等）
+    spawnKey?: string;                  // 生成器存活列表中的键
+    waveNumber?: number;                // 所属波次
+    boss?: BossSaveState;               // Boss战斗状态，仅Boss有
+}
+
+/**
+ * 飞行中的投射物快照
+ */
+export interface ProjectileSaveState {
+    type: string;                       // 投射物ID（skills.json 中 projectiles 的键）
+    position: { x: number, y: number };
+    direction: { x: number, y: number };
+    velocity?: { x: number, y: number }; // 当前速度（追踪、抛物线投射物的速度与发射方向不同）
+    flightTime?: number;                // 已飞行时间（秒，不含生成动画）
+    arcFlightTime?: number;             // 抛物线弹道落地时间（秒）
+    damage: number;
+    lifeTime: number;
+    elapsedTime: number;                // 已飞行时间（秒）
+    faction: string;
+    shooterId?: string;                 // 发射者的 CharacterSaveState.id
+}
+
+/**
+ * 战斗快照
+ */
+export interface BattleSnapshot {
+    version: number;
+    savedAt: number;                    // 保存时间戳（毫秒）
+    level: LevelSaveState;
+    spawners: SpawnerSaveState[];
+    characters: CharacterSaveState[];
+    projectiles: ProjectileSaveState[];
+    progress: PlayerProgressState;
+    randomState?: number;               // gameRandom 内部状态
+}
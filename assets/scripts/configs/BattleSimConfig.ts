@@ -0,0 +1,122 @@
+// assets/scripts/configs/BattleSimConfig.ts
+
+import { Faction } from './FactionConfig';
+
+/**
+ * 队伍中的一种敌人
+ */
+export interface SimUnitConfig {
+    enemyId: string;                    // EnemyData.id
+    count: number;
+}
+
+/**
+ * 参战队伍
+ */
+export interface SimTeamConfig {
+    faction: Faction;
+    units: SimUnitConfig[];
+}
+
+/**
+ * 一组对战（A 队 vs B 队，重复 iterations 次）
+ */
+export interface BattleSimConfig {
+    teamA: SimTeamConfig;
+    teamB: SimTeamConfig;
+    iterations: number;
+    seed?: number;                      // 随机种子，缺省为 BATTLE_SIM_DEFAULTS.seed
+    timeStep?: number;                  // 模拟步长（秒）
+    maxDuration?: number;               // 单场最长时间（秒），超时记为平局
+    teamDistance?: number;              // 两队初始横向距离（像素）
+}
+
+/**
+ * 无头模拟默认参数
+ */
+export const BATTLE_SIM_DEFAULTS = {
+    seed: 20240101,
+    timeStep: 1 / 30,
+    maxDuration: 120,
+    teamDistance: 400,
+    rowSpacing: 60,                     // 同队单位纵向间距（像素）
+    spawnJitter: 20,                    // 初始位置随机抖动（像素）
+    detectionRange: 100000,             // 竞技场内所有敌人都可被选为目标
+};
+
+/**
+ * 单场结果
+ */
+export enum SimOutcome {
+    TeamA = 'team_a',
+    TeamB = 'team_b',
+    Draw = 'draw',
+}
+
+/**
+ * 一组对战的汇总
+ */
+export interface MatchupSimResult {
+    teamA: string;                      // 队伍描述，如 "red: ent_normal x3"
+    teamB: string;
+    iterations: number;
+    winsA: number;
+    winsB: number;
+    draws: number;
+    winRateA: number;
+    winRateB: number;
+    avgDuration: number;                // 平均单场时长（秒）
+}
+
+/**
+ * 按 EnemyData.id 汇总的统计
+ */
+export interface EnemySimStats {
+    enemyId: string;
+    name: string;
+    appearances: number;                // 参战单位次数（每场每个单位计一次）
+    wins: number;                       // 所在队伍获胜的次数
+    losses: number;
+    draws: number;
+    winRate: number;
+    kills: number;
+    deaths: number;
+    damageDealt: number;                // 扣除防御后的实际伤害
+    avgDamagePerFight: number;
+    avgTimeToKill: number;              // 击杀目标平均用时（秒，从目标首次受伤到死亡）
+    dps: number;                        // 存活期间每秒伤害
+}
+
+/**
+ * 模拟报告
+ */
+export interface BattleSimReport {
+    generatedAt: number;                // 生成时间戳（毫秒）
+    seed: number;
+    matchups: MatchupSimResult[];
+    enemies: EnemySimStats[];
+}
+
+/**
+ * 解析队伍描述文本，格式为 "ent_normal*3, lich_normal"（数量缺省为1）
+ */
+export function parseSimUnits(text: string): SimUnitConfig[] {
+    const units: SimUnitConfig[] = [];
+    for (const part of text.split(',')) {
+        const trimmed = part.trim();
+        if (!trimmed) {
+            continue;
+        }
+        const [enemyId, countText] = trimmed.split('*').map(value => value.trim());
+        const count = countText ? parseInt(countText, 10) : 1;
+        units.push({ enemyId, count: isNaN(count) ? 1 : Math.max(1, count) });
+    }
+    return units;
+}
+
+/**
+ * 队伍描述，用于报告
+ */
+export function describeSimTeam(team: SimTeamConfig): string {
+    return `${team.faction}: ${team.units.map(unit => `${unit.enemyId} x${unit.count}`).join(' + ')}`;
+}
@@ -0,0 +1,150 @@
+// assets/scripts/configs/DamageConfig.ts
+
+/**
+ * 伤害类型
+ */
+export enum DamageType {
+    Physical = 'physical',
+    Fire = 'fire',
+    Ice = 'ice',
+    Lightning = 'lightning',
+    Poison = 'poison',
+}
+
+/**
+ * 各伤害类型的抗性（比例，0.5 表示减免50%，负数表示弱点，-0.5 表示多受50%伤害）
+ */
+export type DamageResistances = Partial<Record<DamageType, number>>;
+
+/**
+ * 护甲减伤公式
+ * - Subtractive：伤害 - 防御（低伤害攻击容易被完全抵消）
+ * - Ratio：伤害 × 常数 / (常数 + 防御)，防御等于常数时减伤50%，永远不会完全抵消
+ */
+export enum ArmorFormula {
+    Subtractive = 'subtractive',
+    Ratio = 'ratio',
+}
+
+/**
+ * 伤害计算默认参数
+ */
+export const DAMAGE_DEFAULTS = {
+    damageType: DamageType.Physical,    // 敌人未配置 damageType 时的攻击伤害类型
+    critChance: 0,                      // 敌人未配置 critChance 时不会暴击
+    critMultiplier: 1.5,
+    armorFormula: ArmorFormula.Subtractive, // 伤害 - 防御（不低于最低伤害）；切换为 Ratio 需同步调整各敌人防御数值
+    armorConstant: 10,                  // Ratio 公式常数
+    armorDamageTypes: [DamageType.Physical] as DamageType[], // 受护甲减免的伤害类型，元素伤害只受抗性减免
+    minResistance: -1,                  // 抗性下限：最多受到双倍伤害
+    maxResistance: 0.9,                 // 抗性上限：不会完全免疫
+    minDamage: 1,                       // 非真实伤害的最低伤害
+};
+
+/**
+ * 一次伤害的输入（由攻击方构造）
+ */
+export interface DamageInfo {
+    amount: number;                     // 基础伤害（暴击、抗性和护甲之前）
+    type?: DamageType;                  // 伤害类型，缺省为物理
+    isCrit?: boolean;                   // 是否暴击（攻击方构造时掷骰决定）
+    critMultiplier?: number;            // 暴击倍率，缺省使用 DAMAGE_DEFAULTS.critMultiplier
+    trueDamage?: boolean;               // 真实伤害：不受暴击、抗性和护甲影响（自爆、调试等）
+    ignorePoise?: boolean;              // 不削减霸体，不会造成硬直（持续伤害等）
+    weight?: number;                    // 攻击重量：削韧倍率和击退强度，缺省为 1
+}
+
+/**
+ * 一次伤害的结算记录
+ */
+export interface DamageResult {
+    damageType: DamageType;
+    rawDamage: number;                  // 攻击方给出的基础伤害
+    isCrit: boolean;
+    resistance: number;                 // 生效的抗性（已限制在上下限内）
+    resistedDamage: number;             // 抗性减免的伤害，负数表示弱点增伤
+    armorMitigated: number;             // 护甲减免的伤害
+    finalDamage: number;                // 实际扣除的生命值
+    poiseDamage: number;                // 实际削减的霸体值
+    isDead: boolean;
+    isStunned: boolean;
+}
+
+/**
+ * 把抗性限制在上下限内
+ */
+export function clampResistance(value: number): number {
+    return Math.max(DAMAGE_DEFAULTS.minResistance, Math.min(DAMAGE_DEFAULTS.maxResistance, value));
+}
+
+/**
+ * 按护甲公式计算减免后的伤害
+ */
+export function applyArmor(damage: number, defense: number, formula: ArmorFormula = DAMAGE_DEFAULTS.armorFormula): number {
+    const armor = Math.max(0, defense);
+    if (formula === ArmorFormula.Subtractive) {
+        return damage - armor;
+    }
+    return damage * DAMAGE_DEFAULTS.armorConstant / (DAMAGE_DEFAULTS.armorConstant + armor);
+}
+
+/**
+ * 伤害结算：暴击 -> 抗性 -> 护甲 -> 取整（不低于最低伤害）
+ * @param info 伤害输入
+ * @param defense 目标防御力
+ * @param resistances 目标抗性
+ * @returns 结算记录（poiseDamage / isDead / isStunned 由调用方填写）
+ */
+export function calculateDamage(info: DamageInfo, defense: number, resistances?: DamageResistances): DamageResult {
+    const damageType = info.type || DAMAGE_DEFAULTS.damageType;
+    const rawDamage = Math.max(0, info.amount);
+
+    if (info.trueDamage) {
+        return {
+            damageType,
+            rawDamage,
+            isCrit: false,
+            resistance: 0,
+            resistedDamage: 0,
+            armorMitigated: 0,
+            finalDamage: Math.round(rawDamage),
+            poiseDamage: 0,
+            isDead: false,
+            isStunned: false
+        };
+    }
+
+    const isCrit = !!info.isCrit;
+    const critDamage = isCrit ? rawDamage * (info.critMultiplier ?? DAMAGE_DEFAULTS.critMultiplier) : rawDamage;
+
+    const resistance = clampResistance(resistances?.[damageType] ?? 0);
+    const afterResistance = critDamage * (1 - resistance);
+
+    const afterArmor = DAMAGE_DEFAULTS.armorDamageTypes.indexOf(damageType) !== -1
+        ? applyArmor(afterResistance, defense)
+        : afterResistance;
+
+    return {
+        damageType,
+        rawDamage,
+        isCrit,
+        resistance,
+        resistedDamage: critDamage - afterResistance,
+        armorMitigated: Math.max(0, afterResistance - afterArmor),
+        finalDamage: Math.max(DAMAGE_DEFAULTS.minDamage, Math.round(afterArmor)),
+        poiseDamage: 0,
+        isDead: false,
+        isStunned: false
+    };
+}
+
+/**
+ * 伤害数字颜色（RGB）
+ */
+export const DAMAGE_TYPE_COLORS: Record<DamageType, { r: number, g: number, b: number }> = {
+    [DamageType.Physical]: { r: 255, g: 100, b: 100 },
+    [DamageType.Fire]: { r: 255, g: 150, b: 40 },
+    [DamageType.Ice]: { r: 120, g: 200, b: 255 },
+    [DamageType.Lightning]: { r: 255, g: 240, b: 90 },
+    [DamageType.Poison]: { r: 130, g: 220, b: 80 },
+};
@@ -0,0 +1,80 @@
+// assets/scripts/configs/DataReloadConfig.ts
+
+import { KeyCode } from 'cc';
+import { ValidationReport } from './DataValidationConfig';
+
+/**
+ * 游戏数据热重载按键
+ */
+export const DATA_RELOAD_KEY = KeyCode.F8;
+
+/**
+ * 热重载时重新读取的数据文件（resources 下的路径）
+ */
+export const DATA_FILE_PATHS: readonly string[] = [
+    'data/enemies',
+    'data/skills',
+    'data/levels',
+    'data/drops',
+    'data/leveling',
+];
+
+/**
+ * 单个敌人配置的变化
+ */
+export interface EnemyDataChange {
+    enemyId: string;
+    fields: string[];                   // 发生变化的顶层字段，如 baseAttack、attackRange
+}
+
+/**
+ * 热重载结果
+ */
+export interface DataReloadResult {
+    reloadedAt: number;                 // 重载完成时间戳（毫秒）
+    changedEnemies: EnemyDataChange[];
+    addedEnemies: string[];
+    removedEnemies: string[];           // 已删除的敌人配置仍保留旧数据，避免场上单位失去配置
+    changedSkills: string[];
+    changedProjectiles: string[];
+    changedLevels: number[];
+    updatedCharacters: number;          // 已推送新配置的场上角色数量
+    updatedSpawners: number;            // 已更新配置的怪物生成器数量
+    validation: ValidationReport | null;
+}
+
+/**
+ * 比较两个记录，返回变化、新增和删除的键
+ */
+export function diffRecords(previous: Record<string, any>, current: Record<string, any>): { changed: string[], added: string[], removed: string[] } {
+    const changed: string[] = [];
+    const added: string[] = [];
+    const removed: string[] = [];
+
+    for (const key in current) {
+        if (!(key in previous)) {
+            added.push(key);
+        } else if (JSON.stringify(previous[key]) !== JSON.stringify(current[key])) {
+            changed.push(key);
+        }
+    }
+    for (const key in previous) {
+        if (!(key in current)) {
+            removed.push(key);
+        }
+    }
+
+    return { changed, added, removed };
+}
+
+/**
+ * 本次重载是否有任何数据变化
+ */
+export function hasDataChanges(result: DataReloadResult): boolean {
+    return result.changedEnemies.length > 0
+        || result.addedEnemies.length > 0
+        || result.removedEnemies.length > 0
+        || result.changedSkills.length > 0
+        || result.changedProjectiles.length > 0
+        || result.changedLevels.length > 0;
+}
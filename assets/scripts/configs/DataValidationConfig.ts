@@ -0,0 +1,64 @@
+// assets/scripts/configs/DataValidationConfig.ts
+
+/**
+ * 数据文件名（用于报告中定位问题）
+ */
+export enum DataFile {
+    Enemies = 'enemies.json',
+    Skills = 'skills.json',
+    Levels = 'levels.json',
+}
+
+/**
+ * 问题严重程度
+ * - Error：数据不符合结构定义或引用不存在，运行时会出错或行为异常
+ * - Warning：数据可用但可疑（未知字段、缺少推荐配置、ID不一致等）
+ */
+export enum ValidationSeverity {
+    Error = 'error',
+    Warning = 'warning',
+}
+
+/**
+ * 单条校验问题
+ */
+export interface ValidationIssue {
+    file: DataFile;
+    path: string;                       // JSON 路径，如 $.ent_normal.skills[0].id
+    message: string;
+    severity: ValidationSeverity;
+}
+
+/**
+ * 参与校验的原始 JSON 数据（缺省的文件跳过校验，相关引用不检查）
+ */
+export interface GameDataSources {
+    enemies?: any;                      // enemies.json
+    skills?: any;                       // skills.json
+    levels?: any;                       // levels.json
+    drops?: any;                        // drops.json，仅用于校验 dropTableId 引用
+}
+
+/**
+ * 校验报告
+ */
+export interface ValidationReport {
+    generatedAt: number;                // 生成时间戳（毫秒）
+    errorCount: number;
+    warningCount: number;
+    issues: ValidationIssue[];
+}
+
+/**
+ * 格式化单条问题，用于控制台输出
+ */
+export function formatValidationIssue(issue: ValidationIssue): string {
+    return `[${issue.file}] ${issue.path}: ${issue.message}`;
+}
+
+/**
+ * 报告是否没有错误（允许警告）
+ */
+export function isValidationPassed(report: ValidationReport): boolean {
+    return report.errorCount === 0;
+}
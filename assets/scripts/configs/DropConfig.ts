@@ -0,0 +1,87 @@
+// assets/scripts/configs/DropConfig.ts
+
+/**
+ * 掉落物类型枚举
+ * 决定玩家拾取时产生的效果
+ */
+export enum PickupType {
+    Gold = 'gold',              // 金币：仅发送拾取事件
+    Heal = 'heal',              // 生命宝珠：拾取时恢复生命值
+    Experience = 'exp',         // 经验宝石：由 ExperienceManager 转换为玩家经验
+    Item = 'item',              // 普通物品：仅发送拾取事件
+}
+
+/**
+ * 掉落物定义
+ * 对应 drops.json 中 items 的单个条目
+ */
+export interface PickupItemData {
+    id: string;                     // 物品ID（与 items 中的键一致）
+    name: string;                   // 显示名称
+    type: PickupType;               // 物品类型
+    value: number;                  // 单个物品的数值（金币数、治疗量、经验值等）
+    color: [number, number, number]; // 世界中显示的颜色 RGB
+    size?: number;                  // 世界中显示的半径（像素），默认 8
+    lifetime?: number;              // 未拾取时的存在时间（秒），默认使用 DROP_DEFAULTS.pickupLifetime
+}
+
+/**
+ * 掉落条目
+ * itemId 与 tableId 二选一：itemId 掉落物品，tableId 嵌套掷另一个掉落表
+ */
+export interface DropEntry {
+    itemId?: string;                // 掉落物品ID
+    tableId?: string;               // 嵌套掉落表ID
+    weight?: number;                // 权重（仅 weighted 中使用），默认 1
+    chance?: number;                // 掉落概率 0-1（仅 chance 中使用）
+    min?: number;                   // 最小数量（嵌套表时为掷表次数），默认 1
+    max?: number;                   // 最大数量，默认等于 min
+}
+
+/**
+ * 权重掉落配置：每次从 entries 中按权重抽取一个
+ */
+export interface WeightedDropConfig {
+    rolls: number;                  // 抽取次数
+    nothingWeight?: number;         // "不掉落"的权重，默认 0
+    entries: DropEntry[];
+}
+
+/**
+ * 掉落表
+ * 三种掉落方式可组合：必定掉落 + 独立概率掉落 + 权重抽取
+ */
+export interface DropTable {
+    id: string;                     // 掉落表ID（与 tables 中的键一致）
+    guaranteed?: DropEntry[];       // 必定掉落
+    chance?: DropEntry[];           // 每个条目按 chance 独立判定
+    weighted?: WeightedDropConfig;  // 按权重抽取
+}
+
+/**
+ * 掷表结果
+ */
+export interface DropResult {
+    itemId: string;
+    count: number;
+}
+
+/**
+ * drops.json 文件结构
+ */
+export interface DropDatabase {
+    items: Record<string, PickupItemData>;
+    tables: Record<string, DropTable>;
+}
+
+/**
+ * 掉落系统默认参数
+ */
+export const DROP_DEFAULTS = {
+    maxNestingDepth: 5,             // 嵌套掉落表的最大深度，防止循环引用
+    pickupLifetime: 30,             // 掉落物默认存在时间（秒）
+    pickupRadius: 40,               // 玩家进入此距离自动拾取（像素）
+    scatterRadius: 30,              // 掉落物散布半径（像素）
+    checkInterval: 0.1,             // 拾取检测间隔（秒）
+    poolPreloadCount: 20,           // 掉落物节点池预创建数量
+};
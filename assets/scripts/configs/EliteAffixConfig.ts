@@ -0,0 +1,153 @@
+// assets/scripts/configs/EliteAffixConfig.ts
+
+import { gameRandom } from '../utils/SeededRandom';
+import { DamageType } from './DamageConfig';
+
+/**
+ * 精英词缀类型枚举
+ */
+export enum EliteAffixType {
+    Vampiric = 'vampiric',      // 吸血：造成伤害时按比例回复生命
+    Hasted = 'hasted',          // 迅捷：提升移动速度和攻击速度
+    Thorns = 'thorns',          // 荆棘：受到伤害时按比例反弹给攻击者
+    Explosive = 'explosive',    // 爆裂：死亡时对周围敌对单位造成范围伤害
+    Fortified = 'fortified',    // 坚韧：提升生命值和防御力
+}
+
+/**
+ * 精英属性修正
+ * 由词缀叠加后一次性施加到 CharacterStats，回收时还原
+ */
+export interface EliteStatModifiers {
+    healthMultiplier?: number;      // 最大生命值倍率 (1.0 = 不变)
+    attackMultiplier?: number;      // 攻击力倍率
+    defenseBonus?: number;          // 防御力加成（固定值）
+    moveSpeedMultiplier?: number;   // 移动速度倍率
+    attackSpeedMultiplier?: number; // 攻击速度倍率，攻击间隔 = attackInterval / attackSpeedMultiplier
+}
+
+/**
+ * 死亡爆炸配置
+ */
+export interface EliteDeathExplosionConfig {
+    radius: number;                 // 爆炸半径（像素）
+    damage: number;                 // 基础伤害
+    attackScaling?: number;         // 攻击力加成系数，最终伤害 = damage + baseAttack * attackScaling
+    damageType?: DamageType;        // 伤害类型，缺省为物理
+    delay: number;                  // 死亡后延迟爆炸时间（秒）
+}
+
+/**
+ * 精英词缀定义
+ */
+export interface EliteAffixData {
+    id: EliteAffixType;
+    name: string;                   // 显示名称（显示在血条上方）
+    weight: number;                 // 随机权重
+    color: [number, number, number]; // 名称颜色 RGB
+    stats?: EliteStatModifiers;     // 属性修正
+    lifeStealPercent?: number;      // 吸血比例（0-1），按实际造成的伤害计算
+    thornsPercent?: number;         // 反伤比例（0-1），按实际受到的伤害计算
+    deathExplosion?: EliteDeathExplosionConfig; // 死亡爆炸
+}
+
+/**
+ * 精英词缀数据库
+ */
+export const ELITE_AFFIX_DATABASE: Record<EliteAffixType, EliteAffixData> = {
+    [EliteAffixType.Vampiric]: {
+        id: EliteAffixType.Vampiric,
+        name: '吸血',
+        weight: 10,
+        color: [220, 40, 60],
+        lifeStealPercent: 0.3
+    },
+    [EliteAffixType.Hasted]: {
+        id: EliteAffixType.Hasted,
+        name: '迅捷',
+        weight: 10,
+        color: [80, 200, 255],
+        stats: { moveSpeedMultiplier: 1.4, attackSpeedMultiplier: 1.3 }
+    },
+    [EliteAffixType.Thorns]: {
+        id: EliteAffixType.Thorns,
+        name: '荆棘',
+        weight: 8,
+        color: [120, 200, 60],
+        thornsPercent: 0.25
+    },
+    [EliteAffixType.Explosive]: {
+        id: EliteAffixType.Explosive,
+        name: '爆裂',
+        weight: 8,
+        color: [255, 140, 0],
+        deathExplosion: { radius: 100, damage: 40, attackScaling: 1.0, damageType: DamageType.Fire, delay: 0.3 }
+    },
+    [EliteAffixType.Fortified]: {
+        id: EliteAffixType.Fortified,
+        name: '坚韧',
+        weight: 10,
+        color: [200, 200, 200],
+        stats: { healthMultiplier: 1.5, defenseBonus: 5 }
+    }
+};
+
+/**
+ * 精英词缀随机规则
+ */
+export const ELITE_AFFIX_ROLL_CONFIG = {
+    minAffixes: 1,                  // 最少词缀数量
+    maxAffixes: 2,                  // 最多词缀数量
+    baseStats: {                    // 所有精英共有的基础加成
+        healthMultiplier: 1.5,
+        attackMultiplier: 1.2
+    } as EliteStatModifiers
+};
+
+/**
+ * 按权重随机抽取不重复的词缀
+ * @param count 抽取数量（超过可用词缀数时取全部）
+ */
+export function rollEliteAffixes(count: number): EliteAffixType[] {
+    const pool = Object.values(ELITE_AFFIX_DATABASE).slice();
+    const result: EliteAffixType[] = [];
+
+    while (result.length < count && pool.length > 0) {
+        const totalWeight = pool.reduce((sum, affix) => sum + affix.weight, 0);
+        let roll = gameRandom.next() * totalWeight;
+        let index = 0;
+        for (; index < pool.length - 1; index++) {
+            roll -= pool[index].weight;
+            if (roll < 0) {
+                break;
+            }
+        }
+        result.push(pool[index].id);
+        pool.splice(index, 1);
+    }
+
+    return result;
+}
+
+/**
+ * 将多个属性修正合并为一个（倍率相乘，固定值相加）
+ */
+export function combineEliteStatModifiers(modifiers: EliteStatModifiers[]): Required<EliteStatModifiers> {
+    const combined: Required<EliteStatModifiers> = {
+        healthMultiplier: 1,
+        attackMultiplier: 1,
+        defenseBonus: 0,
+        moveSpeedMultiplier: 1,
+        attackSpeedMultiplier: 1
+    };
+
+    for (const mod of modifiers) {
+        combined.healthMultiplier *= mod.healthMultiplier ?? 1;
+        combined.attackMultiplier *= mod.attackMultiplier ?? 1;
+        combined.defenseBonus += mod.defenseBonus ?? 0;
+        combined.moveSpeedMultiplier *= mod.moveSpeedMultiplier ?? 1;
+        combined.attackSpeedMultiplier *= mod.attackSpeedMultiplier ?? 1;
+    }
+
+    return combined;
+}
@@ -1,6 +1,10 @@
 // assets/scripts/configs/EnemyConfig.ts
 
 import { AnimationDirection } from './AnimationConfig';
+import { SkillBuffConfig } from './SkillConfig';
+import { DamageType, DamageResistances } from './DamageConfig';
+import { StatusEffectType } from './StatusEffectConfig';
+import { MeleeHitboxConfig } from './MeleeHitboxConfig';
 
 /**
  * 发射点偏移配置接口
@@ -56,6 +60,73 @@ export interface EnemySkill {
     // 注意：具体的技能参数（如伤害值、范围等）在各自的技能配置中定义
 }
 
+/**
+ * 辅助型AI行为配置
+ * 仅 ai 为 AiBehavior.Support 的敌人使用
+ */
+export interface SupportBehaviorConfig {
+    followDistance: number;     // 跟随友军时保持的距离 (像素)
+    abilityRange: number;       // 治疗/增益的作用范围 (像素)
+    abilityInterval: number;    // 治疗/增益的释放间隔 (秒)
+    healAmount: number;         // 每次治疗量，0表示不治疗
+    buff?: SkillBuffConfig;     // 每次释放时附加的增益 (可选)
+}
+
+/**
+ * 自爆型AI行为配置
+ * 仅 ai 为 AiBehavior.Kamikaze 的敌人使用
+ */
+export interface KamikazeBehaviorConfig {
+    triggerRange: number;       // 进入此距离后开始引爆倒计时 (像素)
+    fuseTime: number;           // 引爆倒计时 (秒)
+    explosionRadius: number;    // 爆炸半径 (像素)
+    explosionDamage: number;    // 爆炸伤害
+    sprintMultiplier?: number;  // 冲刺速度倍数 (可选)，默认使用 chaseSpeedMultiplier
+}
+
+/**
+ * Boss阶段召唤小怪配置
+ */
+export interface BossAddsConfig {
+    enemyType: string;          // 小怪类型ID，对应 enemies.json 中的键
+    count: number;              // 召唤数量
+    radius: number;             // 召唤位置距Boss的半径 (像素)
+}
+
+/**
+ * Boss阶段配置
+ * 生命百分比降到 healthThreshold 以下时进入该阶段，阶段加成逐阶段累加
+ */
+export interface BossPhaseConfig {
+    name: string;                   // 阶段名称，显示在Boss血条上
+    healthThreshold: number;        // 进入阶段的生命百分比阈值 (0-1)，第一阶段为 1
+    skillRotation: EnemySkill[];    // 本阶段的技能循环，按数组顺序依次施放
+    attackBonus?: number;           // 进入阶段时的攻击力加成 (固定值)
+    defenseBonus?: number;          // 进入阶段时的防御力加成 (固定值)
+    moveSpeedMultiplier?: number;   // 进入阶段时的移动速度倍率
+    adds?: BossAddsConfig;          // 进入阶段时召唤的小怪 (可选)
+}
+
+/**
+ * Boss狂暴配置
+ * 战斗开始 time 秒后仍未被击败则进入狂暴
+ */
+export interface BossEnrageConfig {
+    time: number;                   // 狂暴倒计时 (秒)
+    attackBonus?: number;           // 狂暴攻击力加成 (固定值)
+    moveSpeedMultiplier?: number;   // 狂暴移动速度倍率
+    cooldownMultiplier?: number;    // 狂暴后技能冷却倍率，例如 0.5 表示冷却减半
+}
+
+/**
+ * Boss战斗配置
+ * 仅 category 为 EnemyCategory.Boss 的敌人使用
+ */
+export interface BossConfig {
+    phases: BossPhaseConfig[];      // 阶段列表，按 healthThreshold 从高到低排列
+    enrage?: BossEnrageConfig;      // 狂暴配置 (可选)
+}
+
 /**
  * 敌人数据配置接口
  * 定义单个敌人的完整配置数据结构，涵盖ARPG游戏中怪物的所有核心属性
@@ -92,6 +163,9 @@ export interface EnemyData {
     baseDefense: number;            // 基础防御力，减少受到的伤害
     moveSpeed: number;              // 移动速度 (像素/秒)，控制敌人移动快慢
     poise?: number;                 // 霸体值 (可选)，控制敌人是否会被击退/硬直，默认50
+    poiseRegen?: number;            // 霸体每秒恢复量 (可选)，默认10
+    poiseRegenDelay?: number;       // 受到削韧后开始恢复霸体的延迟 (秒，可选)，默认2
+    attackWeight?: number;          // 攻击重量 (可选)，削韧倍率和击退强度，默认1
     
     // ===============================
     // 攻击系统配置
@@ -99,8 +173,18 @@ export interface EnemyData {
     attackRange: number;            // 攻击距离 (像素)，敌人开始攻击的最小距离
     attackInterval: number;         // 攻击间隔时间 (秒)，控制攻击频率
     attackDamageFrame?: number;     // 攻击动画的伤害触发帧 (可选)，默认为攻击动画的中间帧
+    meleeHitbox?: MeleeHitboxConfig; // 近战判定框 (可选)，配置后在伤害帧命中判定框内的所有敌人，否则只攻击攻击距离内的当前目标
     projectileId?: string;          // 远程攻击的投射物ID (可选)，仅远程敌人需要
     
+    // ===============================
+    // 伤害类型与抗性配置 (可选)
+    // ===============================
+    damageType?: DamageType;        // 普通攻击的伤害类型 (可选)，默认物理；投射物和技能使用各自配置的类型
+    critChance?: number;            // 暴击率 (可选，0-1)，默认0
+    critMultiplier?: number;        // 暴击伤害倍率 (可选)，默认1.5
+    resistances?: DamageResistances; // 各伤害类型的抗性 (可选，-1~0.9)，例如 { "fire": 0.75, "ice": -0.5 }，物理伤害另受防御力减免
+    statusImmunities?: StatusEffectType[]; // 免疫的状态效果 (可选)，例如 Boss 免疫 ["stun", "freeze"]
+    
     // ===============================
     // 动画系统配置
     // ===============================
@@ -117,7 +201,9 @@ export interface EnemyData {
     hurtDuration: number;           // 受伤状态持续时间 (秒)，受伤动画播放时间
     deathDuration: number;          // 死亡动画持续时间 (秒)，死亡动画播放时间
     idleWaitTime: number;           // 待机状态等待时间 (秒)，待机状态最小持续时间
-    aggroDecayTime: number;         // 脱战后仇恨消失时间 (秒)，离开战斗状态后仇恨衰减时间
+    aggroDecayTime: number;         // 脱战后仇恨消失时间 (秒)，离开战斗状态后仇恨衰减时间；被动型敌人受击后的反击持续时间
+    supportConfig?: SupportBehaviorConfig;   // 辅助型行为配置 (可选)，仅 Support 类型使用
+    kamikazeConfig?: KamikazeBehaviorConfig; // 自爆型行为配置 (可选)，仅 Kamikaze 类型使用
     
     // ===============================
     // 物理碰撞配置
@@ -134,6 +220,7 @@ export interface EnemyData {
     // 技能系统配置 (可选)
     // ===============================
     skills?: EnemySkill[];          // 敌人技能列表，定义敌人可使用的特殊能力
+    bossConfig?: BossConfig;        // Boss战斗配置 (可选)，存在时由 BossController 按阶段技能循环施放
     
     // ===============================
     // 奖励系统配置
@@ -0,0 +1,176 @@
+// assets/scripts/configs/EnemyTemplateConfig.ts
+
+import { EnemyData } from './EnemyConfig';
+
+/**
+ * 可按倍率继承的数值属性
+ */
+export type EnemyMultiplierStat =
+    | 'baseHealth'
+    | 'baseAttack'
+    | 'baseDefense'
+    | 'moveSpeed'
+    | 'poise'
+    | 'attackRange'
+    | 'attackInterval'
+    | 'expReward';
+
+/**
+ * 属性倍率：作用于从父模板继承来的值，子条目显式配置的字段不受影响
+ */
+export type EnemyStatMultipliers = Partial<Record<EnemyMultiplierStat, number>>;
+
+export const ENEMY_MULTIPLIER_STATS: readonly EnemyMultiplierStat[] = [
+    'baseHealth', 'baseAttack', 'baseDefense', 'moveSpeed', 'poise', 'attackRange', 'attackInterval', 'expReward',
+];
+
+/**
+ * 乘以倍率后取整的属性（其余属性保留小数）
+ */
+const INTEGER_STATS: readonly EnemyMultiplierStat[] = ['baseHealth', 'baseAttack', 'baseDefense', 'poise', 'expReward'];
+
+/**
+ * enemies.json 中的原始条目
+ * - extends：父模板ID，未配置的字段从父模板继承（对象字段逐层合并，数组整体替换）
+ * - 字段值为 null 表示不继承父模板的该字段
+ * - statMultipliers：对继承来的数值属性乘以倍率
+ * 解析后得到完整的 EnemyData，extends / statMultipliers 不会保留
+ */
+export interface EnemyTemplateEntry extends Partial<EnemyData> {
+    extends?: string;
+    statMultipliers?: EnemyStatMultipliers;
+}
+
+/**
+ * 模板解析问题
+ */
+export interface EnemyTemplateIssue {
+    path: string;                       // JSON 路径，如 $.ent_elite.extends
+    message: string;
+}
+
+/**
+ * 模板解析结果
+ */
+export interface EnemyTemplateResult {
+    enemies: Record<string, EnemyData>;
+    issues: EnemyTemplateIssue[];
+}
+
+/**
+ * 把 enemies.json 的原始条目解析为完整的 EnemyData
+ * 父模板缺失或存在循环继承时记录问题，并按没有父模板处理该条目。
+ * 不修改传入的数据，返回的每个条目都是独立的深拷贝。
+ */
+export function resolveEnemyTemplates(raw: Record<string, EnemyTemplateEntry>): EnemyTemplateResult {
+    const resolved: Record<string, any> = {};
+    const issues: EnemyTemplateIssue[] = [];
+    const resolving = new Set<string>();
+
+    const resolve = (key: string): any => {
+        if (resolved[key]) {
+            return resolved[key];
+        }
+
+        // 非对象条目原样保留，交给数据校验报告
+        const entry = raw[key];
+        if (!isPlainObject(entry)) {
+            resolved[key] = entry;
+            return entry;
+        }
+
+        resolving.add(key);
+        let result: any = {};
+
+        if (entry.extends !== undefined) {
+            if (typeof entry.extends !== 'string' || !raw[entry.extends]) {
+                issues.push({ path: `$.${key}.extends`, message: `父模板 "${entry.extends}" 不存在` });
+            } else if (resolving.has(entry.extends)) {
+                issues.push({ path: `$.${key}.extends`, message: `循环继承: ${Array.from(resolving).join(' -> ')} -> ${entry.extends}` });
+            } else {
+                result = cloneJson(resolve(entry.extends));
+                applyMultipliers(result, entry, key, issues);
+            }
+        } else if (entry.statMultipliers !== undefined) {
+            issues.push({ path: `$.${key}.statMultipliers`, message: '没有配置 extends，属性倍率不会生效' });
+        }
+
+        result = mergeTemplate(result, entry);
+        delete result.extends;
+        delete result.statMultipliers;
+
+        // 子条目未显式配置 id 时使用键名，避免继承父模板的 id
+        if (entry.id === undefined) {
+            result.id = key;
+        }
+
+        resolving.delete(key);
+        resolved[key] = result;
+        return result;
+    };
+
+    for (const key in raw) {
+        resolve(key);
+    }
+
+    return { enemies: resolved as Record<string, EnemyData>, issues };
+}
+
+/**
+ * 对继承来的属性乘以倍率，子条目显式配置的属性跳过
+ */
+function applyMultipliers(target: any, entry: EnemyTemplateEntry, key: string, issues: EnemyTemplateIssue[]): void {
+    const multipliers = entry.statMultipliers;
+    if (multipliers === undefined) {
+        return;
+    }
+
+    for (const stat in multipliers) {
+        const path = `$.${key}.statMultipliers.${stat}`;
+        const multiplier = multipliers[stat as EnemyMultiplierStat];
+        if (ENEMY_MULTIPLIER_STATS.indexOf(stat as EnemyMultiplierStat) === -1) {
+            issues.push({ path, message: `不支持倍率的属性，可选: ${ENEMY_MULTIPLIER_STATS.join(', ')}` });
+            continue;
+        }
+        if (typeof multiplier !== 'number' || !(multiplier > 0)) {
+            issues.push({ path, message: `倍率应为大于 0 的数字，实际为 ${JSON.stringify(multiplier)}` });
+            continue;
+        }
+        if (entry[stat as EnemyMultiplierStat] !== undefined) {
+            continue;
+        }
+        if (typeof target[stat] !== 'number') {
+            issues.push({ path, message: `父模板没有数值属性 ${stat}` });
+            continue;
+        }
+
+        const value = target[stat] * multiplier;
+        target[stat] = INTEGER_STATS.indexOf(stat as EnemyMultiplierStat) !== -1 ? Math.round(value) : value;
+    }
+}
+
+/**
+ * 合并子条目：对象字段逐层合并，数组和基础类型整体替换，null 删除继承的字段
+ */
+function mergeTemplate(base: any, override: any): any {
+    const result = base;
+    for (const key in override) {
+        const value = override[key];
+        if (value === null) {
+            delete result[key];
+        } else if (isPlainObject(value) && isPlainObject(result[key])) {
+            result[key] = mergeTemplate(result[key], value);
+        } else {
+            result[key] = cloneJson(value);
+        }
+    }
+    return result;
+}
+
+function isPlainObject(value: any): boolean {
+    return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function cloneJson<T>(value: T): T {
+    return JSON.parse(JSON.stringify(value));
+}
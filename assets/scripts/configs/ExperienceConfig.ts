@@ -0,0 +1,83 @@
+// assets/scripts/configs/ExperienceConfig.ts
+
+/**
+ * 每级属性成长
+ * 玩家每升一级，在基础属性上累加一次
+ */
+export interface StatGrowth {
+    maxHealth: number;              // 最大生命值
+    attack: number;                 // 攻击力
+    defense: number;                // 防御力
+}
+
+/**
+ * 升级经验曲线
+ * 从 level 升到 level+1 所需经验 = floor(base * growth^(level-1) + flat * (level-1))
+ */
+export interface ExpCurveConfig {
+    base: number;                   // 1级升2级所需经验
+    growth: number;                 // 每级指数增长倍率
+    flat?: number;                  // 每级线性增量，默认 0
+}
+
+/**
+ * 玩家等级配置
+ * 对应 leveling.json 文件结构
+ */
+export interface LevelingConfig {
+    maxLevel: number;               // 等级上限
+    expCurve: ExpCurveConfig;       // 经验曲线
+    expTable?: number[];            // 显式经验表（第 i 项为 i+1 级升级所需经验），优先于 expCurve
+    statGrowth: StatGrowth;         // 每级属性成长
+    healOnLevelUp?: boolean;        // 升级时是否回满生命值，默认 true
+}
+
+/**
+ * 玩家成长进度（可用于存档）
+ */
+export interface PlayerProgressState {
+    level: number;                  // 当前等级
+    exp: number;                    // 当前等级内已获得的经验
+    totalExp: number;               // 累计获得的经验
+}
+
+/**
+ * 缺少 leveling.json 时使用的默认配置
+ */
+export const DEFAULT_LEVELING_CONFIG: LevelingConfig = {
+    maxLevel: 30,
+    expCurve: { base: 100, growth: 1.2, flat: 0 },
+    statGrowth: { maxHealth: 10, attack: 2, defense: 1 },
+    healOnLevelUp: true,
+};
+
+/**
+ * 计算从指定等级升到下一级所需经验
+ * @param config 等级配置
+ * @param level 当前等级（从1开始）
+ * @returns 所需经验，已满级时返回 0
+ */
+export function getExpToNextLevel(config: LevelingConfig, level: number): number {
+    if (level >= config.maxLevel) {
+        return 0;
+    }
+
+    if (config.expTable && level - 1 < config.expTable.length) {
+        return config.expTable[level - 1];
+    }
+
+    const { base, growth, flat = 0 } = config.expCurve;
+    return Math.max(1, Math.floor(base * Math.pow(growth, level - 1) + flat * (level - 1)));
+}
+
+/**
+ * 计算指定等级相对1级的累计属性成长
+ */
+export function getTotalStatGrowth(config: LevelingConfig, level: number): StatGrowth {
+    const levelsGained = Math.max(0, level - 1);
+    return {
+        maxHealth: config.statGrowth.maxHealth * levelsGained,
+        attack: config.statGrowth.attack * levelsGained,
+        defense: config.statGrowth.defense * levelsGained,
+    };
+}
@@ -0,0 +1,152 @@
+// assets/scripts/configs/LevelObjectiveConfig.ts
+
+/**
+ * 关卡目标类型
+ */
+export enum ObjectiveType {
+    Kill = 'kill',                          // 击杀指定数量的敌人
+    Survive = 'survive',                    // 存活指定时间
+    DestroySpawner = 'destroy_spawner',     // 摧毁（或清空）指定怪物生成器
+    Protect = 'protect',                    // 保护指定单位不死亡
+    EliminateFaction = 'eliminate_faction', // 消灭指定阵营的全部单位
+    Test = 'test',                          // 测试场景：不判定胜负
+}
+
+/**
+ * 目标通用字段
+ */
+interface ObjectiveBase {
+    id?: string;                    // 目标ID，缺省时按序号生成
+    description?: string;           // 显示描述
+    optional?: boolean;             // 可选目标：不影响胜负
+}
+
+/**
+ * 击杀目标：被击杀单位满足 enemyType/faction 过滤条件时计数
+ */
+export interface KillObjectiveData extends ObjectiveBase {
+    type: ObjectiveType.Kill;
+    count: number;                  // 需要击杀的数量
+    enemyType?: string;             // 敌人类型ID，缺省为任意类型
+    faction?: string;               // 被击杀单位的阵营，缺省为任意阵营
+    killerFaction?: string;         // 击杀者阵营，缺省为任意阵营
+}
+
+/**
+ * 存活目标：关卡开始后经过指定时间完成
+ */
+export interface SurviveObjectiveData extends ObjectiveBase {
+    type: ObjectiveType.Survive;
+    duration?: number;              // 存活时间（秒），缺省使用关卡 duration
+}
+
+/**
+ * 摧毁生成器目标：生成器被摧毁，或不再生成且所有怪物已死亡时完成
+ */
+export interface DestroySpawnerObjectiveData extends ObjectiveBase {
+    type: ObjectiveType.DestroySpawner;
+    spawnerId: string;              // 对应 monsterSpawners 中的 id
+}
+
+/**
+ * 保护目标：任意一个匹配的单位死亡即失败，否则在关卡结束时视为达成
+ */
+export interface ProtectObjectiveData extends ObjectiveBase {
+    type: ObjectiveType.Protect;
+    enemyType?: string;             // 被保护单位的类型ID
+    faction?: string;               // 被保护单位的阵营
+}
+
+/**
+ * 阵营消灭目标：该阵营没有存活单位且所有生成器都不会再生成该阵营单位时完成
+ */
+export interface EliminateFactionObjectiveData extends ObjectiveBase {
+    type: ObjectiveType.EliminateFaction;
+    faction: string;
+}
+
+/**
+ * 测试目标：存在时整个关卡不判定胜负、不限时
+ */
+export interface TestObjectiveData extends ObjectiveBase {
+    type: ObjectiveType.Test;
+}
+
+/**
+ * 关卡目标配置（对应 LevelData.objectives 的单个条目）
+ */
+export type LevelObjectiveData =
+    | KillObjectiveData
+    | SurviveObjectiveData
+    | DestroySpawnerObjectiveData
+    | ProtectObjectiveData
+    | EliminateFactionObjectiveData
+    | TestObjectiveData;
+
+/**
+ * 目标状态
+ */
+export enum ObjectiveStatus {
+    InProgress = 'in_progress',
+    Completed = 'completed',
+    Failed = 'failed',
+}
+
+/**
+ * 运行时目标进度
+ */
+export interface ObjectiveProgress {
+    id: string;
+    type: ObjectiveType;
+    description: string;
+    optional: boolean;
+    status: ObjectiveStatus;
+    current: number;                // 当前进度（击杀数、已存活秒数等）
+    target: number;                 // 目标值
+}
+
+/**
+ * 关卡结果原因
+ */
+export enum LevelResultReason {
+    ObjectivesCompleted = 'objectives_completed',   // 所有必需目标完成
+    ObjectiveFailed = 'objective_failed',           // 有必需目标失败
+    TimeExpired = 'time_expired',                   // 超过关卡时限
+}
+
+/**
+ * 关卡结果（随 LEVEL_VICTORY / LEVEL_DEFEAT 事件发送）
+ */
+export interface LevelResult {
+    levelId: number;
+    victory: boolean;
+    reason: LevelResultReason;
+    elapsedTime: number;            // 关卡耗时（秒）
+    objectives: ObjectiveProgress[];
+}
+
+/**
+ * 生成目标的默认描述
+ */
+export function describeObjective(objective: LevelObjectiveData, levelDuration: number): string {
+    if (objective.description) {
+        return objective.description;
+    }
+
+    switch (objective.type) {
+        case ObjectiveType.Kill:
+            return `击杀 ${objective.count} 个${objective.enemyType || '敌人'}`;
+        case ObjectiveType.Survive:
+            return `存活 ${objective.duration ?? levelDuration} 秒`;
+        case ObjectiveType.DestroySpawner:
+            return `摧毁生成器 ${objective.spawnerId}`;
+        case ObjectiveType.Protect:
+            return `保护 ${objective.enemyType || objective.faction || '目标'}`;
+        case ObjectiveType.EliminateFaction:
+            return `消灭 ${objective.faction} 阵营`;
+        case ObjectiveType.Test:
+            return '测试场景';
+        default:
+            return '未知目标';
+    }
+}
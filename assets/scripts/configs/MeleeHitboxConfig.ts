@@ -0,0 +1,124 @@
+// assets/scripts/configs/MeleeHitboxConfig.ts
+
+import { AnimationDirection } from './AnimationConfig';
+import { AreaShape, getAreaDistance } from './AreaEffectConfig';
+
+/**
+ * 近战判定框形状
+ * - Arc：以角色为圆心、沿朝向展开的扇形（横扫、劈砍）
+ * - Rect：从角色沿朝向延伸的矩形（突刺、冲撞）
+ */
+export enum MeleeHitboxShape {
+    Arc = 'arc',
+    Rect = 'rect',
+}
+
+/**
+ * 近战判定框默认参数（距离单位为像素）
+ */
+export const MELEE_HITBOX_DEFAULTS = {
+    shape: MeleeHitboxShape.Arc,
+    angle: 120,                         // 扇形夹角（度）
+    width: 40,                          // 矩形宽度
+    offset: 0,                          // 判定框起点沿朝向的偏移，负数表示从角色身后开始
+    rangeMultiplier: 1.2,               // 未配置 range 时判定距离 = attackRange × 此倍率，给攻击前摇中移动的目标留出余量
+    maxTargets: 0,                      // 单次挥击最多命中的目标数量，0 表示不限
+};
+
+/**
+ * 判定框形状参数
+ */
+export interface MeleeHitboxShapeConfig {
+    shape?: MeleeHitboxShape;
+    range?: number;                     // 扇形半径 / 矩形长度，缺省为 attackRange × rangeMultiplier
+    angle?: number;                     // 扇形夹角（度）
+    width?: number;                     // 矩形宽度
+    offset?: number;                    // 判定框起点沿朝向的偏移
+}
+
+/**
+ * 近战判定框配置（enemies.json 中的 meleeHitbox）
+ * 在攻击动画的 attackDamageFrame 帧激活，命中判定框内的所有敌对单位；
+ * directions 可按朝向覆盖形状参数（例如侧面挥砍比上下挥砍更宽）
+ */
+export interface MeleeHitboxConfig extends MeleeHitboxShapeConfig {
+    maxTargets?: number;                // 单次挥击最多命中的目标数量，优先命中距离近的目标
+    directions?: Partial<Record<AnimationDirection, MeleeHitboxShapeConfig>>;
+}
+
+/**
+ * 按朝向解析后的判定框
+ */
+export interface ResolvedMeleeHitbox {
+    shape: MeleeHitboxShape;
+    range: number;
+    angle: number;
+    width: number;
+    offset: number;
+    maxTargets: number;
+}
+
+/**
+ * 动画朝向对应的单位向量（FRONT 为屏幕下方）
+ */
+export function getFacingVector(direction: AnimationDirection): { x: number, y: number } {
+    const diagonal = Math.SQRT1_2;
+    switch (direction) {
+        case AnimationDirection.BACK: return { x: 0, y: 1 };
+        case AnimationDirection.LEFT: return { x: -1, y: 0 };
+        case AnimationDirection.RIGHT: return { x: 1, y: 0 };
+        case AnimationDirection.FRONT_LEFT: return { x: -diagonal, y: -diagonal };
+        case AnimationDirection.FRONT_RIGHT: return { x: diagonal, y: -diagonal };
+        case AnimationDirection.BACK_LEFT: return { x: -diagonal, y: diagonal };
+        case AnimationDirection.BACK_RIGHT: return { x: diagonal, y: diagonal };
+        default: return { x: 0, y: -1 };
+    }
+}
+
+/**
+ * 合并朝向覆盖与默认值，得到当前朝向的判定框
+ * @param config 判定框配置
+ * @param direction 攻击时的朝向
+ * @param attackRange 攻击距离，用于推导缺省的判定距离
+ */
+export function resolveMeleeHitbox(config: MeleeHitboxConfig, direction: AnimationDirection, attackRange: number): ResolvedMeleeHitbox {
+    const override = config.directions?.[direction] || {};
+    return {
+        shape: override.shape ?? config.shape ?? MELEE_HITBOX_DEFAULTS.shape,
+        range: override.range ?? config.range ?? attackRange * MELEE_HITBOX_DEFAULTS.rangeMultiplier,
+        angle: override.angle ?? config.angle ?? MELEE_HITBOX_DEFAULTS.angle,
+        width: override.width ?? config.width ?? MELEE_HITBOX_DEFAULTS.width,
+        offset: override.offset ?? config.offset ?? MELEE_HITBOX_DEFAULTS.offset,
+        maxTargets: config.maxTargets ?? MELEE_HITBOX_DEFAULTS.maxTargets,
+    };
+}
+
+/**
+ * 计算判定框起点（角色位置沿朝向偏移 offset）
+ */
+export function getMeleeHitboxOrigin(hitbox: ResolvedMeleeHitbox, position: { x: number, y: number }, facing: { x: number, y: number }): { x: number, y: number } {
+    return {
+        x: position.x + facing.x * hitbox.offset,
+        y: position.y + facing.y * hitbox.offset
+    };
+}
+
+/**
+ * 检测点是否在判定框内
+ * @param hitbox 解析后的判定框
+ * @param origin 判定框起点（见 getMeleeHitboxOrigin）
+ * @param facing 朝向单位向量
+ * @param point 待检测的位置
+ * @returns 距起点的距离（矩形为沿朝向的投影长度），不在判定框内返回 -1
+ */
+export function getMeleeHitboxDistance(
+    hitbox: ResolvedMeleeHitbox,
+    origin: { x: number, y: number },
+    facing: { x: number, y: number },
+    point: { x: number, y: number }
+): number {
+    const area = hitbox.shape === MeleeHitboxShape.Rect
+        ? { shape: AreaShape.Line, radius: hitbox.range, width: hitbox.width }
+        : { shape: AreaShape.Cone, radius: hitbox.range, angle: hitbox.angle };
+    return getAreaDistance(area, origin, facing, point);
+}
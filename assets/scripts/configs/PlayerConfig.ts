@@ -0,0 +1,100 @@
+// assets/scripts/configs/PlayerConfig.ts
+
+import { KeyCode } from 'cc';
+
+/**
+ * 玩家动作（通过 InputManager 的动作绑定映射到按键）
+ */
+export enum PlayerAction {
+    PrimaryAttack = 'primary_attack',
+    Dodge = 'dodge',
+    Ability1 = 'ability_1',
+    Ability2 = 'ability_2',
+    Ability3 = 'ability_3',
+    Ability4 = 'ability_4',
+}
+
+/**
+ * 技能栏对应的动作（下标即技能栏序号）
+ */
+export const PLAYER_ABILITY_ACTIONS: readonly PlayerAction[] = [
+    PlayerAction.Ability1,
+    PlayerAction.Ability2,
+    PlayerAction.Ability3,
+    PlayerAction.Ability4,
+];
+
+/**
+ * 默认按键绑定（可通过 InputManager.bindAction 重新绑定）
+ */
+export const DEFAULT_PLAYER_KEY_BINDINGS: Record<PlayerAction, KeyCode> = {
+    [PlayerAction.PrimaryAttack]: KeyCode.KEY_J,
+    [PlayerAction.Dodge]: KeyCode.SPACE,
+    [PlayerAction.Ability1]: KeyCode.DIGIT_1,
+    [PlayerAction.Ability2]: KeyCode.DIGIT_2,
+    [PlayerAction.Ability3]: KeyCode.DIGIT_3,
+    [PlayerAction.Ability4]: KeyCode.DIGIT_4,
+};
+
+/**
+ * 玩家基础参数
+ */
+export const PLAYER_DEFAULTS = {
+    maxHealth: 100,
+    baseAttack: 25,
+    baseDefense: 5,
+    moveSpeed: 1.5,
+    maxMana: 100,
+    manaRegen: 6,                       // 每秒恢复的法力值
+    targetRange: 400,                   // 普通攻击和技能自动索敌的半径（像素）
+};
+
+/**
+ * 普通攻击配置：使用投射物发射器发射投射物，不消耗法力
+ */
+export interface PlayerPrimaryAttackConfig {
+    projectileId: string;               // 投射物ID，对应 skills.json 中 projectiles 的键
+    cooldown: number;                   // 冷却时间（秒）
+    attackScaling: number;              // 伤害 = 攻击力 × attackScaling
+}
+
+export const PLAYER_PRIMARY_ATTACK: PlayerPrimaryAttackConfig = {
+    projectileId: 'arrow',
+    cooldown: 0.35,
+    attackScaling: 1.0,
+};
+
+/**
+ * 闪避翻滚配置
+ */
+export interface PlayerDodgeConfig {
+    distance: number;                   // 翻滚距离（像素）
+    duration: number;                   // 翻滚时间（秒），期间不响应移动输入
+    invulnerableTime: number;           // 无敌时间（秒），从翻滚开始计算
+    cooldown: number;                   // 冷却时间（秒）
+    manaCost: number;                   // 法力消耗
+}
+
+export const PLAYER_DODGE: PlayerDodgeConfig = {
+    distance: 140,
+    duration: 0.25,
+    invulnerableTime: 0.3,
+    cooldown: 0.9,
+    manaCost: 10,
+};
+
+/**
+ * 技能栏配置：引用 skills.json 中的技能，冷却和法力消耗属于技能栏（同一技能可被不同角色以不同代价使用）
+ */
+export interface PlayerAbilitySlot {
+    skillId: string;                    // 技能ID，对应 skills.json 中 skills 的 id
+    cooldown: number;                   // 冷却时间（秒）
+    manaCost: number;                   // 法力消耗
+}
+
+export const DEFAULT_PLAYER_ABILITIES: readonly PlayerAbilitySlot[] = [
+    { skillId: 'player_frost_bolt', cooldown: 2, manaCost: 15 },
+    { skillId: 'player_chain_lightning', cooldown: 4, manaCost: 25 },
+    { skillId: 'player_flame_wave', cooldown: 6, manaCost: 30 },
+    { skillId: 'player_healing_light', cooldown: 12, manaCost: 40 },
+];
@@ -0,0 +1,34 @@
+// assets/scripts/configs/PoiseConfig.ts
+
+/**
+ * 霸体、硬直与击退参数
+ * 削韧值 = 实际伤害 × 攻击重量；霸体被击破时进入 STAGGERED 状态，并按攻击重量向远离攻击者的方向施加冲量。
+ * 冲量作用在受击者的刚体上，碰撞体越大（质量越大）被推得越近。
+ */
+export const POISE_DEFAULTS = {
+    maxPoise: 50,                       // 敌人未配置 poise 时的霸体值
+    attackWeight: 1,                    // 敌人未配置 attackWeight 时的攻击重量
+    regenPerSecond: 10,                 // 敌人未配置 poiseRegen 时每秒恢复的霸体值
+    regenDelay: 2,                      // 敌人未配置 poiseRegenDelay 时，受到削韧后开始恢复的延迟（秒）
+    knockbackImpulse: 6,                // 攻击重量为 1 时的击退冲量
+    maxKnockbackSpeed: 20,              // 击退初速度上限，避免轻小角色被打飞出地图
+    knockbackDamping: 8,                // 击退速度每秒衰减系数（指数衰减）
+    staggerDuration: 0.4,               // 攻击重量为 1 时的硬直时间（秒）
+    staggerDurationPerWeight: 0.15,     // 攻击重量每增加 1 增加的硬直时间（秒）
+    maxStaggerDuration: 1.2,            // 硬直时间上限（秒）
+};
+
+/**
+ * 按攻击重量计算击退冲量
+ */
+export function getKnockbackImpulse(weight: number): number {
+    return POISE_DEFAULTS.knockbackImpulse * Math.max(0, weight);
+}
+
+/**
+ * 按攻击重量计算硬直时间
+ */
+export function getStaggerDuration(weight: number): number {
+    const duration = POISE_DEFAULTS.staggerDuration + POISE_DEFAULTS.staggerDurationPerWeight * Math.max(0, weight - 1);
+    return Math.min(POISE_DEFAULTS.maxStaggerDuration, duration);
+}
@@ -0,0 +1,147 @@
+// assets/scripts/configs/ProjectileConfig.ts
+
+import { DamageType } from './DamageConfig';
+import { StatusEffectApplication } from './StatusEffectConfig';
+import { AreaEffectData } from './AreaEffectConfig';
+
+/**
+ * 投射物默认参数
+ * 速度与重力使用刚体速度单位（米/秒，1米 = PHYSICS_2D_PTM_RATIO 像素），距离使用像素
+ */
+export const PROJECTILE_DEFAULTS = {
+    moveSpeed: 5,                       // 未配置 moveSpeed 时的飞行速度
+    lifeTime: 5,                        // 未配置 lifeTime 时的存在时间（秒）
+    frameRate: 12,
+    pierce: 0,                          // 穿透次数：命中角色后还能继续飞行的次数
+    homingRange: 300,                   // 追踪未指定目标时，自动索敌的半径（像素）
+    minArcFlightTime: 0.2,              // 抛物线弹道的最短飞行时间（秒），避免近距离发射时初速度过大
+    aimLead: 1,                         // 未配置 aimLead 时的预判系数
+    maxLeadTime: 1.5,                   // 预判的最长时间（秒），目标很可能在更长时间内改变方向
+    anchor: { x: 0.5, y: 0.6 },
+};
+
+/**
+ * 追踪配置
+ */
+export interface ProjectileHomingConfig {
+    turnRate: number;                   // 每秒最大转向角度（度）
+    range?: number;                     // 没有指定目标时自动索敌的半径（像素），缺省使用 PROJECTILE_DEFAULTS.homingRange
+    delay?: number;                     // 发射后开始追踪的延迟（秒）
+}
+
+/**
+ * 命中效果配置
+ * 投射物引爆（命中角色、撞到障碍物或抛物线落地）时按范围效果配置对其他单位造成溅射伤害（radius 为0表示不溅射），
+ * 配置 zone 时在引爆位置留下持续区域（火海、冰面等）
+ */
+export interface ProjectileOnHitConfig extends AreaEffectData {
+    zone?: AreaEffectData;              // 引爆后留下的持续区域，需配置 duration
+}
+
+/**
+ * 投射物配置（skills.json 中 projectiles 的值）
+ * 新增投射物只需在 skills.json 中配置，由 ProjectileController 统一驱动
+ */
+export interface ProjectileData {
+    id: string;
+    name: string;
+    type?: string;
+    category?: string;
+    damage: number;                     // 发射者未指定伤害时使用的基础伤害
+    damageType?: DamageType;
+    attackWeight?: number;              // 攻击重量，缺省使用发射者普通攻击的攻击重量
+    moveSpeed: number;                  // 飞行速度
+    lifeTime: number;                   // 存在时间（秒），超时后原地消散
+    frameRate?: number;
+    pierce?: number;                    // 穿透次数，缺省为 0（命中第一个角色后引爆）
+    homing?: ProjectileHomingConfig;    // 追踪配置，不配置表示直线飞行
+    gravity?: number;                   // 重力加速度（屏幕向下），大于0时按抛物线弹道飞向目标位置并在落点引爆
+    aimLead?: number;                   // AI 发射时的预判系数：0 瞄准目标当前位置，1 瞄准完整的拦截点
+    onHit?: ProjectileOnHitConfig;      // 命中效果（溅射）
+    statusEffects?: StatusEffectApplication[]; // 对直接命中的目标施加的状态效果
+    animationFrames?: { spawn?: number[], flying?: number[], explode?: number[] };
+    resources: {
+        atlas: string;
+        framePrefix: string;
+        prefab?: string;
+    };
+    poolConfig?: {
+        maxSize: number;
+        preloadCount: number;
+        poolName: string;
+    };
+    physics?: {
+        anchor?: { x: number, y: number };
+        collisionEnabled?: boolean;
+    };
+    visual?: {
+        scale?: number;
+        rotation?: number;
+        alpha?: number;
+        tint?: [number, number, number]; // 精灵着色（RGB），用于共享图集的投射物区分外观
+    };
+    description?: string;
+}
+
+/**
+ * 获取投射物使用的对象池名称
+ */
+export function getProjectilePoolName(data: ProjectileData): string {
+    return data.poolConfig?.poolName || data.id;
+}
+
+/**
+ * 计算拦截点：投射物以 speed 匀速直线飞行时与匀速移动的目标相遇的位置
+ * 求解 |D + V·t| = speed·t 的最小正根（D 为目标相对发射点的位移，V 为目标速度）
+ * @param origin 发射位置
+ * @param target 目标当前位置
+ * @param targetVelocity 目标速度（与 speed 同一单位）
+ * @param speed 投射物速度
+ * @param lead 预判系数，0 表示直接瞄准目标当前位置
+ * @returns 瞄准位置；目标比投射物快且正在远离（无解）时返回目标当前位置
+ */
+export function computeInterceptPoint(
+    origin: { x: number, y: number },
+    target: { x: number, y: number },
+    targetVelocity: { x: number, y: number },
+    speed: number,
+    lead: number = PROJECTILE_DEFAULTS.aimLead
+): { x: number, y: number } {
+    const dx = target.x - origin.x;
+    const dy = target.y - origin.y;
+    const vx = targetVelocity.x;
+    const vy = targetVelocity.y;
+
+    const a = vx * vx + vy * vy - speed * speed;
+    const b = 2 * (dx * vx + dy * vy);
+    const c = dx * dx + dy * dy;
+
+    let time = -1;
+    if (Math.abs(a) < 1e-6) {
+        // 目标与投射物同速：只有目标迎面而来时有解
+        if (b < 0) {
+            time = -c / b;
+        }
+    } else {
+        const discriminant = b * b - 4 * a * c;
+        if (discriminant >= 0) {
+            const root = Math.sqrt(discriminant);
+            const t1 = (-b - root) / (2 * a);
+            const t2 = (-b + root) / (2 * a);
+            const candidates = [t1, t2].filter(t => t > 0);
+            if (candidates.length > 0) {
+                time = Math.min(...candidates);
+            }
+        }
+    }
+
+    if (time <= 0 || lead <= 0) {
+        return { x: target.x, y: target.y };
+    }
+
+    const leadTime = Math.min(time, PROJECTILE_DEFAULTS.maxLeadTime) * lead;
+    return {
+        x: target.x + vx * leadTime,
+        y: target.y + vy * leadTime
+    };
+}
@@ -0,0 +1,56 @@
+// assets/scripts/configs/ReplayConfig.ts
+
+import { KeyCode } from 'cc';
+
+/**
+ * 回放文件格式版本，结构不兼容地变化时递增
+ */
+export const REPLAY_VERSION = 1;
+
+/**
+ * 最近一次录制在本地存储中的键
+ */
+export const REPLAY_STORAGE_KEY = 'replay_last';
+
+/**
+ * 回放控制按键（不会被录制，回放期间仍响应真实输入）
+ */
+export const REPLAY_RECORD_KEY = KeyCode.F6;    // 开始/停止录制
+export const REPLAY_PLAY_KEY = KeyCode.F7;      // 回放最近一次录制/中止回放
+export const REPLAY_CONTROL_KEYS: KeyCode[] = [REPLAY_RECORD_KEY, REPLAY_PLAY_KEY];
+
+/**
+ * 录制的输入类型（对应 InputManager 发出的事件）
+ */
+export enum ReplayInputType {
+    KeyPressed = 'key_pressed',         // GameEvents.KEY_PRESSED
+    KeyReleased = 'key_released',       // GameEvents.KEY_RELEASED
+    MoveDirection = 'move_direction',   // GameEvents.MOVE_DIRECTION_CHANGED
+    MouseClicked = 'mouse_clicked',     // GameEvents.MOUSE_CLICKED
+    MouseMoved = 'mouse_moved',         // GameEvents.MOUSE_MOVED
+}
+
+/**
+ * 单条输入记录
+ */
+export interface ReplayInputEvent {
+    frame: number;                      // 相对录制开始的模拟帧
+    time: number;                       // 相对录制开始的模拟时间（秒），便于阅读
+    type: ReplayInputType;
+    keyCode?: number;                   // KeyPressed / KeyReleased
+    x?: number;                         // MoveDirection 方向 / 鼠标世界坐标
+    y?: number;
+}
+
+/**
+ * 回放文件
+ */
+export interface ReplayData {
+    version: number;
+    recordedAt: number;                 // 录制开始的真实时间戳（毫秒）
+    levelId: number;
+    seed: number;                       // gameRandom 种子
+    fixedTimeStep: number;              // 确定性模式步长（秒）
+    frameCount: number;                 // 录制总帧数
+    events: ReplayInputEvent[];
+}
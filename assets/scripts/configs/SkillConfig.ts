@@ -0,0 +1,106 @@
+// assets/scripts/configs/SkillConfig.ts
+
+import { DamageType } from './DamageConfig';
+import { StatusEffectApplication } from './StatusEffectConfig';
+import { AreaEffectData } from './AreaEffectConfig';
+
+/**
+ * 技能效果类型枚举
+ * 决定技能在生效时执行的逻辑
+ */
+export enum SkillEffectType {
+    Projectile = 'projectile',  // 投射物：向目标发射投射物
+    AreaDamage = 'aoe',         // 范围伤害：按 area（缺省为 radius 圆形）对范围内的敌对单位造成伤害，可生成持续区域
+    Heal = 'heal',              // 治疗：恢复自身或友军生命值
+    Summon = 'summon',          // 召唤：在施法者周围生成怪物
+    Buff = 'buff',              // 增益：临时提升自身或友军属性
+}
+
+/**
+ * 技能目标类型枚举
+ * 决定技能如何选择目标以及效果中心点
+ */
+export enum SkillTargetType {
+    Self = 'self',              // 以自身为中心
+    Enemy = 'enemy',            // 以当前敌对目标为中心
+    Ally = 'ally',              // 以范围内最需要帮助的友军为中心
+}
+
+/**
+ * 技能施放阶段枚举
+ * 施法(cast) -> 引导(channel，可选) -> 后摇(recovery) -> 空闲
+ */
+export enum SkillPhase {
+    Idle = 'idle',
+    Casting = 'casting',
+    Channeling = 'channeling',
+    Recovery = 'recovery',
+}
+
+/**
+ * 召唤配置
+ */
+export interface SkillSummonConfig {
+    enemyType: string;          // 召唤的敌人类型ID，对应 enemies.json 中的键
+    count: number;              // 单次召唤数量
+    radius: number;             // 召唤位置距施法者的最大半径
+    maxAlive?: number;          // 同一施法者召唤物的最大存活数量
+}
+
+/**
+ * 增益配置
+ */
+export interface SkillBuffConfig {
+    attackBonus?: number;       // 攻击力加成（固定值）
+    defenseBonus?: number;      // 防御力加成（固定值）
+    moveSpeedMultiplier?: number; // 移动速度倍率 (1.0 = 不变)
+    duration: number;           // 持续时间（秒）
+}
+
+/**
+ * 技能定义数据接口
+ * 对应 skills.json 中 skills 数组的单个条目，由 EnemyData.skills 中的 id 引用
+ */
+export interface SkillData {
+    // ===============================
+    // 基础标识信息
+    // ===============================
+    id: string;                     // 技能唯一标识符，与 EnemySkill.id 对应
+    name: string;                   // 技能显示名称
+    effectType: SkillEffectType;    // 技能效果类型
+    targetType: SkillTargetType;    // 技能目标类型
+
+    // ===============================
+    // 施放条件
+    // ===============================
+    range: number;                  // 施放距离（像素），目标超出此距离时不会施放
+    minHealthPercent?: number;      // 友军/自身生命百分比低于此值才施放（治疗类技能用，0-1）
+
+    // ===============================
+    // 施放阶段时间
+    // ===============================
+    castTime: number;               // 施法前摇时间（秒），结束时技能生效
+    channelTime?: number;           // 引导持续时间（秒），为0或不配置表示无引导
+    channelTickInterval?: number;   // 引导期间每次生效的间隔（秒）
+    recoveryTime: number;           // 施法后摇时间（秒）
+    animation?: string;             // 施法动画状态名（对应 AnimationState，例如 'Cast'），缺失时回退到 'Attack'
+    interruptible?: boolean;        // 是否可被硬直打断，默认 true
+
+    // ===============================
+    // 效果参数
+    // ===============================
+    damage?: number;                // 基础伤害值
+    damageType?: DamageType;        // 伤害类型，缺省使用施法者普通攻击的伤害类型（投射物技能使用投射物的伤害类型）
+    attackScaling?: number;         // 攻击力加成系数，最终伤害 = damage + baseAttack * attackScaling
+    attackWeight?: number;          // 攻击重量（削韧倍率和击退强度），缺省使用施法者普通攻击的攻击重量
+    healAmount?: number;            // 基础治疗量
+    radius?: number;                // 效果半径（范围伤害、群体治疗、群体增益）
+    area?: AreaEffectData;          // 范围伤害的形状、衰减、友军伤害与持续区域配置，配置后范围伤害忽略 radius
+    projectileId?: string;          // 投射物ID，对应 skills.json 中 projectiles 的键
+    summon?: SkillSummonConfig;     // 召唤配置
+    buff?: SkillBuffConfig;         // 增益配置
+    statusEffects?: StatusEffectApplication[]; // 命中时施加的状态效果（范围伤害技能；投射物技能使用投射物配置的状态效果）
+    levelScaling?: number;          // 每提升一级效果数值提升比例，例如 0.1 表示每级 +10%
+
+    description?: string;           // 技能描述
+}
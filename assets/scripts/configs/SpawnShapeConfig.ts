@@ -0,0 +1,194 @@
+// assets/scripts/configs/SpawnShapeConfig.ts
+
+import { Vec2 } from 'cc';
+import { gameRandom } from '../utils/SeededRandom';
+
+/**
+ * 生成器生成形状（对应 MonsterSpawnerData.spawnType）
+ */
+export enum SpawnShape {
+    Point = 'point',            // 固定在生成器位置
+    Circle = 'circle',          // 圆内随机（spawnRadius）
+    Rectangle = 'rectangle',    // 矩形内随机（size，缺省为 spawnRadius*2 的正方形）
+    Ring = 'ring',              // 圆环内随机（innerRadius ~ spawnRadius）
+    Line = 'line',              // 折线上随机（points，相对生成器）
+    Polygon = 'polygon',        // 多边形内随机（points，相对生成器，支持凹多边形）
+    OffScreen = 'offscreen',    // 屏幕可视区域外一圈（offscreenMargin）
+}
+
+/**
+ * 生成形状参数（MonsterSpawnerData 中与形状相关的字段）
+ */
+export interface SpawnShapeParams {
+    spawnType: string;
+    spawnRadius: number;
+    size?: { width: number, height: number };
+    innerRadius?: number;                       // ring：内半径，缺省为 spawnRadius * ringInnerRatio
+    points?: { x: number, y: number }[];        // line / polygon：顶点（相对生成器）
+    offscreenMargin?: number;                   // offscreen：距屏幕边缘的距离（像素）
+}
+
+/**
+ * 生成形状默认参数
+ */
+export const SPAWN_SHAPE_DEFAULTS = {
+    maxAttempts: 12,            // 生成点落在不可行走区域时的最大重试次数
+    ringInnerRatio: 0.7,        // ring 缺省内半径比例
+    offscreenMargin: 60,        // offscreen 缺省边距（像素）
+    polygonSampleAttempts: 30,  // 多边形包围盒采样的最大次数
+};
+
+/**
+ * 在形状内随机采样一个相对生成器的偏移（offscreen 不在此处理）
+ * @param params 形状参数
+ * @param out 输出向量
+ * @returns 输出向量
+ */
+export function sampleShapeOffset(params: SpawnShapeParams, out: Vec2 = new Vec2()): Vec2 {
+    switch (params.spawnType) {
+        case SpawnShape.Circle: {
+            const angle = gameRandom.next() * Math.PI * 2;
+            const radius = gameRandom.next() * params.spawnRadius;
+            return out.set(Math.cos(angle) * radius, Math.sin(angle) * radius);
+        }
+
+        case SpawnShape.Rectangle: {
+            const width = params.size ? params.size.width : params.spawnRadius * 2;
+            const height = params.size ? params.size.height : params.spawnRadius * 2;
+            return out.set((gameRandom.next() - 0.5) * width, (gameRandom.next() - 0.5) * height);
+        }
+
+        case SpawnShape.Ring: {
+            // 按面积均匀采样半径
+            const outer = params.spawnRadius;
+            const inner = Math.min(outer, params.innerRadius ?? outer * SPAWN_SHAPE_DEFAULTS.ringInnerRatio);
+            const radius = Math.sqrt(gameRandom.next() * (outer * outer - inner * inner) + inner * inner);
+            const angle = gameRandom.next() * Math.PI * 2;
+            return out.set(Math.cos(angle) * radius, Math.sin(angle) * radius);
+        }
+
+        case SpawnShape.Line:
+            return sampleOnPolyline(params, out);
+
+        case SpawnShape.Polygon:
+            return sampleInPolygon(params, out);
+
+        case SpawnShape.Point:
+        default:
+            return out.set(0, 0);
+    }
+}
+
+/**
+ * 折线上按长度均匀采样；未配置 points 时为以生成器为中心、长度 spawnRadius*2 的水平线
+ */
+function sampleOnPolyline(params: SpawnShapeParams, out: Vec2): Vec2 {
+    const points = params.points && params.points.length >= 2
+        ? params.points
+        : [{ x: -params.spawnRadius, y: 0 }, { x: params.spawnRadius, y: 0 }];
+
+    let totalLength = 0;
+    const lengths: number[] = [];
+    for (let i = 1; i < points.length; i++) {
+        const length = Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y);
+        lengths.push(length);
+        totalLength += length;
+    }
+
+    let distance = gameRandom.next() * totalLength;
+    for (let i = 0; i < lengths.length; i++) {
+        if (distance <= lengths[i] || i === lengths.length - 1) {
+            const t = lengths[i] > 0 ? Math.min(1, distance / lengths[i]) : 0;
+            const a = points[i];
+            const b = points[i + 1];
+            return out.set(a.x + (b.x - a.x) * t, a.y + (b.y - a.y) * t);
+        }
+        distance -= lengths[i];
+    }
+
+    return out.set(points[0].x, points[0].y);
+}
+
+/**
+ * 多边形内采样：在包围盒内随机并用射线法判断是否在多边形内
+ */
+function sampleInPolygon(params: SpawnShapeParams, out: Vec2): Vec2 {
+    const points = params.points;
+    if (!points || points.length < 3) {
+        console.warn('SpawnShapeConfig: polygon 至少需要3个顶点，退化为圆形');
+        return sampleShapeOffset({ ...params, spawnType: SpawnShape.Circle }, out);
+    }
+
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    for (const point of points) {
+        minX = Math.min(minX, point.x);
+        minY = Math.min(minY, point.y);
+        maxX = Math.max(maxX, point.x);
+        maxY = Math.max(maxY, point.y);
+    }
+
+    for (let attempt = 0; attempt < SPAWN_SHAPE_DEFAULTS.polygonSampleAttempts; attempt++) {
+        const x = minX + gameRandom.next() * (maxX - minX);
+        const y = minY + gameRandom.next() * (maxY - minY);
+        if (isPointInPolygon(x, y, points)) {
+            return out.set(x, y);
+        }
+    }
+
+    // 极细长的多边形可能采样失败，退回第一个顶点
+    return out.set(points[0].x, points[0].y);
+}
+
+/**
+ * 射线法判断点是否在多边形内
+ */
+export function isPointInPolygon(x: number, y: number, points: { x: number, y: number }[]): boolean {
+    let inside = false;
+    for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+        const xi = points[i].x, yi = points[i].y;
+        const xj = points[j].x, yj = points[j].y;
+        const intersects = ((yi > y) !== (yj > y)) && (x < (xj - xi) * (y - yi) / (yj - yi) + xi);
+        if (intersects) {
+            inside = !inside;
+        }
+    }
+    return inside;
+}
+
+/**
+ * 在可视矩形外一圈随机采样一个点（绝对坐标）
+ * 按四条边的长度加权选择边，保证沿屏幕四周均匀分布
+ * @param centerX 可视区域中心 X
+ * @param centerY 可视区域中心 Y
+ * @param width 可视宽度
+ * @param height 可视高度
+ * @param margin 距屏幕边缘的距离
+ * @param out 输出向量
+ */
+export function sampleOffScreen(centerX: number, centerY: number, width: number, height: number, margin: number, out: Vec2 = new Vec2()): Vec2 {
+    const halfWidth = width / 2 + margin;
+    const halfHeight = height / 2 + margin;
+    const perimeter = (halfWidth + halfHeight) * 4;
+    let distance = gameRandom.next() * perimeter;
+
+    // 上边
+    if (distance < halfWidth * 2) {
+        return out.set(centerX - halfWidth + distance, centerY + halfHeight);
+    }
+    distance -= halfWidth * 2;
+
+    // 下边
+    if (distance < halfWidth * 2) {
+        return out.set(centerX - halfWidth + distance, centerY - halfHeight);
+    }
+    distance -= halfWidth * 2;
+
+    // 左边
+    if (distance < halfHeight * 2) {
+        return out.set(centerX - halfWidth, centerY - halfHeight + distance);
+    }
+    distance -= halfHeight * 2;
+
+    // 右边
+    return out.set(centerX + halfWidth, centerY - halfHeight + Math.min(distance, halfHeight * 2));
+}
@@ -0,0 +1,171 @@
+// assets/scripts/configs/StatModifierConfig.ts
+
+import { EliteStatModifiers } from './EliteAffixConfig';
+import { StatGrowth } from './ExperienceConfig';
+
+/**
+ * 可被修正的属性
+ * - MaxHealth / Attack / Defense：基础值来自敌人配置（含难度倍率）
+ * - MoveSpeed / AttackSpeed：倍率属性，基础值为 1（Flat +0.2 表示提升基础速度的 20%）
+ */
+export enum StatType {
+    MaxHealth = 'maxHealth',
+    Attack = 'attack',
+    Defense = 'defense',
+    MoveSpeed = 'moveSpeed',
+    AttackSpeed = 'attackSpeed',
+}
+
+/**
+ * 修正方式
+ * 计算顺序：(基础值 + 所有 Flat) × (1 + 所有 Percent 之和)，存在 Override 时直接使用最后施加的 Override
+ */
+export enum ModifierType {
+    Flat = 'flat',                  // 固定值加成，可为负数
+    Percent = 'percent',            // 百分比加成（0.2 = +20%），同一属性的百分比相加后一次性乘算
+    Override = 'override',          // 强制设置为指定值（定身、无敌护甲等）
+}
+
+/**
+ * 常用的修正来源标签
+ * 来源用于整体移除（词缀回收、光环离开范围、卸下装备等），可附加后缀区分施加者，如 'skill:war_cry:<uuid>'
+ */
+export const StatModifierSource = {
+    Elite: 'elite',                 // 精英词缀
+    LevelGrowth: 'level',           // 玩家等级成长
+    Buff: 'buff',                   // 未指定来源的临时增益
+    Skill: 'skill',                 // 技能增益
+    Support: 'support',             // 辅助型敌人的增益
+    BossPhase: 'boss-phase',        // Boss 阶段加成
+    BossEnrage: 'boss-enrage',      // Boss 狂暴
+    Aura: 'aura',                   // 光环
+    Item: 'item',                   // 装备道具
+};
+
+/**
+ * clearTemporaryBuffs / reset 时保留的来源（按前缀匹配）
+ * 精英词缀由 EliteAffixComponent 负责还原，等级成长由 ExperienceManager 负责同步
+ */
+export const PERSISTENT_MODIFIER_SOURCES: string[] = [
+    StatModifierSource.Elite,
+    StatModifierSource.LevelGrowth,
+    StatModifierSource.Item,
+];
+
+/**
+ * 属性修正配置
+ */
+export interface StatModifier {
+    stat: StatType;
+    type: ModifierType;
+    value: number;
+    source: string;                 // 来源标签
+    duration?: number;              // 持续时间（秒），不配置或小于等于0表示直到被移除
+}
+
+/**
+ * 运行时的属性修正
+ */
+export interface ActiveStatModifier extends StatModifier {
+    id: number;                     // 施加时分配的唯一编号，用于单独移除
+    remaining: number;              // 剩余持续时间（秒），永久修正为 Infinity
+}
+
+/**
+ * 判断来源标签是否属于指定来源（完全相同，或以 'source:' 开头）
+ */
+export function matchesModifierSource(source: string, tag: string): boolean {
+    return source === tag || source.indexOf(tag + ':') === 0;
+}
+
+/**
+ * 按修正计算属性值
+ * @param stat 要计算的属性
+ * @param base 基础值
+ * @param modifiers 修正列表（按施加顺序，其他属性的修正会被忽略）
+ */
+export function computeStatValue(stat: StatType, base: number, modifiers: readonly StatModifier[]): number {
+    let flat = 0;
+    let percent = 0;
+    let override: number | null = null;
+
+    for (const modifier of modifiers) {
+        if (modifier.stat !== stat) {
+            continue;
+        }
+        switch (modifier.type) {
+            case ModifierType.Flat:
+                flat += modifier.value;
+                break;
+            case ModifierType.Percent:
+                percent += modifier.value;
+                break;
+            case ModifierType.Override:
+                override = modifier.value;
+                break;
+        }
+    }
+
+    if (override !== null) {
+        return override;
+    }
+    return (base + flat) * Math.max(0, 1 + percent);
+}
+
+/**
+ * 把临时增益参数转换为属性修正（技能、辅助型敌人和 Boss 阶段共用）
+ * @param moveSpeedMultiplier 移动速度倍率（1.3 = 加速30%）
+ */
+export function createBuffModifiers(attackBonus: number, defenseBonus: number, moveSpeedMultiplier: number, source: string, duration: number = 0): StatModifier[] {
+    const modifiers: StatModifier[] = [];
+    if (attackBonus) {
+        modifiers.push({ stat: StatType.Attack, type: ModifierType.Flat, value: attackBonus, source, duration });
+    }
+    if (defenseBonus) {
+        modifiers.push({ stat: StatType.Defense, type: ModifierType.Flat, value: defenseBonus, source, duration });
+    }
+    if (moveSpeedMultiplier !== 1) {
+        modifiers.push({ stat: StatType.MoveSpeed, type: ModifierType.Percent, value: moveSpeedMultiplier - 1, source, duration });
+    }
+    return modifiers;
+}
+
+/**
+ * 把合并后的精英属性修正转换为属性修正（倍率转换为百分比）
+ */
+export function createEliteModifiers(elite: EliteStatModifiers): StatModifier[] {
+    const source = StatModifierSource.Elite;
+    const modifiers: StatModifier[] = [];
+    const percent = (stat: StatType, multiplier: number | undefined) => {
+        if (multiplier !== undefined && multiplier !== 1) {
+            modifiers.push({ stat, type: ModifierType.Percent, value: multiplier - 1, source });
+        }
+    };
+
+    percent(StatType.MaxHealth, elite.healthMultiplier);
+    percent(StatType.Attack, elite.attackMultiplier);
+    if (elite.defenseBonus) {
+        modifiers.push({ stat: StatType.Defense, type: ModifierType.Flat, value: elite.defenseBonus, source });
+    }
+    percent(StatType.MoveSpeed, elite.moveSpeedMultiplier);
+    percent(StatType.AttackSpeed, elite.attackSpeedMultiplier);
+    return modifiers;
+}
+
+/**
+ * 把等级成长转换为属性修正（固定值）
+ */
+export function createLevelGrowthModifiers(growth: StatGrowth): StatModifier[] {
+    const source = StatModifierSource.LevelGrowth;
+    const modifiers: StatModifier[] = [];
+    if (growth.maxHealth) {
+        modifiers.push({ stat: StatType.MaxHealth, type: ModifierType.Flat, value: growth.maxHealth, source });
+    }
+    if (growth.attack) {
+        modifiers.push({ stat: StatType.Attack, type: ModifierType.Flat, value: growth.attack, source });
+    }
+    if (growth.defense) {
+        modifiers.push({ stat: StatType.Defense, type: ModifierType.Flat, value: growth.defense, source });
+    }
+    return modifiers;
+}
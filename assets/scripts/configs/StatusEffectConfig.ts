@@ -0,0 +1,134 @@
+// assets/scripts/configs/StatusEffectConfig.ts
+
+import { Node } from 'cc';
+import { DamageType } from './DamageConfig';
+
+/**
+ * 状态效果类型枚举
+ */
+export enum StatusEffectType {
+    Burn = 'burn',              // 灼烧：周期性火焰伤害
+    Freeze = 'freeze',          // 冰冻：无法移动和行动，动画暂停
+    Slow = 'slow',              // 减速：降低移动速度
+    Poison = 'poison',          // 中毒：周期性毒素伤害，可叠层
+    Stun = 'stun',              // 眩晕：无法移动和行动
+}
+
+/**
+ * 重复施加同一效果时的叠加规则
+ * - Refresh：刷新持续时间，数值取较强的一方，层数保持 1
+ * - Stack：层数 +1（不超过上限）并刷新持续时间，每层独立计算伤害
+ * - Extend：持续时间累加（不超过上限），数值取较强的一方
+ */
+export enum StatusStackMode {
+    Refresh = 'refresh',
+    Stack = 'stack',
+    Extend = 'extend',
+}
+
+/**
+ * 状态效果定义
+ */
+export interface StatusEffectDefinition {
+    type: StatusEffectType;
+    name: string;                   // 显示名称
+    stackMode: StatusStackMode;
+    maxStacks: number;              // 最大层数（仅 Stack 模式生效）
+    maxDuration: number;            // 持续时间上限（秒），Extend 模式累加时不会超过
+    tickInterval?: number;          // 伤害间隔（秒），不配置表示没有持续伤害
+    tickDamage?: number;            // 每层每次的默认伤害，施加时可覆盖
+    damageType?: DamageType;        // 持续伤害的伤害类型
+    moveSpeedMultiplier?: number;   // 默认移动速度倍率，施加时可覆盖（0 = 无法移动）
+    locksActions?: boolean;         // 是否禁止攻击、施法和移动（进入 STUNNED 状态）
+    pausesAnimation?: boolean;      // 是否暂停动画
+    tint: [number, number, number]; // 身体着色 RGB
+    priority: number;               // 着色优先级，同时存在多个效果时显示优先级最高的
+}
+
+/**
+ * 状态效果数据库
+ */
+export const STATUS_EFFECT_DATABASE: Record<StatusEffectType, StatusEffectDefinition> = {
+    [StatusEffectType.Burn]: {
+        type: StatusEffectType.Burn,
+        name: '灼烧',
+        stackMode: StatusStackMode.Refresh,
+        maxStacks: 1,
+        maxDuration: 6,
+        tickInterval: 0.5,
+        tickDamage: 4,
+        damageType: DamageType.Fire,
+        tint: [255, 140, 60],
+        priority: 2
+    },
+    [StatusEffectType.Freeze]: {
+        type: StatusEffectType.Freeze,
+        name: '冰冻',
+        stackMode: StatusStackMode.Refresh,
+        maxStacks: 1,
+        maxDuration: 3,
+        moveSpeedMultiplier: 0,
+        locksActions: true,
+        pausesAnimation: true,
+        tint: [140, 200, 255],
+        priority: 5
+    },
+    [StatusEffectType.Slow]: {
+        type: StatusEffectType.Slow,
+        name: '减速',
+        stackMode: StatusStackMode.Refresh,
+        maxStacks: 1,
+        maxDuration: 8,
+        moveSpeedMultiplier: 0.6,
+        tint: [170, 190, 255],
+        priority: 1
+    },
+    [StatusEffectType.Poison]: {
+        type: StatusEffectType.Poison,
+        name: '中毒',
+        stackMode: StatusStackMode.Stack,
+        maxStacks: 5,
+        maxDuration: 10,
+        tickInterval: 1.0,
+        tickDamage: 3,
+        damageType: DamageType.Poison,
+        tint: [150, 230, 110],
+        priority: 3
+    },
+    [StatusEffectType.Stun]: {
+        type: StatusEffectType.Stun,
+        name: '眩晕',
+        stackMode: StatusStackMode.Extend,
+        maxStacks: 1,
+        maxDuration: 3,
+        moveSpeedMultiplier: 0,
+        locksActions: true,
+        tint: [255, 235, 140],
+        priority: 4
+    },
+};
+
+/**
+ * 状态效果施加配置
+ * 配置在投射物（skills.json projectiles.statusEffects）和技能（SkillData.statusEffects）上，命中时施加
+ */
+export interface StatusEffectApplication {
+    type: StatusEffectType;
+    duration: number;               // 持续时间（秒）
+    chance?: number;                // 施加概率（0-1），默认 1
+    tickDamage?: number;            // 每层每次的伤害，覆盖定义中的默认值
+    moveSpeedMultiplier?: number;   // 移动速度倍率，覆盖定义中的默认值
+}
+
+/**
+ * 运行时的单个状态效果
+ */
+export interface ActiveStatusEffect {
+    definition: StatusEffectDefinition;
+    stacks: number;
+    remaining: number;              // 剩余持续时间（秒）
+    tickTimer: number;              // 距下次伤害的时间（秒）
+    tickDamage: number;
+    moveSpeedMultiplier: number;
+    source: Node | null;            // 施加者节点，持续伤害以其为攻击者
+}
@@ -0,0 +1,93 @@
+// assets/scripts/configs/WaveConfig.ts
+
+/**
+ * 波次推进方式
+ */
+export enum WaveTrigger {
+    Cleared = 'cleared',            // 本波怪物全部死亡后进入下一波
+    Timer = 'timer',                // 本波开始后经过 duration 秒进入下一波（不等待清场）
+}
+
+/**
+ * 波次中的一组敌人
+ */
+export interface WaveEnemyConfig {
+    type: string;                   // 敌人类型ID
+    count: number;                  // 基础数量（会按 countPerWave 随波次增加）
+    faction?: string;               // 阵营，缺省使用生成器 faction
+}
+
+/**
+ * 单个波次配置
+ */
+export interface WaveConfig {
+    name?: string;                  // 显示名称
+    enemies: WaveEnemyConfig[];     // 波次组成
+    delay?: number;                 // 上一波结束后到本波开始的间隔（秒），缺省使用 WaveModeConfig.waveDelay
+    trigger?: WaveTrigger;          // 推进方式，缺省使用 WaveModeConfig.trigger
+    duration?: number;              // Timer 推进时本波持续时间（秒）
+    spawnInterval?: number;         // 本波内逐个生成的间隔（秒），缺省使用 WaveModeConfig.spawnInterval
+    healthMultiplier?: number;      // 本波额外生命倍率（与波次成长相乘）
+    attackMultiplier?: number;      // 本波额外攻击倍率（与波次成长相乘）
+}
+
+/**
+ * 波次难度成长（按已完成的波次数线性增长）
+ * 第 n 波（从0开始）的生命倍率 = 1 + healthPerWave * n
+ */
+export interface WaveScalingConfig {
+    healthPerWave?: number;         // 每波生命倍率增量
+    attackPerWave?: number;         // 每波攻击倍率增量
+    countPerWave?: number;          // 每波每组敌人数量增量（向下取整）
+}
+
+/**
+ * 生成器波次模式配置（MonsterSpawnerData.waves）
+ */
+export interface WaveModeConfig {
+    waves: WaveConfig[];            // 有序波次
+    loop?: boolean;                 // 最后一波结束后从第一波重新开始（难度继续成长）
+    initialDelay?: number;          // 第一波开始前的等待（秒）
+    waveDelay?: number;             // 默认波次间隔（秒）
+    trigger?: WaveTrigger;          // 默认推进方式
+    spawnInterval?: number;         // 默认波内生成间隔（秒）
+    scaling?: WaveScalingConfig;    // 难度成长
+}
+
+/**
+ * 波次模式默认参数
+ */
+export const WAVE_DEFAULTS = {
+    initialDelay: 2,
+    waveDelay: 5,
+    trigger: WaveTrigger.Cleared,
+    spawnInterval: 0.3,
+    timerDuration: 30,
+};
+
+/**
+ * 计算第 waveIndex 波（从0开始计数的总波次）的难度倍率
+ */
+export function getWaveScaling(mode: WaveModeConfig, wave: WaveConfig, waveIndex: number): { health: number, attack: number, extraCount: number } {
+    const scaling = mode.scaling || {};
+    return {
+        health: (1 + (scaling.healthPerWave ?? 0) * waveIndex) * (wave.healthMultiplier ?? 1),
+        attack: (1 + (scaling.attackPerWave ?? 0) * waveIndex) * (wave.attackMultiplier ?? 1),
+        extraCount: Math.floor((scaling.countPerWave ?? 0) * waveIndex),
+    };
+}
+
+/**
+ * 提取波次配置中出现的所有敌人类型（用于预加载和对象池初始化）
+ */
+export function getWaveEnemyTypes(mode: WaveModeConfig | undefined): string[] {
+    if (!mode || !mode.waves) {
+        return [];
+    }
+
+    const types = new Set<string>();
+    mode.waves.forEach(wave => {
+        wave.enemies.forEach(enemy => types.add(enemy.type));
+    });
+    return Array.from(types);
+}
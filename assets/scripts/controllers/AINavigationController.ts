@@ -2,9 +2,18 @@ import { _decorator, Component, Node, Vec3, Vec2, find, RigidBody2D } from 'cc';
 import { PathfindingManager, PathInfo } from '../systems/PathfindingManager';
 import { OrcaAgent } from '../components/OrcaAgent';
 import { Faction } from '../configs/FactionConfig';
-import { TargetInfo, ITargetSelector } from '../components/MonsterAI';
+import { TargetInfo, ITargetSelector, AIBehaviorType } from '../components/MonsterAI';
 import { BaseCharacterDemo } from '../entities/BaseCharacterDemo';
 import { TargetSelectorFactory } from '../configs/TargetSelectorFactory';
+import { EnemyData } from '../configs/EnemyConfig';
+import { DamageInfo } from '../configs/DamageConfig';
+import { StatModifierSource } from '../configs/StatModifierConfig';
+import { CharacterStats } from '../components/CharacterStats';
+import { GameEvents } from '../components/GameEvents';
+import { eventManager } from '../managers/EventManager';
+import { factionManager } from '../managers/FactionManager';
+import { gridManager } from '../systems/GridManager';
+import { simulationManager } from '../managers/SimulationManager';
 
 const { ccclass, property } = _decorator;
 
@@ -114,7 +123,7 @@ export class AINavigationController extends Component {
     // 时间管理
     private lastTargetSearchTime: number = 0;
     private lastPathUpdateTime: number = 0;
-    private lastBlockedCheckTime: number = 0;
+    private blockedCheckTimer: number = 0;
     private stateEnterTime: number = 0;
     private lastDebugTime: number = 0;
     
@@ -128,6 +137,17 @@ export class AINavigationController extends Component {
     // AI属性
     private aiRole: string = '';
     private originalPosition: Vec3 = new Vec3(); // AI的原始位置（用于回归）
+    private enemyData: EnemyData | null = null;  // 行为配置来源（被动/辅助/自爆）
+    
+    // 【被动型】受击后的反击截止时间
+    private provokedUntil: number = 0;
+    
+    // 【辅助型】上次治疗/增益时间
+    private lastSupportTime: number = 0;
+    
+    // 【自爆型】引爆状态
+    private fuseStartTime: number = 0;
+    private hasDetonated: boolean = false;
     
     // 外部目标控制 - 用于鼠标跟随等功能
     private externalTarget: Vec3 | null = null;
@@ -149,9 +169,12 @@ export class AINavigationController extends Component {
         this.initializePathfindingManager();
         this.orcaAgent = this.getComponent(OrcaAgent);
         
+        // 【被动型】监听受伤事件，用于触发反击
+        eventManager.on(GameEvents.CHARACTER_DAMAGED, this.onCharacterDamaged);
+        
         // 初始化状态
         this.currentState = NavigationState.IDLE;
-        this.stateEnterTime = Date.now() / 1000;
+        this.stateEnterTime = simulationManager.now() / 1000;
         
         console.log(`%c[AINavigationController] 🧭 AI导航控制器已初始化: ${this.node.name}`, 'color: purple; font-weight: bold');
     }
@@ -215,6 +238,17 @@ export class AINavigationController extends Component {
         
         this.aiRole = role;
         
+        // 读取行为配置，并重置行为状态（对象池重用时也会调用）
+        const baseCharacter = this.node.getComponent(BaseCharacterDemo);
+        this.enemyData = baseCharacter ? baseCharacter.getEnemyData() : null;
+        this.provokedUntil = 0;
+        this.lastSupportTime = 0;
+        this.fuseStartTime = 0;
+        this.hasDetonated = false;
+        if (this.orcaAgent) {
+            this.orcaAgent.maxSpeed = 0;
+        }
+        
         // 【新架构】设置原始位置
         if (!this.originalPosition || this.originalPosition.equals(Vec3.ZERO)) {
             this.originalPosition.set(this.node.position);
@@ -225,20 +259,32 @@ export class AINavigationController extends Component {
         
         // 应用配置
         if (config) {
-            if (config.detectionRange !== undefined) this.detectionRange = config.detectionRange;
-            if (config.attackRange !== undefined) this.attackRange = config.attackRange;
-            if (config.pathUpdateInterval !== undefined) this.pathUpdateInterval = config.pathUpdateInterval;
-            if (config.pathNodeThreshold !== undefined) this.pathNodeThreshold = config.pathNodeThreshold;
-            if (config.maxPathAge !== undefined) this.maxPathAge = config.maxPathAge;
-            if (config.blockedCheckInterval !== undefined) this.blockedCheckInterval = config.blockedCheckInterval;
-            if (config.giveUpDistance !== undefined) this.giveUpDistance = config.giveUpDistance;
-            
-
+            this.applyNavigationConfig(config);
         }
         
 
     }
     
+    /**
+     * 热重载敌人数据：更新行为配置和导航参数，不重置当前目标、路径和行为状态
+     * @param enemyData 新的敌人数据
+     * @param config 由新数据计算的导航参数
+     */
+    public applyEnemyDataUpdate(enemyData: EnemyData, config: Partial<NavigationConfig>): void {
+        this.enemyData = enemyData;
+        this.applyNavigationConfig(config);
+    }
+    
+    private applyNavigationConfig(config: Partial<NavigationConfig>): void {
+        if (config.detectionRange !== undefined) this.detectionRange = config.detectionRange;
+        if (config.attackRange !== undefined) this.attackRange = config.attackRange;
+        if (config.pathUpdateInterval !== undefined) this.pathUpdateInterval = config.pathUpdateInterval;
+        if (config.pathNodeThreshold !== undefined) this.pathNodeThreshold = config.pathNodeThreshold;
+        if (config.maxPathAge !== undefined) this.maxPathAge = config.maxPathAge;
+        if (config.blockedCheckInterval !== undefined) this.blockedCheckInterval = config.blockedCheckInterval;
+        if (config.giveUpDistance !== undefined) this.giveUpDistance = config.giveUpDistance;
+    }
+    
     /**
      * 获取当前角色的阵营（从BaseCharacterDemo获取）
      */
@@ -256,7 +302,7 @@ export class AINavigationController extends Component {
      * 输出：期望移动速度和攻击意图
      */
     public computeDecision(): AINavigationOutput {
-        const currentTime = Date.now() / 1000;
+        const currentTime = simulationManager.now() / 1000;
         const output: AINavigationOutput = {
             prefVelocity: new Vec2(0, 0),
             wantsToAttack: false,
@@ -279,6 +325,13 @@ export class AINavigationController extends Component {
             }
         }
 
+        // 【状态效果】冰冻、眩晕中不移动、不攻击，也不释放辅助能力和引爆
+        const baseCharacter = this.node.getComponent(BaseCharacterDemo);
+        if (baseCharacter && baseCharacter.isActionLocked()) {
+            output.debugInfo = `${this.node.name}: 受控制效果影响，无法行动`;
+            return output;
+        }
+
         // 检查AI是否已初始化
         const currentFaction = this.getCurrentFaction();
         if (!currentFaction || !this.targetSelector) {
@@ -286,6 +339,22 @@ export class AINavigationController extends Component {
             return output;
         }
 
+        // 【特殊行为】根据AI角色分派决策
+        switch (this.aiRole) {
+            case AIBehaviorType.SUPPORT:
+                return this.computeSupportDecision(output, currentTime);
+            case AIBehaviorType.KAMIKAZE:
+                return this.computeKamikazeDecision(output, currentTime);
+            case AIBehaviorType.PASSIVE:
+                // 未被激怒时不主动索敌，只回归原位
+                if (currentTime >= this.provokedUntil) {
+                    this.currentTarget = null;
+                    this.applyReturnHome(output);
+                    return output;
+                }
+                break;
+        }
+
         // 1. 搜索目标
         const currentTarget = this.findBestTarget();
         
@@ -327,28 +396,286 @@ export class AINavigationController extends Component {
             this.currentTarget = currentTarget;
         } else {
             // 没有目标：检查是否需要回归原位
-            const homeDistance = Vec3.distance(this.node.position, this.originalPosition);
-            if (homeDistance > 10) {
-                output.prefVelocity = this.calculateMoveVelocityTowards(this.originalPosition);
-                output.debugInfo = `${this.node.name}: 回归原位(距离=${homeDistance.toFixed(1)})`;
-            } else {
-                output.prefVelocity.set(0, 0); // 待机
-                output.debugInfo = `${this.node.name}: 原位待机`;
-            }
-            output.wantsToAttack = false;
+            this.applyReturnHome(output);
             this.currentTarget = null;
         }
         
         return output;
     }
 
+    /**
+     * 没有目标时的决策：回归原位或原地待机
+     */
+    private applyReturnHome(output: AINavigationOutput): void {
+        const homeDistance = Vec3.distance(this.node.position, this.originalPosition);
+        if (homeDistance > 10) {
+            output.prefVelocity = this.calculateMoveVelocityTowards(this.originalPosition);
+            output.debugInfo = `${this.node.name}: 回归原位(距离=${homeDistance.toFixed(1)})`;
+        } else {
+            output.prefVelocity.set(0, 0); // 待机
+            output.debugInfo = `${this.node.name}: 原位待机`;
+        }
+        output.wantsToAttack = false;
+    }
+
+    // ===== 被动型行为 =====
+
+    /**
+     * 受伤事件回调 - 被动型AI受击后在 aggroDecayTime 内进入反击状态
+     */
+    private onCharacterDamaged = (stats: CharacterStats, damage: number): void => {
+        if (this.aiRole !== AIBehaviorType.PASSIVE || !stats || stats.node !== this.node) {
+            return;
+        }
+
+        const aggroDuration = this.enemyData ? this.enemyData.aggroDecayTime : 5;
+        const wasProvoked = simulationManager.now() / 1000 < this.provokedUntil;
+        this.provokedUntil = simulationManager.now() / 1000 + aggroDuration;
+
+        if (!wasProvoked) {
+            console.log(`%c[AINavigationController] 😠 ${this.node.name}: 受到攻击，开始反击 (${aggroDuration}s)`, 'color: orange');
+        }
+    }
+
+    /**
+     * 是否处于被激怒（反击）状态
+     */
+    public isProvoked(): boolean {
+        return simulationManager.now() / 1000 < this.provokedUntil;
+    }
+
+    // ===== 辅助型行为 =====
+
+    /**
+     * 辅助型决策：跟随生命百分比最低的友军，在范围内定期治疗/增益，不主动攻击
+     */
+    private computeSupportDecision(output: AINavigationOutput, currentTime: number): AINavigationOutput {
+        const config = this.enemyData?.supportConfig;
+        const ally = this.findSupportAlly();
+        this.currentTarget = null;
+
+        if (!ally || !config) {
+            this.applyReturnHome(output);
+            return output;
+        }
+
+        const distance = Vec3.distance(this.node.position, ally.position);
+        if (distance > config.followDistance) {
+            output.prefVelocity = this.calculateMoveVelocityTowards(ally.position);
+            output.debugInfo = `${this.node.name}: 跟随友军 ${ally.name}(距离=${distance.toFixed(1)})`;
+        } else {
+            output.prefVelocity.set(0, 0);
+            output.debugInfo = `${this.node.name}: 守护友军 ${ally.name}`;
+        }
+        output.wantsToAttack = false;
+        output.targetDirection = ally.position;
+
+        if (distance <= config.abilityRange && currentTime - this.lastSupportTime >= config.abilityInterval) {
+            this.lastSupportTime = currentTime;
+            this.performSupportAbility();
+        }
+
+        return output;
+    }
+
+    /**
+     * 在搜索范围内寻找跟随对象：优先生命百分比最低的友军，其次最近的友军
+     */
+    private findSupportAlly(): Node | null {
+        const faction = this.getCurrentFaction();
+        if (!faction) {
+            return null;
+        }
+
+        const allies = gridManager.getNearbyCharacters(this.node.position, this.detectionRange, faction);
+        let bestNode: Node | null = null;
+        let bestScore = Infinity;
+
+        for (const ally of allies) {
+            if (ally.node === this.node || !ally.isAlive()) {
+                continue;
+            }
+            const stats = ally.node.getComponent(CharacterStats);
+            const healthPercent = stats && stats.maxHealth > 0 ? stats.currentHealth / stats.maxHealth : 1;
+            const distance = Vec3.distance(this.node.position, ally.node.position);
+            // 生命百分比为主要依据，距离作为次要依据
+            const score = healthPercent * 10000 + distance;
+            if (score < bestScore) {
+                bestScore = score;
+                bestNode = ally.node;
+            }
+        }
+
+        return bestNode;
+    }
+
+    /**
+     * 对作用范围内的所有友军（包括自身）释放治疗和增益
+     */
+    private performSupportAbility(): void {
+        const config = this.enemyData?.supportConfig;
+        const faction = this.getCurrentFaction();
+        if (!config || !faction) {
+            return;
+        }
+
+        const allies = gridManager.getNearbyCharacters(this.node.position, config.abilityRange, faction);
+        const targets: Node[] = [this.node];
+        for (const ally of allies) {
+            if (ally.isAlive() && targets.indexOf(ally.node) === -1) {
+                targets.push(ally.node);
+            }
+        }
+
+        let healedCount = 0;
+        for (const target of targets) {
+            const stats = target.getComponent(CharacterStats);
+            if (!stats || !stats.isAlive) {
+                continue;
+            }
+            if (config.healAmount > 0 && stats.currentHealth < stats.maxHealth) {
+                stats.heal(config.healAmount);
+                healedCount++;
+            }
+            if (config.buff) {
+                const speedMultiplier = config.buff.moveSpeedMultiplier && config.buff.moveSpeedMultiplier > 0 ? config.buff.moveSpeedMultiplier : 1.0;
+                stats.applyTemporaryBuff(config.buff.attackBonus || 0, config.buff.defenseBonus || 0, speedMultiplier, config.buff.duration, `${StatModifierSource.Support}:${this.node.uuid}`);
+            }
+        }
+
+        console.log(`%c[AINavigationController] 💚 ${this.node.name}: 辅助技能生效，治疗 ${healedCount} 个友军，作用 ${targets.length} 个单位`, 'color: green');
+    }
+
+    // ===== 自爆型行为 =====
+
+    /**
+     * 自爆型决策：冲刺接近目标，进入触发距离后开始倒计时，倒计时结束自爆
+     */
+    private computeKamikazeDecision(output: AINavigationOutput, currentTime: number): AINavigationOutput {
+        const config = this.enemyData?.kamikazeConfig;
+        if (this.hasDetonated) {
+            output.prefVelocity.set(0, 0);
+            return output;
+        }
+        if (!config) {
+            this.applyReturnHome(output);
+            return output;
+        }
+
+        // 引爆倒计时中：原地等待爆炸
+        if (this.fuseStartTime > 0) {
+            output.prefVelocity.set(0, 0);
+            output.wantsToAttack = false;
+            output.debugInfo = `${this.node.name}: 引爆倒计时`;
+            if (currentTime - this.fuseStartTime >= config.fuseTime) {
+                this.detonate();
+            }
+            return output;
+        }
+
+        const target = this.findBestTarget();
+        this.currentTarget = target;
+        if (!target) {
+            this.setSprinting(false);
+            this.applyReturnHome(output);
+            return output;
+        }
+
+        const distance = Vec3.distance(this.node.position, target.position);
+        output.targetDirection = target.position;
+        output.wantsToAttack = false;
+
+        if (distance <= config.triggerRange) {
+            this.fuseStartTime = currentTime;
+            this.setSprinting(false);
+            output.prefVelocity.set(0, 0);
+            output.debugInfo = `${this.node.name}: 进入引爆距离，开始倒计时 ${config.fuseTime}s`;
+            console.log(`%c[AINavigationController] 💣 ${this.node.name}: 开始引爆倒计时`, 'color: red');
+        } else {
+            this.setSprinting(true);
+            output.prefVelocity = this.calculateMoveVelocityTowards(target.position);
+            output.debugInfo = `${this.node.name}: 冲向目标(距离=${distance.toFixed(1)})`;
+        }
+
+        return output;
+    }
+
+    /**
+     * 切换冲刺速度（通过ORCA代理的最大速度覆盖实现）
+     */
+    private setSprinting(sprinting: boolean): void {
+        if (!this.orcaAgent) {
+            return;
+        }
+        if (!sprinting) {
+            this.orcaAgent.maxSpeed = 0; // 0表示恢复从角色组件获取
+            return;
+        }
+
+        const config = this.enemyData?.kamikazeConfig;
+        const multiplier = config?.sprintMultiplier || this.enemyData?.chaseSpeedMultiplier || 1.0;
+        const character = this.orcaAgent.character;
+        const baseSpeed = character ? character.getMoveSpeed() : 0;
+        if (baseSpeed > 0) {
+            this.orcaAgent.maxSpeed = baseSpeed * multiplier;
+        }
+    }
+
+    /**
+     * 自爆：对范围内的敌对单位造成伤害，然后自身死亡
+     */
+    private detonate(): void {
+        const config = this.enemyData?.kamikazeConfig;
+        const faction = this.getCurrentFaction();
+        if (!config || !faction || this.hasDetonated) {
+            return;
+        }
+        this.hasDetonated = true;
+        this.setSprinting(false);
+
+        const victims = gridManager.getNearbyCharacters(this.node.position, config.explosionRadius);
+        const selfStats = this.node.getComponent(CharacterStats);
+        let hitCount = 0;
+        for (const victim of victims) {
+            if (victim.node === this.node || !victim.isAlive() || !factionManager.doesAttack(faction, victim.getFaction())) {
+                continue;
+            }
+            const damage = selfStats ? selfStats.createDamageInfo(config.explosionDamage) : config.explosionDamage;
+            this.dealExplosionDamage(victim.node, damage, this.node);
+            hitCount++;
+        }
+
+        console.log(`%c[AINavigationController] 💥 ${this.node.name}: 自爆！命中 ${hitCount} 个目标`, 'color: red; font-weight: bold');
+
+        // 自身死亡：真实伤害，不受抗性和护甲影响
+        if (selfStats && selfStats.isAlive) {
+            this.dealExplosionDamage(this.node, { amount: selfStats.currentHealth, trueDamage: true }, null);
+        }
+    }
+
+    /**
+     * 造成爆炸伤害 - 优先走 BaseCharacterDemo.takeDamage 以触发受伤/死亡状态
+     */
+    private dealExplosionDamage(target: Node, damage: number | DamageInfo, attacker: Node | null): void {
+        const characterDemo = target.getComponent(BaseCharacterDemo);
+        if (characterDemo) {
+            characterDemo.takeDamage(damage, attacker);
+            return;
+        }
+        const stats = target.getComponent(CharacterStats);
+        if (stats) {
+            stats.takeDamage(damage, attacker);
+        }
+    }
+
     /**
      * 【兼容性】保留update方法供现有系统调用
      * 但现在只负责内部维护，不再控制状态机
      */
-    protected update(deltaTime: number): void {
+    protected update(frameDeltaTime: number): void {
+        const deltaTime = simulationManager.getDeltaTime(frameDeltaTime);
         // 仅保留基础的目标有效性检查和路径维护
-        const currentTime = Date.now() / 1000;
+        const currentTime = simulationManager.now() / 1000;
         
         // 清理无效目标
         if (this.currentTarget && !this.isTargetValid(this.currentTarget)) {
@@ -361,8 +688,9 @@ export class AINavigationController extends Component {
         }
         
         // 【官方推荐方式】定期检查阻挡状态，用于stateEnterTime更新
-        if (currentTime - this.lastBlockedCheckTime > this.blockedCheckInterval) {
-            this.lastBlockedCheckTime = currentTime;
+        this.blockedCheckTimer += deltaTime;
+        if (this.blockedCheckTimer > this.blockedCheckInterval) {
+            this.blockedCheckTimer = 0;
             
             if (this.isPathBlocked()) {
                 // 重置状态进入时间，避免长期阻挡误判
@@ -474,7 +802,7 @@ export class AINavigationController extends Component {
      */
     private enterIdleState(): void {
         this.isInIdleState = true;
-        this.idleStartTime = Date.now() / 1000;
+        this.idleStartTime = simulationManager.now() / 1000;
         this.clearCurrentPath(); // 清理失效路径
     }
 
@@ -547,7 +875,7 @@ export class AINavigationController extends Component {
         const isStuck = actualVelocity ? actualVelocity.lengthSqr() < 0.1 : true; // 如果没有刚体也认为卡住
     
         // 如果有移动意图，但在原地停留超过1.5秒，则认为被阻挡
-        const stateTime = (Date.now() / 1000) - this.stateEnterTime;
+        const stateTime = (simulationManager.now() / 1000) - this.stateEnterTime;
         if (wantsToMove && isStuck && stateTime > 1.5) {
             console.log(`%c[AINavigationController] 🚧 检测到路径阻挡 (想动但动不了): ${this.node.name}`, 'color: red');
             return true;
@@ -595,6 +923,7 @@ export class AINavigationController extends Component {
     }
     
     protected onDestroy(): void {
+        eventManager.off(GameEvents.CHARACTER_DAMAGED, this.onCharacterDamaged);
         this.clearCurrentPath();
         this.currentTarget = null;
         this.clearExternalTarget(); // 清理外部目标
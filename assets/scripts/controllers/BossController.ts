@@ -0,0 +1,392 @@
+// assets/scripts/controllers/BossController.ts
+
+import { _decorator, Component, Node } from 'cc';
+import { BossConfig, BossPhaseConfig, EnemyData } from '../configs/EnemyConfig';
+import { BossSaveState } from '../configs/BattleSaveConfig';
+import { FactionUtils } from '../configs/FactionConfig';
+import { StatModifierSource } from '../configs/StatModifierConfig';
+import { CharacterStats } from '../components/CharacterStats';
+import { SkillCaster } from '../components/SkillCaster';
+import { GameEvents } from '../components/GameEvents';
+import { eventManager } from '../managers/EventManager';
+import { MonsterSpawner } from '../managers/MonsterSpawner';
+import { BossHealthBar } from '../ui/BossHealthBar';
+import { simulationManager } from '../managers/SimulationManager';
+
+const { ccclass } = _decorator;
+
+/**
+ * Boss控制器
+ * 挂载在 BaseCharacterDemo 节点上，由 MonsterSpawner 在生成Boss时初始化：
+ * - 生命值降到阈值时切换阶段（累加阶段属性加成、切换技能循环、通过 MonsterSpawner 召唤小怪）
+ * - 战斗开始后计时，超时进入狂暴
+ * - 驱动屏幕顶部的 BossHealthBar
+ * 移动、攻击和施法仍由 BaseCharacterDemo 的AI和状态机负责，本组件只修改技能循环和属性。
+ */
+@ccclass('BossController')
+export class BossController extends Component {
+
+    // 狂暴倒计时刷新间隔（秒）
+    private readonly ENRAGE_DISPLAY_INTERVAL = 0.5;
+
+    private _enemyData: EnemyData | null = null;
+    private _config: BossConfig | null = null;
+    private _phases: BossPhaseConfig[] = [];
+    private _spawner: MonsterSpawner | null = null;
+
+    private _phaseIndex: number = -1;
+    private _encounterStartTime: number = 0;
+    private _isEnraged: boolean = false;
+    private _isActive: boolean = false;
+    private _enrageDisplayTimer: number = 0;
+
+    // 技能施放组件可能在角色异步初始化完成后才创建，未能应用的技能循环在 update 中补上
+    private _rotationApplied: boolean = false;
+
+    private _healthBar: BossHealthBar | null = null;
+
+    // ========== 访问器 ==========
+
+    public get phaseIndex(): number {
+        return this._phaseIndex;
+    }
+
+    public get currentPhase(): BossPhaseConfig | null {
+        return this._phases[this._phaseIndex] || null;
+    }
+
+    public get isEnraged(): boolean {
+        return this._isEnraged;
+    }
+
+    public get isActive(): boolean {
+        return this._isActive;
+    }
+
+    /**
+     * 狂暴剩余时间（秒），未配置狂暴或已狂暴时返回 -1
+     */
+    public getEnrageRemaining(): number {
+        if (!this._config || !this._config.enrage || this._isEnraged) {
+            return -1;
+        }
+        const elapsed = simulationManager.now() / 1000 - this._encounterStartTime;
+        return Math.max(0, this._config.enrage.time - elapsed);
+    }
+
+    // ========== 初始化 ==========
+
+    /**
+     * 初始化Boss战斗
+     * @param enemyData Boss的敌人配置（必须包含 bossConfig）
+     * @param spawner 用于召唤小怪的生成器，为空时在场景中查找
+     * @param savedState 读档时的Boss战斗状态，传入时直接恢复阶段和狂暴，不执行阶段切换和召唤
+     */
+    public initBoss(enemyData: EnemyData, spawner: MonsterSpawner | null = null, savedState: BossSaveState | null = null): void {
+        this.clearBoss();
+
+        if (!enemyData.bossConfig || enemyData.bossConfig.phases.length === 0) {
+            console.warn(`BossController: ${enemyData.id} 没有配置阶段，跳过Boss初始化`);
+            return;
+        }
+
+        this._enemyData = enemyData;
+        this._config = enemyData.bossConfig;
+        this._phases = enemyData.bossConfig.phases.slice().sort((a, b) => b.healthThreshold - a.healthThreshold);
+        this._spawner = spawner;
+        this._encounterStartTime = simulationManager.now() / 1000;
+        this._isActive = true;
+
+        this.node.on('health-changed', this.onHealthChanged, this);
+
+        // 屏幕顶部Boss血条
+        this._healthBar = BossHealthBar.getOrCreate();
+        const stats = this.getComponent(CharacterStats);
+        if (this._healthBar) {
+            const maxHealth = stats ? stats.maxHealth : enemyData.baseHealth;
+            const currentHealth = stats ? stats.currentHealth : enemyData.baseHealth;
+            this._healthBar.bindBoss(this.node, enemyData.name, currentHealth, maxHealth);
+            this._healthBar.setEnrageRemaining(this.getEnrageRemaining());
+        }
+
+        if (savedState) {
+            this.restoreState(savedState);
+            console.log(`BossController: 📂 Boss战已恢复 - ${enemyData.name}，阶段 ${this._phaseIndex + 1}/${this._phases.length}${this._isEnraged ? '（狂暴）' : ''}`);
+            return;
+        }
+
+        this.enterPhase(0);
+
+        console.log(`BossController: 👑 Boss战开始 - ${enemyData.name}，共 ${this._phases.length} 个阶段`);
+        eventManager.emit(GameEvents.BOSS_ENCOUNTER_STARTED, this.node, enemyData);
+    }
+
+    /**
+     * 获取Boss战斗状态（存档用），Boss战未进行时返回 null
+     */
+    public captureState(): BossSaveState | null {
+        if (!this._isActive) {
+            return null;
+        }
+        return {
+            phaseIndex: this._phaseIndex,
+            encounterElapsed: simulationManager.now() / 1000 - this._encounterStartTime,
+            isEnraged: this._isEnraged
+        };
+    }
+
+    /**
+     * 恢复Boss战斗状态：重新施加已进入阶段的属性加成和狂暴效果，应用当前阶段技能循环，不召唤小怪、不发送阶段事件
+     */
+    private restoreState(state: BossSaveState): void {
+        this._phaseIndex = Math.max(0, Math.min(this._phases.length - 1, state.phaseIndex));
+        this._encounterStartTime = simulationManager.now() / 1000 - Math.max(0, state.encounterElapsed);
+
+        for (let i = 0; i <= this._phaseIndex; i++) {
+            this.applyPhaseBonus(i);
+        }
+        this._rotationApplied = false;
+        this.applyPhaseRotation();
+
+        const phase = this.currentPhase;
+        if (this._healthBar && phase) {
+            this._healthBar.setPhase(phase.name);
+        }
+
+        if (state.isEnraged && this._config && this._config.enrage) {
+            this._isEnraged = true;
+            this.applyEnrageEffects();
+        } else if (this._healthBar) {
+            this._healthBar.setEnrageRemaining(this.getEnrageRemaining());
+        }
+    }
+
+    /**
+     * 热重载Boss配置：替换阶段和狂暴配置并重新应用当前阶段的技能循环
+     * 当前阶段、战斗计时和已获得的阶段加成保持不变，新的阶段加成和召唤在之后进入阶段时生效
+     * @param enemyData 新的敌人配置
+     */
+    public applyEnemyDataUpdate(enemyData: EnemyData): void {
+        if (!this._isActive || !enemyData.bossConfig || enemyData.bossConfig.phases.length === 0) {
+            return;
+        }
+
+        this._enemyData = enemyData;
+        this._config = enemyData.bossConfig;
+        this._phases = enemyData.bossConfig.phases.slice().sort((a, b) => b.healthThreshold - a.healthThreshold);
+        this._phaseIndex = Math.min(this._phaseIndex, this._phases.length - 1);
+
+        this._rotationApplied = false;
+        this.applyPhaseRotation();
+
+        const phase = this.currentPhase;
+        if (this._healthBar && phase) {
+            this._healthBar.setPhase(phase.name);
+        }
+        console.log(`BossController: [${this.node.name}] 🔄 Boss配置已热重载，当前阶段 ${this._phaseIndex + 1}/${this._phases.length}`);
+    }
+
+    /**
+     * 结束Boss战斗并清理状态（死亡或回收到对象池时调用）
+     */
+    public clearBoss(): void {
+        this.node.off('health-changed', this.onHealthChanged, this);
+
+        if (this._healthBar && this._healthBar.isValid && this._healthBar.isBoundTo(this.node)) {
+            this._healthBar.unbindBoss();
+        }
+
+        const skillCaster = this.getComponent(SkillCaster);
+        if (skillCaster && this._isActive) {
+            skillCaster.setRotation(null);
+            skillCaster.setCooldownMultiplier(1.0);
+        }
+
+        this._healthBar = null;
+        this._enemyData = null;
+        this._config = null;
+        this._phases = [];
+        this._spawner = null;
+        this._phaseIndex = -1;
+        this._isEnraged = false;
+        this._isActive = false;
+        this._rotationApplied = false;
+        this._enrageDisplayTimer = 0;
+    }
+
+    // ========== 阶段切换 ==========
+
+    /**
+     * @param isRestore 是否为读档恢复生命值（阶段已由存档恢复，不切换阶段）
+     */
+    private onHealthChanged(currentHealth: number, maxHealth: number, isRestore: boolean = false): void {
+        if (!this._isActive || maxHealth <= 0 || isRestore) {
+            return;
+        }
+
+        if (currentHealth <= 0) {
+            this.onBossDefeated();
+            return;
+        }
+
+        // 一次伤害可能跨越多个阈值，直接进入最深的阶段
+        const healthPercent = currentHealth / maxHealth;
+        let targetPhase = this._phaseIndex;
+        for (let i = this._phaseIndex + 1; i < this._phases.length; i++) {
+            if (healthPercent <= this._phases[i].healthThreshold) {
+                targetPhase = i;
+            }
+        }
+
+        if (targetPhase !== this._phaseIndex) {
+            this.enterPhase(targetPhase);
+        }
+    }
+
+    private enterPhase(index: number): void {
+        const phase = this._phases[index];
+        if (!phase) {
+            return;
+        }
+
+        this._phaseIndex = index;
+        this.applyPhaseBonus(index);
+
+        this._rotationApplied = false;
+        this.applyPhaseRotation();
+
+        if (phase.adds && phase.adds.count > 0) {
+            this.summonAdds(phase);
+        }
+
+        if (this._healthBar) {
+            this._healthBar.setPhase(phase.name);
+        }
+
+        console.log(`BossController: [${this.node.name}] 进入阶段 ${index + 1}/${this._phases.length} - ${phase.name}`);
+        eventManager.emit(GameEvents.BOSS_PHASE_CHANGED, this.node, index, phase.name);
+    }
+
+    /**
+     * 阶段属性加成（逐阶段累加，持续到重置）
+     */
+    private applyPhaseBonus(index: number): void {
+        const phase = this._phases[index];
+        const stats = this.getComponent(CharacterStats);
+        if (phase && stats && (phase.attackBonus || phase.defenseBonus || phase.moveSpeedMultiplier)) {
+            stats.applyTemporaryBuff(phase.attackBonus || 0, phase.defenseBonus || 0, phase.moveSpeedMultiplier || 1, 0, `${StatModifierSource.BossPhase}:${index}`);
+        }
+    }
+
+    private applyPhaseRotation(): void {
+        const phase = this.currentPhase;
+        const skillCaster = this.getComponent(SkillCaster);
+        if (!phase || !skillCaster) {
+            return;
+        }
+
+        skillCaster.setRotation(phase.skillRotation);
+        this._rotationApplied = true;
+    }
+
+    /**
+     * 通过 MonsterSpawner 召唤本阶段的小怪
+     */
+    private summonAdds(phase: BossPhaseConfig): void {
+        const adds = phase.adds!;
+        const spawner = this.findSpawner();
+        if (!spawner) {
+            console.warn(`BossController: [${this.node.name}] 场景中没有 MonsterSpawner，无法召唤 ${adds.enemyType}`);
+            return;
+        }
+
+        const owner = this.getComponent('BaseCharacterDemo') as any;
+        const faction = owner && owner.getFaction ? FactionUtils.factionToString(owner.getFaction()) : 'red';
+        spawner.spawnAdds(adds.enemyType, adds.count, this.node.position, adds.radius, faction);
+    }
+
+    private findSpawner(): MonsterSpawner | null {
+        if (this._spawner && this._spawner.isValid) {
+            return this._spawner;
+        }
+        const scene = this.node.scene;
+        this._spawner = scene ? scene.getComponentInChildren(MonsterSpawner) : null;
+        return this._spawner;
+    }
+
+    // ========== 狂暴 ==========
+
+    private enrage(): void {
+        if (this._isEnraged || !this._config || !this._config.enrage) {
+            return;
+        }
+
+        this._isEnraged = true;
+        this.applyEnrageEffects();
+
+        console.log(`BossController: [${this.node.name}] 🔥 进入狂暴`);
+        eventManager.emit(GameEvents.BOSS_ENRAGED, this.node);
+    }
+
+    /**
+     * 狂暴效果：属性加成、技能冷却倍率和血条显示
+     */
+    private applyEnrageEffects(): void {
+        const config = this._config?.enrage;
+        if (!config) {
+            return;
+        }
+
+        const stats = this.getComponent(CharacterStats);
+        if (stats) {
+            stats.applyTemporaryBuff(config.attackBonus || 0, 0, config.moveSpeedMultiplier || 1, 0, StatModifierSource.BossEnrage);
+        }
+
+        const skillCaster = this.getComponent(SkillCaster);
+        if (skillCaster && config.cooldownMultiplier !== undefined) {
+            skillCaster.setCooldownMultiplier(config.cooldownMultiplier);
+        }
+
+        if (this._healthBar) {
+            this._healthBar.setEnraged();
+        }
+    }
+
+    private onBossDefeated(): void {
+        console.log(`BossController: [${this.node.name}] 👑 Boss被击败`);
+        const node = this.node;
+        this.clearBoss();
+        eventManager.emit(GameEvents.BOSS_DEFEATED, node);
+    }
+
+    protected update(frameDeltaTime: number): void {
+        const deltaTime = simulationManager.getDeltaTime(frameDeltaTime);
+        if (!this._isActive) {
+            return;
+        }
+
+        if (!this._rotationApplied) {
+            this.applyPhaseRotation();
+        }
+
+        const remaining = this.getEnrageRemaining();
+        if (remaining < 0) {
+            return;
+        }
+
+        if (remaining <= 0) {
+            this.enrage();
+            return;
+        }
+
+        this._enrageDisplayTimer -= deltaTime;
+        if (this._enrageDisplayTimer <= 0 && this._healthBar) {
+            this._enrageDisplayTimer = this.ENRAGE_DISPLAY_INTERVAL;
+            this._healthBar.setEnrageRemaining(remaining);
+        }
+    }
+
+    protected onDestroy(): void {
+        this.clearBoss();
+    }
+}
@@ -2,6 +2,7 @@
 
 import { _decorator, Node, Vec3, Color, tween } from 'cc';
 import { poolManager } from '../managers/PoolManager';
+import { DamageType, DAMAGE_DEFAULTS, DAMAGE_TYPE_COLORS } from '../configs/DamageConfig';
 
 const { ccclass } = _decorator;
 
@@ -26,6 +27,7 @@ export class DamageDisplayController {
     // 时间窗口配置
     private readonly TIME_WINDOW = 0.1; // 0.1秒时间窗口
     private readonly MAX_DISPLAYS_PER_WINDOW = 3; // 每个时间窗口最多3个
+    private readonly CRIT_SCALE = 1.5; // 暴击数字放大倍数
     
     // 显示记录
     private displayTimes: number[] = []; // 记录最近的显示时间
@@ -51,13 +53,17 @@ export class DamageDisplayController {
      * @param position 显示位置
      * @param parentNode 父节点
      * @param characterName 角色名称（用于日志）
+     * @param damageType 伤害类型（决定数字颜色）
+     * @param isCrit 是否暴击（数字放大）
      * @returns 是否立即显示
      */
     public requestDamageDisplay(
         damage: number, 
         position: Vec3, 
         parentNode: Node, 
-        characterName: string = 'Unknown'
+        characterName: string = 'Unknown',
+        damageType: DamageType = DAMAGE_DEFAULTS.damageType,
+        isCrit: boolean = false
     ): boolean {
         const currentTime = Date.now() / 1000; // 转换为秒
         
@@ -67,7 +73,7 @@ export class DamageDisplayController {
         // 检查当前时间窗口内的显示数量
         if (this.displayTimes.length < this.MAX_DISPLAYS_PER_WINDOW) {
             // 可以立即显示
-            this.executeDisplay(damage, position, parentNode, currentTime);
+            this.executeDisplay(damage, position, parentNode, currentTime, damageType, isCrit);
             return true;
         } else {
             // 超出限制，跳过显示（根据用户要求，我们选择跳过而不是延迟）
@@ -79,7 +85,7 @@ export class DamageDisplayController {
     /**
      * 执行实际的伤害数字显示
      */
-    private executeDisplay(damage: number, position: Vec3, parentNode: Node, timestamp: number): void {
+    private executeDisplay(damage: number, position: Vec3, parentNode: Node, timestamp: number, damageType: DamageType, isCrit: boolean): void {
         // 记录显示时间
         this.displayTimes.push(timestamp);
         
@@ -106,14 +112,16 @@ export class DamageDisplayController {
         );
         damageNode.setPosition(DamageDisplayController.tempVec3);
         
-        // 重置初始缩放和透明度
-        damageNode.setScale(1, 1, 1);
+        // 重置初始缩放和透明度（暴击放大）
+        const scale = isCrit ? this.CRIT_SCALE : 1;
+        damageNode.setScale(scale, scale, 1);
         
-        // 获取Label组件以控制透明度
+        // 获取Label组件以控制颜色和透明度
+        const color = DAMAGE_TYPE_COLORS[damageType] || DAMAGE_TYPE_COLORS[DAMAGE_DEFAULTS.damageType];
         const label = damageNode.getComponent('Label') as any;
         if (label) {
             // 重置为完全不透明
-            label.color = new Color(255, 100, 100, 255);
+            label.color = new Color(color.r, color.g, color.b, 255);
         }
         
         // 动画效果：向上飘动并逐渐消失
@@ -129,7 +137,7 @@ export class DamageDisplayController {
                         const label = target.getComponent('Label') as any;
                         if (label && ratio !== undefined) {
                             const alpha = Math.floor(255 * (1 - ratio));
-                            label.color = new Color(255, 100, 100, alpha);
+                            label.color = new Color(color.r, color.g, color.b, alpha);
                         }
                     }
                 })
@@ -1,9 +1,11 @@
 // assets/scripts/launcher/FireballLauncher.ts
 
-import { _decorator, Component, Node, Prefab, Vec3, instantiate, input, Input, EventMouse, view, UITransform, Sprite, Animation, AnimationClip, animation, SpriteFrame, SpriteAtlas, Vec2, Collider2D, Contact2DType, IPhysics2DContact, RigidBody2D, js, director } from 'cc';
+import { _decorator, Component, Node, Prefab, Vec3, instantiate, input, Input, EventMouse, view, UITransform, Sprite, Animation, AnimationClip, animation, SpriteFrame, SpriteAtlas, Vec2, Collider2D, Contact2DType, IPhysics2DContact, RigidBody2D, js, PHYSICS_2D_PTM_RATIO } from 'cc';
 import { eventManager } from '../managers/EventManager';
 import { IProjectileController } from './ProjectileLauncher';
-import { FireballController } from './FireballController';
+import { ProjectileController } from './ProjectileController';
+import { OrcaAgent } from '../components/OrcaAgent';
+import { PROJECTILE_DEFAULTS, computeInterceptPoint } from '../configs/ProjectileConfig';
 import { resourceManager } from '../managers/ResourceManager';
 import { dataManager } from '../managers/DataManager';
 import { AnimationDirection, ProjectileAnimationState } from '../configs/AnimationConfig';
@@ -11,6 +13,9 @@ import { Faction } from '../configs/FactionConfig';
 import { factionManager } from '../managers/FactionManager';
 import { PhysicsGroup } from '../configs/PhysicsConfig';
 import { poolManager } from '../managers/PoolManager';
+import { gameRandom } from '../utils/SeededRandom';
+import { simulationManager } from '../managers/SimulationManager';
+import { DamageType, DamageInfo } from '../configs/DamageConfig';
 
 const { ccclass, property } = _decorator;
 
@@ -27,6 +32,9 @@ export class FireballLauncher extends Component implements IProjectileController
     @property({ tooltip: "默认发射角度（度），0=水平向右，90=向上，-90=向下" })
     public defaultAngle: number = 0;
 
+    @property({ tooltip: "默认投射物ID（skills.json 中 projectiles 的键）" })
+    public projectileId: string = 'fireball';
+
     // === 火球行为配置 ===
     @property({ tooltip: "火球移动速度（像素/秒）" })
     public moveSpeed: number = 1;
@@ -38,6 +46,9 @@ export class FireballLauncher extends Component implements IProjectileController
     @property({ tooltip: "火球伤害值" })
     public damage: number = 50;
     
+    // 伤害类型（投射物配置了 damageType 时覆盖）
+    public damageType: DamageType = DamageType.Fire;
+    
     @property({ tooltip: "火球生命时间（秒）" })
     public lifeTime: number = 5;
     
@@ -89,7 +100,7 @@ export class FireballLauncher extends Component implements IProjectileController
     
     protected start() {
         // 【性能优化】初始化随机帧偏移，避免所有火球同时更新
-        this.updateFrameOffset = Math.floor(Math.random() * this.UPDATE_FRAME_INTERVAL);
+        this.updateFrameOffset = Math.floor(gameRandom.next() * this.UPDATE_FRAME_INTERVAL);
         
         if (this.isLauncher) {
             
@@ -100,10 +111,11 @@ export class FireballLauncher extends Component implements IProjectileController
         }
     }
     
-    protected update(deltaTime: number): void {
+    protected update(frameDeltaTime: number): void {
+        const deltaTime = simulationManager.getDeltaTime(frameDeltaTime);
         if (!this.isLauncher && !this.isDestroying && this.isInitialized) {
             // 【性能优化】分帧更新：每3帧更新一次
-            const currentFrame = director.getTotalFrames();
+            const currentFrame = simulationManager.frame;
             if ((currentFrame + this.updateFrameOffset) % this.UPDATE_FRAME_INTERVAL === 0) {
                 // 补偿时间差
                 this.updateFireballLogic(deltaTime * this.UPDATE_FRAME_INTERVAL);
@@ -112,15 +124,28 @@ export class FireballLauncher extends Component implements IProjectileController
     }
     
     /**
-     * 发射火球（统一方法）
+     * 发射火球（统一方法，使用默认投射物）
      * @param direction 发射方向（归一化向量）
      * @param customDamage 自定义伤害值（可选）
      */
     public launchFireball(direction: Vec3, customDamage?: number): void {
-        const fireball = this.createFireball();
-        if (!fireball) {
-            console.error('FireballLauncher: 创建火球失败');
-            return;
+        this.launchProjectile(this.projectileId, direction, customDamage);
+    }
+
+    /**
+     * 发射指定投射物
+     * @param projectileId 投射物ID
+     * @param direction 发射方向
+     * @param customDamage 自定义伤害值（可选）
+     * @param target 目标节点（可选）：抛物线投射物落在瞄准位置，追踪投射物优先追踪该目标
+     * @param aimPosition 瞄准位置（可选），缺省为目标当前位置
+     * @returns 投射物控制器，创建失败时返回 null
+     */
+    public launchProjectile(projectileId: string, direction: Vec3, customDamage?: number, target?: Node | null, aimPosition?: Vec3): ProjectileController | null {
+        const projectile = this.createProjectile(projectileId);
+        if (!projectile) {
+            console.error(`FireballLauncher: 创建投射物 ${projectileId} 失败`);
+            return null;
         }
 
         // 计算发射角度
@@ -128,16 +153,67 @@ export class FireballLauncher extends Component implements IProjectileController
         
         // 使用带偏移的发射位置
         const launchPosition = this.calculateLaunchPositionByAngle(angleDegrees);
-        fireball.node.position = launchPosition;
+        projectile.node.position = launchPosition;
 
         // 应用自定义参数
         if (customDamage !== undefined) {
-            fireball.damage = customDamage;
+            projectile.damage = customDamage;
         }
 
-        // 设置火球方向
-        fireball.setMoveDirection(direction);
+        // 设置投射物方向
+        if (target && target.isValid) {
+            projectile.setHomingTarget(target);
+            projectile.setTarget(aimPosition || target.position);
+        } else {
+            projectile.setMoveDirection(direction);
+        }
+        return projectile;
+    }
 
+    /**
+     * 向目标节点发射指定投射物
+     * @param projectileId 投射物ID
+     * @param target 目标节点
+     * @param customDamage 自定义伤害值（可选）
+     * @param leadTarget 是否预判目标移动（AI 发射者使用）
+     */
+    public launchProjectileAtTarget(projectileId: string, target: Node, customDamage?: number, leadTarget: boolean = false): ProjectileController | null {
+        const aimPosition = leadTarget ? this.getLeadAimPosition(projectileId, target) : target.position.clone();
+        const direction = new Vec3();
+        Vec3.subtract(direction, aimPosition, this.node.position);
+        direction.normalize();
+        return this.launchProjectile(projectileId, direction, customDamage, target, aimPosition);
+    }
+
+    /**
+     * 计算预判瞄准位置：按目标的 ORCA 速度和投射物飞行速度求拦截点
+     * @param projectileId 投射物ID
+     * @param target 目标节点
+     */
+    public getLeadAimPosition(projectileId: string, target: Node): Vec3 {
+        const agent = target.getComponent(OrcaAgent);
+        const projectileData = dataManager.getProjectileData(projectileId);
+        if (!agent || !projectileData) {
+            return target.position.clone();
+        }
+
+        // ORCA 速度与投射物速度都是刚体速度单位（米/秒），换算为像素/秒与位置统一
+        const velocity = agent.velocity.multiplyScalar(PHYSICS_2D_PTM_RATIO);
+        const speed = (projectileData.moveSpeed || PROJECTILE_DEFAULTS.moveSpeed) * PHYSICS_2D_PTM_RATIO;
+        const lead = projectileData.aimLead ?? PROJECTILE_DEFAULTS.aimLead;
+        const point = computeInterceptPoint(this.node.position, target.position, velocity, speed, lead);
+        return new Vec3(point.x, point.y, target.position.z);
+    }
+
+    /**
+     * 按角度发射指定投射物
+     * @param projectileId 投射物ID
+     * @param angleDegrees 发射角度（度）
+     * @param customDamage 自定义伤害值（可选）
+     */
+    public launchProjectileAtAngle(projectileId: string, angleDegrees: number, customDamage?: number): ProjectileController | null {
+        const angleRadians = angleDegrees * Math.PI / 180;
+        return this.launchProjectile(projectileId, new Vec3(Math.cos(angleRadians), Math.sin(angleRadians), 0), customDamage);
     }
 
     // =================== 便利方法 ===================
@@ -183,37 +259,30 @@ export class FireballLauncher extends Component implements IProjectileController
     }
     
     /**
-     * 创建火球实例 - 完全依赖对象池
+     * 创建投射物实例 - 完全依赖对象池
+     * @param projectileId 投射物ID
      */
-    private createFireball(): FireballController | null {
-        // 从对象池创建火球
-        const poolFireball = FireballController.createFromPool('fireball');
-        if (poolFireball) { 
-            
-            // 确保火球节点的锚点
-            const uiTransform = poolFireball.node.getComponent(UITransform);
-            if (uiTransform) {
-                uiTransform.setAnchorPoint(0.5, 0.6);
-            }
-            
+    private createProjectile(projectileId: string): ProjectileController | null {
+        // 从对象池创建投射物（锚点、缩放等外观由投射物配置决定）
+        const projectile = ProjectileController.createFromPool(projectileId);
+        if (projectile) { 
             // 添加到场景
-            this.node.parent?.addChild(poolFireball.node);
+            this.node.parent?.addChild(projectile.node);
             
-            // 配置火球属性（不覆盖 moveSpeed，让火球使用配置文件中的速度）
-            poolFireball.damage = this.damage;
-            poolFireball.lifeTime = this.lifeTime;
-            poolFireball.frameRate = this.frameRate;
-            poolFireball.launchAngle = this.launchAngle;
+            // 配置投射物属性（不覆盖 moveSpeed 和 lifeTime，让投射物使用配置文件中的参数）
+            projectile.damage = this.damage;
+            projectile.frameRate = this.frameRate;
+            projectile.launchAngle = this.launchAngle;
             
             // 设置阵营信息和物理分组
-            poolFireball.setFireballParams(undefined, undefined, this.shooterFaction, this.shooterNode || undefined);
+            projectile.setLaunchParams(undefined, undefined, this.shooterFaction, this.shooterNode || undefined);
             
-            return poolFireball;
+            return projectile;
         }
         
         // 对象池不可用
-        console.error('FireballLauncher: 对象池不可用，无法创建火球');
-        console.error('FireballLauncher: 请确保火球预制体已正确注册到对象池');
+        console.error(`FireballLauncher: 对象池不可用，无法创建投射物 ${projectileId}`);
+        console.error('FireballLauncher: 请确保投射物预制体已正确注册到对象池');
         console.error('FireballLauncher: 检查 GameManager 中的预制体挂载和 DataManager 中的技能配置');
         return null;
     }
@@ -444,6 +513,14 @@ export class FireballLauncher extends Component implements IProjectileController
         this.explode();
     }
 
+    /**
+     * 构造伤害输入：暴击率取自发射者，伤害类型取自投射物
+     */
+    private createDamageInfo(damage: number): DamageInfo {
+        const shooterStats = this.shooterNode && this.shooterNode.isValid ? this.shooterNode.getComponent('CharacterStats') as any : null;
+        return shooterStats ? shooterStats.createDamageInfo(damage, this.damageType) : { amount: damage, type: this.damageType };
+    }
+
     /**
      * 对目标造成伤害
      */
@@ -458,7 +535,7 @@ export class FireballLauncher extends Component implements IProjectileController
         
         if (targetCharacterDemo && (targetCharacterDemo as any).takeDamage) {
             try {
-                (targetCharacterDemo as any).takeDamage(damage);
+                (targetCharacterDemo as any).takeDamage(this.createDamageInfo(damage), this.shooterNode);
             } catch (error) {
             }
         } else {
@@ -467,7 +544,7 @@ export class FireballLauncher extends Component implements IProjectileController
             
             if (targetStats && (targetStats as any).takeDamage) {
                 try {
-                    (targetStats as any).takeDamage(damage);
+                    (targetStats as any).takeDamage(this.createDamageInfo(damage), this.shooterNode);
                 } catch (error) {
                 }
             } else {
@@ -1,16 +1,38 @@
 // assets/scripts/components/PlayerController.ts
 
-import { _decorator, Component, Vec3, Vec2 } from 'cc';
+import { _decorator, Component, Node, Vec3, Vec2, KeyCode } from 'cc';
 import { eventManager } from '../managers/EventManager';
 import { CharacterStats } from '../components/CharacterStats';
 import { GameManager, GameMode } from '../managers/GameManager';
 import { GameEvents } from '../components/GameEvents';
+import { InputManager } from '../managers/InputManager';
+import { dataManager } from '../managers/DataManager';
+import { factionManager } from '../managers/FactionManager';
+import { areaEffectManager } from '../managers/AreaEffectManager';
+import { simulationManager } from '../managers/SimulationManager';
+import { gridManager } from '../systems/GridManager';
+import { FireballLauncher } from './FireballLauncher';
+import { Faction } from '../configs/FactionConfig';
+import { SkillData, SkillEffectType, SkillTargetType } from '../configs/SkillConfig';
+import { AreaEffectData, AreaShape } from '../configs/AreaEffectConfig';
+import { StatModifierSource } from '../configs/StatModifierConfig';
+import {
+    PlayerAction,
+    PlayerAbilitySlot,
+    PLAYER_ABILITY_ACTIONS,
+    DEFAULT_PLAYER_KEY_BINDINGS,
+    DEFAULT_PLAYER_ABILITIES,
+    PLAYER_DEFAULTS,
+    PLAYER_PRIMARY_ATTACK,
+    PLAYER_DODGE
+} from '../configs/PlayerConfig';
 
 const { ccclass, property } = _decorator;
 
 /**
  * 玩家控制器组件
- * 负责处理玩家的移动、输入和基本交互
+ * 负责处理玩家的移动、输入和战斗：普通攻击、技能栏（冷却 + 法力消耗）、闪避翻滚（无敌帧）。
+ * 按键通过 InputManager 的动作绑定解析为 PlayerAction，属性与法力由 CharacterStats 管理，投射物由 FireballLauncher 发射
  */
 @ccclass('PlayerController')
 export class PlayerController extends Component {
@@ -23,10 +45,20 @@ export class PlayerController extends Component {
 
     // 组件引用
     private characterStats: CharacterStats | null = null;
+    private launcher: FireballLauncher | null = null;
     
     // 移动相关
     private currentPosition: Vec3 = new Vec3();
     private targetPosition: Vec3 = new Vec3();
+    private facing: Vec2 = new Vec2(1, 0);         // 最近一次移动的方向，用于无目标时的攻击方向和闪避方向
+
+    // 战斗相关
+    private abilities: PlayerAbilitySlot[] = DEFAULT_PLAYER_ABILITIES.map(slot => ({ ...slot }));
+    private cooldowns: Map<PlayerAction, number> = new Map(); // 动作 -> 剩余冷却时间（秒）
+
+    // 闪避翻滚
+    private dodgeTimer: number = 0;
+    private dodgeVelocity: Vec2 = new Vec2();      // 翻滚速度（像素/秒）
 
     protected onLoad(): void {
         // 获取角色属性组件
@@ -36,8 +68,15 @@ export class PlayerController extends Component {
             return;
         }
 
-        // 初始化玩家属性
-        this.characterStats.setStats(100, 25, 5, 1.5);
+        // 初始化玩家属性和法力
+        this.characterStats.setStats(PLAYER_DEFAULTS.maxHealth, PLAYER_DEFAULTS.baseAttack, PLAYER_DEFAULTS.baseDefense, PLAYER_DEFAULTS.moveSpeed);
+        this.characterStats.setMana(PLAYER_DEFAULTS.maxMana, PLAYER_DEFAULTS.manaRegen);
+
+        // 投射物发射器（普通攻击和投射物技能共用）
+        this.launcher = this.getComponent(FireballLauncher) || this.addComponent(FireballLauncher);
+        if (this.launcher) {
+            this.launcher.setFactionInfo(Faction.PLAYER, this.node);
+        }
         
         // 注册游戏事件
         this.registerGameEvents();
@@ -46,6 +85,30 @@ export class PlayerController extends Component {
         this.registerToGameManager();
     }
 
+    protected start(): void {
+        // InputManager 可能晚于玩家加载，在 start 中注册默认按键
+        this.registerKeyBindings();
+    }
+
+    protected update(frameDeltaTime: number): void {
+        const deltaTime = simulationManager.getDeltaTime(frameDeltaTime);
+
+        for (const [action, remaining] of this.cooldowns) {
+            if (remaining <= deltaTime) {
+                this.cooldowns.delete(action);
+            } else {
+                this.cooldowns.set(action, remaining - deltaTime);
+            }
+        }
+
+        if (this.dodgeTimer > 0) {
+            const step = Math.min(deltaTime, this.dodgeTimer);
+            this.dodgeTimer -= step;
+            const position = this.node.position;
+            this.applyPosition(position.x + this.dodgeVelocity.x * step, position.y + this.dodgeVelocity.y * step);
+        }
+    }
+
     protected onDestroy(): void {
         // 取消游戏事件注册
         this.unregisterGameEvents();
@@ -63,6 +126,21 @@ export class PlayerController extends Component {
         }
     }
 
+    /**
+     * 为尚未绑定按键的玩家动作注册默认按键（已有绑定保持不变）
+     */
+    private registerKeyBindings(): void {
+        const inputManager = InputManager.instance;
+        if (!inputManager) {
+            return;
+        }
+        for (const action of Object.values(PlayerAction)) {
+            if (inputManager.getKeyForAction(action) === null) {
+                inputManager.bindAction(action, DEFAULT_PLAYER_KEY_BINDINGS[action]);
+            }
+        }
+    }
+
     private registerGameEvents(): void {
         eventManager.on(GameEvents.GAME_STATE_CHANGED, this.onGameStateChanged);
         eventManager.on(GameEvents.PLAYER_DAMAGED, this.onPlayerDamaged);
@@ -95,9 +173,42 @@ export class PlayerController extends Component {
      * 这个方法会被 GameManager 在 Normal 模式下调用
      */
     public handleInput(keyCode: number): void {
-        // 玩家的特殊输入处理可以在这里添加
-        // 比如技能释放、道具使用等
-        console.log(`PlayerController: Received input ${keyCode}`);
+        const action = this.getActionForKey(keyCode);
+        if (!action) {
+            return;
+        }
+
+        switch (action) {
+            case PlayerAction.PrimaryAttack:
+                this.primaryAttack();
+                break;
+            case PlayerAction.Dodge:
+                this.dodge();
+                break;
+            default: {
+                const slotIndex = PLAYER_ABILITY_ACTIONS.indexOf(action);
+                if (slotIndex !== -1) {
+                    this.useAbility(slotIndex);
+                }
+                break;
+            }
+        }
+    }
+
+    /**
+     * 按键解析为玩家动作：优先使用 InputManager 的绑定，InputManager 不存在时使用默认绑定
+     */
+    private getActionForKey(keyCode: number): PlayerAction | null {
+        const inputManager = InputManager.instance;
+        if (inputManager) {
+            return inputManager.getActionForKey(keyCode as KeyCode) as PlayerAction | null;
+        }
+        for (const action of Object.values(PlayerAction)) {
+            if (DEFAULT_PLAYER_KEY_BINDINGS[action] === keyCode) {
+                return action;
+            }
+        }
+        return null;
     }
 
     /**
@@ -106,20 +217,30 @@ export class PlayerController extends Component {
      * @param deltaTime 帧时间
      */
     public move(direction: Vec2, deltaTime: number): void {
-        if (!this.characterStats.isAlive || direction.length() === 0) {
+        // 翻滚期间不响应移动输入
+        const stats = this.characterStats;
+        if (!stats || !stats.isAlive || direction.length() === 0 || this.isDodging) {
             return;
         }
 
+        this.facing.set(direction).normalize();
+
         // 计算移动距离
-        const moveDistance = this.moveSpeed * deltaTime * this.characterStats.speed;
+        const moveDistance = this.moveSpeed * deltaTime * stats.speed;
         
         // 更新位置
         this.currentPosition = this.node.position;
-        this.targetPosition.set(
+        this.applyPosition(
             this.currentPosition.x + direction.x * moveDistance,
-            this.currentPosition.y + direction.y * moveDistance,
-            this.currentPosition.z
+            this.currentPosition.y + direction.y * moveDistance
         );
+    }
+
+    /**
+     * 应用位置：边界检查、z轴深度更新并发送移动事件
+     */
+    private applyPosition(x: number, y: number): void {
+        this.targetPosition.set(x, y, this.node.position.z);
 
         // 边界检查（这里需要根据实际屏幕大小调整）
         this.targetPosition.x = Math.max(-960 + this.boundaryPadding, Math.min(960 - this.boundaryPadding, this.targetPosition.x));
@@ -142,6 +263,243 @@ export class PlayerController extends Component {
         console.log('PlayerController: Movement stopped');
     }
 
+    // ========== 战斗 ==========
+
+    /**
+     * 普通攻击：向最近的敌人发射投射物，没有敌人时沿朝向发射，不消耗法力
+     * @returns 是否成功攻击
+     */
+    public primaryAttack(): boolean {
+        const stats = this.characterStats;
+        if (!stats || !stats.isAlive || this.isOnCooldown(PlayerAction.PrimaryAttack)) {
+            return false;
+        }
+
+        const damage = Math.max(1, Math.floor(stats.baseAttack * PLAYER_PRIMARY_ATTACK.attackScaling));
+        if (!this.launchAtNearestEnemy(PLAYER_PRIMARY_ATTACK.projectileId, damage)) {
+            return false;
+        }
+
+        this.startCooldown(PlayerAction.PrimaryAttack, PLAYER_PRIMARY_ATTACK.cooldown);
+        return true;
+    }
+
+    /**
+     * 闪避翻滚：沿最近的移动方向快速位移，期间获得无敌时间
+     * @returns 是否成功闪避
+     */
+    public dodge(): boolean {
+        const stats = this.characterStats;
+        if (!stats || !stats.isAlive || this.isDodging || this.isOnCooldown(PlayerAction.Dodge)) {
+            return false;
+        }
+        if (!stats.spendMana(PLAYER_DODGE.manaCost)) {
+            console.log(`PlayerController: 💧 法力不足，无法闪避 (${stats.currentMana}/${PLAYER_DODGE.manaCost})`);
+            return false;
+        }
+
+        const speed = PLAYER_DODGE.distance / Math.max(0.01, PLAYER_DODGE.duration);
+        this.dodgeVelocity.set(this.facing.x * speed, this.facing.y * speed);
+        this.dodgeTimer = PLAYER_DODGE.duration;
+        stats.setInvulnerable(PLAYER_DODGE.invulnerableTime);
+        this.startCooldown(PlayerAction.Dodge, PLAYER_DODGE.cooldown);
+
+        console.log(`PlayerController: 🌀 闪避翻滚，无敌 ${PLAYER_DODGE.invulnerableTime}s`);
+        eventManager.emit(GameEvents.PLAYER_DODGED, this.node, this.facing.clone());
+        return true;
+    }
+
+    /**
+     * 使用技能栏中的技能：检查冷却后扣除法力，技能未能生效时返还法力
+     * @param slotIndex 技能栏序号（0 开始）
+     * @returns 是否成功施放
+     */
+    public useAbility(slotIndex: number): boolean {
+        const stats = this.characterStats;
+        const slot = this.abilities[slotIndex];
+        const action = PLAYER_ABILITY_ACTIONS[slotIndex];
+        if (!stats || !stats.isAlive || !slot || !action || this.isOnCooldown(action)) {
+            return false;
+        }
+
+        const skill = dataManager.getSkillDataById(slot.skillId);
+        if (!skill) {
+            console.warn(`PlayerController: 技能栏 ${slotIndex + 1} 的技能 ${slot.skillId} 不存在`);
+            return false;
+        }
+
+        if (!stats.spendMana(slot.manaCost)) {
+            console.log(`PlayerController: 💧 法力不足，无法施放 ${skill.name} (${stats.currentMana}/${slot.manaCost})`);
+            return false;
+        }
+
+        if (!this.applyAbility(skill, stats)) {
+            stats.restoreMana(slot.manaCost);
+            return false;
+        }
+
+        this.startCooldown(action, slot.cooldown);
+        console.log(`PlayerController: ✨ 施放技能 ${skill.name}，冷却 ${slot.cooldown}s`);
+        eventManager.emit(GameEvents.PLAYER_ABILITY_USED, this.node, skill.id, slotIndex);
+        return true;
+    }
+
+    /**
+     * 替换技能栏中的技能
+     * @param slotIndex 技能栏序号（0 开始）
+     * @param slot 技能栏配置
+     * @returns 是否替换成功
+     */
+    public bindAbility(slotIndex: number, slot: PlayerAbilitySlot): boolean {
+        if (slotIndex < 0 || slotIndex >= PLAYER_ABILITY_ACTIONS.length) {
+            console.warn(`PlayerController: 技能栏序号 ${slotIndex} 超出范围`);
+            return false;
+        }
+        if (!dataManager.getSkillDataById(slot.skillId)) {
+            console.warn(`PlayerController: 技能 ${slot.skillId} 不存在，无法放入技能栏`);
+            return false;
+        }
+
+        this.abilities[slotIndex] = { ...slot };
+        this.cooldowns.delete(PLAYER_ABILITY_ACTIONS[slotIndex]);
+        return true;
+    }
+
+    /**
+     * 获取技能栏配置
+     */
+    public getAbilities(): readonly PlayerAbilitySlot[] {
+        return this.abilities;
+    }
+
+    /**
+     * 获取动作的剩余冷却时间（秒）
+     */
+    public getCooldownRemaining(action: PlayerAction): number {
+        return this.cooldowns.get(action) || 0;
+    }
+
+    /**
+     * 是否正在闪避翻滚
+     */
+    public get isDodging(): boolean {
+        return this.dodgeTimer > 0;
+    }
+
+    private isOnCooldown(action: PlayerAction): boolean {
+        return this.getCooldownRemaining(action) > 0;
+    }
+
+    private startCooldown(action: PlayerAction, cooldown: number): void {
+        if (cooldown > 0) {
+            this.cooldowns.set(action, cooldown);
+        }
+    }
+
+    /**
+     * 按技能效果类型生效
+     * @returns 技能是否生效
+     */
+    private applyAbility(skill: SkillData, stats: CharacterStats): boolean {
+        switch (skill.effectType) {
+            case SkillEffectType.Projectile:
+                return this.launchAtNearestEnemy(skill.projectileId || PLAYER_PRIMARY_ATTACK.projectileId, this.calculateSkillDamage(skill, stats));
+            case SkillEffectType.AreaDamage:
+                this.applyAreaAbility(skill, stats);
+                return true;
+            case SkillEffectType.Heal: {
+                const amount = Math.max(1, Math.floor((skill.healAmount || 0) + stats.baseAttack * (skill.attackScaling || 0)));
+                stats.heal(amount);
+                return true;
+            }
+            case SkillEffectType.Buff: {
+                const buff = skill.buff;
+                if (!buff) {
+                    console.warn(`PlayerController: 技能 ${skill.id} 缺少 buff 配置`);
+                    return false;
+                }
+                const speedMultiplier = buff.moveSpeedMultiplier && buff.moveSpeedMultiplier > 0 ? buff.moveSpeedMultiplier : 1.0;
+                const source = `${StatModifierSource.Skill}:${skill.id}:${this.node.uuid}`;
+                stats.applyTemporaryBuff(buff.attackBonus || 0, buff.defenseBonus || 0, speedMultiplier, buff.duration, source);
+                return true;
+            }
+            default:
+                console.warn(`PlayerController: 玩家不支持 ${skill.effectType} 类型的技能（技能: ${skill.id}）`);
+                return false;
+        }
+    }
+
+    /**
+     * 范围技能：扇形和直线从玩家沿朝向展开；圆形以敌人为目标时落在最近的敌人处，否则以自身为中心
+     */
+    private applyAreaAbility(skill: SkillData, stats: CharacterStats): void {
+        const area: AreaEffectData = { ...(skill.area || { radius: skill.radius || 0 }) };
+        if (area.statusEffects === undefined) {
+            area.statusEffects = skill.statusEffects;
+        }
+
+        const isDirectional = area.shape === AreaShape.Cone || area.shape === AreaShape.Line;
+        let origin = this.node.position;
+        if (!isDirectional && skill.targetType === SkillTargetType.Enemy) {
+            const target = this.findNearestEnemy();
+            if (target) {
+                origin = target.position;
+            }
+        }
+        const direction = isDirectional ? new Vec3(this.facing.x, this.facing.y, 0) : null;
+
+        areaEffectManager.trigger(area, origin, direction, {
+            damage: this.calculateSkillDamage(skill, stats),
+            faction: Faction.PLAYER,
+            sourceNode: this.node,
+            damageType: skill.damageType,
+            attackWeight: skill.attackWeight,
+            label: `[${this.node.name}] ${skill.name}`
+        });
+    }
+
+    private calculateSkillDamage(skill: SkillData, stats: CharacterStats): number {
+        return Math.max(1, Math.floor((skill.damage || 0) + stats.baseAttack * (skill.attackScaling || 0)));
+    }
+
+    /**
+     * 向 targetRange 内最近的敌人发射投射物（手动瞄准，不预判），没有敌人时沿朝向发射
+     */
+    private launchAtNearestEnemy(projectileId: string, damage: number): boolean {
+        if (!this.launcher) {
+            return false;
+        }
+
+        const target = this.findNearestEnemy();
+        const projectile = target
+            ? this.launcher.launchProjectileAtTarget(projectileId, target, damage)
+            : this.launcher.launchProjectileAtAngle(projectileId, Math.atan2(this.facing.y, this.facing.x) * 180 / Math.PI, damage);
+        return !!projectile;
+    }
+
+    /**
+     * 查找 targetRange 内最近的存活敌人
+     */
+    private findNearestEnemy(): Node | null {
+        const position = this.node.position;
+        let nearest: Node | null = null;
+        let nearestDistanceSq = Infinity;
+
+        for (const character of gridManager.getNearbyCharacters(position, PLAYER_DEFAULTS.targetRange)) {
+            if (!character.isAlive() || !factionManager.doesAttack(Faction.PLAYER, character.getFaction())) {
+                continue;
+            }
+            const dx = character.node.position.x - position.x;
+            const dy = character.node.position.y - position.y;
+            const distanceSq = dx * dx + dy * dy;
+            if (distanceSq < nearestDistanceSq && distanceSq <= PLAYER_DEFAULTS.targetRange * PLAYER_DEFAULTS.targetRange) {
+                nearest = character.node;
+                nearestDistanceSq = distanceSq;
+            }
+        }
+        return nearest;
+    }
+
     private onGameStateChanged = (newState: any) => {
         // 根据游戏状态调整控制器行为
         console.log('PlayerController: Game state changed to', newState);
@@ -0,0 +1,918 @@
+// assets/scripts/controllers/ProjectileController.ts
+
+import { _decorator, Component, Node, Sprite, Animation, Collider2D, RigidBody2D, Vec3, Vec2, Color, IPhysics2DContact, UITransform, Contact2DType, PHYSICS_2D_PTM_RATIO } from 'cc';
+import { dataManager } from '../managers/DataManager';
+import { Faction } from '../configs/FactionConfig';
+import { eventManager } from '../managers/EventManager';
+import { poolManager } from '../managers/PoolManager';
+import { PhysicsGroup } from '../configs/PhysicsConfig';
+import { factionManager } from '../managers/FactionManager';
+import { animationManager } from '../managers/AnimationManager';
+import { ProjectileAnimationState } from '../configs/AnimationConfig';
+import { gameRandom } from '../utils/SeededRandom';
+import { simulationManager } from '../managers/SimulationManager';
+import { DamageType, DamageInfo } from '../configs/DamageConfig';
+import { StatusEffectApplication } from '../configs/StatusEffectConfig';
+import { StatusEffectComponent } from '../components/StatusEffectComponent';
+import { gridManager } from '../systems/GridManager';
+import { areaEffectManager, AreaEffectSource } from '../managers/AreaEffectManager';
+import { IProjectileController } from './ProjectileLauncher';
+import {
+    ProjectileData,
+    ProjectileHomingConfig,
+    ProjectileOnHitConfig,
+    PROJECTILE_DEFAULTS,
+    getProjectilePoolName
+} from '../configs/ProjectileConfig';
+
+const { ccclass, property } = _decorator;
+
+/**
+ * 通用投射物控制器
+ * 完全由 skills.json 中的投射物配置驱动（速度、存在时间、穿透、追踪、抛物线、命中溅射），
+ * 新增投射物类型只需添加配置，不需要新的控制器类。
+ * 三阶段动画：生成 -> 飞行 -> 爆炸，支持对象池管理
+ */
+@ccclass('ProjectileController')
+export class ProjectileController extends Component implements IProjectileController {
+
+    @property({ tooltip: "投射物ID（skills.json 中 projectiles 的键）" })
+    public projectileId: string = 'fireball';
+
+    @property({ tooltip: "移动速度（米/秒）" })
+    public moveSpeed: number = PROJECTILE_DEFAULTS.moveSpeed;
+
+    @property({ tooltip: "伤害值" })
+    public damage: number = 50;
+
+    @property({ tooltip: "生命时间（秒）" })
+    public lifeTime: number = PROJECTILE_DEFAULTS.lifeTime;
+
+    @property({ tooltip: "动画帧率" })
+    public frameRate: number = PROJECTILE_DEFAULTS.frameRate;
+
+    @property({ tooltip: "发射角度（度），0=水平向右，90=向上，-90=向下，180=向左" })
+    public launchAngle: number = 0;
+
+    // 以下参数在对象池取出时从投射物配置加载
+    public damageType: DamageType = DamageType.Fire;
+    public attackWeight: number | undefined = undefined;
+    public statusEffects: StatusEffectApplication[] = [];
+    public pierce: number = PROJECTILE_DEFAULTS.pierce;
+    public homing: ProjectileHomingConfig | null = null;
+    public gravity: number = 0;
+    public onHit: ProjectileOnHitConfig | null = null;
+
+    // 【性能优化】分帧更新控制
+    private updateFrameOffset: number = 0;
+    private readonly UPDATE_FRAME_INTERVAL = 3; // 每3帧更新一次
+
+    // 组件引用
+    private spriteComponent: Sprite | null = null;
+    private animationComponent: Animation | null = null;
+    private colliderComponent: Collider2D | null = null;
+    private rigidBody: RigidBody2D | null = null;
+
+    // 动画相关
+    private currentState: ProjectileAnimationState = ProjectileAnimationState.SPAWN;
+    private isInitialized: boolean = false;
+    private loadedAnimationId: string = '';     // 已创建动画剪辑的投射物ID
+
+    // 移动相关
+    private moveDirection: Vec3 = new Vec3(1, 0, 0);
+    private velocity: Vec2 = new Vec2(0, 0);   // 当前速度（米/秒），追踪和重力会改变它
+    private hasLaunchDirection: boolean = false;
+    private currentLifeTime: number = 0;
+    private flightTime: number = 0;             // 进入飞行阶段后的时间（秒）
+    private arcFlightTime: number = 0;          // 抛物线弹道的落地时间（秒），0 表示不按落点引爆
+    private isDestroying: boolean = false;
+
+    // 命中相关
+    private hitNodes: Set<Node> = new Set();
+    private homingTarget: Node | null = null;
+
+    // 阵营相关
+    private shooterFaction: Faction = Faction.PLAYER;  // 发射者阵营
+    private shooterNode: Node | null = null;            // 发射者节点
+
+    // 对象池相关
+    private isFromPool: boolean = false;
+    private poolName: string = 'fireball';
+
+    // 场景中活跃的投射物（供战斗存档遍历飞行中的投射物）
+    private static activeProjectiles: Set<ProjectileController> = new Set();
+
+    protected onLoad() {
+        this.setupComponents();
+        this.loadConfigFromDataManager();
+        this.applyVisualConfig();
+        this.loadResources();
+    }
+
+    protected start() {
+        // 【性能优化】初始化随机帧偏移，避免所有投射物同时更新
+        this.updateFrameOffset = Math.floor(gameRandom.next() * this.UPDATE_FRAME_INTERVAL);
+
+        this.setupCollisionDetection();
+    }
+
+    protected update(frameDeltaTime: number): void {
+        const deltaTime = simulationManager.getDeltaTime(frameDeltaTime);
+        if (!this.isInitialized || this.isDestroying) return;
+
+        // 【性能优化】分帧更新：每3帧更新一次
+        const currentFrame = simulationManager.frame;
+        if ((currentFrame + this.updateFrameOffset) % this.UPDATE_FRAME_INTERVAL !== 0) {
+            return;
+        }
+
+        // 补偿时间差
+        const compensatedDeltaTime = deltaTime * this.UPDATE_FRAME_INTERVAL;
+
+        // 更新生命时间
+        this.currentLifeTime += compensatedDeltaTime;
+        if (this.currentLifeTime >= this.lifeTime && this.currentState !== ProjectileAnimationState.EXPLODING) {
+            this.explode();
+            return;
+        }
+
+        // 飞行状态下移动
+        if (this.currentState === ProjectileAnimationState.FLYING) {
+            this.flightTime += compensatedDeltaTime;
+            if (this.arcFlightTime > 0 && this.flightTime >= this.arcFlightTime) {
+                // 抛物线弹道落地
+                this.detonate();
+                return;
+            }
+            this.updateMovement(compensatedDeltaTime);
+        }
+    }
+
+    /**
+     * 设置组件引用
+     */
+    private setupComponents(): void {
+        this.spriteComponent = this.getComponent(Sprite);
+        if (!this.spriteComponent) {
+            this.spriteComponent = this.addComponent(Sprite);
+        }
+
+        this.animationComponent = this.getComponent(Animation);
+        if (!this.animationComponent) {
+            this.animationComponent = this.addComponent(Animation);
+        }
+
+        this.colliderComponent = this.getComponent(Collider2D);
+        this.rigidBody = this.getComponent(RigidBody2D);
+
+        // 【关键修复】确保刚体启用碰撞监听
+        if (this.rigidBody) {
+            this.rigidBody.enabledContactListener = true;
+        } else {
+            console.warn(`ProjectileController(${this.projectileId}): ⚠️ 缺少RigidBody2D组件，碰撞检测将不工作`);
+        }
+    }
+
+    /**
+     * 加载投射物动画（使用AnimationManager）
+     */
+    private async loadResources(): Promise<void> {
+        const projectileId = this.projectileId;
+        try {
+            const animationClips = await animationManager.createProjectileAnimationClips(projectileId);
+
+            if (animationClips.size === 0) {
+                console.warn(`ProjectileController: 没有创建任何 ${projectileId} 动画剪辑`);
+                return;
+            }
+
+            this.animationComponent = animationManager.setupAnimationComponent(this.node, animationClips);
+            this.loadedAnimationId = projectileId;
+
+            // 初始化完成，开始播放生成动画
+            this.isInitialized = true;
+            this.startSpawnAnimation();
+
+        } catch (error) {
+            console.error(`ProjectileController: ${projectileId} 资源加载失败`, error);
+        }
+    }
+
+    /**
+     * 设置碰撞检测
+     */
+    private setupCollisionDetection(): void {
+        if (this.colliderComponent) {
+            this.colliderComponent.on(Contact2DType.BEGIN_CONTACT, this.onCollisionEnter, this);
+        } else {
+            console.warn(`ProjectileController(${this.projectileId}): 未找到碰撞体组件，无法检测碰撞`);
+        }
+    }
+
+    /**
+     * 碰撞检测回调
+     * 命中敌对角色时造成伤害，穿透次数未用完则禁用本次接触继续飞行；撞到其他物体直接引爆
+     */
+    private onCollisionEnter(selfCollider: Collider2D, otherCollider: Collider2D, contact: IPhysics2DContact | null): void {
+        if (this.isDestroying) return;
+
+        const target = otherCollider.node;
+        const targetCharacterDemo = target.getComponent('BaseCharacterDemo') as any;
+        if (!targetCharacterDemo) {
+            // 没有BaseCharacterDemo组件，可能是墙壁等障碍物
+            console.log(`ProjectileController: ${this.projectileId} 撞击障碍物 ${target.name}（无BaseCharacterDemo组件）`);
+            this.detonate();
+            return;
+        }
+
+        if (this.hitNodes.has(target)) {
+            // 已经穿透过的目标
+            if (contact) {
+                contact.disabled = true;
+            }
+            return;
+        }
+
+        // 检查阵营关系 - 只有敌对阵营才造成伤害
+        if (!factionManager.doesAttack(this.shooterFaction, targetCharacterDemo.getFaction())) {
+            this.detonate();
+            return;
+        }
+
+        this.hitNodes.add(target);
+        this.dealDamageToTarget(target, this.damage, this.statusEffects);
+
+        if (this.hitNodes.size > this.pierce) {
+            this.detonate();
+        } else if (contact) {
+            contact.disabled = true;
+        }
+    }
+
+    /**
+     * 构造伤害输入：暴击率和攻击重量取自发射者，伤害类型取自投射物，投射物配置了攻击重量时覆盖
+     */
+    private createDamageInfo(damage: number): DamageInfo {
+        const shooterStats = this.shooterNode && this.shooterNode.isValid ? this.shooterNode.getComponent('CharacterStats') as any : null;
+        const info: DamageInfo = shooterStats ? shooterStats.createDamageInfo(damage, this.damageType) : { amount: damage, type: this.damageType };
+        if (this.attackWeight !== undefined) {
+            info.weight = this.attackWeight;
+        }
+        return info;
+    }
+
+    /**
+     * 对目标造成伤害并施加状态效果
+     */
+    private dealDamageToTarget(target: Node, damage: number, statusEffects: StatusEffectApplication[] | undefined): void {
+        if (!target || !target.isValid) {
+            console.warn(`❌ [DAMAGE] ProjectileController: 无效的攻击目标`);
+            return;
+        }
+
+        const targetCharacterDemo = target.getComponent('BaseCharacterDemo');
+        if (targetCharacterDemo && (targetCharacterDemo as any).takeDamage) {
+            try {
+                (targetCharacterDemo as any).takeDamage(this.createDamageInfo(damage), this.shooterNode);
+            } catch (error) {
+                console.error(`❌ [DAMAGE] BaseCharacterDemo.takeDamage调用失败:`, error);
+            }
+            this.applyStatusEffects(target, statusEffects);
+            return;
+        }
+
+        // 如果没有BaseCharacterDemo，尝试CharacterStats组件
+        const targetStats = target.getComponent('CharacterStats');
+        if (targetStats && (targetStats as any).takeDamage) {
+            try {
+                (targetStats as any).takeDamage(this.createDamageInfo(damage), this.shooterNode);
+            } catch (error) {
+                console.error(`❌ [DAMAGE] CharacterStats.takeDamage调用失败:`, error);
+            }
+        } else {
+            console.warn(`❌ [DAMAGE] ProjectileController: 目标 ${target.name} 没有可攻击的组件`);
+        }
+    }
+
+    /**
+     * 对命中目标施加状态效果
+     */
+    private applyStatusEffects(target: Node, statusEffects: StatusEffectApplication[] | undefined): void {
+        if (!statusEffects || statusEffects.length === 0) {
+            return;
+        }
+        const component = target.getComponent(StatusEffectComponent);
+        if (component) {
+            component.applyEffects(statusEffects, this.shooterNode);
+        }
+    }
+
+    /**
+     * 引爆：结算命中溅射后播放爆炸动画
+     */
+    private detonate(): void {
+        if (this.isDestroying) return;
+        this.applySplashDamage();
+        this.explode();
+    }
+
+    /**
+     * 引爆时的范围效果：溅射未被直接命中的单位，配置了 zone 时在引爆位置留下持续区域
+     */
+    private applySplashDamage(): void {
+        if (!this.onHit) {
+            return;
+        }
+
+        const origin = this.node.position;
+        const direction = this.velocity.lengthSqr() > 0 ? new Vec3(this.velocity.x, this.velocity.y, 0).normalize() : null;
+        const source: AreaEffectSource = {
+            damage: this.damage,
+            faction: this.shooterFaction,
+            sourceNode: this.shooterNode,
+            damageType: this.damageType,
+            attackWeight: this.attackWeight,
+            excludeNodes: this.hitNodes,
+            label: this.projectileId
+        };
+
+        if (this.onHit.radius > 0) {
+            for (const node of areaEffectManager.applyBlast(this.onHit, origin, direction, source)) {
+                this.hitNodes.add(node);
+            }
+        }
+        if (this.onHit.zone) {
+            areaEffectManager.createZone(this.onHit.zone, origin, direction, source);
+        }
+    }
+
+    /**
+     * 开始生成动画
+     */
+    private startSpawnAnimation(): void {
+        if (!this.animationComponent) return;
+
+        this.currentState = ProjectileAnimationState.SPAWN;
+
+        const success = animationManager.playProjectileAnimation(
+            this.animationComponent,
+            this.projectileId,
+            ProjectileAnimationState.SPAWN
+        );
+
+        if (success) {
+            this.animationComponent.once(Animation.EventType.FINISHED, this.onSpawnAnimationFinished, this);
+        } else {
+            console.warn(`ProjectileController: ${this.projectileId} 生成动画播放失败`);
+        }
+    }
+
+    /**
+     * 生成动画结束回调
+     */
+    private onSpawnAnimationFinished(): void {
+        // 未设置发射方向时使用设置的角度
+        if (!this.hasLaunchDirection) {
+            this.setAngle(this.launchAngle);
+        }
+
+        this.startFlyingAnimation();
+    }
+
+    /**
+     * 开始飞行动画
+     */
+    private startFlyingAnimation(): void {
+        if (!this.animationComponent) return;
+
+        this.currentState = ProjectileAnimationState.FLYING;
+
+        const success = animationManager.playProjectileAnimation(
+            this.animationComponent,
+            this.projectileId,
+            ProjectileAnimationState.FLYING
+        );
+
+        if (!success) {
+            console.warn(`ProjectileController: ${this.projectileId} 飞行动画播放失败`);
+        }
+    }
+
+    /**
+     * 触发爆炸（不结算溅射，超时消散和手动销毁使用）
+     */
+    public explode(): void {
+        if (this.isDestroying || this.currentState === ProjectileAnimationState.EXPLODING) return;
+
+        this.currentState = ProjectileAnimationState.EXPLODING;
+        this.isDestroying = true;
+
+        // 停止移动
+        if (this.rigidBody) {
+            this.rigidBody.linearVelocity = new Vec2(0, 0);
+        }
+
+        if (this.animationComponent) {
+            const success = animationManager.playProjectileAnimation(
+                this.animationComponent,
+                this.projectileId,
+                ProjectileAnimationState.EXPLODING
+            );
+
+            if (success) {
+                this.animationComponent.once(Animation.EventType.FINISHED, this.onExplodeAnimationFinished, this);
+            } else {
+                console.warn(`ProjectileController: ${this.projectileId} 爆炸动画播放失败`);
+                this.destroyProjectile();
+            }
+        } else {
+            this.destroyProjectile();
+        }
+    }
+
+    /**
+     * 爆炸动画结束回调
+     */
+    private onExplodeAnimationFinished(): void {
+        this.destroyProjectile();
+    }
+
+    /**
+     * 销毁投射物 - 支持对象池
+     */
+    private destroyProjectile(): void {
+        eventManager.emit('PROJECTILE_DESTROYED', this.node, this.projectileId);
+        this.returnToPool();
+    }
+
+    /**
+     * 回收投射物到对象池，如果失败则直接销毁
+     */
+    public returnToPool(): void {
+        try {
+            this.onRecycleToPool();
+            poolManager.put(this.node);
+        } catch (error) {
+            console.warn(`ProjectileController: ${this.projectileId} 对象池回收失败，直接销毁节点`, error);
+            this.node.destroy();
+        }
+    }
+
+    // =================== 飞行 ===================
+
+    /**
+     * 更新移动：追踪转向 -> 重力 -> 写入刚体速度
+     */
+    private updateMovement(deltaTime: number): void {
+        if (!this.rigidBody || this.velocity.lengthSqr() === 0) return;
+
+        let turned = false;
+        if (this.homing && this.flightTime >= (this.homing.delay || 0)) {
+            turned = this.updateHoming(this.homing, deltaTime);
+        }
+        if (this.gravity > 0) {
+            this.velocity.y -= this.gravity * deltaTime;
+            turned = true;
+        }
+        if (turned) {
+            this.syncDirectionWithVelocity();
+        }
+
+        this.rigidBody.linearVelocity = this.velocity.clone();
+    }
+
+    /**
+     * 朝追踪目标转向，每秒最多转 turnRate 度
+     * @returns 速度方向是否改变
+     */
+    private updateHoming(homing: ProjectileHomingConfig, deltaTime: number): boolean {
+        const target = this.acquireHomingTarget(homing);
+        if (!target) {
+            return false;
+        }
+
+        const currentAngle = Math.atan2(this.velocity.y, this.velocity.x);
+        const desiredAngle = Math.atan2(target.position.y - this.node.position.y, target.position.x - this.node.position.x);
+        let delta = desiredAngle - currentAngle;
+        while (delta > Math.PI) delta -= Math.PI * 2;
+        while (delta < -Math.PI) delta += Math.PI * 2;
+
+        const maxTurn = homing.turnRate * Math.PI / 180 * deltaTime;
+        const turn = Math.max(-maxTurn, Math.min(maxTurn, delta));
+        if (turn === 0) {
+            return false;
+        }
+
+        const speed = this.velocity.length();
+        const angle = currentAngle + turn;
+        this.velocity.set(Math.cos(angle) * speed, Math.sin(angle) * speed);
+        return true;
+    }
+
+    /**
+     * 获取追踪目标：发射时指定的目标失效后，在索敌半径内选择最近的敌对单位
+     */
+    private acquireHomingTarget(homing: ProjectileHomingConfig): Node | null {
+        if (this.isTargetAlive(this.homingTarget)) {
+            return this.homingTarget;
+        }
+        this.homingTarget = null;
+
+        const range = homing.range ?? PROJECTILE_DEFAULTS.homingRange;
+        let nearestDistance = Infinity;
+        for (const candidate of gridManager.getNearbyCharacters(this.node.position, range)) {
+            if (candidate.node === this.shooterNode || this.hitNodes.has(candidate.node) || !candidate.isAlive()) {
+                continue;
+            }
+            if (!factionManager.doesAttack(this.shooterFaction, candidate.getFaction())) {
+                continue;
+            }
+            const distance = Vec3.squaredDistance(this.node.position, candidate.node.position);
+            if (distance < nearestDistance) {
+                nearestDistance = distance;
+                this.homingTarget = candidate.node;
+            }
+        }
+        return this.homingTarget;
+    }
+
+    private isTargetAlive(target: Node | null): boolean {
+        if (!target || !target.isValid || !target.active || this.hitNodes.has(target)) {
+            return false;
+        }
+        const stats = target.getComponent('CharacterStats') as any;
+        return !stats || stats.isAlive;
+    }
+
+    /**
+     * 按当前速度更新移动方向和视觉角度
+     */
+    private syncDirectionWithVelocity(): void {
+        if (this.velocity.lengthSqr() === 0) {
+            return;
+        }
+        this.moveDirection.set(this.velocity.x, this.velocity.y, 0);
+        this.moveDirection.normalize();
+        this.launchAngle = Math.atan2(this.moveDirection.y, this.moveDirection.x) * 180 / Math.PI;
+        this.node.angle = this.launchAngle + (this.getProjectileData()?.visual?.rotation || 0);
+    }
+
+    /**
+     * 设置移动方向（直线飞行）
+     * @param direction 移动方向
+     */
+    public setMoveDirection(direction: Vec3): void {
+        this.velocity.set(direction.x, direction.y);
+        if (this.velocity.lengthSqr() === 0) {
+            return;
+        }
+        this.velocity.normalize().multiplyScalar(this.moveSpeed);
+        this.arcFlightTime = 0;
+        this.hasLaunchDirection = true;
+        this.syncDirectionWithVelocity();
+    }
+
+    /**
+     * 设置发射角度
+     * @param angleDegrees 角度（度），0=水平向右，90=向上，-90=向下，180=向左
+     */
+    public setAngle(angleDegrees: number): void {
+        const angleRadians = angleDegrees * Math.PI / 180;
+        this.setMoveDirection(new Vec3(Math.cos(angleRadians), Math.sin(angleRadians), 0));
+    }
+
+    /**
+     * 设置目标位置：配置了重力时按抛物线弹道在目标位置落地，否则直线飞向目标
+     * @param targetPos 目标位置（与投射物同一坐标系）
+     */
+    public setTarget(targetPos: Vec3): void {
+        const dx = targetPos.x - this.node.position.x;
+        const dy = targetPos.y - this.node.position.y;
+        if (this.gravity <= 0) {
+            this.setMoveDirection(new Vec3(dx, dy, 0));
+            return;
+        }
+
+        // 飞行时间由水平速度决定，竖直方向补偿重力下落：y(t) = vy·t - g·t²/2
+        const distance = Math.sqrt(dx * dx + dy * dy) / PHYSICS_2D_PTM_RATIO;
+        const flightTime = Math.max(PROJECTILE_DEFAULTS.minArcFlightTime, distance / this.moveSpeed);
+        this.velocity.set(
+            dx / PHYSICS_2D_PTM_RATIO / flightTime,
+            dy / PHYSICS_2D_PTM_RATIO / flightTime + 0.5 * this.gravity * flightTime
+        );
+        this.arcFlightTime = flightTime;
+        this.hasLaunchDirection = true;
+        this.syncDirectionWithVelocity();
+    }
+
+    /**
+     * 设置追踪目标（仅在配置了 homing 时生效）
+     */
+    public setHomingTarget(target: Node | null): void {
+        this.homingTarget = target;
+    }
+
+    /**
+     * 运行时设置投射物属性
+     * @param damage 伤害值
+     * @param lifeTime 生命时间
+     * @param shooterFaction 发射者阵营
+     * @param shooterNode 发射者节点
+     */
+    public setLaunchParams(damage?: number, lifeTime?: number, shooterFaction?: Faction, shooterNode?: Node): void {
+        if (damage !== undefined) {
+            this.damage = damage;
+        }
+        if (lifeTime !== undefined) {
+            this.lifeTime = lifeTime;
+        }
+        if (shooterFaction !== undefined) {
+            this.shooterFaction = shooterFaction;
+            this.updateProjectilePhysicsGroup();
+        }
+        if (shooterNode !== undefined) {
+            this.shooterNode = shooterNode;
+        }
+    }
+
+    /**
+     * 根据发射者阵营更新投射物的物理分组
+     */
+    private updateProjectilePhysicsGroup(): void {
+        const collider = this.getComponent(Collider2D);
+        if (!collider) {
+            console.warn(`ProjectileController: 缺少Collider2D组件，无法设置物理分组`);
+            return;
+        }
+
+        let group: number;
+        switch (this.shooterFaction) {
+            case Faction.PLAYER:
+                group = PhysicsGroup.PLAYER_PROJECTILE;
+                break;
+            case Faction.RED:
+                group = PhysicsGroup.RED_PROJECTILE;
+                break;
+            case Faction.BLUE:
+                group = PhysicsGroup.BLUE_PROJECTILE;
+                break;
+            case Faction.GREEN:
+                group = PhysicsGroup.GREEN_PROJECTILE;
+                break;
+            case Faction.PURPLE:
+                group = PhysicsGroup.PURPLE_PROJECTILE;
+                break;
+            default:
+                group = PhysicsGroup.DEFAULT;
+                break;
+        }
+
+        collider.group = group;
+    }
+
+    // =================== 存档相关 ===================
+
+    /**
+     * 是否仍在飞行（未爆炸、未回收）
+     */
+    public get isInFlight(): boolean {
+        return !this.isDestroying && this.currentState !== ProjectileAnimationState.EXPLODING;
+    }
+
+    /**
+     * 已存在时间（秒）
+     */
+    public get elapsedLifeTime(): number {
+        return this.currentLifeTime;
+    }
+
+    public set elapsedLifeTime(value: number) {
+        this.currentLifeTime = Math.max(0, value);
+    }
+
+    public get direction(): Readonly<Vec3> {
+        return this.moveDirection;
+    }
+
+    public get currentVelocity(): Readonly<Vec2> {
+        return this.velocity;
+    }
+
+    public get elapsedFlightTime(): number {
+        return this.flightTime;
+    }
+
+    public get arcLandingTime(): number {
+        return this.arcFlightTime;
+    }
+
+    public get faction(): Faction {
+        return this.shooterFaction;
+    }
+
+    public get shooter(): Node | null {
+        return this.shooterNode;
+    }
+
+    /**
+     * 恢复飞行状态（读档时使用，抛物线和追踪投射物的速度方向与发射方向不同）
+     */
+    public restoreFlightState(velocity: Vec2, flightTime: number, arcFlightTime: number): void {
+        this.velocity.set(velocity);
+        this.flightTime = Math.max(0, flightTime);
+        this.arcFlightTime = Math.max(0, arcFlightTime);
+        this.hasLaunchDirection = true;
+        this.syncDirectionWithVelocity();
+    }
+
+    /**
+     * 获取所有活跃的投射物
+     */
+    public static getActiveProjectiles(): ProjectileController[] {
+        return Array.from(ProjectileController.activeProjectiles).filter(projectile => projectile.isValid && projectile.node.isValid);
+    }
+
+    // =================== 配置 ===================
+
+    private getProjectileData(): ProjectileData | null {
+        return dataManager.getProjectileData(this.projectileId);
+    }
+
+    /**
+     * 从DataManager加载投射物配置
+     */
+    private loadConfigFromDataManager(): void {
+        try {
+            const config = this.getProjectileData();
+            if (!config) {
+                return;
+            }
+            this.damage = config.damage || this.damage;
+            this.damageType = config.damageType || this.damageType;
+            this.attackWeight = config.attackWeight;
+            this.statusEffects = config.statusEffects || [];
+            this.moveSpeed = config.moveSpeed || this.moveSpeed;
+            this.lifeTime = config.lifeTime || this.lifeTime;
+            this.frameRate = config.frameRate || this.frameRate;
+            this.pierce = config.pierce ?? PROJECTILE_DEFAULTS.pierce;
+            this.homing = config.homing || null;
+            this.gravity = config.gravity || 0;
+            this.onHit = config.onHit || null;
+        } catch (error) {
+            console.warn(`ProjectileController: 从DataManager加载 ${this.projectileId} 配置失败，使用默认值`, error);
+        }
+    }
+
+    /**
+     * 应用投射物配置中的外观（锚点、缩放、透明度、着色）
+     */
+    private applyVisualConfig(): void {
+        const config = this.getProjectileData();
+        const anchor = config?.physics?.anchor || PROJECTILE_DEFAULTS.anchor;
+        const uiTransform = this.getComponent(UITransform);
+        if (uiTransform) {
+            uiTransform.setAnchorPoint(anchor.x, anchor.y);
+        }
+
+        const visual = config?.visual;
+        const scale = visual?.scale ?? 1;
+        this.node.setScale(scale, scale, 1);
+
+        if (this.spriteComponent) {
+            const [r, g, b] = visual?.tint || [255, 255, 255];
+            const alpha = Math.round((visual?.alpha ?? 1) * 255);
+            this.spriteComponent.color = new Color(r, g, b, alpha);
+        }
+    }
+
+    // =================== 对象池管理方法 ===================
+
+    /**
+     * 设置对象池属性
+     * @param isFromPool 是否来自对象池
+     * @param poolName 对象池名称
+     */
+    public setPoolingProperties(isFromPool: boolean, poolName: string): void {
+        this.isFromPool = isFromPool;
+        this.poolName = poolName;
+    }
+
+    /**
+     * 从对象池重用投射物时的重置方法
+     */
+    public onReuseFromPool(): void {
+        ProjectileController.activeProjectiles.add(this);
+
+        this.setupComponents();
+        this.loadConfigFromDataManager();
+        this.resetProjectileState();
+        this.applyVisualConfig();
+        this.setupCollisionDetection();
+        this.updateProjectilePhysicsGroup();
+
+        this.node.active = true;
+
+        // 资源已加载完成时直接开始生成动画；同一预制体被其他投射物复用时重新创建动画
+        if (this.isInitialized && this.loadedAnimationId === this.projectileId) {
+            this.startSpawnAnimation();
+        } else if (this.isInitialized) {
+            this.isInitialized = false;
+            this.loadResources();
+        }
+    }
+
+    /**
+     * 回收到对象池时的清理方法
+     */
+    public onRecycleToPool(): void {
+        ProjectileController.activeProjectiles.delete(this);
+
+        if (this.animationComponent && this.animationComponent.isValid) {
+            try {
+                this.animationComponent.stop();
+                this.animationComponent.off(Animation.EventType.FINISHED);
+            } catch (error) {
+                console.warn('ProjectileController: 动画组件停止失败:', error);
+            }
+        }
+
+        if (this.rigidBody) {
+            this.rigidBody.linearVelocity = new Vec2(0, 0);
+        }
+
+        if (this.colliderComponent) {
+            this.colliderComponent.off(Contact2DType.BEGIN_CONTACT, this.onCollisionEnter, this);
+        }
+
+        this.resetProjectileState();
+    }
+
+    /**
+     * 重置投射物状态
+     */
+    private resetProjectileState(): void {
+        this.currentState = ProjectileAnimationState.SPAWN;
+        this.isDestroying = false;
+        this.currentLifeTime = 0;
+        this.flightTime = 0;
+        this.arcFlightTime = 0;
+        this.moveDirection = new Vec3(1, 0, 0);
+        this.velocity = new Vec2(0, 0);
+        this.hasLaunchDirection = false;
+        this.launchAngle = 0;
+        this.hitNodes.clear();
+        this.homingTarget = null;
+
+        this.node.setPosition(0, 0, 0);
+        this.node.setRotation(0, 0, 0, 1);
+        this.node.angle = 0;
+        this.node.setScale(1, 1, 1);
+        this.node.active = false;
+    }
+
+    /**
+     * 静态方法：从对象池创建投射物
+     * @param projectileId 投射物ID（skills.json 中 projectiles 的键）
+     * @returns 投射物控制器实例
+     */
+    public static createFromPool(projectileId: string): ProjectileController | null {
+        const data = dataManager.getProjectileData(projectileId);
+        const poolName = data ? getProjectilePoolName(data) : projectileId;
+
+        const projectileNode = poolManager.get(poolName);
+        if (!projectileNode) {
+            const poolStats = poolManager.getStats(poolName) as any;
+            if (poolStats) {
+                console.error(`ProjectileController: 无法从对象池 ${poolName} 获取投射物节点 - 大小: ${poolStats.size}, 最大: ${poolStats.maxSize}, 获取次数: ${poolStats.getCount}, 创建次数: ${poolStats.createCount}`);
+            } else {
+                console.error(`ProjectileController: 对象池 ${poolName} 不存在或未初始化`);
+            }
+            return null;
+        }
+
+        const controller = projectileNode.getComponent(ProjectileController);
+        if (!controller) {
+            console.error(`ProjectileController: 投射物节点缺少 ProjectileController 组件（对象池 ${poolName}）`);
+            poolManager.put(projectileNode);
+            return null;
+        }
+
+        controller.projectileId = projectileId;
+        controller.setPoolingProperties(true, poolName);
+        controller.onReuseFromPool();
+
+        return controller;
+    }
+
+    protected onDestroy(): void {
+        ProjectileController.activeProjectiles.delete(this);
+
+        if (this.colliderComponent) {
+            this.colliderComponent.off(Contact2DType.BEGIN_CONTACT, this.onCollisionEnter, this);
+        }
+
+        if (this.animationComponent) {
+            this.animationComponent.off(Animation.EventType.FINISHED);
+        }
+    }
+}
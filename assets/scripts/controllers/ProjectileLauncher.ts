@@ -6,6 +6,7 @@
 import { _decorator, Component, Node, Vec3, instantiate, input, Input, EventMouse, view, UITransform, Prefab, Enum } from 'cc';
 import { resourceManager } from '../managers/ResourceManager';
 import { poolManager } from '../managers/PoolManager';
+import { simulationManager } from '../managers/SimulationManager';
 
 const { ccclass, property } = _decorator;
 
@@ -203,7 +204,7 @@ export class ProjectileLauncher extends Component {
         projectileController.setAngle(angleDegrees);
         
         // 更新最后发射时间
-        this.lastLaunchTime = Date.now() / 1000;
+        this.lastLaunchTime = simulationManager.now() / 1000;
         
         console.log(`ProjectileLauncher: 发射${projectileType}，角度 ${angleDegrees}°`);
         return projectileController;
@@ -258,7 +259,7 @@ export class ProjectileLauncher extends Component {
         projectileController.setMoveDirection(direction);
         
         // 更新最后发射时间
-        this.lastLaunchTime = Date.now() / 1000;
+        this.lastLaunchTime = simulationManager.now() / 1000;
         
         console.log(`ProjectileLauncher: 发射${projectileType}，方向 (${direction.x.toFixed(2)}, ${direction.y.toFixed(2)})`);
         return projectileController;
@@ -294,7 +295,7 @@ export class ProjectileLauncher extends Component {
         projectileController.setTarget(targetPos);
         
         // 更新最后发射时间
-        this.lastLaunchTime = Date.now() / 1000;
+        this.lastLaunchTime = simulationManager.now() / 1000;
         
         console.log(`ProjectileLauncher: 发射${projectileType}到位置 (${targetPos.x.toFixed(2)}, ${targetPos.y.toFixed(2)})`);
         return projectileController;
@@ -315,7 +316,7 @@ export class ProjectileLauncher extends Component {
      * 检查是否可以发射
      */
     public canLaunch(): boolean {
-        const currentTime = Date.now() / 1000;
+        const currentTime = simulationManager.now() / 1000;
         return (currentTime - this.lastLaunchTime) >= this.launchCooldown;
     }
     
@@ -384,6 +385,12 @@ export class ProjectileLauncher extends Component {
                 // 获取投射物控制器组件
                 const controller = this.getControllerFromNode<T>(pooledNode);
                 if (controller) {
+                    // 通用投射物控制器按类型加载配置并重置状态
+                    const reusable = controller as any;
+                    if (reusable.onReuseFromPool) {
+                        reusable.projectileId = projectileType;
+                        reusable.onReuseFromPool();
+                    }
                     return controller;
                 } else {
                     // 如果无法获取控制器，回收节点
@@ -445,11 +452,9 @@ export class ProjectileLauncher extends Component {
      * 从节点获取控制器组件
      */
     private getControllerFromNode<T extends IProjectileController>(projectileNode: Node): T | null {
-        // 获取投射物控制器组件
-        const projectileController = projectileNode.getComponent('FireballLauncher') as unknown as T ||
-                                   projectileNode.getComponent('ThunderController') as unknown as T ||
-                                   projectileNode.getComponent('IceBallController') as unknown as T ||
-                                   projectileNode.getComponent('ArrowController') as unknown as T;
+        // 获取投射物控制器组件（所有投射物类型共用按配置驱动的 ProjectileController）
+        const projectileController = projectileNode.getComponent('ProjectileController') as unknown as T ||
+                                   projectileNode.getComponent('FireballLauncher') as unknown as T;
         
         if (!projectileController) {
             console.error('ProjectileLauncher: 投射物预制体缺少控制器组件');
@@ -1,6 +1,9 @@
 import { _decorator, Component, Animation, Sprite, Vec2, Node, EventKeyboard, KeyCode, input, Input, find, Graphics, Color, Collider2D, RigidBody2D, Enum, UITransform, instantiate, Prefab, Label, tween, director, Vec3, ERigidBody2DType, BoxCollider2D, CircleCollider2D } from 'cc';
 import { dataManager } from '../managers/DataManager';
 import { EnemyData } from '../configs/EnemyConfig';
+import { MeleeHitboxConfig, resolveMeleeHitbox, getFacingVector, getMeleeHitboxOrigin, getMeleeHitboxDistance } from '../configs/MeleeHitboxConfig';
+import { DamageInfo, DamageResult } from '../configs/DamageConfig';
+import { POISE_DEFAULTS, getKnockbackImpulse, getStaggerDuration } from '../configs/PoiseConfig';
 import { CharacterStats } from '../components/CharacterStats';
 import { HealthBarComponent } from '../components/HealthBarComponent';
 import { systemConfigManager } from '../configs/SystemConfig';
@@ -26,6 +29,14 @@ import { ControlMode, CharacterState } from '../state-machine/CharacterEnums';
 import { StateMachine, ICharacterController } from '../state-machine/CharacterStateMachine';
 import { CharacterPoolFactory } from '../pool/CharacterPoolSystem';
 import { TargetSelectorFactory } from '../configs/TargetSelectorFactory';
+import { SkillCaster } from '../components/SkillCaster';
+import { SkillData, SkillPhase } from '../configs/SkillConfig';
+import { EliteAffixComponent } from '../components/EliteAffixComponent';
+import { StatusEffectComponent } from '../components/StatusEffectComponent';
+import { EliteAffixData } from '../configs/EliteAffixConfig';
+import { experienceManager } from '../managers/ExperienceManager';
+import { gameRandom } from '../utils/SeededRandom';
+import { simulationManager } from '../managers/SimulationManager';
 
 
 const { ccclass, property } = _decorator;
@@ -70,6 +81,7 @@ export class BaseCharacterDemo extends Component implements ICrowdableCharacter,
     private currentInputSignals = {
         hasMovementInput: false,
         wantsToAttack: false,
+        wantsToCastSkill: false,
         // 未来可扩展其他输入信号
     };
 
@@ -81,6 +93,8 @@ export class BaseCharacterDemo extends Component implements ICrowdableCharacter,
     protected collider: CircleCollider2D | null = null;
     protected orcaAgent: OrcaAgent | null = null;
     protected aiNavigationController: AINavigationController | null = null;
+    protected skillCaster: SkillCaster | null = null;
+    protected statusEffects: StatusEffectComponent | null = null;
     
     // 敌人配置数据
     protected enemyData: EnemyData | null = null;
@@ -121,6 +135,12 @@ export class BaseCharacterDemo extends Component implements ICrowdableCharacter,
     // 无敌状态标志位
     private isInvincible: boolean = false;
 
+    // 状态效果着色（闪红结束后恢复到此颜色）
+    private statusTint: Color = Color.WHITE.clone();
+
+    // 硬直剩余时间（霸体被击破时设置）
+    private staggerTimer: number = 0;
+
     // 专注锁定检查器状态
     private focusLockCheckerActive: boolean = false;
 
@@ -250,8 +270,13 @@ export class BaseCharacterDemo extends Component implements ICrowdableCharacter,
             return null;
         }
 
+        if (this.enemyData.meleeHitbox) {
+            const hitboxResult = this.performMeleeHitboxAttack(this.enemyData.meleeHitbox);
+            return hitboxResult ? { isDead: hitboxResult.isDead, isStunned: hitboxResult.isStunned } : null;
+        }
+
         let targetToAttack: Node | null = null;
-        let attackDamage = this.characterStats.baseAttack;
+        const attackDamage = this.characterStats.createDamageInfo(this.characterStats.baseAttack);
 
         // AI模式：攻击当前目标
        
@@ -286,8 +311,12 @@ export class BaseCharacterDemo extends Component implements ICrowdableCharacter,
             return null;
         }
 
+        if (this.enemyData.meleeHitbox) {
+            return this.performMeleeHitboxAttack(this.enemyData.meleeHitbox);
+        }
+
         let targetToAttack: Node | null = null;
-        let attackDamage = this.characterStats.baseAttack;
+        const attackDamage = this.characterStats.createDamageInfo(this.characterStats.baseAttack);
 
         // AI模式：攻击当前目标
         if (this.controlMode === ControlMode.AI && this.currentTarget) {
@@ -318,6 +347,62 @@ export class BaseCharacterDemo extends Component implements ICrowdableCharacter,
         return null;
     }
 
+    /**
+     * 按近战判定框结算攻击：命中当前朝向判定框内的所有敌对单位，判定框内没有敌人时挥空
+     * @returns 攻击结果；当前目标被命中时返回当前目标的结果，否则返回最近的被命中目标的结果
+     */
+    private performMeleeHitboxAttack(config: MeleeHitboxConfig): { isDead: boolean, isStunned: boolean, target: Node | null } | null {
+        if (!this.characterStats || !this.enemyData) {
+            return null;
+        }
+
+        const hitbox = resolveMeleeHitbox(config, this.currentDirection, this.enemyData.attackRange || 60);
+        const facing = getFacingVector(this.currentDirection);
+        const origin = getMeleeHitboxOrigin(hitbox, this.node.position, facing);
+        const queryRadius = hitbox.range + Math.abs(hitbox.offset) + hitbox.width / 2;
+        const myFaction = this.getFaction();
+
+        const victims: { node: Node, distance: number }[] = [];
+        for (const candidate of gridManager.getNearbyCharacters(this.node.position, queryRadius)) {
+            if (candidate.node === this.node || !candidate.isAlive()) {
+                continue;
+            }
+            if (!factionManager.doesAttack(myFaction, candidate.getFaction())) {
+                continue;
+            }
+            const distance = getMeleeHitboxDistance(hitbox, origin, facing, candidate.node.position);
+            if (distance >= 0) {
+                victims.push({ node: candidate.node, distance });
+            }
+        }
+
+        if (victims.length === 0) {
+            console.log(`[${this.getCharacterDisplayName()}] 💨 挥空：${this.currentDirection} 方向判定框内没有敌人`);
+            return null;
+        }
+
+        victims.sort((a, b) => a.distance - b.distance);
+        const hitCount = hitbox.maxTargets > 0 ? Math.min(hitbox.maxTargets, victims.length) : victims.length;
+
+        let primary: { isDead: boolean, isStunned: boolean, target: Node | null } | null = null;
+        for (let i = 0; i < hitCount; i++) {
+            const victim = victims[i].node;
+            // 每个目标独立掷暴击
+            const result = this.dealDamageToTarget(victim, this.characterStats.createDamageInfo(this.characterStats.baseAttack));
+            if (!result) {
+                continue;
+            }
+            if (!primary || victim === this.currentTarget) {
+                primary = { isDead: result.isDead, isStunned: result.isStunned, target: victim };
+            }
+        }
+
+        if (hitCount > 1) {
+            console.log(`[${this.getCharacterDisplayName()}] ⚔️ 判定框命中 ${hitCount} 个目标`);
+        }
+        return primary;
+    }
+
     /**
      * 执行远程攻击（火球发射）- 从UniversalCharacterDemo合并
      */
@@ -400,11 +485,12 @@ export class BaseCharacterDemo extends Component implements ICrowdableCharacter,
         }
         
         if (targetToAim && targetToAim.isValid) {
-            // 直接朝目标位置发射火球（精确瞄准）
+            // AI模式预判目标移动（瞄准拦截点），手动模式直接朝目标位置发射
             const targetPos = targetToAim.position;
-            const mode = this.controlMode === ControlMode.AI ? 'AI' : '手动';
-            console.log(`[${this.getCharacterDisplayName()}] 🎯 ${mode}模式精确瞄准目标 ${targetToAim.name} 位置: (${targetPos.x.toFixed(1)}, ${targetPos.y.toFixed(1)})`);
-            this.fireballLauncher.launchFireballToPosition(targetPos);
+            const isAI = this.controlMode === ControlMode.AI;
+            const mode = isAI ? 'AI' : '手动';
+            console.log(`[${this.getCharacterDisplayName()}] 🎯 ${mode}模式${isAI ? '预判' : '精确'}瞄准目标 ${targetToAim.name} 位置: (${targetPos.x.toFixed(1)}, ${targetPos.y.toFixed(1)})`);
+            this.fireballLauncher.launchProjectileAtTarget(this.fireballLauncher.projectileId, targetToAim, undefined, isAI);
         } else {
             // 没有目标时按角度发射
             const targetAngle = this.calculateLaunchAngle();
@@ -416,16 +502,17 @@ export class BaseCharacterDemo extends Component implements ICrowdableCharacter,
     }
 
     /**
-     * 动态计算发射角度 - 优先瞄准当前目标，否则基于朝向（性能优化：避免创建临时对象）
+     * 动态计算发射角度 - 优先瞄准当前目标（按目标移动速度预判拦截点），否则基于朝向
      */
     private calculateLaunchAngle(): number {
         // 优先瞄准当前AI目标
         const currentTarget = this.getAICurrentTarget?.() || this.currentTarget;
         
         if (currentTarget && currentTarget.isValid) {
-            // 【性能优化】直接使用 position 属性，避免创建临时变量
             const myPos = this.node.position;
-            const targetPos = currentTarget.position;
+            const targetPos = this.fireballLauncher
+                ? this.fireballLauncher.getLeadAimPosition(this.fireballLauncher.projectileId, currentTarget)
+                : currentTarget.position;
             
             // 计算方向向量（直接计算，无需临时对象）
             const deltaX = targetPos.x - myPos.x;
@@ -487,10 +574,10 @@ export class BaseCharacterDemo extends Component implements ICrowdableCharacter,
     /**
      * 对目标造成伤害
      * @param target 攻击目标
-     * @param damage 伤害值
+     * @param damage 伤害值（按物理伤害结算）或完整的伤害输入
      * @returns 伤害结果，包含目标是否死亡等信息
      */
-    protected dealDamageToTarget(target: Node, damage: number): { isDead: boolean, isStunned: boolean } | null {
+    protected dealDamageToTarget(target: Node, damage: number | DamageInfo): { isDead: boolean, isStunned: boolean } | null {
         if (!target || !target.isValid) {
             console.warn(`[${this.getCharacterDisplayName()}] 无效的攻击目标`);
             return null;
@@ -503,23 +590,23 @@ export class BaseCharacterDemo extends Component implements ICrowdableCharacter,
         if (targetCharacterDemo && targetStats) {
             // 理想情况：既有BaseCharacterDemo又有CharacterStats
             // 调用BaseCharacterDemo.takeDamage处理完整逻辑
-            targetCharacterDemo.takeDamage(damage);
+            const damageResult = targetCharacterDemo.takeDamage(damage, this.node);
             
             // 攻击后检查目标状态
             const isDead = !targetStats.isAlive;
             const isStunned = isDead || targetStats.currentHealth <= targetStats.maxHealth * 0.3;
             const result = { isDead, isStunned };
             
-            console.log(`[${this.getCharacterDisplayName()}] 攻击目标 ${target.name}, 伤害=${damage}, 死亡=${result.isDead}`);
+            console.log(`[${this.getCharacterDisplayName()}] 攻击目标 ${target.name}, 伤害=${damageResult ? this.formatDamageResult(damageResult) : damage}, 死亡=${result.isDead}`);
             return result;
         } else if (targetStats) {
             // 只有CharacterStats，直接处理
-            const result = targetStats.takeDamage(damage);
-            console.log(`[${this.getCharacterDisplayName()}] 攻击目标 ${target.name} (仅CharacterStats), 伤害=${damage}, 死亡=${result.isDead}`);
+            const result = targetStats.takeDamage(damage, this.node);
+            console.log(`[${this.getCharacterDisplayName()}] 攻击目标 ${target.name} (仅CharacterStats), 伤害=${this.formatDamageResult(result)}, 死亡=${result.isDead}`);
             return result;
         } else if (targetCharacterDemo) {
             // 只有BaseCharacterDemo
-            targetCharacterDemo.takeDamage(damage);
+            targetCharacterDemo.takeDamage(damage, this.node);
             return { isDead: !target.isValid, isStunned: false };
         } else {
             console.warn(`[${this.getCharacterDisplayName()}] 目标 ${target.name} 没有可攻击的组件`);
@@ -527,6 +614,13 @@ export class BaseCharacterDemo extends Component implements ICrowdableCharacter,
         }
     }
 
+    /**
+     * 格式化伤害结算记录（用于日志）
+     */
+    private formatDamageResult(result: DamageResult): string {
+        return `${result.finalDamage}(${result.damageType}${result.isCrit ? ' 暴击' : ''})`;
+    }
+
     /**
      * 获取敌人数据配置
      */
@@ -562,6 +656,122 @@ export class BaseCharacterDemo extends Component implements ICrowdableCharacter,
         this.currentInputSignals.wantsToAttack = value;
     }
 
+    /**
+     * 【技能系统】状态机查询接口 - 获取施法意图
+     */
+    public get wantsToCastSkill(): boolean {
+        return this.currentInputSignals.wantsToCastSkill;
+    }
+
+    /**
+     * 【技能系统】开始施放已选出的技能（由CastingState调用）
+     * @param onFinished 施法流程结束回调
+     * @returns 是否成功开始施放
+     */
+    public startSkillCast(onFinished: () => void): boolean {
+        if (!this.skillCaster || !this.skillCaster.hasPendingCast) {
+            return false;
+        }
+
+        // 施法前朝向目标
+        if (this.currentTarget && this.currentTarget.isValid) {
+            this.updateDirectionTowards(this.currentTarget.position);
+        }
+
+        return this.skillCaster.beginCast(onFinished);
+    }
+
+    /**
+     * 【技能系统】打断当前施法
+     */
+    public interruptSkillCast(): void {
+        this.skillCaster?.interrupt();
+    }
+
+    /**
+     * 【技能系统】当前施法能否被硬直打断
+     */
+    public isSkillCastInterruptible(): boolean {
+        return this.skillCaster ? this.skillCaster.isInterruptible() : true;
+    }
+
+    /**
+     * 【状态效果】是否处于冰冻、眩晕等控制效果中
+     */
+    public isActionLocked(): boolean {
+        return !!this.statusEffects && this.statusEffects.isActionLocked;
+    }
+
+    /**
+     * 【硬直】进入硬直状态，并向远离攻击者的方向施加击退冲量
+     * 攻击中（霸体）或处于控制效果时不会被硬直；硬直中再次被击破会刷新硬直时间并叠加冲量
+     * @param weight 攻击重量
+     * @param attacker 攻击者节点，为空时只硬直不击退
+     * @returns 是否进入硬直
+     */
+    public stagger(weight: number, attacker: Node | null = null): boolean {
+        if (!this.stateMachine || !this.stateMachine.transitionTo(CharacterState.STAGGERED)) {
+            return false;
+        }
+        this.updateOrcaPassiveState(CharacterState.STAGGERED);
+        this.characterStats?.resetPoise();
+
+        this.staggerTimer = Math.max(this.staggerTimer, getStaggerDuration(weight));
+        this.applyKnockback(weight, attacker);
+        return true;
+    }
+
+    /**
+     * 【硬直】推进硬直计时并让击退速度指数衰减（由 StaggeredState 调用）
+     * @returns 是否仍处于硬直
+     */
+    public updateStagger(deltaTime: number): boolean {
+        this.staggerTimer = Math.max(0, this.staggerTimer - deltaTime);
+
+        if (this.rigidBody) {
+            const decay = Math.exp(-POISE_DEFAULTS.knockbackDamping * deltaTime);
+            const velocity = this.rigidBody.linearVelocity;
+            this.rigidBody.linearVelocity = TempVarPool.tempVec2_6.set(velocity.x * decay, velocity.y * decay);
+        }
+
+        return this.staggerTimer > 0;
+    }
+
+    /**
+     * 【硬直】是否正在被击退（ORCA 在此期间不覆盖刚体速度）
+     */
+    public isKnockedBack(): boolean {
+        return this.staggerTimer > 0 && !!this.stateMachine && this.stateMachine.isInState(CharacterState.STAGGERED);
+    }
+
+    /**
+     * 施加击退冲量（冲量作用在刚体上，质量越大的角色被推得越近）
+     */
+    private applyKnockback(weight: number, attacker: Node | null): void {
+        if (!this.rigidBody || !attacker || !attacker.isValid) {
+            return;
+        }
+
+        const selfPosition = this.node.worldPosition;
+        const attackerPosition = attacker.worldPosition;
+        const direction = new Vec2(selfPosition.x - attackerPosition.x, selfPosition.y - attackerPosition.y);
+        if (direction.lengthSqr() < 0.0001) {
+            return;
+        }
+
+        // 清除当前的移动速度，击退方向只由冲量决定
+        if (this.orcaAgent) {
+            this.orcaAgent.prefVelocity.set(0, 0);
+        }
+        this.rigidBody.linearVelocity = TempVarPool.tempVec2_7.set(0, 0);
+        this.rigidBody.applyLinearImpulseToCenter(direction.normalize().multiplyScalar(getKnockbackImpulse(weight)), true);
+
+        const velocity = this.rigidBody.linearVelocity;
+        if (velocity.length() > POISE_DEFAULTS.maxKnockbackSpeed) {
+            this.rigidBody.linearVelocity = velocity.normalize().multiplyScalar(POISE_DEFAULTS.maxKnockbackSpeed);
+        }
+    }
+
     /**
      * 立即停止物理运动
      */
@@ -683,6 +893,22 @@ export class BaseCharacterDemo extends Component implements ICrowdableCharacter,
         // 绘制血条
         this.updateHealthBar();
         
+        // 【新增】精英词缀名称显示（词缀可能在血条创建前就已施加）
+        const affixComponent = this.getComponent(EliteAffixComponent);
+        if (this.healthBarNode && affixComponent && affixComponent.hasAffixes) {
+            HealthBarComponent.renderAffixLabel(this.healthBarNode, affixComponent.affixes);
+        }
+        this.node.off('affixes-changed', this.onAffixesChanged, this);
+        this.node.on('affixes-changed', this.onAffixesChanged, this);
+    }
+
+    /**
+     * 精英词缀变化时刷新内置血条上方的词缀名称
+     */
+    private onAffixesChanged(affixes: readonly EliteAffixData[]): void {
+        if (this.healthBarNode) {
+            HealthBarComponent.renderAffixLabel(this.healthBarNode, affixes);
+        }
     }
 
     /**
@@ -744,54 +970,69 @@ export class BaseCharacterDemo extends Component implements ICrowdableCharacter,
 
     /**
      * 受到伤害
+     * @param damage 伤害值（按物理伤害结算）或完整的伤害输入
+     * @param attacker 攻击者节点（可选，用于吸血、反伤等效果）
+     * @returns 伤害结算记录，缺少 CharacterStats 时返回 null
      */
-    public takeDamage(damage: number): void {
+    public takeDamage(damage: number | DamageInfo, attacker: Node | null = null): DamageResult | null {
         // 1. 检查无敌状态，防止被连续快速伤害
         if (!this.characterStats) {
-            return;
+            return null;
+        }
+        // 闪避等无敌时间内不结算伤害，也不显示伤害数字
+        if (this.characterStats.isInvulnerable) {
+            return null;
         }
 
         // 2. 从CharacterStats获取详细的伤害结果
-        const result = this.characterStats.takeDamage(damage);
+        const result = this.characterStats.takeDamage(damage, attacker);
 
         // 3. 触发短暂的无敌时间 (无论是硬直还是闪红，都应该有无敌)
         // 硬直的无敌时间可以长一点，闪红的短一点
         const invincibilityDuration = result.isStunned ? 0.6 : 0.2;
         this.activateInvincibility(invincibilityDuration);
 
-        // 4. 显示伤害数字和更新血条（这部分逻辑不变）
-        this.showDamageText(damage);
+        // 4. 显示伤害数字和更新血条
+        this.showDamageText(result);
         this.updateHealthBar();
 
         // 5. 根据结果执行不同的表现
         if (result.isDead) {
-            // 角色死亡
+            // 角色死亡（先清除状态效果，恢复被冰冻暂停的动画）
+            this.statusEffects?.clearEffects();
             this.stateMachine?.transitionTo(CharacterState.DEAD);
         } else if (result.isStunned) {
-            // 霸体值为0，产生硬直 -> 播放完整受伤动画
-            this.stateMachine?.transitionTo(CharacterState.HURT);
+            // 霸体值为0，产生硬直 -> 按攻击重量击退并播放受伤动画
+            // 当前状态不允许硬直（如攻击中）时霸体保持为0，仅播放闪红，之后的受击再触发硬直
+            const weight = typeof damage === 'number' ? POISE_DEFAULTS.attackWeight : damage.weight ?? POISE_DEFAULTS.attackWeight;
+            if (!this.stagger(weight, attacker)) {
+                this.playRedFlashEffect();
+            }
         } else {
             // 霸体值>0，不产生硬直 -> 仅播放闪红特效
             this.playRedFlashEffect();
         }
 
+        return result;
     }
 
     /**
      * 显示伤害数字（通过全局频率控制器，0.1秒最多显示3个）
      */
-    private showDamageText(damage: number): void {
+    private showDamageText(result: DamageResult): void {
         // 通过全局频率控制器请求显示伤害数字
         const displayed = damageDisplayController.requestDamageDisplay(
-            damage,
+            result.finalDamage,
             this.node.position,
             this.node.parent || this.node,
-            this.getCharacterDisplayName()
+            this.getCharacterDisplayName(),
+            result.damageType,
+            result.isCrit
         );
         
         if (!displayed) {
             // 如果由于频率限制未能显示，可以在这里添加其他反馈（如音效）
-            console.log(`[${this.getCharacterDisplayName()}] 伤害 ${damage} 因频率限制未显示`);
+            console.log(`[${this.getCharacterDisplayName()}] 伤害 ${result.finalDamage} 因频率限制未显示`);
         }
     }
 
@@ -803,7 +1044,7 @@ export class BaseCharacterDemo extends Component implements ICrowdableCharacter,
             return;
         }
         
-        const damage = Math.floor(Math.random() * 10) + 1; // 1-10000点随机伤害
+        const damage = Math.floor(gameRandom.next() * 10) + 1; // 1-10000点随机伤害
         this.takeDamage(damage);
     }
 
@@ -812,8 +1053,8 @@ export class BaseCharacterDemo extends Component implements ICrowdableCharacter,
      */
     private testDeath(): void {
         if (this.characterStats) {
-            // 直接造成致命伤害
-            const result = this.characterStats.takeDamage(this.characterStats.maxHealth);
+            // 直接造成致命伤害（真实伤害，不受抗性和护甲影响）
+            const result = this.characterStats.takeDamage({ amount: this.characterStats.maxHealth, trueDamage: true });
             this.updateHealthBar();
             if (result.isDead) {
                 this.stateMachine?.transitionTo(CharacterState.DEAD);
@@ -843,13 +1084,45 @@ export class BaseCharacterDemo extends Component implements ICrowdableCharacter,
         // 停止可能正在进行的旧的闪烁动画，防止冲突
         tween(this.spriteComponent).stop();
 
-        // 将颜色设置为红色，然后用0.1秒缓动回白色
+        // 将颜色设置为红色，然后用0.1秒缓动回状态效果着色（无效果时为白色）
         this.spriteComponent.color = Color.RED;
         tween(this.spriteComponent)
-            .to(0.1, { color: Color.WHITE })
+            .to(0.1, { color: this.statusTint })
             .start();
     }
 
+    /**
+     * 初始化状态效果组件 - 所有角色都可以被施加状态效果
+     */
+    private setupStatusEffects(): void {
+        this.statusEffects = this.getComponent(StatusEffectComponent) || this.addComponent(StatusEffectComponent);
+
+        // 效果变化时刷新着色和动画（先移除，防止重复注册）
+        this.node.off('status-effects-changed', this.onStatusEffectsChanged, this);
+        this.node.on('status-effects-changed', this.onStatusEffectsChanged, this);
+    }
+
+    /**
+     * 状态效果变化：按优先级最高的效果着色，冰冻时暂停动画
+     */
+    private onStatusEffectsChanged(statusEffects: StatusEffectComponent): void {
+        const tint = statusEffects.tintColor;
+        this.statusTint = tint ? tint : Color.WHITE.clone();
+
+        if (this.spriteComponent) {
+            tween(this.spriteComponent).stop();
+            this.spriteComponent.color = this.statusTint;
+        }
+
+        if (this.animationComponent && this.animationComponent.isValid) {
+            if (statusEffects.pausesAnimation) {
+                this.animationComponent.pause();
+            } else {
+                this.animationComponent.resume();
+            }
+        }
+    }
+
 
 
     /**
@@ -874,13 +1147,11 @@ export class BaseCharacterDemo extends Component implements ICrowdableCharacter,
             const faction = this.getFaction();
             
             this.aiNavigationController.initializeNavigation(this.aiBehaviorType, faction, {
-                detectionRange: this.enemyData.detectionRange || 200,
-                attackRange: this.enemyData.attackRange || 60,
+                ...this.getNavigationRanges(this.enemyData),
                 pathUpdateInterval: 2.0,
                 pathNodeThreshold: 20,
                 maxPathAge: 10.0,
-                blockedCheckInterval: 1.0,
-                giveUpDistance: this.enemyData.pursuitRange || 400
+                blockedCheckInterval: 1.0
             });
             
             // 【性能优化】安全地注册到AI性能管理器（支持重复调用）
@@ -1035,6 +1306,12 @@ export class BaseCharacterDemo extends Component implements ICrowdableCharacter,
         // 设置组件
         this.setupComponents();
         
+        // 初始化技能施放组件（仅配置了技能的角色）
+        this.setupSkillCaster();
+        
+        // 初始化状态效果组件
+        this.setupStatusEffects();
+        
         // 显示尺寸范围（如果开关开启）
         this.setupSizeRangeDisplay();
         
@@ -1154,6 +1431,60 @@ export class BaseCharacterDemo extends Component implements ICrowdableCharacter,
         });
     }
 
+    /**
+     * 由敌人配置计算AI导航范围
+     */
+    private getNavigationRanges(enemyData: EnemyData): { detectionRange: number, attackRange: number, giveUpDistance: number } {
+        return {
+            detectionRange: enemyData.detectionRange || 200,
+            attackRange: enemyData.attackRange || 60,
+            giveUpDistance: enemyData.pursuitRange || 400
+        };
+    }
+
+    /**
+     * 热重载敌人数据：更新攻击间隔、属性、AI导航范围（含自爆、辅助配置）、技能列表和Boss阶段，当前状态和目标保持不变
+     * 外观相关配置（plistUrl、动画、碰撞体尺寸等）只对之后生成的角色生效
+     * @param enemyData 新的敌人数据
+     */
+    public applyEnemyDataUpdate(enemyData: EnemyData): void {
+        const previous = this.enemyData;
+        this.enemyData = enemyData;
+        this.attackCooldown = enemyData.attackInterval;
+
+        if (this.characterStats) {
+            this.characterStats.applyEnemyDataUpdate(enemyData);
+        }
+        if (this.aiNavigationController) {
+            this.aiNavigationController.applyEnemyDataUpdate(enemyData, this.getNavigationRanges(enemyData));
+        }
+
+        // 技能列表变化时重新初始化技能槽位（先于Boss配置，Boss技能循环在其后重新应用）
+        if (!previous || JSON.stringify(previous.skills) !== JSON.stringify(enemyData.skills)) {
+            if (this.skillCaster) {
+                this.skillCaster.initWithEnemyData(enemyData, this);
+            } else {
+                this.setupSkillCaster();
+            }
+        }
+        if (!previous || JSON.stringify(previous.bossConfig) !== JSON.stringify(enemyData.bossConfig)) {
+            // 使用字符串获取组件，避免与 BossController 循环引用
+            const bossController = this.getComponent('BossController') as any;
+            if (bossController && bossController.applyEnemyDataUpdate) {
+                bossController.applyEnemyDataUpdate(enemyData);
+            }
+        }
+    }
+
+    /**
+     * 热重载技能定义：技能施放组件重新读取变化的技能数据
+     * @param skillIds 发生变化的技能ID
+     * @returns 是否有技能被刷新
+     */
+    public applySkillDataUpdate(skillIds: string[]): boolean {
+        return !!this.skillCaster && this.skillCaster.refreshSkillData(skillIds) > 0;
+    }
+
     /**
      * 加载角色敌人配置
      */
@@ -1573,8 +1904,8 @@ export class BaseCharacterDemo extends Component implements ICrowdableCharacter,
         }
         
         // 检查攻击冷却时间
-        const currentTime = Date.now() / 1000;
-        if (currentTime - this.lastAttackTime < this.attackCooldown) {
+        const currentTime = simulationManager.now() / 1000;
+        if (currentTime - this.lastAttackTime < this.getEffectiveAttackCooldown()) {
             return;
         }
         
@@ -1651,6 +1982,11 @@ export class BaseCharacterDemo extends Component implements ICrowdableCharacter,
             return;
         }
 
+        // AI攻击前朝向目标：挥击方向（近战判定框朝向）在前摇开始时确定，目标在伤害帧前离开判定框即挥空
+        if (this.controlMode === ControlMode.AI && this.currentTarget && this.currentTarget.isValid) {
+            this.updateDirectionTowards(this.currentTarget.position);
+        }
+
         // 构建完整的动画名称
         const animationName = `${this.enemyData.assetNamePrefix}_${AnimationState.ATTACK}_${this.currentDirection}`;
 
@@ -1677,6 +2013,36 @@ export class BaseCharacterDemo extends Component implements ICrowdableCharacter,
         }
     }
 
+    /**
+     * 【技能系统】技能阶段变化回调 - 施法和引导阶段播放技能动画
+     */
+    private onSkillPhaseChanged = (phase: SkillPhase, skill: SkillData | null): void => {
+        if (!skill || (phase !== SkillPhase.Casting && phase !== SkillPhase.Channeling)) {
+            return;
+        }
+        this.playSkillAnimation(skill);
+    }
+
+    /**
+     * 【技能系统】播放技能动画，角色没有对应动画时回退到攻击动画
+     */
+    private playSkillAnimation(skill: SkillData): void {
+        if (!this.animationComponent || !this.enemyData) {
+            return;
+        }
+
+        const state = skill.animation || AnimationState.CAST;
+        let animationName = `${this.enemyData.assetNamePrefix}_${state}_${this.currentDirection}`;
+        const hasClip = this.animationComponent.clips.some(clip => clip && clip.name === animationName);
+        if (!hasClip) {
+            animationName = `${this.enemyData.assetNamePrefix}_${AnimationState.ATTACK}_${this.currentDirection}`;
+        }
+
+        if (!animationManager.playAnimation(this.animationComponent, animationName)) {
+            console.warn(`[${this.getCharacterDisplayName()}] 技能动画播放失败: ${animationName}`);
+        }
+    }
+
     /**
      * 攻击伤害帧回调 - 在动画的指定帧触发实际攻击逻辑
      * 这个方法在攻击动画的伤害帧被调用，负责执行实际的攻击效果
@@ -1859,7 +2225,8 @@ export class BaseCharacterDemo extends Component implements ICrowdableCharacter,
     private updateOrcaPassiveState(state: CharacterState): void {
         if (!this.orcaAgent) return;
         
-        const shouldBePassive = (state === CharacterState.IDLE || state === CharacterState.ATTACKING);
+        const shouldBePassive = (state === CharacterState.IDLE || state === CharacterState.ATTACKING || state === CharacterState.CASTING ||
+            state === CharacterState.STAGGERED || state === CharacterState.STUNNED);
         
         // 只在状态真正改变时更新并输出日志
         if (this.orcaAgent.isPassive !== shouldBePassive) {
@@ -1881,7 +2248,8 @@ export class BaseCharacterDemo extends Component implements ICrowdableCharacter,
     /**
      * 【新架构】更新函数 - 协调者模式
      */
-    protected update(deltaTime: number): void {
+    protected update(frameDeltaTime: number): void {
+        const deltaTime = simulationManager.getDeltaTime(frameDeltaTime);
         this.lockNodeRotation();
         
         // 根据控制模式调用不同的协调逻辑
@@ -1892,22 +2260,30 @@ export class BaseCharacterDemo extends Component implements ICrowdableCharacter,
             this.updateManualCoordination(deltaTime);
         }
         
+        // 【状态效果】冰冻、眩晕等控制效果强制进入控制状态（施法不可打断时等待施法结束）
+        if (this.isActionLocked() && this.characterStats?.isAlive && !this.stateMachine?.isInState(CharacterState.STUNNED)) {
+            if (this.stateMachine?.transitionTo(CharacterState.STUNNED)) {
+                this.updateOrcaPassiveState(CharacterState.STUNNED);
+            }
+        }
+        
         // 状态机根据统一的输入信号更新
         this.stateMachine?.update(deltaTime);
         
         // 重置一次性信号
         this.currentInputSignals.wantsToAttack = false;
+        this.currentInputSignals.wantsToCastSkill = false;
     }
     
     /**
      * 【性能优化】带时间控制的AI协调逻辑更新
      */
     private updateAICoordinationWithTiming(deltaTime: number): void {
-        const currentTime = Date.now();
+        const currentTime = simulationManager.now();
         const currentState = this.getCurrentState();
         
-        // 攻击状态下不调用AI协调逻辑（被动模式已生效）
-        if (currentState === CharacterState.ATTACKING) {
+        // 攻击和施法状态下不调用AI协调逻辑（被动模式已生效）
+        if (currentState === CharacterState.ATTACKING || currentState === CharacterState.CASTING) {
             return;
         }
         
@@ -1931,8 +2307,8 @@ export class BaseCharacterDemo extends Component implements ICrowdableCharacter,
         const aiDecision = this.aiNavigationController.computeDecision();
         
         // 2. 检查攻击冷却状态
-        const currentTime = Date.now() / 1000;
-        const isCoolingDown = (currentTime - this.lastAttackTime) < this.attackCooldown;
+        const currentTime = simulationManager.now() / 1000;
+        const isCoolingDown = (currentTime - this.lastAttackTime) < this.getEffectiveAttackCooldown();
 
         // 3. 定义最终将要执行的决策变量
         let finalPrefVelocity = aiDecision.prefVelocity;
@@ -1974,7 +2350,7 @@ export class BaseCharacterDemo extends Component implements ICrowdableCharacter,
                 const originalSpeed = finalPrefVelocity.length();
                 // 将原始速度方向旋转90度，制造一个侧向的“微操”意图
                 // 随机左右，避免所有单位都往一个方向挤
-                const randomSign = Math.random() < 0.5 ? 1 : -1;
+                const randomSign = gameRandom.next() < 0.5 ? 1 : -1;
                 finalPrefVelocity.set(-finalPrefVelocity.y * randomSign, finalPrefVelocity.x * randomSign);
                 finalPrefVelocity.normalize().multiplyScalar(originalSpeed * 0.5); // 侧向移动速度慢一点
                 
@@ -1988,7 +2364,20 @@ export class BaseCharacterDemo extends Component implements ICrowdableCharacter,
             this.stuckTimer = 0;
         }
 
-        // 4. 处理攻击意图和冷却计时
+        // 4. 【技能系统】优先尝试施放技能（技能有独立冷却和释放概率，施放也会占用普通攻击间隔）
+        // 没有敌对目标时也要尝试：治疗/增益技能自行寻找友军（辅助型AI从不持有敌对目标）
+        let finalWantsToCastSkill = false;
+        const skillTarget = this.aiNavigationController.getCurrentTarget();
+        if (this.skillCaster && this.skillCaster.hasSkills && !isCoolingDown && !this.isActionLocked()) {
+            if (this.skillCaster.prepareCast(skillTarget ? skillTarget.node : null)) {
+                finalWantsToCastSkill = true;
+                finalWantsToAttack = false;
+                finalPrefVelocity = Vec2.ZERO;
+                this.lastAttackTime = currentTime;
+            }
+        }
+
+        // 4.1 处理攻击意图和冷却计时
         if (finalWantsToAttack) {
             if (isCoolingDown) {
                 // 正在冷却中，强制取消本次攻击意图
@@ -2024,6 +2413,7 @@ export class BaseCharacterDemo extends Component implements ICrowdableCharacter,
         // 转换为状态机输入信号
         this.currentInputSignals.hasMovementInput = finalPrefVelocity.lengthSqr() > 0.01;
         this.currentInputSignals.wantsToAttack = finalWantsToAttack;
+        this.currentInputSignals.wantsToCastSkill = finalWantsToCastSkill;
         
         // 7. 更新目标引用（兼容性）
         const aiTarget = this.aiNavigationController.getCurrentTarget();
@@ -2254,6 +2644,27 @@ export class BaseCharacterDemo extends Component implements ICrowdableCharacter,
         // 清理输入监听
         this.cleanupInput();
         
+        // 【新增】清除精英词缀并还原属性
+        const affixComponent = this.getComponent(EliteAffixComponent);
+        if (affixComponent) {
+            affixComponent.clearAffixes();
+        }
+        
+        // 【新增】清除状态效果（同时还原着色和动画）
+        this.statusEffects?.clearEffects();
+        this.staggerTimer = 0;
+        
+        // 【新增】还原波次难度倍率
+        if (this.characterStats) {
+            this.characterStats.setDifficultyScaling(1, 1);
+        }
+        
+        // 【新增】结束Boss战斗状态（字符串获取，避免与 BossController 循环引用）
+        const bossController = this.getComponent('BossController') as any;
+        if (bossController && bossController.clearBoss) {
+            bossController.clearBoss();
+        }
+        
         // 停止动画
         if (this.animationComponent && this.animationComponent.isValid) {
             try {
@@ -2296,6 +2707,11 @@ export class BaseCharacterDemo extends Component implements ICrowdableCharacter,
         // 重置攻击时间
         this.lastAttackTime = 0;
         
+        // 重置技能冷却和施法状态
+        if (this.skillCaster) {
+            this.skillCaster.resetState();
+        }
+        
         // 重置物理状态 - 立即停止所有运动
         if (this.rigidBody) {
             // 【性能优化】使用临时变量池设置零速度
@@ -2398,6 +2814,11 @@ export class BaseCharacterDemo extends Component implements ICrowdableCharacter,
         }
         
         this.updateCharacterPhysicsGroup(faction); // 设置物理分组
+
+        // 玩家阵营角色同步当前等级的属性成长
+        if (faction === Faction.PLAYER) {
+            experienceManager.applyGrowthTo(this.node);
+        }
     }
 
     /**
@@ -2441,9 +2862,19 @@ export class BaseCharacterDemo extends Component implements ICrowdableCharacter,
 
     /**
      * 获取移动速度（供拥挤系统使用）
+     * 包含技能增益和精英词缀带来的速度倍率
      */
     public getMoveSpeed(): number {
-        return this.moveSpeed;
+        const multiplier = this.characterStats ? this.characterStats.moveSpeedMultiplier : 1.0;
+        return this.moveSpeed * multiplier;
+    }
+
+    /**
+     * 获取实际攻击间隔（包含精英词缀带来的攻击速度倍率）
+     */
+    public getEffectiveAttackCooldown(): number {
+        const multiplier = this.characterStats ? this.characterStats.attackSpeedMultiplier : 1.0;
+        return multiplier > 0 ? this.attackCooldown / multiplier : this.attackCooldown;
     }
 
     /**
@@ -2634,6 +3065,21 @@ export class BaseCharacterDemo extends Component implements ICrowdableCharacter,
         // 清理输入监听
         this.cleanupInput();
         
+        // 【新增】清除精英词缀并还原属性
+        const affixComponent = this.getComponent(EliteAffixComponent);
+        if (affixComponent) {
+            affixComponent.clearAffixes();
+        }
+        
+        // 【新增】移除状态效果监听
+        this.node.off('status-effects-changed', this.onStatusEffectsChanged, this);
+        
+        // 【新增】结束Boss战斗状态（字符串获取，避免与 BossController 循环引用）
+        const bossController = this.getComponent('BossController') as any;
+        if (bossController && bossController.clearBoss) {
+            bossController.clearBoss();
+        }
+        
         // 停止动画
         if (this.animationComponent && this.animationComponent.isValid) {
             try {
@@ -2716,6 +3162,30 @@ export class BaseCharacterDemo extends Component implements ICrowdableCharacter,
         return '';
     }
 
+    /**
+     * 初始化技能施放组件 - 读取怪物配置中的技能列表
+     * Boss即使没有基础技能也需要施放组件来执行阶段技能循环
+     */
+    private setupSkillCaster(): void {
+        if (!this.enemyData) {
+            return;
+        }
+        const hasSkills = !!this.enemyData.skills && this.enemyData.skills.length > 0;
+        if (!hasSkills && !this.enemyData.bossConfig) {
+            return;
+        }
+
+        this.skillCaster = this.getComponent(SkillCaster) || this.addComponent(SkillCaster);
+        if (!this.skillCaster) {
+            return;
+        }
+        this.skillCaster.initWithEnemyData(this.enemyData, this);
+
+        // 阶段变化时播放技能动画（先移除，防止重复注册）
+        this.node.off('skill-phase-changed', this.onSkillPhaseChanged, this);
+        this.node.on('skill-phase-changed', this.onSkillPhaseChanged, this);
+    }
+
     /**
      * 初始化火球发射器 - 完全基于怪物配置 (从UniversalCharacterDemo合并)
      */
@@ -2749,6 +3219,9 @@ export class BaseCharacterDemo extends Component implements ICrowdableCharacter,
         // 设置火球基础伤害（从怪物配置获取）
         this.fireballLauncher.damage = this.enemyData.baseAttack;
 
+        // 普通攻击发射的投射物（skills.json 中 projectiles 的键）
+        this.fireballLauncher.projectileId = this.enemyData.projectileId || 'fireball';
+
         // 设置发射者阵营信息（重要！）
         const currentFaction = this.getFaction();
         this.fireballLauncher.setFactionInfo(currentFaction, this.node);
@@ -574,7 +574,7 @@ export class AnimationManager {
         
         try {
             // 获取投射物动画配置
-            const config = getProjectileAnimationConfig(projectileId);
+            const config = getProjectileAnimationConfig(projectileId) || this.createProjectileAnimationConfigFromData(projectileId);
             if (!config) {
                 console.error(`AnimationManager: 投射物动画配置未找到: ${projectileId}`);
                 return clips;
@@ -598,7 +598,7 @@ export class AnimationManager {
                     frames = this.createProjectileAnimationFrames(
                         atlas,
                         stateConfig.framePrefix,
-                        0, // 起始帧为0
+                        stateConfig.startFrame ?? 0, // 起始帧默认为0
                         stateConfig.frameCount,
                         stateConfig.frameRate
                     );
@@ -607,7 +607,7 @@ export class AnimationManager {
                     frames = this.createProjectileAnimationFrames(
                         atlas,
                         stateConfig.framePrefix,
-                        1, // 起始帧为1
+                        stateConfig.startFrame ?? 1, // 起始帧默认为1
                         stateConfig.frameCount,
                         stateConfig.frameRate
                     );
@@ -616,7 +616,7 @@ export class AnimationManager {
                     frames = this.createProjectileAnimationFrames(
                         atlas,
                         stateConfig.framePrefix,
-                        4, // 起始帧为4
+                        stateConfig.startFrame ?? 4, // 起始帧默认为4
                         stateConfig.frameCount,
                         stateConfig.frameRate
                     );
@@ -643,6 +643,38 @@ export class AnimationManager {
         }
     }
 
+    /**
+     * 按 skills.json 中的投射物配置生成动画配置（animationFrames 中每个状态的帧序号需连续）
+     * @param projectileId 投射物ID
+     */
+    private createProjectileAnimationConfigFromData(projectileId: string): ProjectileAnimationConfig | null {
+        const projectileData = dataManager.getProjectileData(projectileId);
+        if (!projectileData || !projectileData.resources) {
+            return null;
+        }
+
+        const frameRate = projectileData.frameRate || 12;
+        const framePrefix = projectileData.resources.framePrefix;
+        const animationFrames = projectileData.animationFrames || {};
+        const stateFrames: [ProjectileAnimationState, number[] | undefined, boolean][] = [
+            [ProjectileAnimationState.SPAWN, animationFrames.spawn, false],
+            [ProjectileAnimationState.FLYING, animationFrames.flying, true],
+            [ProjectileAnimationState.EXPLODING, animationFrames.explode, false],
+        ];
+
+        const config: ProjectileAnimationConfig = {
+            plistUrl: projectileData.resources.atlas,
+            assetNamePrefix: projectileId,
+            animations: {}
+        };
+        for (const [state, frames, loop] of stateFrames) {
+            if (frames && frames.length > 0) {
+                config.animations[state] = { framePrefix, startFrame: frames[0], frameCount: frames.length, frameRate, loop };
+            }
+        }
+        return config;
+    }
+
     /**
      * 播放投射物动画
      * @param animationComponent 动画组件
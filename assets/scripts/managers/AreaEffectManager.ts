@@ -0,0 +1,328 @@
+// assets/scripts/managers/AreaEffectManager.ts
+
+import { _decorator, Node, Vec3, Graphics, Color, director } from 'cc';
+import { eventManager } from './EventManager';
+import { factionManager } from './FactionManager';
+import { GameEvents } from '../components/GameEvents';
+import { StatusEffectComponent } from '../components/StatusEffectComponent';
+import { gridManager } from '../systems/GridManager';
+import { Faction } from '../configs/FactionConfig';
+import { DamageInfo, DamageType, DAMAGE_TYPE_COLORS } from '../configs/DamageConfig';
+import {
+    AreaEffectData,
+    AreaShape,
+    AREA_EFFECT_DEFAULTS,
+    getAreaDistance,
+    getAreaFalloffMultiplier
+} from '../configs/AreaEffectConfig';
+
+const { ccclass } = _decorator;
+
+/**
+ * 范围效果来源：伤害基数与阵营由触发者（投射物、技能施法者）提供
+ */
+export interface AreaEffectSource {
+    damage: number;                     // 来源伤害（乘以 damageRatio 后结算）
+    faction: Faction;                   // 来源阵营，用于区分敌我
+    sourceNode: Node | null;            // 来源角色节点（伤害归属、暴击率，且不会被自身范围效果命中）
+    damageType?: DamageType;
+    attackWeight?: number;              // 攻击重量，缺省使用来源角色普通攻击的攻击重量
+    excludeNodes?: Set<Node>;           // 不受本次效果影响的节点（例如已被投射物直接命中的目标）
+    label?: string;                     // 日志中显示的效果名称
+}
+
+/**
+ * 持续区域（火海、冰面等）
+ */
+interface AreaZone {
+    id: number;
+    area: AreaEffectData;
+    origin: Vec3;
+    direction: Vec3 | null;
+    source: AreaEffectSource;
+    elapsed: number;
+    nextTickTime: number;
+    visual: Node | null;
+}
+
+/**
+ * 范围效果管理器
+ * 统一结算瞬时爆发与持续区域：通过 GridManager 查询范围内角色，按 FactionManager.areEnemies 区分敌我，
+ * 支持圆形、扇形、直线三种形状、距离衰减与友军伤害。持续区域由 GameManager 每帧驱动，关卡结束时清除。
+ */
+@ccclass('AreaEffectManager')
+export class AreaEffectManager {
+    private static _instance: AreaEffectManager;
+
+    private _zones: AreaZone[] = [];
+    private _nextZoneId: number = 1;
+
+    private _isInitialized: boolean = false;
+
+    public static get instance(): AreaEffectManager {
+        if (!this._instance) {
+            this._instance = new AreaEffectManager();
+        }
+        return this._instance;
+    }
+
+    public get activeZoneCount(): number {
+        return this._zones.length;
+    }
+
+    /**
+     * 初始化范围效果管理器
+     */
+    public initialize(): void {
+        if (this._isInitialized) {
+            return;
+        }
+
+        eventManager.on(GameEvents.LEVEL_ENDED, this.onLevelEnded);
+
+        this._isInitialized = true;
+        console.log('AreaEffectManager: 初始化完成');
+    }
+
+    /**
+     * 销毁范围效果管理器，清理事件与持续区域
+     */
+    public destroy(): void {
+        eventManager.off(GameEvents.LEVEL_ENDED, this.onLevelEnded);
+        this.clearAllZones();
+        this._isInitialized = false;
+    }
+
+    // ========== 范围效果 ==========
+
+    /**
+     * 触发范围效果：配置了 duration 时生成持续区域，否则立即结算一次
+     * @param area 范围配置
+     * @param origin 圆心（扇形、直线为原点）
+     * @param direction 朝向（扇形、直线使用）
+     * @param source 效果来源
+     */
+    public trigger(area: AreaEffectData, origin: Vec3, direction: Vec3 | null, source: AreaEffectSource): void {
+        if (area.duration && area.duration > 0) {
+            this.createZone(area, origin, direction, source);
+        } else {
+            this.applyBlast(area, origin, direction, source);
+        }
+    }
+
+    /**
+     * 瞬时爆发：对范围内的目标结算一次伤害和状态效果
+     * @returns 被命中的角色节点
+     */
+    public applyBlast(area: AreaEffectData, origin: Vec3, direction: Vec3 | null, source: AreaEffectSource): Node[] {
+        const hitNodes: Node[] = [];
+        if (area.radius <= 0) {
+            return hitNodes;
+        }
+
+        const baseDamage = source.damage * (area.damageRatio ?? 1);
+        const friendlyFireRatio = area.friendlyFireRatio ?? AREA_EFFECT_DEFAULTS.friendlyFireRatio;
+
+        // 查询半径取形状上距原点的最远距离，再按形状精确筛选
+        const halfWidth = (area.width ?? AREA_EFFECT_DEFAULTS.lineWidth) / 2;
+        const queryRadius = area.shape === AreaShape.Line ? Math.sqrt(area.radius * area.radius + halfWidth * halfWidth) : area.radius;
+        const victims = gridManager.getNearbyCharacters(origin, queryRadius);
+        for (const victim of victims) {
+            const node = victim.node;
+            if (node === source.sourceNode || !victim.isAlive() || (source.excludeNodes && source.excludeNodes.has(node))) {
+                continue;
+            }
+
+            const isEnemy = factionManager.areEnemies(source.faction, victim.getFaction());
+            if (!isEnemy && !area.friendlyFire) {
+                continue;
+            }
+
+            const distance = getAreaDistance(area, origin, direction, node.position);
+            if (distance < 0) {
+                continue;
+            }
+
+            const damage = Math.floor(baseDamage * getAreaFalloffMultiplier(area, distance) * (isEnemy ? 1 : friendlyFireRatio));
+            if (damage > 0) {
+                this.dealDamage(node, damage, source);
+            }
+            if (area.statusEffects && area.statusEffects.length > 0) {
+                const statusEffects = node.getComponent(StatusEffectComponent);
+                if (statusEffects) {
+                    statusEffects.applyEffects(area.statusEffects, source.sourceNode);
+                }
+            }
+            hitNodes.push(node);
+        }
+
+        if (hitNodes.length > 0) {
+            console.log(`AreaEffectManager: 💥 ${source.label || '范围效果'} 命中 ${hitNodes.length} 个目标`);
+        }
+        return hitNodes;
+    }
+
+    /**
+     * 生成持续区域：立即结算一次，之后每隔 tickInterval 结算，持续 duration 秒
+     * @returns 区域ID
+     */
+    public createZone(area: AreaEffectData, origin: Vec3, direction: Vec3 | null, source: AreaEffectSource): number {
+        const zone: AreaZone = {
+            id: this._nextZoneId++,
+            area,
+            origin: origin.clone(),
+            direction: direction ? direction.clone() : null,
+            // 区域持续期间目标可以反复受到伤害，不继承一次性的排除列表
+            source: { ...source, excludeNodes: undefined },
+            elapsed: 0,
+            nextTickTime: Math.max(0.01, area.tickInterval ?? AREA_EFFECT_DEFAULTS.tickInterval),
+            visual: null
+        };
+        zone.visual = this.createZoneVisual(zone);
+        this._zones.push(zone);
+
+        this.applyBlast(zone.area, zone.origin, zone.direction, zone.source);
+        console.log(`AreaEffectManager: 🔥 ${source.label || '范围效果'} 生成持续区域 #${zone.id}，持续 ${area.duration}s`);
+        return zone.id;
+    }
+
+    /**
+     * 移除持续区域
+     */
+    public removeZone(id: number): void {
+        const index = this._zones.findIndex(zone => zone.id === id);
+        if (index !== -1) {
+            this.destroyZone(this._zones[index]);
+            this._zones.splice(index, 1);
+        }
+    }
+
+    /**
+     * 清除所有持续区域
+     */
+    public clearAllZones(): void {
+        for (const zone of this._zones) {
+            this.destroyZone(zone);
+        }
+        this._zones = [];
+    }
+
+    /**
+     * 推进持续区域（由 GameManager 每帧调用，使用模拟时间）
+     */
+    public update(deltaTime: number): void {
+        if (this._zones.length === 0) {
+            return;
+        }
+
+        for (let i = this._zones.length - 1; i >= 0; i--) {
+            const zone = this._zones[i];
+            const duration = zone.area.duration || 0;
+            const interval = Math.max(0.01, zone.area.tickInterval ?? AREA_EFFECT_DEFAULTS.tickInterval);
+
+            zone.elapsed += deltaTime;
+
+            // 帧时间较长时补齐错过的生效次数
+            while (zone.elapsed >= zone.nextTickTime && zone.nextTickTime < duration) {
+                zone.nextTickTime += interval;
+                this.applyBlast(zone.area, zone.origin, zone.direction, zone.source);
+            }
+
+            if (zone.elapsed >= duration) {
+                this.destroyZone(zone);
+                this._zones.splice(i, 1);
+            }
+        }
+    }
+
+    // ========== 内部方法 ==========
+
+    /**
+     * 构造伤害输入并交给受击者结算（暴击率和攻击重量取自来源角色）
+     */
+    private dealDamage(target: Node, damage: number, source: AreaEffectSource): void {
+        const sourceNode = source.sourceNode && source.sourceNode.isValid ? source.sourceNode : null;
+        const sourceStats = sourceNode ? sourceNode.getComponent('CharacterStats') as any : null;
+        const info: DamageInfo = sourceStats
+            ? sourceStats.createDamageInfo(damage, source.damageType)
+            : { amount: damage, type: source.damageType };
+        if (source.attackWeight !== undefined) {
+            info.weight = source.attackWeight;
+        }
+
+        const characterDemo = target.getComponent('BaseCharacterDemo') as any;
+        if (characterDemo && characterDemo.takeDamage) {
+            characterDemo.takeDamage(info, sourceNode);
+            return;
+        }
+
+        const stats = target.getComponent('CharacterStats') as any;
+        if (stats && stats.takeDamage) {
+            stats.takeDamage(info, sourceNode);
+        }
+    }
+
+    /**
+     * 绘制持续区域的地面显示（颜色取伤害类型颜色）
+     */
+    private createZoneVisual(zone: AreaZone): Node | null {
+        const sourceNode = zone.source.sourceNode;
+        const parent = (sourceNode && sourceNode.isValid && sourceNode.parent) || director.getScene();
+        if (!parent) {
+            return null;
+        }
+
+        const node = new Node(`AreaZone_${zone.id}`);
+        const graphics = node.addComponent(Graphics);
+        const color = DAMAGE_TYPE_COLORS[zone.source.damageType || DamageType.Physical];
+        graphics.fillColor = new Color(color.r, color.g, color.b, AREA_EFFECT_DEFAULTS.zoneAlpha);
+
+        const area = zone.area;
+        const dirAngle = zone.direction ? Math.atan2(zone.direction.y, zone.direction.x) : 0;
+        switch (area.shape || AREA_EFFECT_DEFAULTS.shape) {
+            case AreaShape.Cone: {
+                const halfAngle = (area.angle ?? AREA_EFFECT_DEFAULTS.coneAngle) * Math.PI / 360;
+                graphics.moveTo(0, 0);
+                graphics.arc(0, 0, area.radius, dirAngle - halfAngle, dirAngle + halfAngle, true);
+                graphics.close();
+                break;
+            }
+            case AreaShape.Line: {
+                const halfWidth = (area.width ?? AREA_EFFECT_DEFAULTS.lineWidth) / 2;
+                const cos = Math.cos(dirAngle);
+                const sin = Math.sin(dirAngle);
+                graphics.moveTo(-sin * halfWidth, cos * halfWidth);
+                graphics.lineTo(cos * area.radius - sin * halfWidth, sin * area.radius + cos * halfWidth);
+                graphics.lineTo(cos * area.radius + sin * halfWidth, sin * area.radius - cos * halfWidth);
+                graphics.lineTo(sin * halfWidth, -cos * halfWidth);
+                graphics.close();
+                break;
+            }
+            default:
+                graphics.circle(0, 0, area.radius);
+                break;
+        }
+        graphics.fill();
+
+        (parent as Node).addChild(node);
+        node.setPosition(zone.origin);
+        // 地面效果显示在角色下方
+        node.setSiblingIndex(0);
+        return node;
+    }
+
+    private destroyZone(zone: AreaZone): void {
+        if (zone.visual && zone.visual.isValid) {
+            zone.visual.destroy();
+        }
+        zone.visual = null;
+    }
+
+    // ========== 事件处理 ==========
+
+    private onLevelEnded = (): void => {
+        this.clearAllZones();
+    }
+}
+
+export const areaEffectManager = AreaEffectManager.instance;
@@ -0,0 +1,425 @@
+// assets/scripts/managers/BattleSaveManager.ts
+
+import { _decorator, Node, Vec3, Vec2, director, sys } from 'cc';
+import { eventManager } from './EventManager';
+import { GameEvents } from '../components/GameEvents';
+import { levelManager } from './LevelManager';
+import { experienceManager } from './ExperienceManager';
+import { MonsterSpawner } from './MonsterSpawner';
+import { CharacterStats } from '../components/CharacterStats';
+import { EliteAffixComponent } from '../components/EliteAffixComponent';
+import { ProjectileController } from '../controllers/ProjectileController';
+import { CharacterPoolFactory, IBaseCharacter } from '../pool/CharacterPoolSystem';
+import { CharacterState, ControlMode } from '../state-machine/CharacterEnums';
+import { EliteAffixType } from '../configs/EliteAffixConfig';
+import { FactionUtils } from '../configs/FactionConfig';
+import { gameRandom } from '../utils/SeededRandom';
+import {
+    BATTLE_SAVE_KEY_PREFIX,
+    BATTLE_SAVE_VERSION,
+    BattleSnapshot,
+    CharacterSaveState,
+    DEFAULT_SAVE_SLOT,
+    ProjectileSaveState
+} from '../configs/BattleSaveConfig';
+
+const { ccclass } = _decorator;
+
+/**
+ * 战斗存档管理器
+ * 把进行中的关卡（关卡时间与目标、生成器计时与波次、存活角色、飞行中的投射物、玩家成长）
+ * 序列化为 BattleSnapshot 并写入本地存储，恢复时重新开始同一关卡后按快照重建场景，
+ * 便于测试人员精确复现问题现场。
+ *
+ * 限制：攻击、施法、受击等依赖动画进度的状态恢复为待机；AI目标与技能冷却不保存。
+ */
+@ccclass('BattleSaveManager')
+export class BattleSaveManager {
+    private static _instance: BattleSaveManager;
+
+    // 属性异步初始化完成后需要重新施加存档生命值的角色
+    private _pendingVitals: Map<CharacterStats, CharacterSaveState> = new Map();
+    private _isRestoring: boolean = false;
+
+    public static get instance(): BattleSaveManager {
+        if (!this._instance) {
+            this._instance = new BattleSaveManager();
+        }
+        return this._instance;
+    }
+
+    public get isRestoring(): boolean {
+        return this._isRestoring;
+    }
+
+    // ========== 本地存储 ==========
+
+    /**
+     * 保存当前战斗到本地存储
+     * @param slot 存档槽位
+     * @returns 是否保存成功
+     */
+    public save(slot: string = DEFAULT_SAVE_SLOT): boolean {
+        const snapshot = this.captureSnapshot();
+        if (!snapshot) {
+            return false;
+        }
+
+        try {
+            sys.localStorage.setItem(BATTLE_SAVE_KEY_PREFIX + slot, JSON.stringify(snapshot));
+        } catch (error) {
+            console.error(`BattleSaveManager: 写入存档 ${slot} 失败`, error);
+            return false;
+        }
+
+        console.log(`BattleSaveManager: 💾 已保存到槽位 ${slot}（关卡 ${snapshot.level.levelId}，${snapshot.characters.length} 个角色，${snapshot.projectiles.length} 个投射物）`);
+        eventManager.emit(GameEvents.BATTLE_SAVED, slot, snapshot);
+        return true;
+    }
+
+    /**
+     * 从本地存储读取并恢复战斗
+     * @param slot 存档槽位
+     * @returns 是否恢复成功
+     */
+    public async load(slot: string = DEFAULT_SAVE_SLOT): Promise<boolean> {
+        const snapshot = this.readSnapshot(slot);
+        if (!snapshot) {
+            return false;
+        }
+
+        const success = await this.restoreSnapshot(snapshot);
+        if (success) {
+            eventManager.emit(GameEvents.BATTLE_LOADED, slot, snapshot);
+        }
+        return success;
+    }
+
+    /**
+     * 读取存档内容（不恢复），格式无效或版本不匹配时返回 null
+     */
+    public readSnapshot(slot: string = DEFAULT_SAVE_SLOT): BattleSnapshot | null {
+        const raw = sys.localStorage.getItem(BATTLE_SAVE_KEY_PREFIX + slot);
+        if (!raw) {
+            console.warn(`BattleSaveManager: 槽位 ${slot} 没有存档`);
+            return null;
+        }
+
+        try {
+            const snapshot = JSON.parse(raw) as BattleSnapshot;
+            if (snapshot.version !== BATTLE_SAVE_VERSION) {
+                console.warn(`BattleSaveManager: 存档 ${slot} 版本 ${snapshot.version} 与当前版本 ${BATTLE_SAVE_VERSION} 不兼容`);
+                return null;
+            }
+            return snapshot;
+        } catch (error) {
+            console.error(`BattleSaveManager: 存档 ${slot} 解析失败`, error);
+            return null;
+        }
+    }
+
+    public hasSave(slot: string = DEFAULT_SAVE_SLOT): boolean {
+        return !!sys.localStorage.getItem(BATTLE_SAVE_KEY_PREFIX + slot);
+    }
+
+    public deleteSave(slot: string = DEFAULT_SAVE_SLOT): void {
+        sys.localStorage.removeItem(BATTLE_SAVE_KEY_PREFIX + slot);
+    }
+
+    // ========== 快照 ==========
+
+    /**
+     * 获取当前战斗快照，没有进行中的关卡时返回 null
+     */
+    public captureSnapshot(): BattleSnapshot | null {
+        const level = levelManager.captureState();
+        if (!level) {
+            console.warn('BattleSaveManager: 没有进行中的关卡，无法保存');
+            return null;
+        }
+
+        const spawners = levelManager.getActiveSpawners();
+        const characterIds = new Map<Node, string>();
+        const characters: CharacterSaveState[] = [];
+
+        for (const character of CharacterPoolFactory.getInstance().getActiveCharacters()) {
+            const state = this.captureCharacter(character, `c${characters.length}`, spawners);
+            if (state) {
+                characterIds.set(character.node, state.id);
+                characters.push(state);
+            }
+        }
+
+        const projectiles: ProjectileSaveState[] = [];
+        for (const projectile of ProjectileController.getActiveProjectiles()) {
+            if (!projectile.isInFlight || !projectile.node.active) {
+                continue;
+            }
+            const shooter = projectile.shooter;
+            projectiles.push({
+                type: projectile.projectileId,
+                position: { x: projectile.node.position.x, y: projectile.node.position.y },
+                direction: { x: projectile.direction.x, y: projectile.direction.y },
+                velocity: { x: projectile.currentVelocity.x, y: projectile.currentVelocity.y },
+                flightTime: projectile.elapsedFlightTime,
+                arcFlightTime: projectile.arcLandingTime,
+                damage: projectile.damage,
+                lifeTime: projectile.lifeTime,
+                elapsedTime: projectile.elapsedLifeTime,
+                faction: FactionUtils.factionToString(projectile.faction),
+                shooterId: shooter ? characterIds.get(shooter) : undefined
+            });
+        }
+
+        return {
+            version: BATTLE_SAVE_VERSION,
+            savedAt: Date.now(),
+            level,
+            spawners: spawners.map(spawner => spawner.captureState()),
+            characters,
+            projectiles,
+            progress: experienceManager.getState(),
+            randomState: gameRandom.getState()
+        };
+    }
+
+    private captureCharacter(character: IBaseCharacter, id: string, spawners: MonsterSpawner[]): CharacterSaveState | null {
+        const node = character.node as Node;
+        const stats = node.getComponent(CharacterStats);
+        const enemyType = character.getCharacterType ? character.getCharacterType() : '';
+        if (!stats || !stats.isAlive || !enemyType) {
+            return null;
+        }
+
+        const demo = node.getComponent('BaseCharacterDemo') as any;
+        const affixComponent = node.getComponent(EliteAffixComponent);
+
+        const state: CharacterSaveState = {
+            id,
+            enemyType,
+            faction: character.aiFaction,
+            controlMode: character.controlMode,
+            behaviorType: character.aiBehaviorType,
+            position: { x: node.position.x, y: node.position.y },
+            currentHealth: stats.currentHealth,
+            currentPoise: stats.currentPoise,
+            state: (demo && demo.getCurrentState && demo.getCurrentState()) || CharacterState.IDLE,
+            healthScaling: stats.healthScaling,
+            attackScaling: stats.attackScaling,
+            affixes: affixComponent ? affixComponent.affixes.map(affix => affix.id) : []
+        };
+
+        // 使用字符串获取组件，避免与 BossController 循环引用
+        const bossController = node.getComponent('BossController') as any;
+        const bossState = bossController && bossController.captureState ? bossController.captureState() : null;
+        if (bossState) {
+            state.boss = bossState;
+        }
+
+        for (const spawner of spawners) {
+            const ownership = spawner.findMonsterOwnership(node);
+            if (ownership) {
+                state.spawnerId = spawner.spawnerId;
+                state.spawnKey = ownership.key;
+                state.waveNumber = ownership.waveNumber;
+                break;
+            }
+        }
+
+        return state;
+    }
+
+    /**
+     * 恢复战斗快照：重新开始快照中的关卡，然后重建生成器状态、角色和投射物
+     * @returns 是否恢复成功
+     */
+    public async restoreSnapshot(snapshot: BattleSnapshot): Promise<boolean> {
+        if (this._isRestoring) {
+            console.warn('BattleSaveManager: 正在恢复存档，忽略重复请求');
+            return false;
+        }
+
+        this._isRestoring = true;
+        try {
+            await this.resetBattlefield();
+            await levelManager.startLevel(snapshot.level.levelId);
+
+            // startLevel 之后同一帧内恢复，生成器的初始生成尚未执行
+            levelManager.restoreState(snapshot.level);
+            for (const spawnerState of snapshot.spawners) {
+                const spawner = levelManager.getSpawner(spawnerState.id);
+                if (spawner) {
+                    spawner.restoreState(spawnerState);
+                } else {
+                    console.warn(`BattleSaveManager: 当前关卡没有生成器 ${spawnerState.id}，跳过`);
+                }
+            }
+
+            experienceManager.restoreState(snapshot.progress);
+
+            eventManager.on(GameEvents.CHARACTER_STATS_INITIALIZED, this.onStatsInitialized);
+            const restoredNodes = new Map<string, Node>();
+            for (const state of snapshot.characters) {
+                const node = this.restoreCharacter(state);
+                if (node) {
+                    restoredNodes.set(state.id, node);
+                }
+            }
+
+            let projectileCount = 0;
+            for (const state of snapshot.projectiles) {
+                if (this.restoreProjectile(state, state.shooterId ? restoredNodes.get(state.shooterId) || null : null)) {
+                    projectileCount++;
+                }
+            }
+
+            // 恢复随机序列位置，确定性模式下读档后的战斗与存档时一致
+            if (snapshot.randomState !== undefined) {
+                gameRandom.setState(snapshot.randomState);
+            }
+
+            console.log(`BattleSaveManager: 📂 已恢复关卡 ${snapshot.level.levelId}（${restoredNodes.size}/${snapshot.characters.length} 个角色，${projectileCount}/${snapshot.projectiles.length} 个投射物）`);
+            return true;
+        } catch (error) {
+            console.error('BattleSaveManager: 恢复存档失败', error);
+            return false;
+        } finally {
+            this._isRestoring = false;
+        }
+    }
+
+    /**
+     * 结束当前关卡并回收所有角色和投射物（读档和开始回放前调用）
+     */
+    public async resetBattlefield(): Promise<void> {
+        eventManager.off(GameEvents.CHARACTER_STATS_INITIALIZED, this.onStatsInitialized);
+        this._pendingVitals.clear();
+
+        if (levelManager.isLevelActive()) {
+            await levelManager.endLevel();
+        }
+
+        for (const character of CharacterPoolFactory.getInstance().getActiveCharacters()) {
+            character.returnToPool();
+        }
+
+        for (const projectile of ProjectileController.getActiveProjectiles()) {
+            projectile.returnToPool();
+        }
+    }
+
+    private restoreCharacter(state: CharacterSaveState): Node | null {
+        let node: Node | null = null;
+
+        if (state.spawnerId) {
+            const spawner = levelManager.getSpawner(state.spawnerId);
+            node = spawner ? spawner.restoreMonster(state) : null;
+        } else {
+            node = this.restoreStandaloneCharacter(state);
+        }
+
+        if (!node) {
+            console.warn(`BattleSaveManager: 无法恢复角色 ${state.id} (${state.enemyType})`);
+            return null;
+        }
+
+        const demo = node.getComponent('BaseCharacterDemo') as any;
+        if (demo && demo.setNodePosition) {
+            demo.setNodePosition(state.position.x, state.position.y);
+        }
+
+        // 攻击/施法/受击依赖动画回调，无法从中途恢复，统一回到待机
+        if (demo && demo.transitionToState && state.state === CharacterState.WALKING) {
+            demo.transitionToState(CharacterState.WALKING);
+        }
+
+        const stats = node.getComponent(CharacterStats);
+        if (stats) {
+            stats.restoreVitals(state.currentHealth, state.currentPoise);
+            // 首次从对象池创建的节点会在稍后异步初始化属性，届时需要重新施加
+            if (!stats.enemyData) {
+                this._pendingVitals.set(stats, state);
+            }
+        }
+
+        return node;
+    }
+
+    /**
+     * 恢复不属于生成器的角色（手动测试角色等）
+     */
+    private restoreStandaloneCharacter(state: CharacterSaveState): Node | null {
+        const position = new Vec3(state.position.x, state.position.y, -state.position.y * 0.1);
+        const character = CharacterPoolFactory.getInstance().createCharacter(state.enemyType, {
+            position,
+            controlMode: state.controlMode as ControlMode,
+            aiFaction: state.faction,
+            aiBehaviorType: state.behaviorType
+        });
+        if (!character) {
+            return null;
+        }
+
+        const node = character.node as Node;
+        this.addToCanvas(node);
+
+        const demo = node.getComponent('BaseCharacterDemo') as any;
+        if (demo && demo.setFaction) {
+            demo.setFaction(FactionUtils.stringToFaction(state.faction));
+        }
+
+        const stats = node.getComponent(CharacterStats);
+        if (stats) {
+            stats.setDifficultyScaling(state.healthScaling, state.attackScaling);
+        }
+        if (state.affixes.length > 0) {
+            const affixComponent = node.getComponent(EliteAffixComponent) || node.addComponent(EliteAffixComponent);
+            affixComponent.applyAffixes(state.affixes as EliteAffixType[]);
+        }
+
+        return node;
+    }
+
+    private restoreProjectile(state: ProjectileSaveState, shooter: Node | null): boolean {
+        const projectile = ProjectileController.createFromPool(state.type);
+        if (!projectile) {
+            return false;
+        }
+
+        this.addToCanvas(projectile.node);
+        projectile.node.setPosition(state.position.x, state.position.y, 0);
+        projectile.setLaunchParams(state.damage, state.lifeTime, FactionUtils.stringToFaction(state.faction), shooter || undefined);
+        projectile.setMoveDirection(new Vec3(state.direction.x, state.direction.y, 0));
+        if (state.velocity) {
+            projectile.restoreFlightState(new Vec2(state.velocity.x, state.velocity.y), state.flightTime || 0, state.arcFlightTime || 0);
+        }
+        projectile.elapsedLifeTime = state.elapsedTime;
+        return true;
+    }
+
+    private addToCanvas(node: Node): void {
+        const scene = director.getScene();
+        if (!scene) {
+            return;
+        }
+
+        const canvas = scene.getComponentInChildren('cc.Canvas');
+        (canvas ? canvas.node : scene).addChild(node);
+    }
+
+    private onStatsInitialized = (stats: CharacterStats): void => {
+        const state = this._pendingVitals.get(stats);
+        if (!state) {
+            return;
+        }
+
+        this._pendingVitals.delete(stats);
+        stats.restoreVitals(state.currentHealth, state.currentPoise);
+
+        if (this._pendingVitals.size === 0) {
+            eventManager.off(GameEvents.CHARACTER_STATS_INITIALIZED, this.onStatsInitialized);
+        }
+    }
+}
+
+export const battleSaveManager = BattleSaveManager.instance;
@@ -2,11 +2,21 @@
 
 import { _decorator, JsonAsset } from 'cc';
 import { EnemyData, EnemyCategory, AiBehavior, EnemySkill } from '../configs/EnemyConfig';
+import { SkillData } from '../configs/SkillConfig';
+import { ProjectileData } from '../configs/ProjectileConfig';
+import { DropDatabase, DropTable, PickupItemData } from '../configs/DropConfig';
+import { LevelingConfig, DEFAULT_LEVELING_CONFIG } from '../configs/ExperienceConfig';
+import { getWaveEnemyTypes } from '../configs/WaveConfig';
+import { resolveEnemyTemplates } from '../configs/EnemyTemplateConfig';
 import { handleError, ErrorType, ErrorSeverity } from '../components/ErrorHandler';
 import { LevelData } from './LevelManager';
 import { resourceManager, PrefabConfig } from './ResourceManager';
 import { resourceManager as rm } from './ResourceManager';
 import { poolManager } from './PoolManager';
+import { gameRandom } from '../utils/SeededRandom';
+import { GameDataSources, ValidationReport } from '../configs/DataValidationConfig';
+import { validateGameData, logValidationReport } from '../systems/DataValidator';
+import { DATA_FILE_PATHS, DataReloadResult, EnemyDataChange, diffRecords } from '../configs/DataReloadConfig';
 
 const { ccclass } = _decorator;
 
@@ -18,8 +28,16 @@ export class DataManager {
     
     // 其他数据存储（技能、关卡等）
     public skillData: any = null;
-    private _projectileDatabase: Record<string, any> = {};
+    private _skillDatabase: Record<string, SkillData> = {};
+    private _projectileDatabase: Record<string, ProjectileData> = {};
     private _levelDatabase: Record<number, LevelData> = {};
+    private _dropTableDatabase: Record<string, DropTable> = {};
+    private _pickupItemDatabase: Record<string, PickupItemData> = {};
+    private _levelingConfig: LevelingConfig = DEFAULT_LEVELING_CONFIG;
+
+    // 数据校验
+    private _dataSources: GameDataSources = {};
+    private _validationReport: ValidationReport | null = null;
 
     public static get instance(): DataManager {
         if (!this._instance) {
@@ -40,34 +58,7 @@ export class DataManager {
 
         try {
             console.log("DataManager: 开始加载游戏数据...");
-            
-            // 并行加载所有数据文件
-            const [enemyJsonAsset, skillJsonAsset, levelJsonAsset] = await Promise.all([
-                resourceManager.loadResource('data/enemies', JsonAsset),
-                resourceManager.loadResource('data/skills', JsonAsset),
-                resourceManager.loadResource('data/levels', JsonAsset)
-            ]);
-
-            // 处理敌人数据
-            if (enemyJsonAsset) {
-                await this.processEnemyData(enemyJsonAsset);
-            } else {
-                throw new Error("Failed to load enemy data");
-            }
-
-            // 处理技能数据
-            if (skillJsonAsset) {
-                await this.processSkillData(skillJsonAsset);
-            } else {
-                throw new Error("Failed to load skills data");
-            }
-
-            // 处理关卡数据
-            if (levelJsonAsset) {
-                await this.processLevelData(levelJsonAsset);
-            } else {
-                throw new Error("Failed to load level data");
-            }
+            await this.loadDataFiles();
             
             this._isLoaded = true;
             console.log(`✅ DataManager: 数据加载完成，_isLoaded = true`);
@@ -75,6 +66,8 @@ export class DataManager {
             console.log(`- 技能: ${this.skillData?.skills?.length || 0} 个`);
             console.log(`- 投射物: ${Object.keys(this._projectileDatabase).length} 个`);
             console.log(`- 关卡: ${Object.keys(this._levelDatabase).length} 个`);
+            console.log(`- 掉落表: ${Object.keys(this._dropTableDatabase).length} 个`);
+            console.log(`- 等级上限: ${this._levelingConfig.maxLevel}`);
             console.log(`✅ DataManager: isDataLoaded() = ${this.isDataLoaded()}`);
         } catch (error) {
             handleError(
@@ -88,13 +81,163 @@ export class DataManager {
         }
     }
 
+    /**
+     * 热重载：释放缓存后重新读取所有数据文件，并与重载前的数据比较
+     * - 已存在的敌人配置原地更新，持有旧 EnemyData 引用的组件直接读到新值
+     * - 已删除的敌人配置保留旧数据，避免场上单位和生成器失去配置
+     * - 任何数据文件处理失败时恢复重载前的全部数据
+     * 只更新数据库，推送到场上角色和生成器由 DataReloadManager 完成
+     * @returns 重载结果，数据尚未加载或重载失败时返回 null
+     */
+    public async reloadAllData(): Promise<DataReloadResult | null> {
+        if (!this._isLoaded) {
+            console.error("DataManager: 数据尚未加载，请先调用 loadAllData()");
+            return null;
+        }
+
+        const previous = {
+            enemies: this._enemyDatabase,
+            skillData: this.skillData,
+            skills: this._skillDatabase,
+            projectiles: this._projectileDatabase,
+            levels: this._levelDatabase,
+            dropTables: this._dropTableDatabase,
+            pickupItems: this._pickupItemDatabase,
+            leveling: this._levelingConfig,
+            dataSources: this._dataSources
+        };
+
+        console.log("DataManager: 开始热重载游戏数据...");
+        DATA_FILE_PATHS.forEach(path => resourceManager.releaseResource(path));
+
+        try {
+            await this.loadDataFiles();
+        } catch (error) {
+            this._enemyDatabase = previous.enemies;
+            this.skillData = previous.skillData;
+            this._skillDatabase = previous.skills;
+            this._projectileDatabase = previous.projectiles;
+            this._levelDatabase = previous.levels;
+            this._dropTableDatabase = previous.dropTables;
+            this._pickupItemDatabase = previous.pickupItems;
+            this._levelingConfig = previous.leveling;
+            this._dataSources = previous.dataSources;
+            console.error("DataManager: 热重载失败，已恢复重载前的数据", error);
+            return null;
+        }
+
+        // 敌人配置逐字段比较，已存在的条目原地更新
+        const enemyDiff = diffRecords(previous.enemies, this._enemyDatabase);
+        const changedEnemies: EnemyDataChange[] = enemyDiff.changed.map(enemyId => {
+            const target = previous.enemies[enemyId] as any;
+            const source = this._enemyDatabase[enemyId] as any;
+            const fieldDiff = diffRecords(target, source);
+
+            for (const key in target) {
+                delete target[key];
+            }
+            Object.assign(target, source);
+            this._enemyDatabase[enemyId] = target;
+
+            return { enemyId, fields: [...fieldDiff.changed, ...fieldDiff.added, ...fieldDiff.removed] };
+        });
+        for (const enemyId of enemyDiff.removed) {
+            this._enemyDatabase[enemyId] = previous.enemies[enemyId];
+        }
+
+        const result: DataReloadResult = {
+            reloadedAt: Date.now(),
+            changedEnemies,
+            addedEnemies: enemyDiff.added,
+            removedEnemies: enemyDiff.removed,
+            changedSkills: this.collectChangedKeys(previous.skills, this._skillDatabase),
+            changedProjectiles: this.collectChangedKeys(previous.projectiles, this._projectileDatabase),
+            changedLevels: this.collectChangedKeys(previous.levels, this._levelDatabase).map(Number),
+            updatedCharacters: 0,
+            updatedSpawners: 0,
+            validation: this._validationReport
+        };
+
+        console.log(`✅ DataManager: 热重载完成，敌人 ${changedEnemies.length} 个变化 / ${enemyDiff.added.length} 个新增 / ${enemyDiff.removed.length} 个删除，` +
+            `技能 ${result.changedSkills.length} 个变化，投射物 ${result.changedProjectiles.length} 个变化，关卡 ${result.changedLevels.length} 个变化`);
+        return result;
+    }
+
+    /**
+     * 收集变化、新增和删除的键
+     */
+    private collectChangedKeys(previous: Record<string, any>, current: Record<string, any>): string[] {
+        const diff = diffRecords(previous, current);
+        return [...diff.changed, ...diff.added, ...diff.removed];
+    }
+
+    /**
+     * 读取并处理所有数据文件（已缓存的 JsonAsset 直接复用）
+     */
+    private async loadDataFiles(): Promise<void> {
+        // 并行加载所有数据文件
+        const [enemyJsonAsset, skillJsonAsset, levelJsonAsset, dropJsonAsset, levelingJsonAsset] = await Promise.all([
+            resourceManager.loadResource('data/enemies', JsonAsset),
+            resourceManager.loadResource('data/skills', JsonAsset),
+            resourceManager.loadResource('data/levels', JsonAsset),
+            resourceManager.loadResource('data/drops', JsonAsset),
+            resourceManager.loadResource('data/leveling', JsonAsset)
+        ]);
+
+        // 校验数据结构：报告所有问题，不中断加载（缺少必需字段的敌人仍在 processEnemyData 中中断）
+        this._dataSources = {
+            enemies: enemyJsonAsset?.json,
+            skills: skillJsonAsset?.json,
+            levels: levelJsonAsset?.json,
+            drops: dropJsonAsset?.json
+        };
+        this.validateLoadedData();
+
+        // 处理敌人数据
+        if (enemyJsonAsset) {
+            await this.processEnemyData(enemyJsonAsset);
+        } else {
+            throw new Error("Failed to load enemy data");
+        }
+
+        // 处理技能数据
+        if (skillJsonAsset) {
+            await this.processSkillData(skillJsonAsset);
+        } else {
+            throw new Error("Failed to load skills data");
+        }
+
+        // 处理关卡数据
+        if (levelJsonAsset) {
+            await this.processLevelData(levelJsonAsset);
+        } else {
+            throw new Error("Failed to load level data");
+        }
+
+        // 处理掉落数据（可选：缺失时敌人不产生掉落）
+        if (dropJsonAsset) {
+            this.processDropData(dropJsonAsset);
+        } else {
+            console.warn("DataManager: 未找到掉落数据 data/drops，敌人将不会产生掉落");
+        }
+
+        // 处理玩家等级数据（可选：缺失时使用默认经验曲线）
+        if (levelingJsonAsset) {
+            this.processLevelingData(levelingJsonAsset);
+        } else {
+            console.warn("DataManager: 未找到等级数据 data/leveling，使用默认经验曲线");
+        }
+    }
+
     /**
      * 处理敌人数据
      */
     private async processEnemyData(jsonAsset: JsonAsset): Promise<void> {
         try {
-            const jsonData = jsonAsset.json;
-            this._enemyDatabase = jsonData as Record<string, EnemyData>;
+            // 解析模板继承（extends / statMultipliers），之后只使用完整的 EnemyData
+            // 模板问题已由 validateLoadedData 报告
+            const { enemies } = resolveEnemyTemplates(jsonAsset.json);
+            this._enemyDatabase = enemies;
             
             // 验证数据并转换枚举值
             for (const key in this._enemyDatabase) {
@@ -144,7 +287,15 @@ export class DataManager {
                 
                 // 处理技能数据
                 if (jsonData.skills && Array.isArray(jsonData.skills)) {
-                    const skillCount = jsonData.skills.length;
+                    this._skillDatabase = {};
+                    for (const skill of jsonData.skills as SkillData[]) {
+                        if (!skill.id || !skill.effectType) {
+                            console.warn(`DataManager: 技能配置缺少 id 或 effectType，已跳过`, skill);
+                            continue;
+                        }
+                        this._skillDatabase[skill.id] = skill;
+                    }
+                    const skillCount = Object.keys(this._skillDatabase).length;
                     console.log(`DataManager: 技能数据处理成功，加载了 ${skillCount} 个技能`);
                 } else {
                     console.log("DataManager: 技能文件中没有找到 skills 数组（这是正常的，当前只有投射物数据）");
@@ -184,6 +335,104 @@ export class DataManager {
         }
     }
 
+    /**
+     * 处理掉落数据
+     * 校验掉落表引用的物品和嵌套表是否存在，无效条目只警告不中断加载
+     */
+    private processDropData(jsonAsset: JsonAsset): void {
+        try {
+            const jsonData = jsonAsset.json as DropDatabase;
+            if (!jsonData || !jsonData.items || !jsonData.tables) {
+                throw new Error("Invalid drops data format");
+            }
+
+            this._pickupItemDatabase = {};
+            for (const key in jsonData.items) {
+                const item = jsonData.items[key];
+                item.id = key;
+                this._pickupItemDatabase[key] = item;
+            }
+
+            this._dropTableDatabase = {};
+            for (const key in jsonData.tables) {
+                const table = jsonData.tables[key];
+                table.id = key;
+                this._dropTableDatabase[key] = table;
+            }
+
+            // 校验引用
+            for (const key in this._dropTableDatabase) {
+                const table = this._dropTableDatabase[key];
+                const entries = [
+                    ...(table.guaranteed || []),
+                    ...(table.chance || []),
+                    ...(table.weighted ? table.weighted.entries : [])
+                ];
+                for (const entry of entries) {
+                    if (entry.itemId && !this._pickupItemDatabase[entry.itemId]) {
+                        console.warn(`DataManager: 掉落表 ${key} 引用了不存在的物品 ${entry.itemId}`);
+                    }
+                    if (entry.tableId && !jsonData.tables[entry.tableId]) {
+                        console.warn(`DataManager: 掉落表 ${key} 引用了不存在的掉落表 ${entry.tableId}`);
+                    }
+                    if (!entry.itemId && !entry.tableId) {
+                        console.warn(`DataManager: 掉落表 ${key} 中存在既没有 itemId 也没有 tableId 的条目`);
+                    }
+                }
+            }
+
+            console.log(`DataManager: 掉落数据处理成功，${Object.keys(this._pickupItemDatabase).length} 种物品，${Object.keys(this._dropTableDatabase).length} 个掉落表`);
+        } catch (parseError) {
+            console.error("DataManager: 解析掉落数据失败", parseError);
+        }
+    }
+
+    /**
+     * 处理玩家等级数据，缺失字段使用默认值补全
+     */
+    private processLevelingData(jsonAsset: JsonAsset): void {
+        try {
+            const jsonData = jsonAsset.json as Partial<LevelingConfig>;
+            if (!jsonData || !jsonData.expCurve) {
+                throw new Error("Invalid leveling data format");
+            }
+
+            this._levelingConfig = {
+                ...DEFAULT_LEVELING_CONFIG,
+                ...jsonData,
+                expCurve: { ...DEFAULT_LEVELING_CONFIG.expCurve, ...jsonData.expCurve },
+                statGrowth: { ...DEFAULT_LEVELING_CONFIG.statGrowth, ...(jsonData.statGrowth || {}) }
+            };
+
+            console.log(`DataManager: 等级数据处理成功，等级上限 ${this._levelingConfig.maxLevel}`);
+        } catch (parseError) {
+            console.error("DataManager: 解析等级数据失败，使用默认经验曲线", parseError);
+            this._levelingConfig = DEFAULT_LEVELING_CONFIG;
+        }
+    }
+
+    /**
+     * 按 schema 校验已加载的原始数据并输出所有问题
+     * @returns 校验报告，数据文件尚未加载时返回 null
+     */
+    public validateLoadedData(): ValidationReport | null {
+        if (!this._dataSources.enemies && !this._dataSources.skills && !this._dataSources.levels) {
+            console.warn("DataManager: 数据文件尚未加载，无法校验");
+            return null;
+        }
+
+        this._validationReport = validateGameData(this._dataSources);
+        logValidationReport(this._validationReport, 'DataManager');
+        return this._validationReport;
+    }
+
+    /**
+     * 获取最近一次数据校验报告
+     */
+    public getValidationReport(): ValidationReport | null {
+        return this._validationReport;
+    }
+
     /**
      * 检查数据是否已加载
      */
@@ -279,7 +528,7 @@ export class DataManager {
             return null;
         }
         
-        const randomIndex = Math.floor(Math.random() * enemies.length);
+        const randomIndex = Math.floor(gameRandom.next() * enemies.length);
         return enemies[randomIndex];
     }
 
@@ -348,8 +597,24 @@ export class DataManager {
     }
 
     // 技能和投射物数据访问方法
-    public getSkillDataById(id: number) {
-        return this.skillData?.skills?.find((skill: any) => skill.id === id);
+    public getSkillDataById(id: string): SkillData | null {
+        if (!this._isLoaded) {
+            console.error("DataManager: 数据尚未加载，请先调用 loadAllData()");
+            return null;
+        }
+        return this._skillDatabase[id] || null;
+    }
+
+    /**
+     * 获取所有技能定义
+     * @returns 技能定义数组
+     */
+    public getAllSkills(): SkillData[] {
+        if (!this._isLoaded) {
+            console.error("DataManager: 数据尚未加载，请先调用 loadAllData()");
+            return [];
+        }
+        return Object.values(this._skillDatabase);
     }
 
     /**
@@ -357,7 +622,7 @@ export class DataManager {
      * @param projectileId 投射物ID
      * @returns 投射物配置数据
      */
-    public getProjectileData(projectileId: string): any | null {
+    public getProjectileData(projectileId: string): ProjectileData | null {
         if (!this._isLoaded) {
             console.error("DataManager: 数据尚未加载，请先调用 loadAllData()");
             return null;
@@ -375,7 +640,7 @@ export class DataManager {
      * 获取所有投射物数据
      * @returns 投射物数据对象
      */
-    public getAllProjectiles(): Record<string, any> {
+    public getAllProjectiles(): Record<string, ProjectileData> {
         if (!this._isLoaded) {
             console.error("DataManager: 数据尚未加载，请先调用 loadAllData()");
             return {};
@@ -388,7 +653,7 @@ export class DataManager {
      * @param skillId 技能ID
      * @returns 投射物配置数据
      */
-    public getProjectileBySkillId(skillId: number): any | null {
+    public getProjectileBySkillId(skillId: string): ProjectileData | null {
         const skill = this.getSkillDataById(skillId);
         if (skill && skill.projectileId) {
             return this.getProjectileData(skill.projectileId);
@@ -396,6 +661,37 @@ export class DataManager {
         return null;
     }
 
+    /**
+     * 根据ID获取掉落表
+     * @param tableId 掉落表ID
+     */
+    public getDropTable(tableId: string): DropTable | null {
+        if (!this._isLoaded) {
+            console.error("DataManager: 数据尚未加载，请先调用 loadAllData()");
+            return null;
+        }
+        return this._dropTableDatabase[tableId] || null;
+    }
+
+    /**
+     * 根据ID获取掉落物定义
+     * @param itemId 物品ID
+     */
+    public getPickupItemData(itemId: string): PickupItemData | null {
+        if (!this._isLoaded) {
+            console.error("DataManager: 数据尚未加载，请先调用 loadAllData()");
+            return null;
+        }
+        return this._pickupItemDatabase[itemId] || null;
+    }
+
+    /**
+     * 获取玩家等级配置（未加载时返回默认配置）
+     */
+    public getLevelingConfig(): LevelingConfig {
+        return this._levelingConfig;
+    }
+
     /**
      * 获取关卡数据库
      */
@@ -475,6 +771,7 @@ export class DataManager {
                 spawner.enemies?.forEach(enemy => {
                     enemyTypes.add(enemy.type);
                 });
+                getWaveEnemyTypes(spawner.waves).forEach(type => enemyTypes.add(type));
             });
         }
         
@@ -0,0 +1,143 @@
+// assets/scripts/managers/DataReloadManager.ts
+
+import { _decorator } from 'cc';
+import { eventManager } from './EventManager';
+import { dataManager } from './DataManager';
+import { levelManager } from './LevelManager';
+import { GameEvents } from '../components/GameEvents';
+import { CharacterPoolFactory } from '../pool/CharacterPoolSystem';
+import { DataReloadResult, hasDataChanges } from '../configs/DataReloadConfig';
+
+const { ccclass } = _decorator;
+
+/**
+ * 游戏数据热重载管理器
+ * 战斗进行中重新读取 JSON 数据文件，把变化的 EnemyData 推送到场上角色
+ * （CharacterStats、AINavigationController、攻击间隔、技能槽位、Boss阶段），把变化的技能定义推送到场上角色的 SkillCaster，
+ * 把变化的关卡配置推送到当前关卡的怪物生成器，完成后发送 GAME_DATA_RELOADED 事件，用于不重启游戏直接调整数值。
+ * 投射物配置在每次发射时从 DataManager 读取，变化后对之后发射的投射物生效。
+ */
+@ccclass('DataReloadManager')
+export class DataReloadManager {
+    private static _instance: DataReloadManager;
+
+    private _isReloading: boolean = false;
+    private _lastResult: DataReloadResult | null = null;
+
+    public static get instance(): DataReloadManager {
+        if (!this._instance) {
+            this._instance = new DataReloadManager();
+        }
+        return this._instance;
+    }
+
+    public get isReloading(): boolean {
+        return this._isReloading;
+    }
+
+    /**
+     * 获取最近一次热重载结果
+     */
+    public getLastResult(): DataReloadResult | null {
+        return this._lastResult;
+    }
+
+    /**
+     * 重新读取数据文件并推送到场上角色和生成器
+     * @returns 重载结果，重载失败或正在重载时返回 null
+     */
+    public async reload(): Promise<DataReloadResult | null> {
+        if (this._isReloading) {
+            console.warn('DataReloadManager: 热重载进行中，忽略本次请求');
+            return null;
+        }
+
+        this._isReloading = true;
+        try {
+            const result = await dataManager.reloadAllData();
+            if (!result) {
+                return null;
+            }
+
+            if (!hasDataChanges(result)) {
+                console.log('DataReloadManager: 数据没有变化');
+            } else {
+                result.updatedCharacters = this.pushEnemyData(result);
+                result.updatedSpawners = this.pushLevelData(result);
+                console.log(`✅ DataReloadManager: 已更新 ${result.updatedCharacters} 个角色、${result.updatedSpawners} 个生成器`);
+            }
+
+            this._lastResult = result;
+            eventManager.emit(GameEvents.GAME_DATA_RELOADED, result);
+            return result;
+        } finally {
+            this._isReloading = false;
+        }
+    }
+
+    /**
+     * 把变化的敌人配置和技能定义推送到场上角色
+     * @returns 更新的角色数量
+     */
+    private pushEnemyData(result: DataReloadResult): number {
+        if (result.changedEnemies.length === 0 && result.changedSkills.length === 0) {
+            return 0;
+        }
+
+        const changedIds = new Set(result.changedEnemies.map(change => change.enemyId));
+        let count = 0;
+
+        for (const character of CharacterPoolFactory.getInstance().getActiveCharacters()) {
+            const demo = character.node.getComponent('BaseCharacterDemo') as any;
+            const enemyData = demo ? demo.getEnemyData() : null;
+            if (!enemyData) {
+                continue;
+            }
+
+            let updated = false;
+            if (changedIds.has(enemyData.id)) {
+                demo.applyEnemyDataUpdate(dataManager.getEnemyData(enemyData.id) || enemyData);
+                updated = true;
+            }
+            if (result.changedSkills.length > 0 && demo.applySkillDataUpdate(result.changedSkills)) {
+                updated = true;
+            }
+            if (updated) {
+                count++;
+            }
+        }
+
+        return count;
+    }
+
+    /**
+     * 把当前关卡变化的生成器配置推送到怪物生成器
+     * 关卡目标、时间限制等其他关卡配置在下次开始关卡时生效
+     * @returns 更新的生成器数量
+     */
+    private pushLevelData(result: DataReloadResult): number {
+        const currentLevel = levelManager.getCurrentLevel();
+        if (!currentLevel || result.changedLevels.indexOf(currentLevel.id) === -1) {
+            return 0;
+        }
+
+        const levelData = dataManager.getLevelData(currentLevel.id);
+        const spawnerDataList = levelData && levelData.monsterSpawners ? levelData.monsterSpawners : [];
+        let count = 0;
+
+        for (const spawner of levelManager.getActiveSpawners()) {
+            const spawnerData = spawnerDataList.find(data => data.id === spawner.spawnerId);
+            if (!spawnerData) {
+                console.warn(`DataReloadManager: 关卡 ${currentLevel.id} 中已没有生成器 ${spawner.spawnerId}，保持原配置`);
+                continue;
+            }
+            if (spawner.applyConfigUpdate(JSON.parse(JSON.stringify(spawnerData)))) {
+                count++;
+            }
+        }
+
+        return count;
+    }
+}
+
+export const dataReloadManager = DataReloadManager.instance;
@@ -0,0 +1,293 @@
+// assets/scripts/managers/DropManager.ts
+
+import { _decorator, Node, Vec3, director } from 'cc';
+import { dataManager } from './DataManager';
+import { eventManager } from './EventManager';
+import { GameEvents } from '../components/GameEvents';
+import { CharacterStats } from '../components/CharacterStats';
+import { PickupItem } from '../components/PickupItem';
+import { DropEntry, DropResult, DROP_DEFAULTS } from '../configs/DropConfig';
+import { Faction } from '../configs/FactionConfig';
+import { ControlMode } from '../state-machine/CharacterEnums';
+import { gameRandom } from '../utils/SeededRandom';
+
+const { ccclass } = _decorator;
+
+/**
+ * 掉落管理器
+ * 监听角色死亡事件，按敌人配置的 dropTableId 掷掉落表并在死亡位置生成掉落物。
+ * 掉落物节点使用内部节点池复用，拾取或超时后回收。
+ */
+@ccclass('DropManager')
+export class DropManager {
+    private static _instance: DropManager;
+
+    // 掉落物节点池与场景中的活跃掉落物
+    private _pickupPool: Node[] = [];
+    private _activePickups: Set<Node> = new Set();
+
+    private _isInitialized: boolean = false;
+
+    public static get instance(): DropManager {
+        if (!this._instance) {
+            this._instance = new DropManager();
+        }
+        return this._instance;
+    }
+
+    public get activePickupCount(): number {
+        return this._activePickups.size;
+    }
+
+    /**
+     * 初始化掉落管理器
+     */
+    public initialize(): void {
+        if (this._isInitialized) {
+            return;
+        }
+
+        eventManager.on(GameEvents.CHARACTER_DIED, this.onCharacterDied);
+        eventManager.on(GameEvents.LEVEL_ENDED, this.onLevelEnded);
+
+        for (let i = 0; i < DROP_DEFAULTS.poolPreloadCount; i++) {
+            this._pickupPool.push(this.createPickupNode());
+        }
+
+        this._isInitialized = true;
+        console.log(`DropManager: 初始化完成，预创建 ${DROP_DEFAULTS.poolPreloadCount} 个掉落物节点`);
+    }
+
+    /**
+     * 销毁掉落管理器，清理事件与节点
+     */
+    public destroy(): void {
+        eventManager.off(GameEvents.CHARACTER_DIED, this.onCharacterDied);
+        eventManager.off(GameEvents.LEVEL_ENDED, this.onLevelEnded);
+
+        this.clearAllPickups();
+        for (const node of this._pickupPool) {
+            if (node.isValid) {
+                node.destroy();
+            }
+        }
+        this._pickupPool = [];
+        this._isInitialized = false;
+    }
+
+    // ========== 掷表 ==========
+
+    /**
+     * 掷掉落表
+     * @param tableId 掉落表ID
+     * @param depth 当前嵌套深度（内部递归使用）
+     * @returns 合并后的掉落结果（同一物品只出现一次）
+     */
+    public rollDropTable(tableId: string, depth: number = 0): DropResult[] {
+        const counts = new Map<string, number>();
+        this.rollTableInto(tableId, depth, counts);
+
+        const results: DropResult[] = [];
+        counts.forEach((count, itemId) => {
+            if (count > 0) {
+                results.push({ itemId, count });
+            }
+        });
+        return results;
+    }
+
+    private rollTableInto(tableId: string, depth: number, counts: Map<string, number>): void {
+        if (depth > DROP_DEFAULTS.maxNestingDepth) {
+            console.warn(`DropManager: 掉落表 ${tableId} 嵌套超过 ${DROP_DEFAULTS.maxNestingDepth} 层，已跳过`);
+            return;
+        }
+
+        const table = dataManager.getDropTable(tableId);
+        if (!table) {
+            console.warn(`DropManager: 未找到掉落表 ${tableId}`);
+            return;
+        }
+
+        // 必定掉落
+        if (table.guaranteed) {
+            for (const entry of table.guaranteed) {
+                this.resolveEntry(entry, depth, counts);
+            }
+        }
+
+        // 独立概率掉落
+        if (table.chance) {
+            for (const entry of table.chance) {
+                if (gameRandom.next() < (entry.chance ?? 0)) {
+                    this.resolveEntry(entry, depth, counts);
+                }
+            }
+        }
+
+        // 权重抽取
+        if (table.weighted && table.weighted.entries.length > 0) {
+            const weighted = table.weighted;
+            const nothingWeight = weighted.nothingWeight ?? 0;
+            const totalWeight = weighted.entries.reduce((sum, entry) => sum + (entry.weight ?? 1), nothingWeight);
+
+            for (let i = 0; i < weighted.rolls; i++) {
+                let roll = gameRandom.next() * totalWeight;
+                if (roll < nothingWeight) {
+                    continue;
+                }
+                roll -= nothingWeight;
+
+                for (const entry of weighted.entries) {
+                    roll -= entry.weight ?? 1;
+                    if (roll < 0) {
+                        this.resolveEntry(entry, depth, counts);
+                        break;
+                    }
+                }
+            }
+        }
+    }
+
+    /**
+     * 解析单个掉落条目：物品直接累加数量，嵌套表按数量重复掷表
+     */
+    private resolveEntry(entry: DropEntry, depth: number, counts: Map<string, number>): void {
+        const min = entry.min ?? 1;
+        const max = entry.max ?? min;
+        const amount = min + Math.floor(gameRandom.next() * (max - min + 1));
+        if (amount <= 0) {
+            return;
+        }
+
+        if (entry.tableId) {
+            for (let i = 0; i < amount; i++) {
+                this.rollTableInto(entry.tableId, depth + 1, counts);
+            }
+        } else if (entry.itemId) {
+            counts.set(entry.itemId, (counts.get(entry.itemId) || 0) + amount);
+        }
+    }
+
+    // ========== 掉落物生成与回收 ==========
+
+    /**
+     * 在指定位置生成掉落物
+     * @param results 掷表结果
+     * @param center 掉落中心位置
+     * @param parent 掉落物父节点
+     * @returns 生成的掉落物节点
+     */
+    public spawnDrops(results: DropResult[], center: Vec3, parent: Node): Node[] {
+        const spawned: Node[] = [];
+
+        for (const result of results) {
+            const itemData = dataManager.getPickupItemData(result.itemId);
+            if (!itemData) {
+                console.warn(`DropManager: 未找到掉落物 ${result.itemId}`);
+                continue;
+            }
+
+            const node = this.getPickupNode();
+            const angle = gameRandom.next() * Math.PI * 2;
+            const distance = gameRandom.next() * DROP_DEFAULTS.scatterRadius;
+            node.setPosition(center.x + Math.cos(angle) * distance, center.y + Math.sin(angle) * distance, center.z);
+            node.setParent(parent);
+            node.active = true;
+
+            const pickup = node.getComponent(PickupItem)!;
+            pickup.init(itemData, result.count, this.recyclePickup);
+
+            this._activePickups.add(node);
+            spawned.push(node);
+        }
+
+        return spawned;
+    }
+
+    /**
+     * 回收掉落物节点到节点池
+     */
+    public recyclePickup = (node: Node): void => {
+        if (!this._activePickups.delete(node)) {
+            return;
+        }
+        if (!node.isValid) {
+            return;
+        }
+
+        const pickup = node.getComponent(PickupItem);
+        if (pickup) {
+            pickup.reset();
+        }
+        node.active = false;
+        node.removeFromParent();
+        this._pickupPool.push(node);
+    }
+
+    /**
+     * 回收场景中所有掉落物
+     */
+    public clearAllPickups(): void {
+        const pickups = Array.from(this._activePickups);
+        for (const node of pickups) {
+            this.recyclePickup(node);
+        }
+        this._activePickups.clear();
+    }
+
+    private getPickupNode(): Node {
+        let node = this._pickupPool.pop();
+        while (node && !node.isValid) {
+            node = this._pickupPool.pop();
+        }
+        return node || this.createPickupNode();
+    }
+
+    private createPickupNode(): Node {
+        const node = new Node('Pickup');
+        node.addComponent(PickupItem);
+        node.active = false;
+        return node;
+    }
+
+    // ========== 事件处理 ==========
+
+    private onCharacterDied = (stats: CharacterStats): void => {
+        const enemyData = stats.enemyData;
+        if (!enemyData || !enemyData.dropTableId) {
+            return;
+        }
+
+        // 玩家及玩家阵营单位死亡不产生掉落
+        const character = stats.getComponent('BaseCharacterDemo') as any;
+        if (character) {
+            if (character.controlMode === ControlMode.MANUAL) {
+                return;
+            }
+            if (character.getFaction && character.getFaction() === Faction.PLAYER) {
+                return;
+            }
+        }
+
+        const results = this.rollDropTable(enemyData.dropTableId);
+        if (results.length === 0) {
+            return;
+        }
+
+        const parent = stats.node.parent || director.getScene();
+        if (!parent) {
+            return;
+        }
+
+        this.spawnDrops(results, stats.node.position, parent as Node);
+
+        console.log(`DropManager: 💰 ${enemyData.name} 掉落 ${results.map(r => `${r.itemId}x${r.count}`).join(', ')}`);
+        eventManager.emit(GameEvents.LOOT_DROPPED, stats.node, results);
+    }
+
+    private onLevelEnded = (): void => {
+        this.clearAllPickups();
+    }
+}
+
+export const dropManager = DropManager.instance;
@@ -7,6 +7,7 @@ type EventCallback = (...args: any[]) => void;
 class EventManager {
     private static instance: EventManager;
     private eventMap: Map<string, EventCallback[]> = new Map();
+    private suspendCount: number = 0;
 
     public static getInstance(): EventManager {
         if (!EventManager.instance) {
@@ -42,12 +43,34 @@ class EventManager {
         }
     }
 
+    /**
+     * 暂停派发所有事件，需与 resume 成对调用
+     * 用于无头战斗模拟等批量计算，避免触发掉落、经验、关卡目标等全局逻辑
+     */
+    public suspend() {
+        this.suspendCount++;
+    }
+
+    /**
+     * 恢复事件派发
+     */
+    public resume() {
+        this.suspendCount = Math.max(0, this.suspendCount - 1);
+    }
+
+    public get isSuspended(): boolean {
+        return this.suspendCount > 0;
+    }
+
     /**
      * 派发事件
      * @param eventName 事件名称
      * @param args 参数
      */
     public emit(eventName: string, ...args: any[]) {
+        if (this.suspendCount > 0) {
+            return;
+        }
         if (this.eventMap.has(eventName)) {
             const callbacks = this.eventMap.get(eventName)!;
             callbacks.forEach(callback => {
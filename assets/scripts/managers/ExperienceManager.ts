@@ -0,0 +1,254 @@
+// assets/scripts/managers/ExperienceManager.ts
+
+import { _decorator, Node } from 'cc';
+import { dataManager } from './DataManager';
+import { eventManager } from './EventManager';
+import { GameEvents } from '../components/GameEvents';
+import { CharacterStats } from '../components/CharacterStats';
+import { PickupItemData, PickupType } from '../configs/DropConfig';
+import {
+    LevelingConfig,
+    PlayerProgressState,
+    getExpToNextLevel,
+    getTotalStatGrowth
+} from '../configs/ExperienceConfig';
+import { Faction } from '../configs/FactionConfig';
+import { TargetSelectorFactory } from '../configs/TargetSelectorFactory';
+
+const { ccclass } = _decorator;
+
+/**
+ * 经验管理器
+ * 管理玩家（玩家阵营共享）的经验与等级：
+ * - 击杀者属于玩家阵营时，按被击杀者的 expReward 获得经验
+ * - 玩家阵营拾取经验类掉落物时获得经验
+ * - 升级后把累计属性成长应用到所有玩家阵营角色的 CharacterStats
+ * 经验曲线与每级成长来自 leveling.json（DataManager.getLevelingConfig）。
+ */
+@ccclass('ExperienceManager')
+export class ExperienceManager {
+    private static _instance: ExperienceManager;
+
+    private _level: number = 1;
+    private _exp: number = 0;
+    private _totalExp: number = 0;
+
+    private _isInitialized: boolean = false;
+
+    public static get instance(): ExperienceManager {
+        if (!this._instance) {
+            this._instance = new ExperienceManager();
+        }
+        return this._instance;
+    }
+
+    // ========== 访问器 ==========
+
+    public get level(): number {
+        return this._level;
+    }
+
+    public get exp(): number {
+        return this._exp;
+    }
+
+    public get totalExp(): number {
+        return this._totalExp;
+    }
+
+    public get expToNextLevel(): number {
+        return getExpToNextLevel(this.config, this._level);
+    }
+
+    public get isMaxLevel(): boolean {
+        return this._level >= this.config.maxLevel;
+    }
+
+    private get config(): LevelingConfig {
+        return dataManager.getLevelingConfig();
+    }
+
+    // ========== 生命周期 ==========
+
+    /**
+     * 初始化经验管理器
+     */
+    public initialize(): void {
+        if (this._isInitialized) {
+            return;
+        }
+
+        eventManager.on(GameEvents.CHARACTER_DIED, this.onCharacterDied);
+        eventManager.on(GameEvents.CHARACTER_STATS_INITIALIZED, this.onStatsInitialized);
+        eventManager.on(GameEvents.PICKUP_COLLECTED, this.onPickupCollected);
+
+        this._isInitialized = true;
+        console.log(`ExperienceManager: 初始化完成，等级上限 ${this.config.maxLevel}`);
+    }
+
+    /**
+     * 销毁经验管理器，移除事件监听
+     */
+    public destroy(): void {
+        eventManager.off(GameEvents.CHARACTER_DIED, this.onCharacterDied);
+        eventManager.off(GameEvents.CHARACTER_STATS_INITIALIZED, this.onStatsInitialized);
+        eventManager.off(GameEvents.PICKUP_COLLECTED, this.onPickupCollected);
+        this._isInitialized = false;
+    }
+
+    /**
+     * 重置为1级并移除所有玩家角色的等级成长
+     */
+    public reset(): void {
+        this._level = 1;
+        this._exp = 0;
+        this._totalExp = 0;
+        this.syncPlayerGrowth();
+    }
+
+    // ========== 经验与升级 ==========
+
+    /**
+     * 增加经验，达到要求时连续升级
+     * @param amount 经验值
+     */
+    public addExperience(amount: number): void {
+        if (amount <= 0) {
+            return;
+        }
+
+        this._totalExp += amount;
+
+        if (this.isMaxLevel) {
+            return;
+        }
+
+        this._exp += amount;
+
+        const oldLevel = this._level;
+        let required = this.expToNextLevel;
+        while (required > 0 && this._exp >= required) {
+            this._exp -= required;
+            this._level++;
+            required = this.expToNextLevel;
+        }
+
+        // 满级后不再累积当前等级经验
+        if (this.isMaxLevel) {
+            this._exp = 0;
+        }
+
+        eventManager.emit(GameEvents.EXP_GAINED, amount, this._exp, this.expToNextLevel);
+
+        if (this._level > oldLevel) {
+            this.onLevelUp(oldLevel);
+        }
+    }
+
+    private onLevelUp(oldLevel: number): void {
+        const growth = getTotalStatGrowth(this.config, this._level);
+        const healOnLevelUp = this.config.healOnLevelUp ?? true;
+
+        for (const stats of this.getPlayerStats()) {
+            stats.applyLevelGrowth(growth);
+            if (healOnLevelUp) {
+                stats.fullHeal();
+            }
+        }
+
+        console.log(`ExperienceManager: ⭐ 升级 ${oldLevel} → ${this._level}（生命+${growth.maxHealth} 攻击+${growth.attack} 防御+${growth.defense}）`);
+        eventManager.emit(GameEvents.PLAYER_LEVEL_UP, this._level, oldLevel, growth);
+    }
+
+    /**
+     * 把当前等级的累计成长应用到指定角色
+     * 玩家阵营角色设置阵营或重新初始化属性后调用，保证新加入的角色与当前等级一致
+     */
+    public applyGrowthTo(node: Node): void {
+        const stats = node.getComponent(CharacterStats);
+        if (stats) {
+            stats.applyLevelGrowth(getTotalStatGrowth(this.config, this._level));
+        }
+    }
+
+    private syncPlayerGrowth(): void {
+        const growth = getTotalStatGrowth(this.config, this._level);
+        for (const stats of this.getPlayerStats()) {
+            stats.applyLevelGrowth(growth);
+        }
+    }
+
+    private getPlayerStats(): CharacterStats[] {
+        const selector = TargetSelectorFactory.getInstance();
+        if (!selector) {
+            return [];
+        }
+
+        const result: CharacterStats[] = [];
+        for (const node of selector.getTargetsByFaction(Faction.PLAYER)) {
+            const stats = node.isValid ? node.getComponent(CharacterStats) : null;
+            if (stats && stats.isAlive) {
+                result.push(stats);
+            }
+        }
+        return result;
+    }
+
+    // ========== 存档 ==========
+
+    /**
+     * 获取成长进度快照
+     */
+    public getState(): PlayerProgressState {
+        return { level: this._level, exp: this._exp, totalExp: this._totalExp };
+    }
+
+    /**
+     * 恢复成长进度并同步到玩家角色
+     */
+    public restoreState(state: PlayerProgressState): void {
+        this._level = Math.max(1, Math.min(this.config.maxLevel, state.level));
+        this._exp = Math.max(0, state.exp);
+        this._totalExp = Math.max(0, state.totalExp);
+        this.syncPlayerGrowth();
+    }
+
+    // ========== 事件处理 ==========
+
+    private onCharacterDied = (stats: CharacterStats, killer?: Node | null): void => {
+        if (stats.expReward <= 0 || !killer || !killer.isValid) {
+            return;
+        }
+
+        if (this.getNodeFaction(killer) !== Faction.PLAYER || this.getNodeFaction(stats.node) === Faction.PLAYER) {
+            return;
+        }
+
+        this.addExperience(stats.expReward);
+    }
+
+    private onStatsInitialized = (stats: CharacterStats): void => {
+        // 重新初始化会清空等级成长，玩家阵营角色需要重新施加
+        if (this._level > 1 && this.getNodeFaction(stats.node) === Faction.PLAYER) {
+            this.applyGrowthTo(stats.node);
+        }
+    }
+
+    private onPickupCollected = (collector: Node, itemData: PickupItemData, count: number): void => {
+        if (itemData.type !== PickupType.Experience) {
+            return;
+        }
+        if (this.getNodeFaction(collector) !== Faction.PLAYER) {
+            return;
+        }
+
+        this.addExperience(itemData.value * count);
+    }
+
+    private getNodeFaction(node: Node): Faction | null {
+        const character = node.getComponent('BaseCharacterDemo') as any;
+        return character && character.getFaction ? character.getFaction() : null;
+    }
+}
+
+export const experienceManager = ExperienceManager.instance;
@@ -10,6 +10,15 @@ import { systemConfigManager } from '../configs/SystemConfig';
 import { resourceManager } from './ResourceManager';
 import { GameEvents } from '../components/GameEvents';
 import { levelManager } from './LevelManager';
+import { getWaveEnemyTypes } from '../configs/WaveConfig';
+import { dropManager } from './DropManager';
+import { areaEffectManager } from './AreaEffectManager';
+import { experienceManager } from './ExperienceManager';
+import { battleSaveManager } from './BattleSaveManager';
+import { replayManager } from './ReplayManager';
+import { REPLAY_PLAY_KEY, REPLAY_RECORD_KEY } from '../configs/ReplayConfig';
+import { dataReloadManager } from './DataReloadManager';
+import { DATA_RELOAD_KEY } from '../configs/DataReloadConfig';
 import { animationManager } from './AnimationManager';
 import { instantiate } from 'cc';
 import { TargetSelector } from '../components/TargetSelector';
@@ -22,6 +31,8 @@ import { CharacterPoolInitializer, CharacterPoolFactory } from '../pool/Characte
 import { damageDisplayController } from '../controllers/DamageDisplayController';
 
 import { gridManager, GridManager } from '../systems/GridManager';
+import { simulationManager } from './SimulationManager';
+import { getProjectilePoolName } from '../configs/ProjectileConfig';
 
 const { ccclass, property } = _decorator;
 
@@ -88,6 +99,20 @@ export class GameManager extends Component {
     })
     public selectedLevelId: number = 0;
 
+    // ===== 确定性模拟配置 =====
+    @property({
+        displayName: "确定性模式",
+        tooltip: "固定随机种子与模拟步长，相同种子和关卡每次得到相同的战斗过程"
+    })
+    public deterministicMode: boolean = false;
+
+    @property({
+        displayName: "随机种子",
+        tooltip: "确定性模式下使用的随机种子",
+        step: 1
+    })
+    public randomSeed: number = 12345;
+
     @property({
         type: Enum({
             ent_normal: 0,
@@ -116,7 +141,10 @@ export class GameManager extends Component {
             slime_lava: 23,
             golem_normal: 24,
             golem_elite: 25,
-            golem_boss: 26
+            golem_boss: 26,
+            slime_timid: 27,
+            slime_kamikaze: 28,
+            slime_crystal_healer: 29
         }),
         displayName: "测试怪物类型",
         tooltip: "手动测试模式下选择要生成的怪物类型"
@@ -170,7 +198,8 @@ export class GameManager extends Component {
         'goblin_normal', 'goblin_elite', 'goblin_boss',
         'slime_normal', 'slime_fire', 'slime_ice', 'slime_bomb',
         'slime_ghost', 'slime_lightning', 'slime_crystal', 'slime_devil', 'slime_lava',
-        'golem_normal', 'golem_elite', 'golem_boss'
+        'golem_normal', 'golem_elite', 'golem_boss',
+        'slime_timid', 'slime_kamikaze', 'slime_crystal_healer'
     ];
 
     /**
@@ -220,12 +249,22 @@ export class GameManager extends Component {
         
         // 清理伤害显示频率控制器
         damageDisplayController.destroy();
+
+        // 注销模拟时钟并恢复调度器时间缩放
+        simulationManager.destroy();
     }
 
-    protected update(deltaTime: number): void {
+    protected update(frameDeltaTime: number): void {
+        const deltaTime = simulationManager.getDeltaTime(frameDeltaTime);
         // 更新对象池管理器
         poolManager.update();
 
+        // 更新关卡计时与目标判定
+        levelManager.update(deltaTime);
+
+        // 推进持续范围效果区域（火海、冰面等）
+        areaEffectManager.update(deltaTime);
+
         // 玩家移动（如果不是手动测试模式）
         if (!this.manualTestMode && this.playerController && this.isMoving && this.currentMoveDirection.length() > 0) {
             this.playerController.move(this.currentMoveDirection, deltaTime);
@@ -292,6 +331,36 @@ export class GameManager extends Component {
             return;
         }
 
+        // 【新增】战斗快速存档/读档（复现问题现场用）
+        if (keyCode === KeyCode.F5) {
+            battleSaveManager.save();
+            return;
+        }
+
+        if (keyCode === KeyCode.F9) {
+            battleSaveManager.load();
+            return;
+        }
+
+        // 【新增】输入录制/回放（问题报告附带回放文件）
+        if (keyCode === REPLAY_RECORD_KEY) {
+            this.toggleInputRecording();
+            return;
+        }
+
+        if (keyCode === REPLAY_PLAY_KEY) {
+            this.toggleReplayPlayback();
+            return;
+        }
+
+        // 【新增】数据热重载（战斗中调整 JSON 数值）
+        if (keyCode === DATA_RELOAD_KEY) {
+            dataReloadManager.reload().catch(error => {
+                console.error('GameManager: 数据热重载失败', error);
+            });
+            return;
+        }
+
         // 根据测试模式分发输入
         if (this.testMode) {
             this.handleEnemyInput(keyCode);
@@ -300,6 +369,34 @@ export class GameManager extends Component {
         }
     }
 
+    /**
+     * 开始/停止输入录制，停止时在浏览器中下载回放文件
+     */
+    private toggleInputRecording(): void {
+        if (replayManager.isRecording) {
+            const replay = replayManager.stopRecording();
+            if (replay) {
+                replayManager.downloadReplay(replay);
+            }
+            return;
+        }
+        replayManager.startRecording(this.selectedLevelId, this.randomSeed);
+    }
+
+    /**
+     * 回放最近一次录制，回放中再次按下则中止
+     */
+    private toggleReplayPlayback(): void {
+        if (replayManager.isPlaying) {
+            replayManager.stopPlayback();
+            return;
+        }
+        const replay = replayManager.loadLastRecording();
+        if (replay) {
+            replayManager.play(replay);
+        }
+    }
+
     /**
      * 键盘按键松开处理
      */
@@ -690,7 +787,7 @@ export class GameManager extends Component {
 
         // 设置资源预加载配置
         resourceManager.setPreloadConfig({
-            data: ['data/enemies', 'data/levels', 'data/skills'], // skills.json 确实存在
+            data: ['data/enemies', 'data/levels', 'data/skills', 'data/drops', 'data/leveling'], // skills.json 确实存在
             textures: [], // 暂时移除所有纹理预加载，避免路径问题
             prefabs: [] // 预制体将通过新的批量加载系统管理
         });
@@ -704,6 +801,15 @@ export class GameManager extends Component {
         // 初始化关卡管理器
         await levelManager.initialize();
 
+        // 初始化掉落管理器（监听角色死亡生成掉落物）
+        dropManager.initialize();
+
+        // 初始化范围效果管理器（持续区域在关卡结束时清除）
+        areaEffectManager.initialize();
+
+        // 初始化经验管理器（玩家阵营击杀获得经验并升级）
+        experienceManager.initialize();
+
         // 【关键修复】检查并启用物理引擎
         this.checkAndEnablePhysicsEngine();
 
@@ -714,6 +820,12 @@ export class GameManager extends Component {
             console.error('GameManager: PhysicsSystem2D实例不存在，无法设置碰撞关系');
         }
 
+        // 初始化模拟时钟，确定性模式下固定随机种子与步长（需在生成角色前完成）
+        simulationManager.initialize();
+        if (this.deterministicMode) {
+            simulationManager.enableDeterministic(this.randomSeed);
+        }
+
         // 【修复初始化顺序】预先注册 BaseCharacterDemo 类到对象池工厂
         // 这样确保在对象池初始化时类已经可用，避免"类未注册"错误
         CharacterPoolFactory.registerBaseCharacterClass(BaseCharacterDemo);
@@ -790,6 +902,10 @@ export class GameManager extends Component {
             if (levelManager.isLevelActive()) {
                 await levelManager.endLevel();
             }
+            // 确定性模式下每次开局都从同一种子开始
+            if (simulationManager.isDeterministic) {
+                simulationManager.reset(this.randomSeed);
+            }
             console.log(`GameManager: Starting level ${this.selectedLevelId}...`);
             await levelManager.startLevel(this.selectedLevelId);
         } catch (error) {
@@ -833,7 +949,8 @@ export class GameManager extends Component {
                 'goblin_normal', 'goblin_elite', 'goblin_boss',
                 'slime_normal', 'slime_fire', 'slime_ice', 'slime_bomb',
                 'slime_ghost', 'slime_lightning', 'slime_crystal', 'slime_devil', 'slime_lava',
-                'golem_normal', 'golem_elite', 'golem_boss'
+                'golem_normal', 'golem_elite', 'golem_boss',
+                'slime_timid', 'slime_kamikaze', 'slime_crystal_healer'
             ];
             
             const getPoolConfig = (enemyType: string) => {
@@ -872,7 +989,7 @@ export class GameManager extends Component {
         }
 
         // 注册火球预制体
-        this.registerFireballPrefab();
+        this.registerProjectilePrefabs();
 
         console.log(`🧪 测试模式预制体注册完成 - 成功: ${successCount}/${totalCount}`);
     }
@@ -923,16 +1040,17 @@ export class GameManager extends Component {
         }
 
         // 注册火球预制体
-        this.registerFireballPrefab();
+        this.registerProjectilePrefabs();
 
         console.log(`🎮 正常模式预制体注册完成 - 成功: ${successCount}/${totalCount}`);
         console.log(`📌 已为关卡 ${this.selectedLevelId} 注册所有需要的敌人类型`);
     }
 
     /**
-     * 注册火球预制体（测试模式和正常模式都需要）
+     * 注册投射物预制体（测试模式和正常模式都需要）
+     * 所有投射物共用挂载的火球预制体，由 ProjectileController 按投射物配置区分行为和外观
      */
-    private registerFireballPrefab(): void {
+    private registerProjectilePrefabs(): void {
         if (this.firePrefab) {
             const success = resourceManager.registerMountedPrefabToPool(
                 'fireball',
@@ -948,6 +1066,20 @@ export class GameManager extends Component {
             } else {
                 console.error('❌ GameManager: 火球预制体注册失败');
             }
+
+            const projectiles = dataManager.getAllProjectiles();
+            for (const id in projectiles) {
+                const projectile = projectiles[id];
+                const poolName = getProjectilePoolName(projectile);
+                if (poolName === 'fireball') {
+                    continue;
+                }
+                resourceManager.registerMountedPrefabToPool(id, this.firePrefab, {
+                    poolName,
+                    maxSize: projectile.poolConfig?.maxSize || 30,
+                    preloadCount: projectile.poolConfig?.preloadCount || 5
+                });
+            }
         } else {
             console.warn('⚠️ GameManager: 未挂载火球预制体');
         }
@@ -975,6 +1107,7 @@ export class GameManager extends Component {
                     spawner.enemies?.forEach(enemy => {
                         enemyTypes.add(enemy.type);
                     });
+                    getWaveEnemyTypes(spawner.waves).forEach(type => enemyTypes.add(type));
                 });
             }
             
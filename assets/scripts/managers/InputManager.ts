@@ -27,6 +27,13 @@ export class InputManager extends Component {
     private currentMousePosition: Vec3 = new Vec3(0, 0, 0);
     private lastMousePosition: Vec3 = new Vec3(0, 0, 0);
     
+    // 【新增】回放期间屏蔽真实输入，仅放行指定按键
+    private inputSuppressed: boolean = false;
+    private suppressedAllowedKeys: KeyCode[] = [];
+    
+    // 动作按键绑定（按键 -> 动作名），每个动作绑定一个按键，可在运行时重新绑定
+    private actionBindings: Map<KeyCode, string> = new Map();
+    
     // 允许的移动按键列表
     private readonly MOVEMENT_KEYS: KeyCode[] = [
         KeyCode.KEY_W,      // W键 - 上
@@ -127,6 +134,13 @@ export class InputManager extends Component {
      * 按键按下事件处理
      */
     private onKeyDown = (event: EventKeyboard): void => {
+        if (this.inputSuppressed) {
+            if (this.suppressedAllowedKeys.indexOf(event.keyCode) !== -1) {
+                eventManager.emit(GameEvents.KEY_PRESSED, event.keyCode);
+            }
+            return;
+        }
+        
         this.keyStates[event.keyCode] = true;
         
         // 移动键和非移动键都需要更新移动方向
@@ -142,6 +156,10 @@ export class InputManager extends Component {
      * 按键松开事件处理
      */
     private onKeyUp = (event: EventKeyboard): void => {
+        if (this.inputSuppressed) {
+            return;
+        }
+        
         this.keyStates[event.keyCode] = false;
         
         // 移动键和非移动键都需要更新移动方向
@@ -183,6 +201,81 @@ export class InputManager extends Component {
         eventManager.emit(GameEvents.MOVE_DIRECTION_CHANGED, this.moveDirection);
     }
     
+    /**
+     * 屏蔽或恢复真实输入（输入回放期间由回放驱动通过 eventManager 发送输入事件）
+     * 屏蔽时清空按键状态并发送一次零移动方向，避免角色沿用屏蔽前的移动
+     * @param suppressed 是否屏蔽
+     * @param allowedKeys 屏蔽期间仍发送 KEY_PRESSED 的按键（如中止回放的按键）
+     */
+    public setInputSuppressed(suppressed: boolean, allowedKeys: KeyCode[] = []): void {
+        this.inputSuppressed = suppressed;
+        this.suppressedAllowedKeys = suppressed ? [...allowedKeys] : [];
+        
+        this.keyStates = {};
+        if (this.moveDirection.length() > 0) {
+            this.moveDirection.set(0, 0);
+            eventManager.emit(GameEvents.MOVE_DIRECTION_CHANGED, this.moveDirection);
+        }
+        
+        console.log(`InputManager: 真实输入已${suppressed ? '屏蔽' : '恢复'}`);
+    }
+    
+    public isInputSuppressed(): boolean {
+        return this.inputSuppressed;
+    }
+    
+    /**
+     * 把动作绑定到按键（动作原有的按键解除绑定，按键原有的动作被覆盖）
+     * 按键仍按原流程发送 KEY_PRESSED，由接收方通过 getActionForKey 解析为动作，保证输入录制和回放不受绑定影响
+     * @param action 动作名（例如 PlayerAction）
+     * @param keyCode 按键
+     * @returns 移动按键不能绑定动作，返回 false
+     */
+    public bindAction(action: string, keyCode: KeyCode): boolean {
+        if (this.isMovementKey(keyCode)) {
+            console.warn(`InputManager: 移动按键 ${keyCode} 不能绑定动作 ${action}`);
+            return false;
+        }
+        
+        this.unbindAction(action);
+        const previous = this.actionBindings.get(keyCode);
+        if (previous && previous !== action) {
+            console.warn(`InputManager: 按键 ${keyCode} 从动作 ${previous} 改绑到 ${action}`);
+        }
+        this.actionBindings.set(keyCode, action);
+        return true;
+    }
+    
+    /**
+     * 解除动作的按键绑定
+     */
+    public unbindAction(action: string): void {
+        for (const [keyCode, boundAction] of this.actionBindings) {
+            if (boundAction === action) {
+                this.actionBindings.delete(keyCode);
+            }
+        }
+    }
+    
+    /**
+     * 获取按键绑定的动作
+     */
+    public getActionForKey(keyCode: KeyCode): string | null {
+        return this.actionBindings.get(keyCode) ?? null;
+    }
+    
+    /**
+     * 获取动作绑定的按键
+     */
+    public getKeyForAction(action: string): KeyCode | null {
+        for (const [keyCode, boundAction] of this.actionBindings) {
+            if (boundAction === action) {
+                return keyCode;
+            }
+        }
+        return null;
+    }
+    
     /**
      * 检查指定按键是否被按下
      */
@@ -248,6 +341,10 @@ export class InputManager extends Component {
      * 鼠标点击事件处理
      */
     private onMouseDown = (event: EventMouse): void => {
+        if (this.inputSuppressed) {
+            return;
+        }
+        
         const worldPosition = this.screenToWorldPosition(event.getLocationX(), event.getLocationY());
         this.currentMousePosition.set(worldPosition);
         
@@ -261,6 +358,10 @@ export class InputManager extends Component {
      * 鼠标移动事件处理
      */
     private onMouseMove = (event: EventMouse): void => {
+        if (this.inputSuppressed) {
+            return;
+        }
+        
         const worldPosition = this.screenToWorldPosition(event.getLocationX(), event.getLocationY());
         
         // 只有当鼠标位置确实发生变化时才发送事件（避免过多的事件触发）
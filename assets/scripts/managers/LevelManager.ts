@@ -6,10 +6,24 @@ import { animationManager } from './AnimationManager';
 import { eventManager } from './EventManager';
 import { GameEvents } from '../components/GameEvents';
 import { resourceManager } from './ResourceManager';
-import { FactionRelationships } from '../configs/FactionConfig';
+import { FactionRelationships, FactionUtils } from '../configs/FactionConfig';
 import { factionManager } from './FactionManager';
 import { MonsterSpawner } from './MonsterSpawner';
 import { CharacterPoolInitializer } from '../pool/CharacterPoolSystem';
+import { CharacterStats } from '../components/CharacterStats';
+import { TargetSelectorFactory } from '../configs/TargetSelectorFactory';
+import {
+    LevelObjectiveData,
+    LevelResult,
+    LevelResultReason,
+    ObjectiveProgress,
+    ObjectiveStatus,
+    ObjectiveType,
+    describeObjective
+} from '../configs/LevelObjectiveConfig';
+import { WaveModeConfig, getWaveEnemyTypes } from '../configs/WaveConfig';
+import { LevelSaveState } from '../configs/BattleSaveConfig';
+import { simulationManager } from './SimulationManager';
 
 const { ccclass } = _decorator;
 
@@ -25,7 +39,7 @@ export interface LevelData {
     factionRelationships?: FactionRelationships;
     monsterSpawners?: MonsterSpawnerData[];
     enemies?: LegacyEnemyData[];
-    objectives?: any[];
+    objectives?: LevelObjectiveData[];
     duration: number;
     description: string;
 }
@@ -37,8 +51,15 @@ export interface MonsterSpawnerData {
     id: string;
     position: { x: number; y: number };
     spawnRadius: number;
-    spawnType: string;
-    enemies: {
+    spawnType: string; // 生成形状：point/circle/rectangle/ring/line/polygon/offscreen
+    size?: { width: number; height: number };
+    innerRadius?: number;
+    points?: { x: number; y: number }[];
+    offscreenMargin?: number;
+    randomOffset?: { x: number; y: number };
+    faction?: string;
+    waves?: WaveModeConfig; // 波次模式：配置后按波次生成，忽略 enemies
+    enemies?: {
         type: string;
         count: number;
         spawnInterval: number;
@@ -59,6 +80,14 @@ export interface LegacyEnemyData {
     faction?: string;
 }
 
+/**
+ * 关卡目标运行时状态
+ */
+interface ObjectiveRuntime {
+    data: LevelObjectiveData;
+    progress: ObjectiveProgress;
+}
+
 /**
  * 关卡管理器
  * 负责管理关卡的生命周期、动画资源的预加载和释放
@@ -80,6 +109,15 @@ export class LevelManager {
     
     // 怪物生成器实例列表
     private _activeSpawners: Node[] = [];
+    
+    // 关卡目标状态
+    private _objectives: ObjectiveRuntime[] = [];
+    private _elapsedTime: number = 0;
+    private _timeLimit: number = 0;
+    private _isSandbox: boolean = false;
+    private _isResultDecided: boolean = false;
+    private _objectiveCheckTimer: number = 0;
+    private readonly OBJECTIVE_CHECK_INTERVAL = 0.5; // 生成器/阵营类目标的检测间隔（秒）
 
     public static get instance(): LevelManager {
         if (!this._instance) {
@@ -137,6 +175,9 @@ export class LevelManager {
             // 创建怪物生成器
             this.createMonsterSpawners(levelData);
 
+            // 初始化关卡目标与时限
+            this.setupObjectives(levelData);
+
             // 发送关卡开始事件
             eventManager.emit(GameEvents.LEVEL_STARTED, levelData);
 
@@ -164,6 +205,9 @@ export class LevelManager {
         console.log(`LevelManager: Ending level ${levelId}`);
 
         try {
+            // 停止关卡目标判定
+            this.teardownObjectives();
+
             // 清理怪物生成器
             this.cleanupMonsterSpawners();
 
@@ -186,6 +230,409 @@ export class LevelManager {
         }
     }
 
+    /**
+     * 每帧更新（由 GameManager 驱动）：累计关卡时间并判定目标
+     * @param frameDeltaTime 帧间隔（秒），确定性模式下按固定步长推进
+     */
+    public update(frameDeltaTime: number): void {
+        if (!this._isLevelActive || this._isResultDecided || this._isSandbox) {
+            return;
+        }
+        const deltaTime = simulationManager.getDeltaTime(frameDeltaTime);
+
+        this._elapsedTime += deltaTime;
+
+        // 存活目标每帧推进
+        for (const objective of this._objectives) {
+            if (objective.data.type === ObjectiveType.Survive && objective.progress.status === ObjectiveStatus.InProgress) {
+                const seconds = Math.min(objective.progress.target, Math.floor(this._elapsedTime));
+                if (seconds !== objective.progress.current) {
+                    this.setObjectiveProgress(objective, seconds);
+                }
+            }
+        }
+
+        // 生成器和阵营类目标需要遍历场景，降低检测频率
+        this._objectiveCheckTimer -= deltaTime;
+        if (this._objectiveCheckTimer <= 0) {
+            this._objectiveCheckTimer = this.OBJECTIVE_CHECK_INTERVAL;
+            this.checkWorldObjectives();
+        }
+
+        this.evaluateLevelResult();
+    }
+
+    // ========== 关卡目标 ==========
+
+    /**
+     * 根据关卡数据创建目标运行时状态
+     */
+    private setupObjectives(levelData: LevelData): void {
+        this.teardownObjectives();
+
+        const objectives = levelData.objectives || [];
+        this._isSandbox = objectives.some(objective => objective.type === ObjectiveType.Test);
+        this._timeLimit = this._isSandbox ? 0 : (levelData.duration || 0);
+        this._elapsedTime = 0;
+        this._objectiveCheckTimer = 0;
+        this._isResultDecided = false;
+
+        if (this._isSandbox) {
+            console.log(`LevelManager: 关卡 ${levelData.id} 为测试场景，不判定胜负`);
+            return;
+        }
+
+        objectives.forEach((data, index) => {
+            const target = this.getObjectiveTarget(data, levelData);
+            if (target === null) {
+                return;
+            }
+
+            this._objectives.push({
+                data,
+                progress: {
+                    id: data.id || `objective_${index}`,
+                    type: data.type,
+                    description: describeObjective(data, levelData.duration),
+                    optional: !!data.optional,
+                    status: ObjectiveStatus.InProgress,
+                    current: 0,
+                    target
+                }
+            });
+        });
+
+        eventManager.on(GameEvents.CHARACTER_DIED, this.onCharacterDied);
+        eventManager.on(GameEvents.SPAWNER_DESTROYED, this.onSpawnerDestroyed);
+
+        for (const objective of this._objectives) {
+            eventManager.emit(GameEvents.LEVEL_OBJECTIVE_UPDATED, { ...objective.progress });
+        }
+
+        const timeInfo = this._timeLimit > 0 ? `，时限 ${this._timeLimit} 秒` : '';
+        console.log(`LevelManager: 关卡 ${levelData.id} 共 ${this._objectives.length} 个目标${timeInfo}`);
+    }
+
+    /**
+     * 校验目标配置并返回目标值，无效配置返回 null
+     */
+    private getObjectiveTarget(data: LevelObjectiveData, levelData: LevelData): number | null {
+        switch (data.type) {
+            case ObjectiveType.Kill:
+                return Math.max(1, data.count || 1);
+            case ObjectiveType.Survive: {
+                const duration = data.duration ?? levelData.duration;
+                if (!duration || duration <= 0) {
+                    console.warn(`LevelManager: 存活目标缺少有效时长，已忽略`);
+                    return null;
+                }
+                return duration;
+            }
+            case ObjectiveType.DestroySpawner:
+                if (!levelData.monsterSpawners || !levelData.monsterSpawners.some(spawner => spawner.id === data.spawnerId)) {
+                    console.warn(`LevelManager: 摧毁目标引用了不存在的生成器 ${data.spawnerId}，已忽略`);
+                    return null;
+                }
+                return 1;
+            case ObjectiveType.Protect:
+                if (!data.enemyType && !data.faction) {
+                    console.warn(`LevelManager: 保护目标需要指定 enemyType 或 faction，已忽略`);
+                    return null;
+                }
+                return 1;
+            case ObjectiveType.EliminateFaction:
+                return 1;
+            case ObjectiveType.Test:
+                // 测试场景在 setupObjectives 中已提前返回，不会走到这里
+                return null;
+            default: {
+                const unknown: never = data;
+                console.warn(`LevelManager: 未知的关卡目标类型 ${(unknown as LevelObjectiveData).type}，已忽略`);
+                return null;
+            }
+        }
+    }
+
+    private teardownObjectives(): void {
+        eventManager.off(GameEvents.CHARACTER_DIED, this.onCharacterDied);
+        eventManager.off(GameEvents.SPAWNER_DESTROYED, this.onSpawnerDestroyed);
+        this._objectives = [];
+        this._isSandbox = false;
+        this._timeLimit = 0;
+    }
+
+    private setObjectiveProgress(objective: ObjectiveRuntime, current: number): void {
+        const progress = objective.progress;
+        progress.current = Math.min(progress.target, current);
+        eventManager.emit(GameEvents.LEVEL_OBJECTIVE_UPDATED, { ...progress });
+
+        if (progress.current >= progress.target) {
+            this.setObjectiveStatus(objective, ObjectiveStatus.Completed);
+        }
+    }
+
+    private setObjectiveStatus(objective: ObjectiveRuntime, status: ObjectiveStatus): void {
+        const progress = objective.progress;
+        if (progress.status !== ObjectiveStatus.InProgress) {
+            return;
+        }
+
+        progress.status = status;
+        if (status === ObjectiveStatus.Completed) {
+            progress.current = progress.target;
+            console.log(`LevelManager: ✅ 目标完成 - ${progress.description}`);
+            eventManager.emit(GameEvents.LEVEL_OBJECTIVE_COMPLETED, { ...progress });
+        } else if (status === ObjectiveStatus.Failed) {
+            console.log(`LevelManager: ❌ 目标失败 - ${progress.description}`);
+            eventManager.emit(GameEvents.LEVEL_OBJECTIVE_FAILED, { ...progress });
+        }
+    }
+
+    /**
+     * 检测需要查询场景状态的目标（摧毁生成器、消灭阵营）
+     */
+    private checkWorldObjectives(): void {
+        for (const objective of this._objectives) {
+            if (objective.progress.status !== ObjectiveStatus.InProgress) {
+                continue;
+            }
+
+            const data = objective.data;
+            if (data.type === ObjectiveType.DestroySpawner) {
+                const spawner = this.getSpawner(data.spawnerId);
+                if (!spawner || spawner.isDestroyed || spawner.isCleared()) {
+                    this.setObjectiveStatus(objective, ObjectiveStatus.Completed);
+                }
+            } else if (data.type === ObjectiveType.EliminateFaction) {
+                if (this.isFactionEliminated(data.faction)) {
+                    this.setObjectiveStatus(objective, ObjectiveStatus.Completed);
+                }
+            }
+        }
+    }
+
+    /**
+     * 阵营是否已被消灭：没有存活单位，且没有生成器会继续生成该阵营单位
+     */
+    private isFactionEliminated(faction: string): boolean {
+        for (const spawnerNode of this._activeSpawners) {
+            const spawner = spawnerNode && spawnerNode.isValid ? spawnerNode.getComponent(MonsterSpawner) : null;
+            if (spawner && spawner.canSpawnMore(faction)) {
+                return false;
+            }
+        }
+
+        const selector = TargetSelectorFactory.getInstance();
+        if (!selector) {
+            return false;
+        }
+
+        const targets = selector.getTargetsByFaction(FactionUtils.stringToFaction(faction));
+        return !targets.some(node => {
+            const stats = node.getComponent(CharacterStats);
+            return stats && stats.isAlive;
+        });
+    }
+
+    /**
+     * 判定胜负：必需目标失败为失败，全部完成为胜利；超时时仅剩保护类目标未失败也视为胜利
+     */
+    private evaluateLevelResult(): void {
+        if (this._isResultDecided) {
+            return;
+        }
+
+        const required = this._objectives.filter(objective => !objective.progress.optional);
+
+        if (required.some(objective => objective.progress.status === ObjectiveStatus.Failed)) {
+            this.finishLevel(false, LevelResultReason.ObjectiveFailed);
+            return;
+        }
+
+        if (required.length > 0 && required.every(objective => objective.progress.status === ObjectiveStatus.Completed)) {
+            this.finishLevel(true, LevelResultReason.ObjectivesCompleted);
+            return;
+        }
+
+        if (this._timeLimit > 0 && this._elapsedTime >= this._timeLimit) {
+            const satisfied = required.every(objective =>
+                objective.progress.status === ObjectiveStatus.Completed ||
+                objective.data.type === ObjectiveType.Protect
+            );
+            if (satisfied) {
+                for (const objective of required) {
+                    this.setObjectiveStatus(objective, ObjectiveStatus.Completed);
+                }
+                this.finishLevel(true, LevelResultReason.ObjectivesCompleted);
+            } else {
+                this.finishLevel(false, LevelResultReason.TimeExpired);
+            }
+        }
+    }
+
+    /**
+     * 发送胜负结果并结束关卡
+     */
+    private finishLevel(victory: boolean, reason: LevelResultReason): void {
+        this._isResultDecided = true;
+
+        const result: LevelResult = {
+            levelId: this._currentLevelId,
+            victory,
+            reason,
+            elapsedTime: this._elapsedTime,
+            objectives: this.getObjectiveProgress()
+        };
+
+        console.log(`LevelManager: ${victory ? '🏆 关卡胜利' : '💀 关卡失败'} (${reason})，用时 ${this._elapsedTime.toFixed(1)} 秒`);
+        eventManager.emit(victory ? GameEvents.LEVEL_VICTORY : GameEvents.LEVEL_DEFEAT, result);
+
+        this.endLevel().catch(error => {
+            console.error('LevelManager: 关卡结算后结束关卡失败', error);
+        });
+    }
+
+    private onCharacterDied = (stats: CharacterStats, killer?: Node | null): void => {
+        if (this._isResultDecided) {
+            return;
+        }
+
+        const victimType = stats.enemyData ? stats.enemyData.id : null;
+        const victimFaction = this.getFactionString(stats.node);
+        const killerFaction = killer && killer.isValid ? this.getFactionString(killer) : null;
+
+        for (const objective of this._objectives) {
+            if (objective.progress.status !== ObjectiveStatus.InProgress) {
+                continue;
+            }
+
+            const data = objective.data;
+            if (data.type === ObjectiveType.Kill) {
+                const matches = (!data.enemyType || data.enemyType === victimType) &&
+                    (!data.faction || data.faction === victimFaction) &&
+                    (!data.killerFaction || data.killerFaction === killerFaction);
+                if (matches) {
+                    this.setObjectiveProgress(objective, objective.progress.current + 1);
+                }
+            } else if (data.type === ObjectiveType.Protect) {
+                const matches = (!data.enemyType || data.enemyType === victimType) &&
+                    (!data.faction || data.faction === victimFaction);
+                if (matches) {
+                    this.setObjectiveStatus(objective, ObjectiveStatus.Failed);
+                }
+            }
+        }
+
+        this.evaluateLevelResult();
+    }
+
+    private onSpawnerDestroyed = (spawnerNode: Node, spawnerId: string): void => {
+        for (const objective of this._objectives) {
+            if (objective.data.type === ObjectiveType.DestroySpawner && objective.data.spawnerId === spawnerId) {
+                this.setObjectiveStatus(objective, ObjectiveStatus.Completed);
+            }
+        }
+        this.evaluateLevelResult();
+    }
+
+    private getFactionString(node: Node): string | null {
+        const character = node.getComponent('BaseCharacterDemo') as any;
+        return character && character.getFaction ? FactionUtils.factionToString(character.getFaction()) : null;
+    }
+
+    /**
+     * 获取当前所有目标进度（副本）
+     */
+    public getObjectiveProgress(): ObjectiveProgress[] {
+        return this._objectives.map(objective => ({ ...objective.progress }));
+    }
+
+    /**
+     * 获取关卡已进行时间（秒）
+     */
+    public getElapsedTime(): number {
+        return this._elapsedTime;
+    }
+
+    /**
+     * 获取关卡剩余时间（秒），不限时返回 -1
+     */
+    public getRemainingTime(): number {
+        return this._timeLimit > 0 ? Math.max(0, this._timeLimit - this._elapsedTime) : -1;
+    }
+
+    /**
+     * 根据ID获取当前关卡的怪物生成器
+     */
+    public getSpawner(spawnerId: string): MonsterSpawner | null {
+        for (const spawnerNode of this._activeSpawners) {
+            if (!spawnerNode || !spawnerNode.isValid) {
+                continue;
+            }
+            const spawner = spawnerNode.getComponent(MonsterSpawner);
+            if (spawner && spawner.spawnerId === spawnerId) {
+                return spawner;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * 获取当前关卡的所有怪物生成器
+     */
+    public getActiveSpawners(): MonsterSpawner[] {
+        const spawners: MonsterSpawner[] = [];
+        for (const spawnerNode of this._activeSpawners) {
+            const spawner = spawnerNode && spawnerNode.isValid ? spawnerNode.getComponent(MonsterSpawner) : null;
+            if (spawner) {
+                spawners.push(spawner);
+            }
+        }
+        return spawners;
+    }
+
+    // ========== 存档 ==========
+
+    /**
+     * 获取关卡进度快照
+     */
+    public captureState(): LevelSaveState | null {
+        if (!this._isLevelActive) {
+            return null;
+        }
+
+        return {
+            levelId: this._currentLevelId,
+            elapsedTime: this._elapsedTime,
+            objectives: this.getObjectiveProgress()
+        };
+    }
+
+    /**
+     * 恢复关卡进度（需在 startLevel 之后调用，目标按 id 匹配）
+     */
+    public restoreState(state: LevelSaveState): void {
+        if (!this._isLevelActive || state.levelId !== this._currentLevelId) {
+            console.warn(`LevelManager: 存档关卡 ${state.levelId} 与当前关卡 ${this._currentLevelId} 不一致，无法恢复进度`);
+            return;
+        }
+
+        this._elapsedTime = state.elapsedTime;
+        this._objectiveCheckTimer = 0;
+
+        for (const saved of state.objectives) {
+            const objective = this._objectives.find(item => item.progress.id === saved.id);
+            if (!objective) {
+                continue;
+            }
+            objective.progress.current = Math.min(objective.progress.target, saved.current);
+            objective.progress.status = saved.status;
+            eventManager.emit(GameEvents.LEVEL_OBJECTIVE_UPDATED, { ...objective.progress });
+        }
+
+        console.log(`LevelManager: 已恢复关卡 ${state.levelId} 进度，已进行 ${state.elapsedTime.toFixed(1)} 秒`);
+    }
+
     /**
      * 创建怪物生成器
      * @param levelData 关卡数据
@@ -332,9 +779,10 @@ export class LevelManager {
         // 从 monsterSpawners 中提取敌人类型（新格式）
         if (levelData.monsterSpawners) {
             levelData.monsterSpawners.forEach(spawner => {
-                spawner.enemies.forEach(enemy => {
+                spawner.enemies?.forEach(enemy => {
                     enemyTypes.add(enemy.type);
                 });
+                getWaveEnemyTypes(spawner.waves).forEach(type => enemyTypes.add(type));
             });
         }
 
@@ -1,7 +1,7 @@
 // assets/scripts/core/MonsterSpawner.ts
 
-import { _decorator, Component, Node, director, Vec3, instantiate, Prefab } from 'cc';
-import { AIBehaviorType } from '../components/MonsterAI';
+import { _decorator, Component, Node, director, Vec2, Vec3, instantiate, Prefab, view, Camera, Canvas } from 'cc';
+import { AIBehaviorType, getAIBehaviorTypeFromEnemyData } from '../components/MonsterAI';
 import { Faction, FactionUtils } from '../configs/FactionConfig';
 import { dataManager } from './DataManager';
 import { poolManager } from './PoolManager';
@@ -10,6 +10,16 @@ import { GameEvents } from '../components/GameEvents';
 import { GameManager } from './GameManager';
 import { BaseCharacterDemo } from '../entities/BaseCharacterDemo';
 import { ControlMode } from '../state-machine/CharacterEnums';
+import { EnemyCategory } from '../configs/EnemyConfig';
+import { EliteAffixComponent } from '../components/EliteAffixComponent';
+import { CharacterStats } from '../components/CharacterStats';
+import { WaveConfig, WaveModeConfig, WaveTrigger, WAVE_DEFAULTS, getWaveScaling } from '../configs/WaveConfig';
+import { SpawnShape, SPAWN_SHAPE_DEFAULTS, sampleOffScreen, sampleShapeOffset } from '../configs/SpawnShapeConfig';
+import { PathfindingManager } from '../systems/PathfindingManager';
+import { BossSaveState, CharacterSaveState, SpawnerSaveState } from '../configs/BattleSaveConfig';
+import { EliteAffixType } from '../configs/EliteAffixConfig';
+import { gameRandom } from '../utils/SeededRandom';
+import { simulationManager } from './SimulationManager';
 
 const { ccclass, property } = _decorator;
 
@@ -20,9 +30,14 @@ interface SpawnerConfig {
     id: string;
     position: { x: number, y: number };
     spawnRadius: number;
-    spawnType: string;
+    spawnType: SpawnShape | string; // 生成形状，见 SpawnShapeConfig
     size?: { width: number, height: number };
+    innerRadius?: number; // ring：内半径
+    points?: { x: number, y: number }[]; // line / polygon：顶点（相对生成器）
+    offscreenMargin?: number; // offscreen：距屏幕边缘的距离
     randomOffset?: { x: number, y: number }; // 随机偏移范围
+    faction?: string; // 波次模式下敌人未指定阵营时使用
+    waves?: WaveModeConfig; // 波次模式：配置后按波次生成，忽略 enemies
     enemies: EnemySpawnConfig[];
 }
 
@@ -39,6 +54,26 @@ interface EnemySpawnConfig {
     faction?: string; // 支持每个敌人指定独立的阵营
 }
 
+/**
+ * 进行中的波次
+ */
+interface ActiveWave {
+    waveNumber: number;         // 波次序号（从1开始，循环时持续增长）
+    monsters: Node[];           // 本波已生成的怪物
+    pendingCount: number;       // 本波尚未生成的怪物数量
+}
+
+/**
+ * 波次待生成队列条目
+ */
+interface WaveSpawnEntry {
+    type: string;
+    faction: string;
+    healthMultiplier: number;
+    attackMultiplier: number;
+    wave: ActiveWave;
+}
+
 /**
  * 怪物生成器组件
  * 负责根据关卡配置生成和管理怪物
@@ -65,6 +100,36 @@ export class MonsterSpawner extends Component {
     private spawnUpdateTimer: number = 0;
     private readonly SPAWN_UPDATE_INTERVAL = 0.5; // 0.5秒更新一次
     
+    // Boss召唤的小怪在存活列表中的键前缀（与常规生成配置区分）
+    private readonly ADDS_KEY_PREFIX = 'adds:';
+    
+    // 生成点采样复用的临时向量
+    private _tempSpawnOffset: Vec2 = new Vec2();
+    private _tempViewCenter: Vec3 = new Vec3();
+    
+    // 尚未执行首次生成的敌人组（用于判断生成器是否已清空）
+    private pendingInitialGroups: Set<EnemySpawnConfig> = new Set();
+    
+    // 是否已被摧毁（摧毁后停止生成，已生成的怪物保留）
+    private _isDestroyed: boolean = false;
+    
+    // 初始化后的运行时间（用于存档恢复首次生成的剩余延迟）
+    private spawnerElapsed: number = 0;
+    
+    // ========== 波次模式状态 ==========
+    private waveMode: WaveModeConfig | null = null;
+    private waveIndex: number = -1;             // 当前波次在 waves 中的索引
+    private waveNumber: number = 0;             // 已开始的波次总数
+    private nextWaveIndex: number = -1;         // 等待开始的下一波索引，-1 表示没有
+    private nextWaveCountdown: number = 0;      // 距下一波开始的倒计时（秒）
+    private currentWaveElapsed: number = 0;     // 当前波次已进行时间（秒）
+    private currentWaveAdvanced: boolean = false; // 当前波次是否已触发下一波
+    private waveSpawnQueue: WaveSpawnEntry[] = [];
+    private waveSpawnTimer: number = 0;
+    private activeWaves: ActiveWave[] = [];
+    private wavesCompleted: boolean = false;
+    private readonly WAVE_KEY_PREFIX = 'wave:';
+    
     // 移除spawnerFaction，每个敌人按照自己的配置设置阵营
     
     protected onLoad(): void {
@@ -80,11 +145,24 @@ export class MonsterSpawner extends Component {
         this.unscheduleAllCallbacks();
     }
     
-    protected update(deltaTime: number): void {
+    protected update(frameDeltaTime: number): void {
+        const deltaTime = simulationManager.getDeltaTime(frameDeltaTime);
         if (!this.isInitialized || !this.spawnerConfig) {
             return;
         }
         
+        this.spawnerElapsed += deltaTime;
+        
+        // 波次模式需要精确的生成间隔和倒计时，每帧更新
+        if (this.waveMode) {
+            this.updateWaves(deltaTime);
+            return;
+        }
+        
+        if (this._isDestroyed) {
+            return;
+        }
+        
         // 【性能优化】降低生成计时器更新频率
         this.spawnUpdateTimer += deltaTime;
         if (this.spawnUpdateTimer >= this.SPAWN_UPDATE_INTERVAL) {
@@ -99,8 +177,17 @@ export class MonsterSpawner extends Component {
      */
     public initWithConfig(config: SpawnerConfig): void {
         this.spawnerConfig = config;
+        this.spawnerConfig.enemies = config.enemies || [];
         this.node.setPosition(config.position.x, config.position.y);
         
+        // 波次模式
+        if (config.waves && config.waves.waves && config.waves.waves.length > 0) {
+            this.isInitialized = true;
+            this.startWaveMode(config.waves);
+            console.log(`MonsterSpawner initialized (wave mode): ${config.id}，共 ${config.waves.waves.length} 波${config.waves.loop ? '（循环）' : ''}`);
+            return;
+        }
+        
         // 不再设置生成器默认阵营，每个敌人按照自己的配置设置阵营
         console.log(`MonsterSpawner: 初始化生成器 ${config.id}，将根据每个敌人的配置单独设置阵营`);
         
@@ -126,12 +213,24 @@ export class MonsterSpawner extends Component {
         
         this.spawnerConfig.enemies.forEach((enemyConfig: EnemySpawnConfig) => {
             // 初始生成
-            this.scheduleOnce(() => {
-                this.spawnEnemyGroup(enemyConfig);
-            }, enemyConfig.spawnDelay);
+            this.scheduleInitialGroup(enemyConfig, enemyConfig.spawnDelay);
         });
     }
     
+    /**
+     * 安排一组敌人的首次生成
+     */
+    private scheduleInitialGroup(enemyConfig: EnemySpawnConfig, delay: number): void {
+        this.pendingInitialGroups.add(enemyConfig);
+        this.scheduleOnce(() => {
+            // 热重载后已删除的生成组不再生成
+            if (!this.pendingInitialGroups.delete(enemyConfig)) {
+                return;
+            }
+            this.spawnEnemyGroup(enemyConfig);
+        }, delay);
+    }
+    
     /**
      * 更新生成计时器
      */
@@ -179,6 +278,8 @@ export class MonsterSpawner extends Component {
             const spawnPos = this.getSpawnPosition();
             const monster = this.createMonster(enemyConfig.type, spawnPos, enemyConfig);
             if (monster) {
+                this.applyEliteAffixes(monster, enemyConfig.type);
+                this.setupBossController(monster, enemyConfig.type);
                 this.registerMonster(enemyConfig.type, monster);
             }
         }
@@ -187,61 +288,185 @@ export class MonsterSpawner extends Component {
         console.log(`MonsterSpawner: Spawned ${needSpawn} ${enemyConfig.type} monsters${factionInfo}`);
     }
     
+    /**
+     * 【新增】为精英怪物随机并施加词缀
+     */
+    private applyEliteAffixes(monster: Node, enemyType: string): void {
+        const enemyData = dataManager.getEnemyData(enemyType);
+        if (!enemyData || enemyData.category !== EnemyCategory.Elite) {
+            return;
+        }
+
+        const affixComponent = monster.getComponent(EliteAffixComponent) || monster.addComponent(EliteAffixComponent);
+        affixComponent.rollAndApply();
+    }
+    
+    /**
+     * 【新增】为Boss挂载Boss控制器（阶段、技能循环、狂暴、召唤小怪）
+     * 使用字符串获取组件，避免与 BossController 循环引用
+     * @param savedState 读档时的Boss战斗状态，传入时直接恢复阶段，不重新召唤小怪
+     */
+    private setupBossController(monster: Node, enemyType: string, savedState: BossSaveState | null = null): void {
+        const enemyData = dataManager.getEnemyData(enemyType);
+        if (!enemyData || enemyData.category !== EnemyCategory.Boss || !enemyData.bossConfig) {
+            return;
+        }
+
+        const bossController = (monster.getComponent('BossController') || monster.addComponent('BossController')) as any;
+        if (bossController && bossController.initBoss) {
+            bossController.initBoss(enemyData, this, savedState);
+        }
+    }
+    
+    /**
+     * 在指定位置周围生成小怪（供Boss阶段召唤使用）
+     * 小怪单独记录，不占用常规生成配置的存活数量，但会随生成器一起清理
+     * @param enemyType 小怪类型
+     * @param count 数量
+     * @param center 生成中心（与怪物同一父节点坐标系）
+     * @param radius 生成半径
+     * @param faction 阵营
+     * @returns 成功生成的小怪节点
+     */
+    public spawnAdds(enemyType: string, count: number, center: Vec3, radius: number, faction: string): Node[] {
+        const spawned: Node[] = [];
+        const addConfig: EnemySpawnConfig = {
+            type: enemyType,
+            count: count,
+            spawnInterval: 0,
+            maxAlive: count,
+            spawnDelay: 0,
+            respawnOnDeath: false,
+            faction: faction
+        };
+        
+        for (let i = 0; i < count; i++) {
+            // 均匀分布在圆周上，带少量随机偏移
+            const angle = (Math.PI * 2 * i) / count + (gameRandom.next() - 0.5) * 0.5;
+            const position = this.findWalkableAround(center, angle, radius);
+            
+            const monster = this.createMonster(enemyType, position, addConfig);
+            if (monster) {
+                this.applyEliteAffixes(monster, enemyType);
+                this.registerMonster(`${this.ADDS_KEY_PREFIX}${enemyType}`, monster);
+                spawned.push(monster);
+            }
+        }
+        
+        console.log(`MonsterSpawner: 召唤小怪 ${enemyType} x${spawned.length} (阵营: ${faction})`);
+        return spawned;
+    }
+    
+    /**
+     * 在中心周围按角度取点，不可行走时换随机角度重试，全部失败则使用中心位置
+     */
+    private findWalkableAround(center: Vec3, angle: number, radius: number): Vec3 {
+        const pathfinding = PathfindingManager.getInstance();
+        const position = new Vec3();
+        
+        for (let attempt = 0; attempt < SPAWN_SHAPE_DEFAULTS.maxAttempts; attempt++) {
+            const tryAngle = attempt === 0 ? angle : gameRandom.next() * Math.PI * 2;
+            position.set(
+                center.x + Math.cos(tryAngle) * radius,
+                center.y + Math.sin(tryAngle) * radius,
+                center.z
+            );
+            if (!pathfinding || pathfinding.isWalkable(position)) {
+                return position;
+            }
+        }
+        
+        return position.set(center);
+    }
+    
     /**
      * 获取生成位置
+     * 按 spawnType 在形状内采样，落在寻路网格不可行走区域的点会被拒绝并重新采样
      */
     private getSpawnPosition(): Vec3 {
         if (!this.spawnerConfig) {
             return this.node.position;
         }
         
-        const config = this.spawnerConfig;
-        let x = 0;
-        let y = 0;
+        const pathfinding = PathfindingManager.getInstance();
         
-        switch (config.spawnType) {
-            case 'circle':
-                const angle = Math.random() * Math.PI * 2;
-                const radius = Math.random() * config.spawnRadius;
-                x = Math.cos(angle) * radius;
-                y = Math.sin(angle) * radius;
-                break;
-                
-            case 'rectangle':
-                if (config.size) {
-                    x = (Math.random() - 0.5) * config.size.width;
-                    y = (Math.random() - 0.5) * config.size.height;
-                } else {
-                    x = (Math.random() - 0.5) * config.spawnRadius * 2;
-                    y = (Math.random() - 0.5) * config.spawnRadius * 2;
-                }
-                break;
-                
-            case 'point':
-            default:
-                // 固定位置生成
-                x = 0;
-                y = 0;
-                break;
+        for (let attempt = 0; attempt < SPAWN_SHAPE_DEFAULTS.maxAttempts; attempt++) {
+            const position = this.sampleSpawnPosition();
+            if (!pathfinding || pathfinding.isWalkable(position)) {
+                return position;
+            }
+        }
+        
+        // 多次采样都落在障碍物内，退回生成器所在位置
+        console.warn(`MonsterSpawner: ${this.spawnerConfig.id} 在 ${SPAWN_SHAPE_DEFAULTS.maxAttempts} 次尝试内未找到可行走的生成点 (${this.spawnerConfig.spawnType})，使用生成器位置`);
+        return this.withDepth(this.node.position.x, this.node.position.y);
+    }
+    
+    /**
+     * 按生成形状采样一个候选生成位置（不做可行走检查）
+     */
+    private sampleSpawnPosition(): Vec3 {
+        const config = this.spawnerConfig!;
+        let x: number;
+        let y: number;
+        
+        if (config.spawnType === SpawnShape.OffScreen) {
+            // 可视区域以当前相机为中心，相机跟随移动时生成环随之移动
+            const center = this.getVisibleCenter(this._tempViewCenter);
+            const visibleSize = view.getVisibleSize();
+            const margin = config.offscreenMargin ?? SPAWN_SHAPE_DEFAULTS.offscreenMargin;
+            const point = sampleOffScreen(center.x, center.y, visibleSize.width, visibleSize.height, margin, this._tempSpawnOffset);
+            x = point.x;
+            y = point.y;
+        } else {
+            const offset = sampleShapeOffset(config, this._tempSpawnOffset);
+            x = this.node.position.x + offset.x;
+            y = this.node.position.y + offset.y;
         }
         
         // 应用随机偏移
         if (config.randomOffset) {
-            const randomOffsetX = (Math.random() - 0.5) * 2 * config.randomOffset.x;
-            const randomOffsetY = (Math.random() - 0.5) * 2 * config.randomOffset.y;
+            const randomOffsetX = (gameRandom.next() - 0.5) * 2 * config.randomOffset.x;
+            const randomOffsetY = (gameRandom.next() - 0.5) * 2 * config.randomOffset.y;
             x += randomOffsetX;
             y += randomOffsetY;
         }
         
-        // 根据Y轴位置计算Z轴深度：Y轴越高，Z轴越低（更靠前）
-        const finalY = this.node.position.y + y;
-        const zDepth = -finalY * 0.1; // Y轴每增加10像素，Z轴减少1
-        
-        return new Vec3(
-            this.node.position.x + x,
-            finalY,
-            zDepth
-        );
+        return this.withDepth(x, y);
+    }
+    
+    /**
+     * 获取可视区域中心在怪物父节点（Canvas）坐标系下的位置
+     * 使用渲染Canvas的相机世界坐标；找不到相机时退回Canvas原点
+     */
+    private getVisibleCenter(out: Vec3): Vec3 {
+        out.set(0, 0, 0);
+        const scene = director.getScene();
+        if (!scene) {
+            return out;
+        }
+
+        const canvas = scene.getComponentInChildren(Canvas);
+        const camera = canvas?.cameraComponent || scene.getComponentInChildren(Camera);
+        if (!camera) {
+            return out;
+        }
+
+        const cameraWorldPos = camera.node.worldPosition;
+        if (canvas) {
+            canvas.node.inverseTransformPoint(out, cameraWorldPos);
+        } else {
+            out.set(cameraWorldPos);
+        }
+        return out;
+    }
+
+    /**
+     * 根据Y轴位置计算Z轴深度：Y轴越高，Z轴越低（更靠前）
+     */
+    private withDepth(x: number, y: number): Vec3 {
+        const zDepth = -y * 0.1; // Y轴每增加10像素，Z轴减少1
+        return new Vec3(x, y, zDepth);
     }
     
     /**
@@ -512,6 +737,12 @@ export class MonsterSpawner extends Component {
      * 根据敌人类型确定AI行为类型
      */
     private determineAIBehaviorType(enemyType: string): string {
+        // 优先使用敌人配置中的 ai 字段
+        const enemyData = dataManager.getEnemyData(enemyType);
+        if (enemyData) {
+            return getAIBehaviorTypeFromEnemyData(enemyData);
+        }
+        
         // 巫妖系列为远程攻击
         if (enemyType.includes('lich')) {
             return AIBehaviorType.RANGED;
@@ -585,6 +816,531 @@ export class MonsterSpawner extends Component {
         });
     }
     
+    // ========== 热重载 ==========
+    
+    /**
+     * 热重载关卡数据：更新生成范围和生成配置，已生成的怪物、计时器和波次进度保留
+     * - 常规模式：按敌人类型匹配生成组并更新数量、间隔和上限；新增的生成组按 spawnDelay 开始生成，删除的生成组不再生成
+     * - 波次模式：替换波次配置，从下一波开始生效
+     * 常规模式与波次模式之间的切换需要重新开始关卡
+     * @param config 新的生成器配置
+     * @returns 是否已应用
+     */
+    public applyConfigUpdate(config: SpawnerConfig): boolean {
+        if (!this.spawnerConfig) {
+            return false;
+        }
+        
+        const hasWaves = !!(config.waves && config.waves.waves && config.waves.waves.length > 0);
+        if (hasWaves !== this.isWaveMode) {
+            console.warn(`MonsterSpawner: ${this.spawnerId} 不能在常规模式和波次模式之间热重载，需重新开始关卡`);
+            return false;
+        }
+        
+        const previousEnemies = this.spawnerConfig.enemies;
+        const enemies = (config.enemies || []).map(enemyConfig => {
+            const existing = previousEnemies.find(previous => previous.type === enemyConfig.type);
+            if (existing) {
+                return Object.assign(existing, enemyConfig);
+            }
+            
+            if (!this.aliveMonsters.has(enemyConfig.type)) {
+                this.aliveMonsters.set(enemyConfig.type, []);
+            }
+            this.spawnTimers.set(enemyConfig.type, enemyConfig.spawnDelay);
+            if (!hasWaves && !this._isDestroyed) {
+                this.scheduleInitialGroup(enemyConfig, enemyConfig.spawnDelay);
+            }
+            return enemyConfig;
+        });
+        
+        for (const previous of previousEnemies) {
+            if (enemies.indexOf(previous) === -1) {
+                this.pendingInitialGroups.delete(previous);
+            }
+        }
+        
+        this.spawnerConfig = { ...config, id: this.spawnerConfig.id, enemies };
+        this.node.setPosition(config.position.x, config.position.y);
+        
+        if (this.waveMode) {
+            const mode = config.waves!;
+            this.waveMode = mode;
+            if (this.waveIndex >= mode.waves.length) {
+                this.waveIndex = mode.waves.length - 1;
+            }
+            if (this.nextWaveIndex >= mode.waves.length) {
+                this.nextWaveIndex = mode.loop ? 0 : -1;
+            }
+        }
+        
+        console.log(`MonsterSpawner: 生成器 ${this.spawnerId} 已应用热重载配置`);
+        return true;
+    }
+    
+    // ========== 生成器状态（供关卡目标判定） ==========
+    
+    public get spawnerId(): string {
+        return this.spawnerConfig ? this.spawnerConfig.id : this.node.name;
+    }
+    
+    public get isDestroyed(): boolean {
+        return this._isDestroyed;
+    }
+    
+    /**
+     * 是否还会继续生成怪物
+     * @param faction 只考虑指定阵营的生成配置，缺省为全部
+     */
+    public canSpawnMore(faction?: string): boolean {
+        if (!this.spawnerConfig || this._isDestroyed) {
+            return false;
+        }
+        
+        if (this.waveMode) {
+            return this.canSpawnMoreWaves(faction);
+        }
+        
+        const enemies = faction
+            ? this.spawnerConfig.enemies.filter(enemyConfig => (enemyConfig.faction || 'red') === faction)
+            : this.spawnerConfig.enemies;
+        if (enemies.length === 0) {
+            return false;
+        }
+        
+        return enemies.some(enemyConfig => enemyConfig.respawnOnDeath || this.pendingInitialGroups.has(enemyConfig));
+    }
+    
+    /**
+     * 获取由本生成器生成且仍存活的怪物数量（包括Boss召唤的小怪）
+     * @param faction 只统计指定阵营，缺省为全部
+     */
+    public getAliveMonsterCount(faction?: string): number {
+        let count = 0;
+        this.aliveMonsters.forEach(monsters => {
+            for (const monster of monsters) {
+                if (!monster || !monster.isValid) {
+                    continue;
+                }
+                const stats = monster.getComponent(CharacterStats);
+                if (!stats || !stats.isAlive) {
+                    continue;
+                }
+                if (faction) {
+                    const character = monster.getComponent(BaseCharacterDemo);
+                    if (!character || FactionUtils.factionToString(character.getFaction()) !== faction) {
+                        continue;
+                    }
+                }
+                count++;
+            }
+        });
+        return count;
+    }
+    
+    /**
+     * 生成器是否已清空：被摧毁或不再生成，且生成的怪物全部死亡
+     */
+    public isCleared(): boolean {
+        return !this.canSpawnMore() && this.getAliveMonsterCount() === 0;
+    }
+    
+    /**
+     * 摧毁生成器：停止后续生成，已生成的怪物保留
+     */
+    public destroySpawner(): void {
+        if (this._isDestroyed) {
+            return;
+        }
+        
+        this._isDestroyed = true;
+        this.unscheduleAllCallbacks();
+        this.pendingInitialGroups.clear();
+        
+        // 波次模式：丢弃尚未生成的怪物和下一波
+        for (const entry of this.waveSpawnQueue) {
+            entry.wave.pendingCount--;
+        }
+        this.waveSpawnQueue = [];
+        this.nextWaveIndex = -1;
+        
+        console.log(`MonsterSpawner: 生成器 ${this.spawnerId} 已被摧毁`);
+        eventManager.emit(GameEvents.SPAWNER_DESTROYED, this.node, this.spawnerId);
+    }
+    
+    // ========== 波次模式 ==========
+    
+    public get isWaveMode(): boolean {
+        return this.waveMode !== null;
+    }
+    
+    /**
+     * 当前波次序号（从1开始），尚未开始时为0
+     */
+    public get currentWaveNumber(): number {
+        return this.waveNumber;
+    }
+    
+    private startWaveMode(mode: WaveModeConfig): void {
+        this.waveMode = mode;
+        this.waveIndex = -1;
+        this.waveNumber = 0;
+        this.waveSpawnQueue = [];
+        this.activeWaves = [];
+        this.wavesCompleted = false;
+        this.nextWaveIndex = 0;
+        this.nextWaveCountdown = mode.initialDelay ?? WAVE_DEFAULTS.initialDelay;
+    }
+    
+    private updateWaves(deltaTime: number): void {
+        const mode = this.waveMode!;
+        
+        // 1. 逐个生成本波怪物
+        if (this.waveSpawnQueue.length > 0) {
+            this.waveSpawnTimer -= deltaTime;
+            while (this.waveSpawnTimer <= 0 && this.waveSpawnQueue.length > 0) {
+                this.spawnWaveEntry(this.waveSpawnQueue.shift()!);
+                this.waveSpawnTimer += this.getCurrentWave()?.spawnInterval ?? mode.spawnInterval ?? WAVE_DEFAULTS.spawnInterval;
+            }
+        }
+        
+        // 2. 检查已清场的波次
+        for (let i = this.activeWaves.length - 1; i >= 0; i--) {
+            const wave = this.activeWaves[i];
+            if (wave.pendingCount > 0 || this.getWaveAliveCount(wave) > 0) {
+                continue;
+            }
+            
+            this.activeWaves.splice(i, 1);
+            console.log(`MonsterSpawner: [${this.spawnerId}] 第 ${wave.waveNumber} 波已清场`);
+            eventManager.emit(GameEvents.WAVE_CLEARED, this.node, wave.waveNumber);
+            
+            // 清场推进：当前波次清场后安排下一波
+            if (wave.waveNumber === this.waveNumber && !this.currentWaveAdvanced) {
+                this.scheduleNextWave();
+            }
+        }
+        
+        // 3. 计时推进
+        const currentWave = this.getCurrentWave();
+        if (currentWave && !this.currentWaveAdvanced && (currentWave.trigger ?? mode.trigger ?? WAVE_DEFAULTS.trigger) === WaveTrigger.Timer) {
+            this.currentWaveElapsed += deltaTime;
+            if (this.currentWaveElapsed >= (currentWave.duration ?? WAVE_DEFAULTS.timerDuration)) {
+                this.scheduleNextWave();
+            }
+        }
+        
+        // 4. 下一波倒计时
+        if (this.nextWaveIndex >= 0) {
+            this.nextWaveCountdown -= deltaTime;
+            if (this.nextWaveCountdown <= 0) {
+                const index = this.nextWaveIndex;
+                this.nextWaveIndex = -1;
+                this.startWave(index);
+            }
+        }
+        
+        // 5. 全部波次完成
+        if (!this.wavesCompleted && this.nextWaveIndex < 0 && this.currentWaveAdvanced &&
+            this.waveSpawnQueue.length === 0 && this.activeWaves.length === 0) {
+            this.wavesCompleted = true;
+            console.log(`MonsterSpawner: [${this.spawnerId}] 所有波次已完成`);
+            eventManager.emit(GameEvents.WAVES_COMPLETED, this.node, this.waveNumber);
+        }
+    }
+    
+    private getCurrentWave(): WaveConfig | null {
+        if (!this.waveMode || this.waveIndex < 0) {
+            return null;
+        }
+        return this.waveMode.waves[this.waveIndex] || null;
+    }
+    
+    /**
+     * 安排下一波：到达末尾时循环或结束
+     */
+    private scheduleNextWave(): void {
+        const mode = this.waveMode!;
+        this.currentWaveAdvanced = true;
+        
+        if (this._isDestroyed) {
+            return;
+        }
+        
+        let index = this.waveIndex + 1;
+        if (index >= mode.waves.length) {
+            if (!mode.loop) {
+                return;
+            }
+            index = 0;
+        }
+        
+        this.nextWaveIndex = index;
+        this.nextWaveCountdown = mode.waves[index].delay ?? mode.waveDelay ?? WAVE_DEFAULTS.waveDelay;
+    }
+    
+    private startWave(index: number): void {
+        const mode = this.waveMode!;
+        const wave = mode.waves[index];
+        
+        this.waveIndex = index;
+        this.waveNumber++;
+        this.currentWaveElapsed = 0;
+        this.currentWaveAdvanced = false;
+        
+        const scaling = getWaveScaling(mode, wave, this.waveNumber - 1);
+        const activeWave: ActiveWave = { waveNumber: this.waveNumber, monsters: [], pendingCount: 0 };
+        
+        for (const enemy of wave.enemies) {
+            const count = enemy.count + scaling.extraCount;
+            const faction = enemy.faction || this.spawnerConfig!.faction || 'red';
+            for (let i = 0; i < count; i++) {
+                this.waveSpawnQueue.push({
+                    type: enemy.type,
+                    faction,
+                    healthMultiplier: scaling.health,
+                    attackMultiplier: scaling.attack,
+                    wave: activeWave
+                });
+                activeWave.pendingCount++;
+            }
+        }
+        
+        this.activeWaves.push(activeWave);
+        this.waveSpawnTimer = 0;
+        
+        const waveName = wave.name || `第 ${this.waveNumber} 波`;
+        console.log(`MonsterSpawner: [${this.spawnerId}] 🌊 ${waveName} 开始，${activeWave.pendingCount} 个敌人（生命 x${scaling.health.toFixed(2)}，攻击 x${scaling.attack.toFixed(2)}）`);
+        eventManager.emit(GameEvents.WAVE_STARTED, this.node, this.waveNumber, waveName);
+    }
+    
+    private spawnWaveEntry(entry: WaveSpawnEntry): void {
+        entry.wave.pendingCount--;
+        
+        const spawnConfig: EnemySpawnConfig = {
+            type: entry.type,
+            count: 1,
+            spawnInterval: 0,
+            maxAlive: 1,
+            spawnDelay: 0,
+            respawnOnDeath: false,
+            faction: entry.faction
+        };
+        
+        const monster = this.createMonster(entry.type, this.getSpawnPosition(), spawnConfig);
+        if (!monster) {
+            return;
+        }
+        
+        // 难度倍率需要在精英词缀之前施加
+        const stats = monster.getComponent(CharacterStats);
+        if (stats) {
+            stats.setDifficultyScaling(entry.healthMultiplier, entry.attackMultiplier);
+        }
+        this.applyEliteAffixes(monster, entry.type);
+        this.setupBossController(monster, entry.type);
+        this.registerMonster(`${this.WAVE_KEY_PREFIX}${entry.type}`, monster);
+        entry.wave.monsters.push(monster);
+    }
+    
+    private getWaveAliveCount(wave: ActiveWave): number {
+        wave.monsters = wave.monsters.filter(monster => {
+            if (!monster || !monster.isValid) {
+                return false;
+            }
+            const stats = monster.getComponent(CharacterStats);
+            return !!stats && stats.isAlive;
+        });
+        return wave.monsters.length;
+    }
+    
+    /**
+     * 波次模式下是否还会生成（指定阵营的）怪物
+     */
+    private canSpawnMoreWaves(faction?: string): boolean {
+        const mode = this.waveMode!;
+        const matches = (enemyFaction: string) => !faction || enemyFaction === faction;
+        
+        if (this.waveSpawnQueue.some(entry => matches(entry.faction))) {
+            return true;
+        }
+        
+        // 非循环模式下最后一波已推进完毕
+        if (!mode.loop && this.currentWaveAdvanced && this.nextWaveIndex < 0) {
+            return false;
+        }
+        
+        // 尚未开始的波次：循环模式下为全部波次
+        const defaultFaction = this.spawnerConfig!.faction || 'red';
+        const remaining = mode.loop
+            ? mode.waves
+            : mode.waves.slice(this.nextWaveIndex >= 0 ? this.nextWaveIndex : this.waveIndex + 1);
+        return remaining.some(wave => wave.enemies.some(enemy => matches(enemy.faction || defaultFaction)));
+    }
+    
+    // ========== 存档 ==========
+    
+    /**
+     * 查询怪物是否由本生成器生成
+     * @returns 存活列表中的键和所属波次，不属于本生成器时返回 null
+     */
+    public findMonsterOwnership(monster: Node): { key: string, waveNumber?: number } | null {
+        for (const [key, monsters] of this.aliveMonsters) {
+            if (monsters.indexOf(monster) === -1) {
+                continue;
+            }
+            const wave = this.activeWaves.find(activeWave => activeWave.monsters.indexOf(monster) !== -1);
+            return { key, waveNumber: wave ? wave.waveNumber : undefined };
+        }
+        return null;
+    }
+    
+    /**
+     * 获取生成器计时与波次快照（存活怪物由调用方按 findMonsterOwnership 记录）
+     */
+    public captureState(): SpawnerSaveState {
+        const spawnTimers: Record<string, number> = {};
+        this.spawnTimers.forEach((timer, enemyType) => {
+            spawnTimers[enemyType] = timer;
+        });
+        
+        const enemies = this.spawnerConfig ? this.spawnerConfig.enemies : [];
+        const state: SpawnerSaveState = {
+            id: this.spawnerId,
+            elapsedTime: this.spawnerElapsed,
+            spawnUpdateTimer: this.spawnUpdateTimer,
+            spawnTimers,
+            pendingInitialGroups: enemies
+                .map((enemyConfig, index) => this.pendingInitialGroups.has(enemyConfig) ? index : -1)
+                .filter(index => index >= 0),
+            isDestroyed: this._isDestroyed
+        };
+        
+        if (this.waveMode) {
+            state.wave = {
+                waveIndex: this.waveIndex,
+                waveNumber: this.waveNumber,
+                nextWaveIndex: this.nextWaveIndex,
+                nextWaveCountdown: this.nextWaveCountdown,
+                currentWaveElapsed: this.currentWaveElapsed,
+                currentWaveAdvanced: this.currentWaveAdvanced,
+                waveSpawnTimer: this.waveSpawnTimer,
+                wavesCompleted: this.wavesCompleted,
+                activeWaves: this.activeWaves.map(wave => ({ waveNumber: wave.waveNumber, pendingCount: wave.pendingCount })),
+                spawnQueue: this.waveSpawnQueue.map(entry => ({
+                    type: entry.type,
+                    faction: entry.faction,
+                    healthMultiplier: entry.healthMultiplier,
+                    attackMultiplier: entry.attackMultiplier,
+                    waveNumber: entry.wave.waveNumber
+                }))
+            };
+        }
+        
+        return state;
+    }
+    
+    /**
+     * 恢复生成器计时与波次状态（需在 initWithConfig 之后、同一帧内调用，以取消初始生成）
+     */
+    public restoreState(state: SpawnerSaveState): void {
+        this.unscheduleAllCallbacks();
+        this.pendingInitialGroups.clear();
+        
+        this.spawnerElapsed = state.elapsedTime;
+        this.spawnUpdateTimer = state.spawnUpdateTimer;
+        this._isDestroyed = state.isDestroyed;
+        
+        this.spawnTimers.clear();
+        Object.keys(state.spawnTimers).forEach(enemyType => {
+            this.spawnTimers.set(enemyType, state.spawnTimers[enemyType]);
+        });
+        
+        // 首次生成尚未执行的敌人组按剩余延迟重新安排
+        if (!this._isDestroyed && this.spawnerConfig) {
+            for (const index of state.pendingInitialGroups) {
+                const enemyConfig = this.spawnerConfig.enemies[index];
+                if (enemyConfig) {
+                    this.scheduleInitialGroup(enemyConfig, Math.max(0, enemyConfig.spawnDelay - state.elapsedTime));
+                }
+            }
+        }
+        
+        if (this.waveMode && state.wave) {
+            const wave = state.wave;
+            this.waveIndex = wave.waveIndex;
+            this.waveNumber = wave.waveNumber;
+            this.nextWaveIndex = wave.nextWaveIndex;
+            this.nextWaveCountdown = wave.nextWaveCountdown;
+            this.currentWaveElapsed = wave.currentWaveElapsed;
+            this.currentWaveAdvanced = wave.currentWaveAdvanced;
+            this.waveSpawnTimer = wave.waveSpawnTimer;
+            this.wavesCompleted = wave.wavesCompleted;
+            this.activeWaves = wave.activeWaves.map(activeWave => ({
+                waveNumber: activeWave.waveNumber,
+                monsters: [],
+                pendingCount: activeWave.pendingCount
+            }));
+            this.waveSpawnQueue = wave.spawnQueue.map(entry => ({
+                type: entry.type,
+                faction: entry.faction,
+                healthMultiplier: entry.healthMultiplier,
+                attackMultiplier: entry.attackMultiplier,
+                wave: this.getOrCreateActiveWave(entry.waveNumber)
+            }));
+        }
+        
+        console.log(`MonsterSpawner: [${this.spawnerId}] 已恢复存档状态${this.waveMode ? `（第 ${this.waveNumber} 波）` : ''}`);
+    }
+    
+    /**
+     * 按存档重新生成一个由本生成器管理的怪物（难度倍率、词缀、Boss控制器与生成时一致）
+     * @returns 怪物节点，生成失败返回 null
+     */
+    public restoreMonster(state: CharacterSaveState): Node | null {
+        const spawnConfig: EnemySpawnConfig = {
+            type: state.enemyType,
+            count: 1,
+            spawnInterval: 0,
+            maxAlive: 1,
+            spawnDelay: 0,
+            respawnOnDeath: false,
+            faction: state.faction
+        };
+        
+        const position = new Vec3(state.position.x, state.position.y, -state.position.y * 0.1);
+        const monster = this.createMonster(state.enemyType, position, spawnConfig);
+        if (!monster) {
+            return null;
+        }
+        
+        const stats = monster.getComponent(CharacterStats);
+        if (stats) {
+            stats.setDifficultyScaling(state.healthScaling, state.attackScaling);
+        }
+        if (state.affixes.length > 0) {
+            const affixComponent = monster.getComponent(EliteAffixComponent) || monster.addComponent(EliteAffixComponent);
+            affixComponent.applyAffixes(state.affixes as EliteAffixType[]);
+        }
+        this.setupBossController(monster, state.enemyType, state.boss || null);
+        this.registerMonster(state.spawnKey || state.enemyType, monster);
+        
+        if (state.waveNumber !== undefined) {
+            this.getOrCreateActiveWave(state.waveNumber).monsters.push(monster);
+        }
+        
+        return monster;
+    }
+    
+    private getOrCreateActiveWave(waveNumber: number): ActiveWave {
+        let wave = this.activeWaves.find(activeWave => activeWave.waveNumber === waveNumber);
+        if (!wave) {
+            wave = { waveNumber, monsters: [], pendingCount: 0 };
+            this.activeWaves.push(wave);
+        }
+        return wave;
+    }
+    
     /**
      * 清理所有怪物
      */
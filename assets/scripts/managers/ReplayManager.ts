@@ -0,0 +1,347 @@
+// assets/scripts/managers/ReplayManager.ts
+
+import { _decorator, director, Director, sys, Vec2, Vec3 } from 'cc';
+import { eventManager } from './EventManager';
+import { inputManager } from './InputManager';
+import { levelManager } from './LevelManager';
+import { battleSaveManager } from './BattleSaveManager';
+import { simulationManager } from './SimulationManager';
+import { GameEvents } from '../components/GameEvents';
+import { downloadTextFile } from '../utils/FileExport';
+import {
+    REPLAY_CONTROL_KEYS,
+    REPLAY_STORAGE_KEY,
+    REPLAY_VERSION,
+    ReplayData,
+    ReplayInputEvent,
+    ReplayInputType
+} from '../configs/ReplayConfig';
+
+const { ccclass } = _decorator;
+
+/**
+ * 输入录制与回放管理器
+ * - 录制：以确定性模式重新开始关卡，按模拟帧记录 InputManager 发出的输入事件，连同关卡ID和随机种子生成 ReplayData
+ * - 回放：屏蔽真实输入，以相同种子重新开始关卡，在对应模拟帧通过 eventManager 重新发送输入事件
+ * 录制结束后自动保存到本地存储，浏览器环境下可导出为 JSON 文件附到问题报告中。
+ */
+@ccclass('ReplayManager')
+export class ReplayManager {
+    private static _instance: ReplayManager;
+
+    private _isRecording: boolean = false;
+    private _isPlaying: boolean = false;
+    private _isStarting: boolean = false;
+
+    private _recording: ReplayData | null = null;
+    private _playback: ReplayData | null = null;
+    private _playbackIndex: number = 0;
+
+    // 录制/回放开始时的模拟帧与模拟时间
+    private _startFrame: number = 0;
+    private _startTime: number = 0;
+
+    public static get instance(): ReplayManager {
+        if (!this._instance) {
+            this._instance = new ReplayManager();
+        }
+        return this._instance;
+    }
+
+    // ========== 访问器 ==========
+
+    public get isRecording(): boolean {
+        return this._isRecording;
+    }
+
+    public get isPlaying(): boolean {
+        return this._isPlaying;
+    }
+
+    /**
+     * 相对录制/回放开始的模拟帧
+     */
+    private get currentFrame(): number {
+        return simulationManager.frame - this._startFrame;
+    }
+
+    // ========== 录制 ==========
+
+    /**
+     * 以确定性模式重新开始关卡并开始录制输入
+     * @param levelId 关卡ID
+     * @param seed 随机种子
+     * @returns 是否开始录制
+     */
+    public async startRecording(levelId: number, seed: number): Promise<boolean> {
+        if (this._isRecording || this._isPlaying || this._isStarting) {
+            console.warn('ReplayManager: 正在录制或回放，忽略录制请求');
+            return false;
+        }
+
+        const started = await this.beginSession(levelId, seed, simulationManager.fixedTimeStep);
+        if (!started) {
+            return false;
+        }
+
+        this._recording = {
+            version: REPLAY_VERSION,
+            recordedAt: Date.now(),
+            levelId,
+            seed,
+            fixedTimeStep: simulationManager.fixedTimeStep,
+            frameCount: 0,
+            events: []
+        };
+        this._isRecording = true;
+
+        // 开始录制时仍按住的移动键作为第0帧输入
+        const input = inputManager.instance;
+        if (input && input.hasMovementInput()) {
+            const direction = input.getMoveDirection();
+            this.record(ReplayInputType.MoveDirection, { x: direction.x, y: direction.y });
+        }
+
+        eventManager.on(GameEvents.KEY_PRESSED, this.onKeyPressed);
+        eventManager.on(GameEvents.KEY_RELEASED, this.onKeyReleased);
+        eventManager.on(GameEvents.MOVE_DIRECTION_CHANGED, this.onMoveDirectionChanged);
+        eventManager.on(GameEvents.MOUSE_CLICKED, this.onMouseClicked);
+        eventManager.on(GameEvents.MOUSE_MOVED, this.onMouseMoved);
+
+        console.log(`ReplayManager: 🔴 开始录制（关卡 ${levelId}，seed=${seed}）`);
+        return true;
+    }
+
+    /**
+     * 停止录制，保存到本地存储并返回回放数据
+     */
+    public stopRecording(): ReplayData | null {
+        if (!this._isRecording || !this._recording) {
+            return null;
+        }
+
+        eventManager.off(GameEvents.KEY_PRESSED, this.onKeyPressed);
+        eventManager.off(GameEvents.KEY_RELEASED, this.onKeyReleased);
+        eventManager.off(GameEvents.MOVE_DIRECTION_CHANGED, this.onMoveDirectionChanged);
+        eventManager.off(GameEvents.MOUSE_CLICKED, this.onMouseClicked);
+        eventManager.off(GameEvents.MOUSE_MOVED, this.onMouseMoved);
+
+        const replay = this._recording;
+        replay.frameCount = this.currentFrame;
+        this._recording = null;
+        this._isRecording = false;
+
+        try {
+            sys.localStorage.setItem(REPLAY_STORAGE_KEY, this.exportReplay(replay));
+        } catch (error) {
+            console.error('ReplayManager: 写入本地存储失败', error);
+        }
+
+        console.log(`ReplayManager: ⏹️ 录制结束（${replay.frameCount} 帧，${replay.events.length} 条输入）`);
+        eventManager.emit(GameEvents.REPLAY_RECORDED, replay);
+        return replay;
+    }
+
+    private record(type: ReplayInputType, fields: Partial<ReplayInputEvent> = {}): void {
+        if (!this._recording) {
+            return;
+        }
+        this._recording.events.push({
+            frame: this.currentFrame,
+            time: simulationManager.time - this._startTime,
+            type,
+            ...fields
+        });
+    }
+
+    private onKeyPressed = (keyCode: number): void => {
+        if (REPLAY_CONTROL_KEYS.indexOf(keyCode) === -1) {
+            this.record(ReplayInputType.KeyPressed, { keyCode });
+        }
+    };
+
+    private onKeyReleased = (keyCode: number): void => {
+        if (REPLAY_CONTROL_KEYS.indexOf(keyCode) === -1) {
+            this.record(ReplayInputType.KeyReleased, { keyCode });
+        }
+    };
+
+    private onMoveDirectionChanged = (direction: Vec2): void => {
+        this.record(ReplayInputType.MoveDirection, { x: direction.x, y: direction.y });
+    };
+
+    private onMouseClicked = (position: Vec3): void => {
+        this.record(ReplayInputType.MouseClicked, { x: position.x, y: position.y });
+    };
+
+    private onMouseMoved = (position: Vec3): void => {
+        this.record(ReplayInputType.MouseMoved, { x: position.x, y: position.y });
+    };
+
+    // ========== 回放 ==========
+
+    /**
+     * 屏蔽真实输入，以回放数据中的关卡和种子重新开始并逐帧发送输入
+     * @returns 是否开始回放
+     */
+    public async play(replay: ReplayData): Promise<boolean> {
+        if (this._isRecording || this._isPlaying || this._isStarting) {
+            console.warn('ReplayManager: 正在录制或回放，忽略回放请求');
+            return false;
+        }
+        if (!replay || replay.version !== REPLAY_VERSION) {
+            console.warn(`ReplayManager: 回放版本 ${replay?.version} 与当前版本 ${REPLAY_VERSION} 不兼容`);
+            return false;
+        }
+
+        inputManager.instance?.setInputSuppressed(true, REPLAY_CONTROL_KEYS);
+
+        const started = await this.beginSession(replay.levelId, replay.seed, replay.fixedTimeStep);
+        if (!started) {
+            inputManager.instance?.setInputSuppressed(false);
+            return false;
+        }
+
+        this._playback = replay;
+        this._playbackIndex = 0;
+        this._isPlaying = true;
+        director.on(Director.EVENT_BEFORE_UPDATE, this.onPlaybackFrame);
+
+        console.log(`ReplayManager: ▶️ 开始回放（关卡 ${replay.levelId}，seed=${replay.seed}，${replay.frameCount} 帧）`);
+        eventManager.emit(GameEvents.REPLAY_STARTED, replay);
+        return true;
+    }
+
+    /**
+     * 中止回放并恢复真实输入
+     */
+    public stopPlayback(): void {
+        this.finishPlayback(false);
+    }
+
+    /**
+     * 在模拟时钟推进之后、组件 update 之前发送上一帧录制到的输入
+     */
+    private onPlaybackFrame = (): void => {
+        const replay = this._playback;
+        if (!replay) {
+            return;
+        }
+
+        const frame = this.currentFrame;
+        while (this._playbackIndex < replay.events.length && replay.events[this._playbackIndex].frame < frame) {
+            this.dispatch(replay.events[this._playbackIndex]);
+            this._playbackIndex++;
+        }
+
+        if (this._playbackIndex >= replay.events.length && frame >= replay.frameCount) {
+            this.finishPlayback(true);
+        }
+    };
+
+    private dispatch(event: ReplayInputEvent): void {
+        switch (event.type) {
+            case ReplayInputType.KeyPressed:
+                eventManager.emit(GameEvents.KEY_PRESSED, event.keyCode);
+                break;
+            case ReplayInputType.KeyReleased:
+                eventManager.emit(GameEvents.KEY_RELEASED, event.keyCode);
+                break;
+            case ReplayInputType.MoveDirection:
+                eventManager.emit(GameEvents.MOVE_DIRECTION_CHANGED, new Vec2(event.x ?? 0, event.y ?? 0));
+                break;
+            case ReplayInputType.MouseClicked:
+                eventManager.emit(GameEvents.MOUSE_CLICKED, new Vec3(event.x ?? 0, event.y ?? 0, 0));
+                break;
+            case ReplayInputType.MouseMoved:
+                eventManager.emit(GameEvents.MOUSE_MOVED, new Vec3(event.x ?? 0, event.y ?? 0, 0));
+                break;
+            default:
+                console.warn(`ReplayManager: 未知的输入类型 ${event.type}`);
+        }
+    }
+
+    private finishPlayback(completed: boolean): void {
+        if (!this._isPlaying || !this._playback) {
+            return;
+        }
+
+        director.off(Director.EVENT_BEFORE_UPDATE, this.onPlaybackFrame);
+        const replay = this._playback;
+        this._playback = null;
+        this._isPlaying = false;
+
+        // 回放结束时清除回放发送的移动方向
+        eventManager.emit(GameEvents.MOVE_DIRECTION_CHANGED, new Vec2(0, 0));
+        inputManager.instance?.setInputSuppressed(false);
+
+        console.log(`ReplayManager: ${completed ? '✅ 回放完成' : '⏹️ 回放已中止'}（${this._playbackIndex}/${replay.events.length} 条输入）`);
+        eventManager.emit(GameEvents.REPLAY_FINISHED, replay, completed);
+    }
+
+    // ========== 会话 ==========
+
+    /**
+     * 清场后以确定性模式重新开始关卡，录制与回放使用相同的起点
+     */
+    private async beginSession(levelId: number, seed: number, fixedTimeStep: number): Promise<boolean> {
+        this._isStarting = true;
+        try {
+            await battleSaveManager.resetBattlefield();
+            simulationManager.enableDeterministic(seed, fixedTimeStep);
+            await levelManager.startLevel(levelId);
+            this._startFrame = simulationManager.frame;
+            this._startTime = simulationManager.time;
+            return true;
+        } catch (error) {
+            console.error(`ReplayManager: 开始关卡 ${levelId} 失败`, error);
+            return false;
+        } finally {
+            this._isStarting = false;
+        }
+    }
+
+    // ========== 导入导出 ==========
+
+    /**
+     * 读取最近一次录制
+     */
+    public loadLastRecording(): ReplayData | null {
+        const raw = sys.localStorage.getItem(REPLAY_STORAGE_KEY);
+        if (!raw) {
+            console.warn('ReplayManager: 没有录制记录');
+            return null;
+        }
+        return this.importReplay(raw);
+    }
+
+    public exportReplay(replay: ReplayData): string {
+        return JSON.stringify(replay);
+    }
+
+    /**
+     * 解析回放文件，格式无效或版本不匹配时返回 null
+     */
+    public importReplay(json: string): ReplayData | null {
+        try {
+            const replay = JSON.parse(json) as ReplayData;
+            if (replay.version !== REPLAY_VERSION || !Array.isArray(replay.events)) {
+                console.warn(`ReplayManager: 回放版本 ${replay.version} 与当前版本 ${REPLAY_VERSION} 不兼容`);
+                return null;
+            }
+            return replay;
+        } catch (error) {
+            console.error('ReplayManager: 回放文件解析失败', error);
+            return null;
+        }
+    }
+
+    /**
+     * 浏览器环境下把回放数据下载为 JSON 文件
+     */
+    public downloadReplay(replay: ReplayData): boolean {
+        return downloadTextFile(`replay_level${replay.levelId}_${replay.recordedAt}.json`, this.exportReplay(replay), 'application/json');
+    }
+}
+
+export const replayManager = ReplayManager.instance;
@@ -0,0 +1,226 @@
+// assets/scripts/managers/SimulationManager.ts
+
+import { _decorator, director, Director, game, PhysicsSystem2D } from 'cc';
+import { gameRandom } from '../utils/SeededRandom';
+
+const { ccclass } = _decorator;
+
+/**
+ * 默认固定步长（秒）
+ */
+export const DEFAULT_FIXED_TIME_STEP = 1 / 60;
+
+/**
+ * 确定性模式下 now() 的起点（毫秒）
+ * 很多冷却计时把“上次时间”初始化为 0，起点足够大才能保证开局即可释放
+ */
+const SIMULATION_EPOCH_MS = 1000000;
+
+/**
+ * 开启确定性模式前的物理设置，关闭时还原
+ */
+interface PhysicsSettings {
+    fixedTimeStep: number;
+    maxSubSteps: number;
+    autoSimulation: boolean;
+}
+
+/**
+ * 模拟管理器
+ * 统一提供 AI、ORCA、战斗等游戏逻辑使用的时间：
+ * - 普通模式：帧间隔即模拟步长，now() 等同 Date.now()
+ * - 确定性模式：每帧固定推进 fixedTimeStep，now() 为模拟时间，随机种子固定，
+ *   2D 物理关闭自动模拟，由本管理器每帧手动推进一个固定步长
+ * 这样同一种子、同一关卡每次得到相同的战斗过程。
+ * 游戏逻辑中的 update(deltaTime) 应通过 getDeltaTime 取步长，时间戳通过 now() 获取。
+ */
+@ccclass('SimulationManager')
+export class SimulationManager {
+    private static _instance: SimulationManager;
+
+    private _deterministic: boolean = false;
+    private _fixedTimeStep: number = DEFAULT_FIXED_TIME_STEP;
+    private _frame: number = 0;
+    private _time: number = 0;
+    private _deltaTime: number = 0;
+    private _isInitialized: boolean = false;
+    private _savedPhysics: PhysicsSettings | null = null;
+
+    public static get instance(): SimulationManager {
+        if (!this._instance) {
+            this._instance = new SimulationManager();
+        }
+        return this._instance;
+    }
+
+    // ========== 访问器 ==========
+
+    public get isDeterministic(): boolean {
+        return this._deterministic;
+    }
+
+    public get fixedTimeStep(): number {
+        return this._fixedTimeStep;
+    }
+
+    public get seed(): number {
+        return gameRandom.seed;
+    }
+
+    /**
+     * 已推进的模拟帧数
+     */
+    public get frame(): number {
+        return this._frame;
+    }
+
+    /**
+     * 模拟时间（秒）
+     */
+    public get time(): number {
+        return this._time;
+    }
+
+    /**
+     * 当前帧的模拟步长（秒）
+     */
+    public get deltaTime(): number {
+        return this._deltaTime;
+    }
+
+    // ========== 生命周期 ==========
+
+    /**
+     * 注册帧回调：组件 update 之前推进模拟时钟，之后（确定性模式下）推进物理
+     */
+    public initialize(): void {
+        if (this._isInitialized) {
+            return;
+        }
+        director.on(Director.EVENT_BEFORE_UPDATE, this.onBeforeUpdate);
+        director.on(Director.EVENT_AFTER_UPDATE, this.onAfterUpdate);
+        this._isInitialized = true;
+        console.log('⏱️ SimulationManager: 初始化完成');
+    }
+
+    public destroy(): void {
+        director.off(Director.EVENT_BEFORE_UPDATE, this.onBeforeUpdate);
+        director.off(Director.EVENT_AFTER_UPDATE, this.onAfterUpdate);
+        this.disableDeterministic();
+        this._isInitialized = false;
+    }
+
+    // ========== 模式切换 ==========
+
+    /**
+     * 开启确定性模式
+     * @param seed 随机种子
+     * @param fixedTimeStep 固定步长（秒）
+     */
+    public enableDeterministic(seed: number, fixedTimeStep: number = DEFAULT_FIXED_TIME_STEP): void {
+        this._deterministic = true;
+        this._fixedTimeStep = fixedTimeStep > 0 ? fixedTimeStep : DEFAULT_FIXED_TIME_STEP;
+        this.reset(seed);
+
+        // 物理改为手动推进：每个模拟帧正好一步，与真实帧间隔无关
+        const physics = PhysicsSystem2D.instance;
+        if (physics) {
+            if (!this._savedPhysics) {
+                this._savedPhysics = {
+                    fixedTimeStep: physics.fixedTimeStep,
+                    maxSubSteps: physics.maxSubSteps,
+                    autoSimulation: physics.autoSimulation
+                };
+            }
+            physics.fixedTimeStep = this._fixedTimeStep;
+            physics.maxSubSteps = 1;
+            physics.autoSimulation = false;
+        }
+
+        console.log(`⏱️ SimulationManager: 确定性模式已开启 (seed=${gameRandom.seed}, step=${this._fixedTimeStep.toFixed(4)}s)`);
+    }
+
+    public disableDeterministic(): void {
+        if (!this._deterministic) {
+            return;
+        }
+        this._deterministic = false;
+        director.getScheduler().setTimeScale(1);
+
+        const physics = PhysicsSystem2D.instance;
+        if (physics && this._savedPhysics) {
+            physics.fixedTimeStep = this._savedPhysics.fixedTimeStep;
+            physics.maxSubSteps = this._savedPhysics.maxSubSteps;
+            physics.autoSimulation = this._savedPhysics.autoSimulation;
+        }
+        this._savedPhysics = null;
+        console.log('⏱️ SimulationManager: 确定性模式已关闭');
+    }
+
+    /**
+     * 重置模拟时钟和随机种子（开始新关卡或回放时调用）
+     */
+    public reset(seed: number = gameRandom.seed): void {
+        gameRandom.setSeed(seed);
+        this._frame = 0;
+        this._time = 0;
+        this._deltaTime = 0;
+    }
+
+    // ========== 时间 ==========
+
+    /**
+     * 游戏逻辑使用的帧步长：确定性模式下为固定步长，否则为传入的帧间隔
+     */
+    public getDeltaTime(frameDelta: number): number {
+        return this._deterministic ? this._fixedTimeStep : frameDelta;
+    }
+
+    /**
+     * 游戏逻辑使用的时间戳（毫秒），替代 Date.now()
+     */
+    public now(): number {
+        return this._deterministic ? SIMULATION_EPOCH_MS + this._time * 1000 : Date.now();
+    }
+
+    private onBeforeUpdate = (): void => {
+        const frameDelta = game.deltaTime;
+        this._deltaTime = this.getDeltaTime(frameDelta);
+        this._time += this._deltaTime;
+        this._frame++;
+
+        // scheduleOnce/schedule 的计时同样按模拟步长推进
+        if (this._deterministic && frameDelta > 0) {
+            director.getScheduler().setTimeScale(this._fixedTimeStep / frameDelta);
+        }
+    };
+
+    private onAfterUpdate = (): void => {
+        if (this._deterministic) {
+            this.stepPhysics();
+        }
+    };
+
+    /**
+     * 手动推进一个物理固定步长，流程与 PhysicsSystem2D 自动模拟一致
+     */
+    private stepPhysics(): void {
+        const physics = PhysicsSystem2D.instance;
+        if (!physics || !physics.enable) {
+            return;
+        }
+        const world = physics.physicsWorld;
+
+        director.emit(Director.EVENT_BEFORE_PHYSICS);
+        world.syncSceneToPhysics();
+        world.step(this._fixedTimeStep, physics.velocityIterations, physics.positionIterations);
+        world.emitContactEvents();
+        world.syncPhysicsToScene();
+        if (physics.debugDrawFlags) {
+            world.drawDebug();
+        }
+        director.emit(Director.EVENT_AFTER_PHYSICS);
+    }
+}
+
+export const simulationManager = SimulationManager.instance;
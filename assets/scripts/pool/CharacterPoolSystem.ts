@@ -1,6 +1,7 @@
 import { Vec3 } from 'cc';
 import { poolManager } from '../managers/PoolManager';
 import { ControlMode } from '../state-machine/CharacterEnums';
+import { getWaveEnemyTypes } from '../configs/WaveConfig';
 
 // 前向声明，避免循环依赖
 export interface IBaseCharacter {
@@ -234,6 +235,21 @@ export class CharacterPoolFactory {
         return this.activeCharacters.size;
     }
     
+    /**
+     * 获取所有活跃角色（节点已被销毁的角色会从活跃集合中移除）
+     */
+    public getActiveCharacters(): IBaseCharacter[] {
+        const result: IBaseCharacter[] = [];
+        for (const character of Array.from(this.activeCharacters)) {
+            if (!character.node || !character.node.isValid) {
+                this.activeCharacters.delete(character);
+                continue;
+            }
+            result.push(character);
+        }
+        return result;
+    }
+
     /**
      * 获取指定类型的活跃角色
      */
@@ -271,6 +287,11 @@ export class CharacterPoolInitializer {
                         enemyTypes.push(enemy.type);
                     }
                 });
+                getWaveEnemyTypes(spawner.waves).forEach(type => {
+                    if (enemyTypes.indexOf(type) === -1) {
+                        enemyTypes.push(type);
+                    }
+                });
             });
         } else if (levelData.enemies) {
             // 旧格式的关卡数据
@@ -358,7 +379,8 @@ export class CharacterPoolInitializer {
             'goblin_normal', 'goblin_elite', 'goblin_boss',
             'slime_normal', 'slime_fire', 'slime_ice', 'slime_bomb',
             'slime_ghost', 'slime_lightning', 'slime_crystal', 'slime_devil', 'slime_lava',
-            'golem_normal', 'golem_elite', 'golem_boss'
+            'golem_normal', 'golem_elite', 'golem_boss',
+            'slime_timid', 'slime_kamikaze', 'slime_crystal_healer'
         ];
         
         console.log('[PoolInitializer] 测试模式：初始化所有角色对象池');
@@ -13,6 +13,9 @@ export enum CharacterState {
     IDLE = 'idle',
     WALKING = 'walking', 
     ATTACKING = 'attacking',
+    CASTING = 'casting',
     HURT = 'hurt',
+    STAGGERED = 'staggered', // 霸体被击破，被击退且无法行动
+    STUNNED = 'stunned',    // 冰冻、眩晕等控制效果中，无法移动、攻击和施法
     DEAD = 'dead'
 } 
\ No newline at end of file
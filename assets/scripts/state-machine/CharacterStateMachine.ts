@@ -8,6 +8,12 @@ export interface ICharacterController {
     playHurtAnimationWithCallback(callback: (() => void) | null): void;
     playDeathAnimation(): void;
     wantsToAttack: boolean;
+    wantsToCastSkill: boolean;
+    startSkillCast(onFinished: () => void): boolean;
+    interruptSkillCast(): void;
+    isSkillCastInterruptible(): boolean;
+    isActionLocked(): boolean;
+    updateStagger(deltaTime: number): boolean; // 推进硬直计时与击退减速，返回是否仍处于硬直
     hasMovementInput(): boolean;
     transitionToState(state: CharacterState): void;
     handleMovement(deltaTime: number): void;
@@ -46,6 +52,11 @@ export class IdleState extends State {
     
     update(deltaTime: number): void {
         // 检查是否需要转换状态
+        if (this.character.wantsToCastSkill) {
+            this.character.transitionToState(CharacterState.CASTING);
+            return;
+        }
+        
         if (this.character.wantsToAttack) {
             this.character.transitionToState(CharacterState.ATTACKING);
             return; // 转换后立即返回，避免执行旧状态逻辑
@@ -65,7 +76,8 @@ export class IdleState extends State {
     
     canTransitionTo(newState: CharacterState): boolean {
         return newState === CharacterState.WALKING || newState === CharacterState.ATTACKING || 
-               newState === CharacterState.HURT || newState === CharacterState.DEAD;
+               newState === CharacterState.CASTING || newState === CharacterState.HURT || newState === CharacterState.STAGGERED ||
+               newState === CharacterState.STUNNED || newState === CharacterState.DEAD;
     }
 }
 
@@ -84,6 +96,11 @@ export class WalkingState extends State {
     
     update(deltaTime: number): void {
         // 检查是否需要转换状态
+        if (this.character.wantsToCastSkill) {
+            this.character.transitionToState(CharacterState.CASTING);
+            return;
+        }
+        
         if (this.character.wantsToAttack) {
             this.character.transitionToState(CharacterState.ATTACKING);
             return;
@@ -113,7 +130,8 @@ export class WalkingState extends State {
     
     canTransitionTo(newState: CharacterState): boolean {
         return newState === CharacterState.IDLE || newState === CharacterState.ATTACKING || 
-               newState === CharacterState.HURT || newState === CharacterState.DEAD;
+               newState === CharacterState.CASTING || newState === CharacterState.HURT || newState === CharacterState.STAGGERED ||
+               newState === CharacterState.STUNNED || newState === CharacterState.DEAD;
     }
 }
 
@@ -163,8 +181,8 @@ export class AttackingState extends State {
     }
     
     canTransitionTo(newState: CharacterState): boolean {
-        // 攻击中只允许被死亡打断，或者动画完成后转换到IDLE/WALKING
-        return newState === CharacterState.DEAD || 
+        // 攻击中只允许被死亡和控制效果打断，或者动画完成后转换到IDLE/WALKING
+        return newState === CharacterState.DEAD || newState === CharacterState.STUNNED ||
                ( (newState === CharacterState.IDLE || newState === CharacterState.WALKING) && this.animationFinished );
     }
 
@@ -186,6 +204,58 @@ export class AttackingState extends State {
     }
 }
 
+/**
+ * 施法状态
+ * 施法、引导、后摇的阶段推进由 SkillCaster 负责，本状态只负责锁定移动和处理打断
+ */
+export class CastingState extends State {
+    private castFinished: boolean = false;
+    
+    enter(): void {
+        this.castFinished = false;
+        this.character.stopMovement();
+        
+        const started = this.character.startSkillCast(() => {
+            this.castFinished = true;
+        });
+        
+        // 没有可施放的技能时直接结束
+        if (!started) {
+            this.castFinished = true;
+        }
+    }
+    
+    update(deltaTime: number): void {
+        this.character.stopMovement();
+        
+        if (this.castFinished) {
+            if (this.character.hasMovementInput()) {
+                this.character.transitionToState(CharacterState.WALKING);
+            } else {
+                this.character.transitionToState(CharacterState.IDLE);
+            }
+        }
+    }
+    
+    exit(): void {
+        // 未完成就离开施法状态（受伤/死亡），打断当前技能
+        if (!this.castFinished) {
+            this.character.interruptSkillCast();
+        }
+        this.castFinished = false;
+    }
+    
+    canTransitionTo(newState: CharacterState): boolean {
+        if (newState === CharacterState.DEAD) {
+            return true;
+        }
+        if (newState === CharacterState.HURT || newState === CharacterState.STAGGERED || newState === CharacterState.STUNNED) {
+            return this.castFinished || this.character.isSkillCastInterruptible();
+        }
+        return (newState === CharacterState.IDLE || newState === CharacterState.WALKING) && this.castFinished;
+    }
+}
+
 /**
  * 受伤状态
  */
@@ -213,9 +283,9 @@ export class HurtState extends State {
     }
     
     canTransitionTo(newState: CharacterState): boolean {
-        // 受伤状态可以被攻击和死亡状态立即打断，或者动画完成后可以转换
-        return newState === CharacterState.ATTACKING || newState === CharacterState.DEAD || 
-               this.animationFinished;
+        // 受伤状态可以被攻击、硬直、控制效果和死亡状态立即打断，或者动画完成后可以转换
+        return newState === CharacterState.ATTACKING || newState === CharacterState.STAGGERED || newState === CharacterState.STUNNED ||
+               newState === CharacterState.DEAD || this.animationFinished;
     }
     
     /**
@@ -237,6 +307,79 @@ export class HurtState extends State {
     }
 }
 
+/**
+ * 硬直状态（霸体被击破）
+ * 击退冲量由角色在进入状态时施加，硬直期间 ORCA 不覆盖刚体速度，击退速度逐渐衰减；
+ * 硬直时间结束后回到待机或行走。硬直中再次被击破只刷新计时，不会重新进入状态
+ */
+export class StaggeredState extends State {
+    private staggerFinished: boolean = false;
+    
+    enter(): void {
+        this.staggerFinished = false;
+        this.character.playHurtAnimationWithCallback(null);
+    }
+    
+    update(deltaTime: number): void {
+        if (this.character.updateStagger(deltaTime)) {
+            return;
+        }
+        
+        this.staggerFinished = true;
+        if (this.character.hasMovementInput()) {
+            this.character.transitionToState(CharacterState.WALKING);
+        } else {
+            this.character.transitionToState(CharacterState.IDLE);
+        }
+    }
+    
+    exit(): void {
+        this.staggerFinished = false;
+    }
+    
+    canTransitionTo(newState: CharacterState): boolean {
+        if (newState === CharacterState.DEAD || newState === CharacterState.STUNNED) {
+            return true;
+        }
+        return (newState === CharacterState.IDLE || newState === CharacterState.WALKING) && this.staggerFinished;
+    }
+}
+
+/**
+ * 控制状态（冰冻、眩晕）
+ * 持续锁定移动，忽略攻击和施法意图，控制效果结束后回到待机或行走
+ */
+export class StunnedState extends State {
+    enter(): void {
+        this.character.stopMovement();
+        this.character.playCurrentAnimation(AnimationState.IDLE);
+    }
+    
+    update(deltaTime: number): void {
+        this.character.stopMovement();
+        
+        if (this.character.isActionLocked()) {
+            return;
+        }
+        
+        if (this.character.hasMovementInput()) {
+            this.character.transitionToState(CharacterState.WALKING);
+        } else {
+            this.character.transitionToState(CharacterState.IDLE);
+        }
+    }
+    
+    exit(): void {
+    }
+    
+    canTransitionTo(newState: CharacterState): boolean {
+        if (newState === CharacterState.DEAD) {
+            return true;
+        }
+        return (newState === CharacterState.IDLE || newState === CharacterState.WALKING) && !this.character.isActionLocked();
+    }
+}
+
 /**
  * 死亡状态
  */
@@ -297,7 +440,10 @@ export class StateMachine {
         this.states.set(CharacterState.IDLE, new IdleState(this.character));
         this.states.set(CharacterState.WALKING, new WalkingState(this.character));
         this.states.set(CharacterState.ATTACKING, new AttackingState(this.character));
+        this.states.set(CharacterState.CASTING, new CastingState(this.character));
         this.states.set(CharacterState.HURT, new HurtState(this.character));
+        this.states.set(CharacterState.STAGGERED, new StaggeredState(this.character));
+        this.states.set(CharacterState.STUNNED, new StunnedState(this.character));
         this.states.set(CharacterState.DEAD, new DeadState(this.character));
     }
     
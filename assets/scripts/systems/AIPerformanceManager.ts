@@ -1,5 +1,7 @@
 import { _decorator, Component, Node, Vec3, find } from 'cc';
 import { AINavigationController, NavigationState } from '../controllers/AINavigationController';
+import { gameRandom } from '../utils/SeededRandom';
+import { simulationManager } from '../managers/SimulationManager';
 
 const { ccclass, property } = _decorator;
 
@@ -200,7 +202,8 @@ export class AIPerformanceManager extends Component {
         this.processAIUpdates(frameStartTime);
         
         // 动态性能调整
-        if (this.enableDynamicAdjustment) {
+        // 确定性模式下不根据真实帧时间调整，保证每帧处理的AI数量一致
+        if (this.enableDynamicAdjustment && !simulationManager.isDeterministic) {
             this.adjustPerformanceSettings();
         }
     }
@@ -209,7 +212,7 @@ export class AIPerformanceManager extends Component {
      * 构建AI更新队列
      */
     private buildUpdateQueue(): void {
-        const currentTime = Date.now() / 1000;
+        const currentTime = simulationManager.now() / 1000;
         this.updateQueue = [];
         
         for (const agent of this.aiAgents) {
@@ -244,7 +247,7 @@ export class AIPerformanceManager extends Component {
         
         while (this.updateQueue.length > 0 && 
                processedCount < this.maxAIPerFrame &&
-               Date.now() - frameStartTime < maxProcessTime) {
+               (simulationManager.isDeterministic || Date.now() - frameStartTime < maxProcessTime)) {
             
             const agent = this.updateQueue.shift()!;
             
@@ -264,7 +267,7 @@ export class AIPerformanceManager extends Component {
      * 更新单个AI代理
      */
     private updateAIAgent(agent: AIAgentInfo): void {
-        const currentTime = Date.now() / 1000;
+        const currentTime = simulationManager.now() / 1000;
         agent.lastUpdateTime = currentTime;
         
         // 根据LOD等级调整AI行为
@@ -299,7 +302,7 @@ export class AIPerformanceManager extends Component {
         const currentState = navController.getCurrentState();
         
         // 如果没有目标且不在搜索状态，降低搜索频率
-        if (currentState === NavigationState.IDLE && Math.random() > 0.5) {
+        if (currentState === NavigationState.IDLE && gameRandom.next() > 0.5) {
             // 50%概率跳过目标搜索
             return;
         }
@@ -315,7 +318,7 @@ export class AIPerformanceManager extends Component {
         
         if (!currentTarget) {
             // 没有目标时大幅降低搜索频率
-            if (Math.random() > 0.2) {
+            if (gameRandom.next() > 0.2) {
                 return; // 80%概率跳过
             }
         }
@@ -329,7 +332,7 @@ export class AIPerformanceManager extends Component {
         const navController = agent.navigationController;
         
         // 清除当前目标，让AI停止移动
-        if (Math.random() > 0.1) {
+        if (gameRandom.next() > 0.1) {
             return; // 90%概率跳过所有AI逻辑
         }
     }
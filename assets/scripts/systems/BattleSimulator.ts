@@ -0,0 +1,466 @@
+// assets/scripts/systems/BattleSimulator.ts
+
+import { Node, Vec3 } from 'cc';
+import { CharacterStats } from '../components/CharacterStats';
+import { TargetSelector } from '../components/TargetSelector';
+import { EnemyData } from '../configs/EnemyConfig';
+import { Faction } from '../configs/FactionConfig';
+import {
+    BATTLE_SIM_DEFAULTS,
+    BattleSimConfig,
+    BattleSimReport,
+    EnemySimStats,
+    MatchupSimResult,
+    SimOutcome,
+    SimTeamConfig,
+    describeSimTeam
+} from '../configs/BattleSimConfig';
+import { dataManager } from '../managers/DataManager';
+import { eventManager } from '../managers/EventManager';
+import { factionManager } from '../managers/FactionManager';
+import { SeededRandom } from '../utils/SeededRandom';
+
+/**
+ * 模拟中的单位
+ */
+interface SimUnit {
+    data: EnemyData;
+    team: number;                       // 0 = A 队，1 = B 队
+    faction: Faction;
+    node: Node;
+    stats: CharacterStats;
+    target: SimUnit | null;
+    attackCooldown: number;
+    stunTimer: number;
+    firstDamagedAt: number;             // 首次受伤时间，-1 表示未受伤
+    deathTime: number;                  // 死亡时间，-1 表示存活
+}
+
+/**
+ * 按敌人类型累计的原始数据
+ */
+interface EnemyAccumulator {
+    name: string;
+    appearances: number;
+    wins: number;
+    losses: number;
+    draws: number;
+    kills: number;
+    deaths: number;
+    damageDealt: number;
+    timeToKillTotal: number;
+    aliveTime: number;
+}
+
+/**
+ * 无头战斗模拟器
+ * 不创建场景、渲染和物理，只用脱离场景的节点挂载 CharacterStats 和 TargetSelector，
+ * 按固定步长模拟“索敌 → 接近 → 按攻击间隔造成 baseAttack 伤害 → 霸体破坏硬直”的近似战斗，
+ * 大量重复 N vs M 对战，统计各 EnemyData 的胜率、击杀用时和伤害。
+ *
+ * 近似：不模拟技能、精英词缀、投射物飞行时间、ORCA 避让和动画伤害帧。
+ * 模拟期间暂停 eventManager 派发，避免触发掉落、经验和关卡目标。
+ */
+export class BattleSimulator {
+    private random: SeededRandom = new SeededRandom(BATTLE_SIM_DEFAULTS.seed);
+    private selector: TargetSelector | null = null;
+    private selectorNode: Node | null = null;
+
+    private matchups: MatchupSimResult[] = [];
+    private enemyStats: Map<string, EnemyAccumulator> = new Map();
+    private seed: number = BATTLE_SIM_DEFAULTS.seed;
+
+    // 当前对战参数
+    private timeStep: number = BATTLE_SIM_DEFAULTS.timeStep;
+    private maxDuration: number = BATTLE_SIM_DEFAULTS.maxDuration;
+    private teamDistance: number = BATTLE_SIM_DEFAULTS.teamDistance;
+
+    private readonly _tempPos = new Vec3();
+
+    /**
+     * 运行一组对战并返回只包含该组结果的报告
+     */
+    public run(config: BattleSimConfig): BattleSimReport | null {
+        this.reset(config.seed ?? BATTLE_SIM_DEFAULTS.seed);
+        const result = this.runMatchup(config);
+        return result ? this.buildReport() : null;
+    }
+
+    /**
+     * 循环赛：enemyIds 两两以 count vs count 对战（各自在 A、B 两侧各打一次，抵消站位差异）
+     * @param enemyIds 参赛敌人，缺省为全部敌人
+     */
+    public runRoundRobin(enemyIds: string[], iterations: number, count: number = 1, seed: number = BATTLE_SIM_DEFAULTS.seed): BattleSimReport {
+        this.reset(seed);
+
+        const ids = enemyIds.length > 0 ? enemyIds : dataManager.getAllEnemyIds();
+        for (let i = 0; i < ids.length; i++) {
+            for (let j = 0; j < ids.length; j++) {
+                if (i === j) {
+                    continue;
+                }
+                this.runMatchup({
+                    teamA: { faction: Faction.RED, units: [{ enemyId: ids[i], count }] },
+                    teamB: { faction: Faction.BLUE, units: [{ enemyId: ids[j], count }] },
+                    iterations,
+                    seed
+                });
+            }
+        }
+
+        return this.buildReport();
+    }
+
+    // ========== 对战 ==========
+
+    private reset(seed: number): void {
+        this.seed = seed;
+        this.random.setSeed(seed);
+        this.matchups = [];
+        this.enemyStats.clear();
+    }
+
+    private runMatchup(config: BattleSimConfig): MatchupSimResult | null {
+        if (!dataManager.isDataLoaded()) {
+            console.error('BattleSimulator: 数据尚未加载，请先调用 dataManager.loadAllData()');
+            return null;
+        }
+        if (!factionManager.areEnemies(config.teamA.faction, config.teamB.faction)) {
+            console.error(`BattleSimulator: 阵营 ${config.teamA.faction} 与 ${config.teamB.faction} 不敌对，无法对战`);
+            return null;
+        }
+        if (!this.validateTeam(config.teamA) || !this.validateTeam(config.teamB)) {
+            return null;
+        }
+
+        this.timeStep = config.timeStep ?? BATTLE_SIM_DEFAULTS.timeStep;
+        this.maxDuration = config.maxDuration ?? BATTLE_SIM_DEFAULTS.maxDuration;
+        this.teamDistance = config.teamDistance ?? BATTLE_SIM_DEFAULTS.teamDistance;
+
+        const result: MatchupSimResult = {
+            teamA: describeSimTeam(config.teamA),
+            teamB: describeSimTeam(config.teamB),
+            iterations: config.iterations,
+            winsA: 0,
+            winsB: 0,
+            draws: 0,
+            winRateA: 0,
+            winRateB: 0,
+            avgDuration: 0
+        };
+
+        let totalDuration = 0;
+        eventManager.suspend();
+        this.createSelector();
+        try {
+            for (let i = 0; i < config.iterations; i++) {
+                const { outcome, duration } = this.runFight(config.teamA, config.teamB);
+                totalDuration += duration;
+                if (outcome === SimOutcome.TeamA) {
+                    result.winsA++;
+                } else if (outcome === SimOutcome.TeamB) {
+                    result.winsB++;
+                } else {
+                    result.draws++;
+                }
+            }
+        } finally {
+            this.destroySelector();
+            eventManager.resume();
+        }
+
+        const iterations = Math.max(1, config.iterations);
+        result.winRateA = result.winsA / iterations;
+        result.winRateB = result.winsB / iterations;
+        result.avgDuration = totalDuration / iterations;
+        this.matchups.push(result);
+
+        console.log(`BattleSimulator: ⚔️ ${result.teamA} vs ${result.teamB} → A胜率 ${(result.winRateA * 100).toFixed(1)}%，B胜率 ${(result.winRateB * 100).toFixed(1)}%，平局 ${result.draws}，平均 ${result.avgDuration.toFixed(1)}s`);
+        return result;
+    }
+
+    private validateTeam(team: SimTeamConfig): boolean {
+        if (team.units.length === 0) {
+            console.error(`BattleSimulator: 队伍 ${team.faction} 没有单位`);
+            return false;
+        }
+        for (const unit of team.units) {
+            if (!dataManager.getEnemyData(unit.enemyId)) {
+                return false;
+            }
+        }
+        return true;
+    }
+
+    /**
+     * 模拟一场战斗
+     */
+    private runFight(teamA: SimTeamConfig, teamB: SimTeamConfig): { outcome: SimOutcome, duration: number } {
+        const units = [...this.spawnTeam(teamA, 0), ...this.spawnTeam(teamB, 1)];
+        const unitByNode = new Map<Node, SimUnit>();
+        for (const unit of units) {
+            unitByNode.set(unit.node, unit);
+            this.selector!.registerTarget(unit.node, unit.faction);
+        }
+
+        let time = 0;
+        let outcome = SimOutcome.Draw;
+        while (time < this.maxDuration) {
+            time += this.timeStep;
+            for (const unit of units) {
+                if (unit.stats.isAlive) {
+                    this.stepUnit(unit, unitByNode, time);
+                }
+            }
+
+            const aliveA = units.some(unit => unit.team === 0 && unit.stats.isAlive);
+            const aliveB = units.some(unit => unit.team === 1 && unit.stats.isAlive);
+            if (!aliveA || !aliveB) {
+                outcome = aliveA ? SimOutcome.TeamA : aliveB ? SimOutcome.TeamB : SimOutcome.Draw;
+                break;
+            }
+        }
+
+        this.recordFight(units, outcome, time);
+
+        for (const unit of units) {
+            this.selector!.deregisterTarget(unit.node, unit.faction);
+            unit.node.destroy();
+        }
+
+        return { outcome, duration: time };
+    }
+
+    private spawnTeam(team: SimTeamConfig, teamIndex: number): SimUnit[] {
+        const units: SimUnit[] = [];
+        const side = teamIndex === 0 ? -1 : 1;
+        let row = 0;
+
+        for (const unitConfig of team.units) {
+            const data = dataManager.getEnemyData(unitConfig.enemyId)!;
+            for (let i = 0; i < unitConfig.count; i++) {
+                // 脱离场景的节点：组件不会执行 onLoad/update，也不会创建精灵和动画
+                const node = new Node(`Sim_${data.id}_${teamIndex}_${row}`);
+                const jitter = BATTLE_SIM_DEFAULTS.spawnJitter;
+                node.setPosition(
+                    side * this.teamDistance / 2 + this.random.range(-jitter, jitter),
+                    (row - (this.countUnits(team) - 1) / 2) * BATTLE_SIM_DEFAULTS.rowSpacing + this.random.range(-jitter, jitter),
+                    0
+                );
+
+                const stats = node.addComponent(CharacterStats);
+                stats.initWithEnemyData(data);
+
+                units.push({
+                    data,
+                    team: teamIndex,
+                    faction: team.faction,
+                    node,
+                    stats,
+                    target: null,
+                    attackCooldown: this.random.range(0, data.attackInterval),
+                    stunTimer: 0,
+                    firstDamagedAt: -1,
+                    deathTime: -1
+                });
+                row++;
+            }
+        }
+
+        return units;
+    }
+
+    private countUnits(team: SimTeamConfig): number {
+        return team.units.reduce((sum, unit) => sum + unit.count, 0);
+    }
+
+    /**
+     * 单位的一个模拟步：硬直 → 索敌 → 接近 → 攻击
+     */
+    private stepUnit(unit: SimUnit, unitByNode: Map<Node, SimUnit>, time: number): void {
+        unit.stats.regeneratePoise(this.timeStep);
+        if (unit.stunTimer > 0) {
+            unit.stunTimer -= this.timeStep;
+            return;
+        }
+        unit.attackCooldown -= this.timeStep;
+
+        if (!unit.target || !unit.target.stats.isAlive) {
+            const targetInfo = this.selector!.findBestTarget(unit.node.position, unit.faction, BATTLE_SIM_DEFAULTS.detectionRange);
+            unit.target = targetInfo ? unitByNode.get(targetInfo.node) || null : null;
+            if (!unit.target) {
+                return;
+            }
+        }
+
+        const target = unit.target;
+        const distance = Vec3.distance(unit.node.position, target.node.position);
+        const attackRange = unit.data.attackRange || 60;
+
+        if (distance > attackRange) {
+            const speed = unit.stats.moveSpeed * (unit.data.chaseSpeedMultiplier || 1) * unit.stats.moveSpeedMultiplier;
+            const step = Math.min(distance - attackRange, speed * this.timeStep);
+            Vec3.subtract(this._tempPos, target.node.position, unit.node.position);
+            this._tempPos.normalize().multiplyScalar(step).add(unit.node.position);
+            unit.node.setPosition(this._tempPos);
+            return;
+        }
+
+        if (unit.attackCooldown > 0) {
+            return;
+        }
+        unit.attackCooldown = unit.data.attackInterval / Math.max(0.01, unit.stats.attackSpeedMultiplier);
+
+        const healthBefore = target.stats.currentHealth;
+        const result = target.stats.takeDamage(unit.stats.createDamageInfo(unit.stats.baseAttack, unit.stats.damageType, this.random), unit.node);
+        const dealt = healthBefore - target.stats.currentHealth;
+
+        const attackerStats = this.getAccumulator(unit.data);
+        attackerStats.damageDealt += dealt;
+        if (target.firstDamagedAt < 0) {
+            target.firstDamagedAt = time;
+        }
+
+        if (result.isDead) {
+            target.deathTime = time;
+            attackerStats.kills++;
+            attackerStats.timeToKillTotal += time - target.firstDamagedAt;
+            this.getAccumulator(target.data).deaths++;
+            this.selector!.deregisterTarget(target.node, target.faction);
+        } else if (result.isStunned) {
+            target.stunTimer = target.data.hurtDuration || 0;
+            target.stats.resetPoise();
+        }
+    }
+
+    // ========== 统计 ==========
+
+    private getAccumulator(data: EnemyData): EnemyAccumulator {
+        let accumulator = this.enemyStats.get(data.id);
+        if (!accumulator) {
+            accumulator = {
+                name: data.name,
+                appearances: 0,
+                wins: 0,
+                losses: 0,
+                draws: 0,
+                kills: 0,
+                deaths: 0,
+                damageDealt: 0,
+                timeToKillTotal: 0,
+                aliveTime: 0
+            };
+            this.enemyStats.set(data.id, accumulator);
+        }
+        return accumulator;
+    }
+
+    private recordFight(units: SimUnit[], outcome: SimOutcome, duration: number): void {
+        for (const unit of units) {
+            const accumulator = this.getAccumulator(unit.data);
+            accumulator.appearances++;
+            accumulator.aliveTime += unit.deathTime >= 0 ? unit.deathTime : duration;
+
+            if (outcome === SimOutcome.Draw) {
+                accumulator.draws++;
+            } else if ((outcome === SimOutcome.TeamA) === (unit.team === 0)) {
+                accumulator.wins++;
+            } else {
+                accumulator.losses++;
+            }
+        }
+    }
+
+    private buildReport(): BattleSimReport {
+        const enemies: EnemySimStats[] = [];
+        this.enemyStats.forEach((accumulator, enemyId) => {
+            enemies.push({
+                enemyId,
+                name: accumulator.name,
+                appearances: accumulator.appearances,
+                wins: accumulator.wins,
+                losses: accumulator.losses,
+                draws: accumulator.draws,
+                winRate: accumulator.appearances > 0 ? accumulator.wins / accumulator.appearances : 0,
+                kills: accumulator.kills,
+                deaths: accumulator.deaths,
+                damageDealt: accumulator.damageDealt,
+                avgDamagePerFight: accumulator.appearances > 0 ? accumulator.damageDealt / accumulator.appearances : 0,
+                avgTimeToKill: accumulator.kills > 0 ? accumulator.timeToKillTotal / accumulator.kills : 0,
+                dps: accumulator.aliveTime > 0 ? accumulator.damageDealt / accumulator.aliveTime : 0
+            });
+        });
+        enemies.sort((a, b) => b.winRate - a.winRate);
+
+        return {
+            generatedAt: Date.now(),
+            seed: this.seed,
+            matchups: this.matchups.slice(),
+            enemies
+        };
+    }
+
+    private createSelector(): void {
+        const selectorNode = new Node('SimTargetSelector');
+        this.selectorNode = selectorNode;
+        this.selector = selectorNode.addComponent(TargetSelector);
+    }
+
+    private destroySelector(): void {
+        this.selectorNode?.destroy();
+        this.selectorNode = null;
+        this.selector = null;
+    }
+
+    // ========== 导出 ==========
+
+    public static toJSON(report: BattleSimReport): string {
+        return JSON.stringify(report, null, 2);
+    }
+
+    /**
+     * 按敌人类型导出 CSV
+     */
+    public static toEnemyCSV(report: BattleSimReport): string {
+        const header = 'enemyId,name,appearances,wins,losses,draws,winRate,kills,deaths,damageDealt,avgDamagePerFight,avgTimeToKill,dps';
+        const rows = report.enemies.map(stats => [
+            stats.enemyId,
+            BattleSimulator.escapeCSV(stats.name),
+            stats.appearances,
+            stats.wins,
+            stats.losses,
+            stats.draws,
+            stats.winRate.toFixed(4),
+            stats.kills,
+            stats.deaths,
+            stats.damageDealt,
+            stats.avgDamagePerFight.toFixed(2),
+            stats.avgTimeToKill.toFixed(2),
+            stats.dps.toFixed(2)
+        ].join(','));
+        return [header, ...rows].join('\n');
+    }
+
+    /**
+     * 按对战组导出 CSV
+     */
+    public static toMatchupCSV(report: BattleSimReport): string {
+        const header = 'teamA,teamB,iterations,winsA,winsB,draws,winRateA,winRateB,avgDuration';
+        const rows = report.matchups.map(result => [
+            BattleSimulator.escapeCSV(result.teamA),
+            BattleSimulator.escapeCSV(result.teamB),
+            result.iterations,
+            result.winsA,
+            result.winsB,
+            result.draws,
+            result.winRateA.toFixed(4),
+            result.winRateB.toFixed(4),
+            result.avgDuration.toFixed(2)
+        ].join(','));
+        return [header, ...rows].join('\n');
+    }
+
+    private static escapeCSV(value: string): string {
+        return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+    }
+}
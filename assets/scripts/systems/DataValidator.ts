@@ -0,0 +1,1170 @@
+// assets/scripts/systems/DataValidator.ts
+
+import { AiBehavior, EnemyCategory } from '../configs/EnemyConfig';
+import { SkillEffectType, SkillTargetType } from '../configs/SkillConfig';
+import { SpawnShape } from '../configs/SpawnShapeConfig';
+import { WaveTrigger } from '../configs/WaveConfig';
+import { ObjectiveType } from '../configs/LevelObjectiveConfig';
+import { Faction } from '../configs/FactionConfig';
+import { resolveEnemyTemplates } from '../configs/EnemyTemplateConfig';
+import { DAMAGE_DEFAULTS, DamageType } from '../configs/DamageConfig';
+import { StatusEffectType } from '../configs/StatusEffectConfig';
+import { AreaFalloff, AreaShape } from '../configs/AreaEffectConfig';
+import { MeleeHitboxShape } from '../configs/MeleeHitboxConfig';
+import { AnimationDirection } from '../configs/AnimationConfig';
+import {
+    DataFile,
+    GameDataSources,
+    ValidationIssue,
+    ValidationReport,
+    ValidationSeverity,
+    formatValidationIssue
+} from '../configs/DataValidationConfig';
+
+/**
+ * 数值字段规则
+ */
+interface NumberRule {
+    required?: boolean;
+    integer?: boolean;
+    min?: number;
+    max?: number;
+    positive?: boolean;                 // 必须大于0
+}
+
+/**
+ * 字符串字段规则
+ */
+interface StringRule {
+    required?: boolean;
+    values?: readonly string[];         // 枚举取值
+    ref?: ReferenceKind;                // 引用的ID类型
+}
+
+/**
+ * 可被引用的ID类型
+ */
+type ReferenceKind = 'enemy' | 'skill' | 'projectile' | 'dropTable' | 'faction';
+
+const REFERENCE_NAMES: Record<ReferenceKind, string> = {
+    enemy: '敌人',
+    skill: '技能',
+    projectile: '投射物',
+    dropTable: '掉落表',
+    faction: '阵营',
+};
+
+// ========== 已知字段（出现其他字段时报警告，通常是拼写错误） ==========
+
+const ENEMY_FIELDS = [
+    'id', 'name', 'category', 'plistUrl', 'assetNamePrefix', 'nodeScale', 'uiSize',
+    'baseHealth', 'baseAttack', 'baseDefense', 'moveSpeed', 'poise', 'poiseRegen', 'poiseRegenDelay', 'attackWeight',
+    'attackRange', 'attackInterval', 'attackDamageFrame', 'meleeHitbox', 'projectileId', 'animationSpeed',
+    'ai', 'detectionRange', 'pursuitRange', 'returnDistance', 'chaseSpeedMultiplier',
+    'hurtDuration', 'deathDuration', 'idleWaitTime', 'aggroDecayTime', 'supportConfig', 'kamikazeConfig',
+    'colliderSize', 'skills', 'bossConfig', 'expReward', 'dropTableId', 'healthBar',
+    'stunDuration', 'damageFlashDuration', 'projectileOffsets',
+    'damageType', 'critChance', 'critMultiplier', 'resistances', 'statusImmunities',
+];
+
+const PROJECTILE_FIELDS = [
+    'id', 'name', 'type', 'category', 'damage', 'moveSpeed', 'lifeTime', 'frameRate',
+    'animationFrames', 'resources', 'poolConfig', 'physics', 'visual', 'damageType', 'statusEffects', 'description',
+    'attackWeight', 'pierce', 'homing', 'gravity', 'aimLead', 'onHit',
+];
+
+const MELEE_HITBOX_SHAPE_FIELDS = ['shape', 'range', 'angle', 'width', 'offset'];
+const MELEE_HITBOX_FIELDS = [...MELEE_HITBOX_SHAPE_FIELDS, 'maxTargets', 'directions'];
+
+const PROJECTILE_HOMING_FIELDS = ['turnRate', 'range', 'delay'];
+
+const AREA_EFFECT_FIELDS = [
+    'shape', 'radius', 'angle', 'width', 'damageRatio', 'falloff', 'minFalloff',
+    'friendlyFire', 'friendlyFireRatio', 'statusEffects', 'duration', 'tickInterval',
+];
+
+const SKILL_FIELDS = [
+    'id', 'name', 'effectType', 'targetType', 'range', 'minHealthPercent',
+    'castTime', 'channelTime', 'channelTickInterval', 'recoveryTime', 'animation', 'interruptible',
+    'damage', 'damageType', 'attackScaling', 'attackWeight', 'healAmount', 'radius', 'area', 'projectileId', 'summon', 'buff', 'levelScaling',
+    'statusEffects', 'description',
+];
+
+const LEVEL_FIELDS = [
+    'id', 'name', 'backgroundImage', 'mapSize', 'playerSpawn', 'factionRelationships',
+    'monsterSpawners', 'enemies', 'objectives', 'duration', 'description',
+];
+
+const SPAWNER_FIELDS = [
+    'id', 'position', 'spawnRadius', 'spawnType', 'size', 'innerRadius', 'points',
+    'offscreenMargin', 'randomOffset', 'faction', 'waves', 'enemies',
+];
+
+const SPAWNER_ENEMY_FIELDS = ['type', 'count', 'spawnInterval', 'maxAlive', 'spawnDelay', 'respawnOnDeath', 'faction'];
+
+const WAVE_MODE_FIELDS = ['waves', 'loop', 'initialDelay', 'waveDelay', 'trigger', 'spawnInterval', 'scaling'];
+
+const WAVE_FIELDS = ['name', 'enemies', 'delay', 'trigger', 'duration', 'spawnInterval', 'healthMultiplier', 'attackMultiplier'];
+
+const STATUS_EFFECT_FIELDS = ['type', 'duration', 'chance', 'tickDamage', 'moveSpeedMultiplier'];
+
+const PROJECTILE_OFFSET_DIRECTIONS = ['front', 'back', 'left', 'right'];
+
+/**
+ * 游戏数据结构校验器
+ * 按 EnemyData / SkillData / LevelData / MonsterSpawnerData 及投射物配置逐字段检查类型、取值范围、
+ * 枚举值和跨文件引用（敌人ID、技能ID、投射物ID、掉落表ID、阵营），一次性收集所有问题并附带 JSON 路径。
+ * 不修改传入的数据，可在 DataManager 加载时调用，也可由 DataValidatorRunner 单独运行。
+ */
+export class DataValidator {
+    private _issues: ValidationIssue[] = [];
+    private _file: DataFile = DataFile.Enemies;
+
+    private _enemyIds = new Set<string>();
+    private _skillIds = new Set<string>();
+    private _projectileIds = new Set<string>();
+    private _dropTableIds: Set<string> | null = null;
+    private _factions = new Set<string>(Object.values(Faction));
+
+    /**
+     * 校验所有提供的数据文件
+     */
+    public validate(sources: GameDataSources): ValidationReport {
+        this._issues = [];
+        this.collectIds(sources);
+
+        if (sources.enemies !== undefined) {
+            this._file = DataFile.Enemies;
+            this.validateEnemies(sources.enemies);
+        }
+        if (sources.skills !== undefined) {
+            this._file = DataFile.Skills;
+            this.validateSkills(sources.skills);
+        }
+        if (sources.levels !== undefined) {
+            this._file = DataFile.Levels;
+            this.validateLevels(sources.levels);
+        }
+
+        const errorCount = this._issues.filter(issue => issue.severity === ValidationSeverity.Error).length;
+        return {
+            generatedAt: Date.now(),
+            errorCount,
+            warningCount: this._issues.length - errorCount,
+            issues: this._issues
+        };
+    }
+
+    /**
+     * 预先收集所有可被引用的ID，引用检查与文件顺序无关
+     */
+    private collectIds(sources: GameDataSources): void {
+        this._enemyIds = new Set(this.isObject(sources.enemies) ? Object.keys(sources.enemies) : []);
+
+        const skills = sources.skills;
+        this._projectileIds = new Set(this.isObject(skills) && this.isObject(skills.projectiles) ? Object.keys(skills.projectiles) : []);
+        this._skillIds = new Set();
+        if (this.isObject(skills) && Array.isArray(skills.skills)) {
+            skills.skills.forEach((skill: any) => {
+                if (this.isObject(skill) && typeof skill.id === 'string') {
+                    this._skillIds.add(skill.id);
+                }
+            });
+        }
+
+        // 未提供掉落数据时不检查 dropTableId
+        const drops = sources.drops;
+        this._dropTableIds = this.isObject(drops) && this.isObject(drops.tables) ? new Set(Object.keys(drops.tables)) : null;
+    }
+
+    // ========== enemies.json ==========
+
+    private validateEnemies(data: any): void {
+        if (!this.isObject(data)) {
+            this.error('$', `应为以敌人ID为键的对象，实际为 ${this.typeOf(data)}`);
+            return;
+        }
+
+        // 先解析模板继承，再校验完整的敌人数据（继承来的字段问题报告在子条目路径下）
+        const { enemies, issues } = resolveEnemyTemplates(data);
+        issues.forEach(issue => this.error(issue.path, issue.message));
+
+        for (const key in enemies) {
+            this.validateEnemy(enemies[key], key, `$.${key}`);
+        }
+    }
+
+    private validateEnemy(enemy: any, key: string, path: string): void {
+        if (!this.isObject(enemy)) {
+            this.error(path, `应为对象，实际为 ${this.typeOf(enemy)}`);
+            return;
+        }
+        this.checkUnknownFields(enemy, path, ENEMY_FIELDS);
+
+        // 基础标识与资源
+        const id = this.checkString(enemy, 'id', path, { required: true });
+        if (id !== undefined && id !== key) {
+            this.warn(`${path}.id`, `与键名 "${key}" 不一致，加载时会被修正为键名`);
+        }
+        this.checkString(enemy, 'name', path, { required: true });
+        this.checkEnum(enemy, 'category', path, this.numericEnumValues(EnemyCategory), true);
+        this.checkString(enemy, 'plistUrl', path, { required: true });
+        this.checkString(enemy, 'assetNamePrefix', path, { required: true });
+        this.checkNumber(enemy, 'nodeScale', path, { required: true, positive: true });
+        this.checkSize(enemy, 'uiSize', path, false);
+
+        // 战斗属性
+        this.checkNumber(enemy, 'baseHealth', path, { required: true, positive: true });
+        this.checkNumber(enemy, 'baseAttack', path, { required: true, min: 0 });
+        this.checkNumber(enemy, 'baseDefense', path, { required: true, min: 0 });
+        this.checkNumber(enemy, 'moveSpeed', path, { required: true, min: 0 });
+        this.checkNumber(enemy, 'poise', path, { min: 0 });
+        this.checkNumber(enemy, 'poiseRegen', path, { min: 0 });
+        this.checkNumber(enemy, 'poiseRegenDelay', path, { min: 0 });
+        this.checkNumber(enemy, 'attackWeight', path, { min: 0 });
+
+        // 伤害类型与抗性
+        this.checkString(enemy, 'damageType', path, { values: Object.values(DamageType) });
+        this.checkNumber(enemy, 'critChance', path, { min: 0, max: 1 });
+        this.checkNumber(enemy, 'critMultiplier', path, { min: 1 });
+        this.checkResistances(enemy, 'resistances', path);
+        const immunities = this.checkArray(enemy, 'statusImmunities', path, false);
+        if (immunities) {
+            const types = Object.values(StatusEffectType) as string[];
+            immunities.forEach((type, index) => {
+                if (types.indexOf(type) === -1) {
+                    this.error(`${path}.statusImmunities[${index}]`, `无效状态效果 ${JSON.stringify(type)}，可选值: ${types.join(', ')}`);
+                }
+            });
+        }
+
+        // 攻击
+        this.checkNumber(enemy, 'attackRange', path, { required: true, positive: true });
+        this.checkNumber(enemy, 'attackInterval', path, { required: true, positive: true });
+        this.checkNumber(enemy, 'attackDamageFrame', path, { integer: true, min: 0 });
+        const meleeHitbox = this.checkObject(enemy, 'meleeHitbox', path, false);
+        if (meleeHitbox) {
+            const hitboxPath = `${path}.meleeHitbox`;
+            this.checkUnknownFields(meleeHitbox, hitboxPath, MELEE_HITBOX_FIELDS);
+            this.checkMeleeHitboxShape(meleeHitbox, hitboxPath);
+            this.checkNumber(meleeHitbox, 'maxTargets', hitboxPath, { integer: true, min: 0 });
+            const directions = this.checkObject(meleeHitbox, 'directions', hitboxPath, false);
+            if (directions) {
+                const validDirections = Object.values(AnimationDirection) as string[];
+                for (const direction of Object.keys(directions)) {
+                    const directionPath = `${hitboxPath}.directions.${direction}`;
+                    if (validDirections.indexOf(direction) === -1) {
+                        this.warn(directionPath, `未知朝向，可选值: ${validDirections.join(', ')}`);
+                        continue;
+                    }
+                    const override = this.checkObject(directions, direction, `${hitboxPath}.directions`, true);
+                    if (override) {
+                        this.checkUnknownFields(override, directionPath, MELEE_HITBOX_SHAPE_FIELDS);
+                        this.checkMeleeHitboxShape(override, directionPath);
+                    }
+                }
+            }
+        }
+        this.checkString(enemy, 'projectileId', path, { ref: 'projectile' });
+        this.checkNumber(enemy, 'animationSpeed', path, { required: true, positive: true });
+
+        // AI
+        const ai = this.checkEnum(enemy, 'ai', path, this.numericEnumValues(AiBehavior), true);
+        const detectionRange = this.checkNumber(enemy, 'detectionRange', path, { required: true, min: 0 });
+        const pursuitRange = this.checkNumber(enemy, 'pursuitRange', path, { required: true, min: 0 });
+        if (detectionRange !== undefined && pursuitRange !== undefined && pursuitRange < detectionRange) {
+            this.warn(`${path}.pursuitRange`, `追击范围 ${pursuitRange} 小于检测范围 ${detectionRange}，敌人会在刚发现目标时放弃追击`);
+        }
+        this.checkNumber(enemy, 'returnDistance', path, { required: true, min: 0 });
+        this.checkNumber(enemy, 'chaseSpeedMultiplier', path, { required: true, positive: true });
+        this.checkNumber(enemy, 'hurtDuration', path, { required: true, min: 0 });
+        this.checkNumber(enemy, 'deathDuration', path, { required: true, min: 0 });
+        this.checkNumber(enemy, 'idleWaitTime', path, { required: true, min: 0 });
+        this.checkNumber(enemy, 'aggroDecayTime', path, { required: true, min: 0 });
+
+        if (ai === AiBehavior.Ranged && enemy.projectileId === undefined) {
+            this.warn(`${path}.projectileId`, '远程型敌人未配置投射物，普通攻击不会发射投射物');
+        }
+
+        const support = this.checkObject(enemy, 'supportConfig', path, false);
+        if (support) {
+            const supportPath = `${path}.supportConfig`;
+            this.checkNumber(support, 'followDistance', supportPath, { required: true, min: 0 });
+            this.checkNumber(support, 'abilityRange', supportPath, { required: true, positive: true });
+            this.checkNumber(support, 'abilityInterval', supportPath, { required: true, positive: true });
+            this.checkNumber(support, 'healAmount', supportPath, { required: true, min: 0 });
+            this.checkBuff(support, 'buff', supportPath, false);
+        } else if (ai === AiBehavior.Support) {
+            this.warn(`${path}.supportConfig`, '辅助型敌人未配置 supportConfig，将使用默认参数');
+        }
+
+        const kamikaze = this.checkObject(enemy, 'kamikazeConfig', path, false);
+        if (kamikaze) {
+            const kamikazePath = `${path}.kamikazeConfig`;
+            this.checkNumber(kamikaze, 'triggerRange', kamikazePath, { required: true, positive: true });
+            this.checkNumber(kamikaze, 'fuseTime', kamikazePath, { required: true, min: 0 });
+            this.checkNumber(kamikaze, 'explosionRadius', kamikazePath, { required: true, positive: true });
+            this.checkNumber(kamikaze, 'explosionDamage', kamikazePath, { required: true, min: 0 });
+            this.checkNumber(kamikaze, 'sprintMultiplier', kamikazePath, { positive: true });
+        } else if (ai === AiBehavior.Kamikaze) {
+            this.warn(`${path}.kamikazeConfig`, '自爆型敌人未配置 kamikazeConfig，将使用默认参数');
+        }
+
+        // 碰撞体
+        const collider = this.checkObject(enemy, 'colliderSize', path, true);
+        if (collider) {
+            const colliderPath = `${path}.colliderSize`;
+            const radius = this.checkNumber(collider, 'radius', colliderPath, { positive: true });
+            const width = this.checkNumber(collider, 'width', colliderPath, { positive: true });
+            const height = this.checkNumber(collider, 'height', colliderPath, { positive: true });
+            this.checkNumber(collider, 'xoffset', colliderPath);
+            this.checkNumber(collider, 'yoffset', colliderPath);
+            if (radius === undefined && (width === undefined || height === undefined)) {
+                this.error(colliderPath, '需要配置 radius，或同时配置 width 和 height');
+            }
+        }
+
+        // 技能与Boss
+        const skills = this.checkArray(enemy, 'skills', path, false);
+        if (skills) {
+            skills.forEach((skill, index) => this.validateEnemySkill(skill, `${path}.skills[${index}]`));
+        }
+
+        const bossConfig = this.checkObject(enemy, 'bossConfig', path, false);
+        if (bossConfig) {
+            this.validateBossConfig(bossConfig, `${path}.bossConfig`);
+            if (enemy.category !== EnemyCategory.Boss) {
+                this.warn(`${path}.bossConfig`, '非首领类别的敌人配置了 bossConfig');
+            }
+        }
+
+        // 奖励
+        this.checkNumber(enemy, 'expReward', path, { required: true, min: 0 });
+        this.checkString(enemy, 'dropTableId', path, { ref: 'dropTable' });
+
+        // UI 与反馈
+        const healthBar = this.checkObject(enemy, 'healthBar', path, false);
+        if (healthBar) {
+            const healthBarPath = `${path}.healthBar`;
+            this.checkNumber(healthBar, 'width', healthBarPath, { required: true, positive: true });
+            this.checkNumber(healthBar, 'height', healthBarPath, { required: true, positive: true });
+            this.checkNumber(healthBar, 'offsetY', healthBarPath, { required: true });
+        }
+        this.checkNumber(enemy, 'stunDuration', path, { min: 0 });
+        this.checkNumber(enemy, 'damageFlashDuration', path, { min: 0 });
+
+        const offsets = this.checkObject(enemy, 'projectileOffsets', path, false);
+        if (offsets) {
+            PROJECTILE_OFFSET_DIRECTIONS.forEach(direction => this.checkPoint(offsets, direction, `${path}.projectileOffsets`, true));
+            this.checkUnknownFields(offsets, `${path}.projectileOffsets`, PROJECTILE_OFFSET_DIRECTIONS);
+        }
+    }
+
+    private validateEnemySkill(skill: any, path: string): void {
+        if (!this.isObject(skill)) {
+            this.error(path, `应为对象，实际为 ${this.typeOf(skill)}`);
+            return;
+        }
+        this.checkString(skill, 'id', path, { required: true, ref: 'skill' });
+        this.checkNumber(skill, 'level', path, { required: true, integer: true, min: 1 });
+        this.checkNumber(skill, 'cooldown', path, { required: true, min: 0 });
+        this.checkNumber(skill, 'chance', path, { required: true, min: 0, max: 1 });
+    }
+
+    private validateBossConfig(bossConfig: any, path: string): void {
+        const phases = this.checkArray(bossConfig, 'phases', path, true, 1);
+        if (phases) {
+            let lastThreshold = Infinity;
+            phases.forEach((phase, index) => {
+                const phasePath = `${path}.phases[${index}]`;
+                if (!this.isObject(phase)) {
+                    this.error(phasePath, `应为对象，实际为 ${this.typeOf(phase)}`);
+                    return;
+                }
+                this.checkString(phase, 'name', phasePath, { required: true });
+                const threshold = this.checkNumber(phase, 'healthThreshold', phasePath, { required: true, min: 0, max: 1 });
+                if (threshold !== undefined) {
+                    if (threshold > lastThreshold) {
+                        this.error(`${phasePath}.healthThreshold`, `阶段应按生命阈值从高到低排列，${threshold} 大于上一阶段的 ${lastThreshold}`);
+                    }
+                    lastThreshold = threshold;
+                }
+                const rotation = this.checkArray(phase, 'skillRotation', phasePath, true);
+                if (rotation) {
+                    rotation.forEach((skill, skillIndex) => this.validateEnemySkill(skill, `${phasePath}.skillRotation[${skillIndex}]`));
+                }
+                this.checkNumber(phase, 'attackBonus', phasePath);
+                this.checkNumber(phase, 'defenseBonus', phasePath);
+                this.checkNumber(phase, 'moveSpeedMultiplier', phasePath, { positive: true });
+
+                const adds = this.checkObject(phase, 'adds', phasePath, false);
+                if (adds) {
+                    this.checkString(adds, 'enemyType', `${phasePath}.adds`, { required: true, ref: 'enemy' });
+                    this.checkNumber(adds, 'count', `${phasePath}.adds`, { required: true, integer: true, min: 1 });
+                    this.checkNumber(adds, 'radius', `${phasePath}.adds`, { required: true, min: 0 });
+                }
+            });
+        }
+
+        const enrage = this.checkObject(bossConfig, 'enrage', path, false);
+        if (enrage) {
+            const enragePath = `${path}.enrage`;
+            this.checkNumber(enrage, 'time', enragePath, { required: true, positive: true });
+            this.checkNumber(enrage, 'attackBonus', enragePath);
+            this.checkNumber(enrage, 'moveSpeedMultiplier', enragePath, { positive: true });
+            this.checkNumber(enrage, 'cooldownMultiplier', enragePath, { positive: true });
+        }
+    }
+
+    // ========== skills.json ==========
+
+    private validateSkills(data: any): void {
+        if (!this.isObject(data)) {
+            this.error('$', `应为对象，实际为 ${this.typeOf(data)}`);
+            return;
+        }
+
+        const projectiles = this.checkObject(data, 'projectiles', '$', false);
+        if (projectiles) {
+            for (const key in projectiles) {
+                this.validateProjectile(projectiles[key], key, `$.projectiles.${key}`);
+            }
+        }
+
+        const skills = this.checkArray(data, 'skills', '$', false);
+        if (skills) {
+            const seen = new Set<string>();
+            skills.forEach((skill, index) => {
+                const skillPath = `$.skills[${index}]`;
+                this.validateSkill(skill, skillPath);
+                if (this.isObject(skill) && typeof skill.id === 'string') {
+                    if (seen.has(skill.id)) {
+                        this.error(`${skillPath}.id`, `技能ID "${skill.id}" 重复，后者会覆盖前者`);
+                    }
+                    seen.add(skill.id);
+                }
+            });
+        }
+    }
+
+    private validateProjectile(projectile: any, key: string, path: string): void {
+        if (!this.isObject(projectile)) {
+            this.error(path, `应为对象，实际为 ${this.typeOf(projectile)}`);
+            return;
+        }
+        this.checkUnknownFields(projectile, path, PROJECTILE_FIELDS);
+
+        const id = this.checkString(projectile, 'id', path, { required: true });
+        if (id !== undefined && id !== key) {
+            this.error(`${path}.id`, `与键名 "${key}" 不一致，对象池和预制体按 id 注册`);
+        }
+        this.checkString(projectile, 'name', path, { required: true });
+        this.checkString(projectile, 'type', path);
+        this.checkString(projectile, 'category', path);
+        this.checkNumber(projectile, 'damage', path, { required: true, min: 0 });
+        this.checkString(projectile, 'damageType', path, { values: Object.values(DamageType) });
+        this.checkStatusEffects(projectile, 'statusEffects', path);
+        this.checkNumber(projectile, 'moveSpeed', path, { required: true, positive: true });
+        this.checkNumber(projectile, 'lifeTime', path, { required: true, positive: true });
+        this.checkNumber(projectile, 'frameRate', path, { positive: true });
+        this.checkNumber(projectile, 'attackWeight', path, { min: 0 });
+        this.checkNumber(projectile, 'pierce', path, { integer: true, min: 0 });
+        this.checkNumber(projectile, 'gravity', path, { min: 0 });
+        this.checkNumber(projectile, 'aimLead', path, { min: 0, max: 1 });
+        this.checkString(projectile, 'description', path);
+
+        const homing = this.checkObject(projectile, 'homing', path, false);
+        if (homing) {
+            const homingPath = `${path}.homing`;
+            this.checkUnknownFields(homing, homingPath, PROJECTILE_HOMING_FIELDS);
+            this.checkNumber(homing, 'turnRate', homingPath, { required: true, positive: true });
+            this.checkNumber(homing, 'range', homingPath, { positive: true });
+            this.checkNumber(homing, 'delay', homingPath, { min: 0 });
+        }
+
+        const onHit = this.checkObject(projectile, 'onHit', path, false);
+        if (onHit) {
+            const onHitPath = `${path}.onHit`;
+            this.checkAreaEffect(onHit, onHitPath, ['zone']);
+            const zone = this.checkObject(onHit, 'zone', onHitPath, false);
+            if (zone) {
+                this.checkAreaEffect(zone, `${onHitPath}.zone`);
+                if (!zone.duration) {
+                    this.warn(`${onHitPath}.zone.duration`, '持续区域未配置持续时间，引爆时只会结算一次');
+                }
+            }
+        }
+
+        const frames = this.checkObject(projectile, 'animationFrames', path, false);
+        if (frames) {
+            for (const name in frames) {
+                const framePath = `${path}.animationFrames.${name}`;
+                const list = this.checkArray(frames, name, `${path}.animationFrames`, true, 1);
+                if (list) {
+                    list.forEach((frame, index) => {
+                        if (!Number.isInteger(frame) || frame < 0) {
+                            this.error(`${framePath}[${index}]`, `应为非负整数帧序号，实际为 ${JSON.stringify(frame)}`);
+                        }
+                    });
+                }
+            }
+        }
+
+        const resources = this.checkObject(projectile, 'resources', path, true);
+        if (resources) {
+            this.checkString(resources, 'atlas', `${path}.resources`, { required: true });
+            this.checkString(resources, 'framePrefix', `${path}.resources`, { required: true });
+            this.checkString(resources, 'prefab', `${path}.resources`);
+        }
+
+        const pool = this.checkObject(projectile, 'poolConfig', path, false);
+        if (pool) {
+            const poolPath = `${path}.poolConfig`;
+            const maxSize = this.checkNumber(pool, 'maxSize', poolPath, { required: true, integer: true, min: 1 });
+            const preloadCount = this.checkNumber(pool, 'preloadCount', poolPath, { required: true, integer: true, min: 0 });
+            this.checkString(pool, 'poolName', poolPath, { required: true });
+            if (maxSize !== undefined && preloadCount !== undefined && preloadCount > maxSize) {
+                this.warn(`${poolPath}.preloadCount`, `预加载数量 ${preloadCount} 超过对象池上限 ${maxSize}`);
+            }
+        }
+
+        this.checkObject(projectile, 'physics', path, false);
+        this.checkObject(projectile, 'visual', path, false);
+    }
+
+    private validateSkill(skill: any, path: string): void {
+        if (!this.isObject(skill)) {
+            this.error(path, `应为对象，实际为 ${this.typeOf(skill)}`);
+            return;
+        }
+        this.checkUnknownFields(skill, path, SKILL_FIELDS);
+
+        this.checkString(skill, 'id', path, { required: true });
+        this.checkString(skill, 'name', path, { required: true });
+        const effectType = this.checkString(skill, 'effectType', path, { required: true, values: Object.values(SkillEffectType) });
+        this.checkString(skill, 'targetType', path, { required: true, values: Object.values(SkillTargetType) });
+
+        this.checkNumber(skill, 'range', path, { required: true, min: 0 });
+        this.checkNumber(skill, 'minHealthPercent', path, { min: 0, max: 1 });
+        this.checkNumber(skill, 'castTime', path, { required: true, min: 0 });
+        const channelTime = this.checkNumber(skill, 'channelTime', path, { min: 0 });
+        this.checkNumber(skill, 'channelTickInterval', path, { positive: true });
+        if (channelTime && skill.channelTickInterval === undefined) {
+            this.warn(`${path}.channelTickInterval`, '配置了引导时间但未配置生效间隔');
+        }
+        this.checkNumber(skill, 'recoveryTime', path, { required: true, min: 0 });
+        this.checkString(skill, 'animation', path);
+        this.checkBoolean(skill, 'interruptible', path, false);
+
+        this.checkNumber(skill, 'damage', path, { min: 0 });
+        this.checkString(skill, 'damageType', path, { values: Object.values(DamageType) });
+        this.checkStatusEffects(skill, 'statusEffects', path);
+        this.checkNumber(skill, 'attackScaling', path, { min: 0 });
+        this.checkNumber(skill, 'attackWeight', path, { min: 0 });
+        this.checkNumber(skill, 'healAmount', path, { min: 0 });
+        this.checkNumber(skill, 'radius', path, { min: 0 });
+        const area = this.checkObject(skill, 'area', path, false);
+        if (area) {
+            this.checkAreaEffect(area, `${path}.area`);
+            if (effectType !== SkillEffectType.AreaDamage) {
+                this.warn(`${path}.area`, `只有范围伤害技能使用 area 配置，当前效果类型为 ${effectType}`);
+            }
+        }
+        this.checkString(skill, 'projectileId', path, { ref: 'projectile' });
+        this.checkNumber(skill, 'levelScaling', path, { min: 0 });
+        this.checkString(skill, 'description', path);
+
+        const summon = this.checkObject(skill, 'summon', path, false);
+        if (summon) {
+            const summonPath = `${path}.summon`;
+            this.checkString(summon, 'enemyType', summonPath, { required: true, ref: 'enemy' });
+            this.checkNumber(summon, 'count', summonPath, { required: true, integer: true, min: 1 });
+            this.checkNumber(summon, 'radius', summonPath, { required: true, min: 0 });
+            this.checkNumber(summon, 'maxAlive', summonPath, { integer: true, min: 1 });
+        }
+        this.checkBuff(skill, 'buff', path, false);
+
+        // 效果类型所需的配置
+        switch (effectType) {
+            case SkillEffectType.Projectile:
+                if (skill.projectileId === undefined) {
+                    this.error(`${path}.projectileId`, '投射物技能缺少 projectileId');
+                }
+                break;
+            case SkillEffectType.Summon:
+                if (skill.summon === undefined) {
+                    this.error(`${path}.summon`, '召唤技能缺少 summon 配置');
+                }
+                break;
+            case SkillEffectType.Buff:
+                if (skill.buff === undefined) {
+                    this.error(`${path}.buff`, '增益技能缺少 buff 配置');
+                }
+                break;
+            case SkillEffectType.AreaDamage:
+                if (skill.radius === undefined) {
+                    this.warn(`${path}.radius`, '范围伤害技能未配置 radius');
+                }
+                break;
+            case SkillEffectType.Heal:
+                if (skill.healAmount === undefined) {
+                    this.warn(`${path}.healAmount`, '治疗技能未配置 healAmount');
+                }
+                break;
+        }
+    }
+
+    // ========== levels.json ==========
+
+    private validateLevels(data: any): void {
+        if (!this.isObject(data)) {
+            this.error('$', `应为对象，实际为 ${this.typeOf(data)}`);
+            return;
+        }
+
+        const levels = this.checkArray(data, 'levels', '$', true);
+        if (!levels) {
+            return;
+        }
+
+        const seen = new Set<number>();
+        levels.forEach((level, index) => {
+            const levelPath = `$.levels[${index}]`;
+            this.validateLevel(level, levelPath);
+            if (this.isObject(level) && typeof level.id === 'number') {
+                if (seen.has(level.id)) {
+                    this.error(`${levelPath}.id`, `关卡ID ${level.id} 重复，后者会覆盖前者`);
+                }
+                seen.add(level.id);
+            }
+        });
+    }
+
+    private validateLevel(level: any, path: string): void {
+        if (!this.isObject(level)) {
+            this.error(path, `应为对象，实际为 ${this.typeOf(level)}`);
+            return;
+        }
+        this.checkUnknownFields(level, path, LEVEL_FIELDS);
+
+        this.checkNumber(level, 'id', path, { required: true, integer: true, min: 0 });
+        this.checkString(level, 'name', path, { required: true });
+        this.checkString(level, 'backgroundImage', path, { required: true });
+        this.checkSize(level, 'mapSize', path, false);
+        this.checkPoint(level, 'playerSpawn', path, false);
+        this.checkNumber(level, 'duration', path, { required: true, min: 0 });
+        this.checkString(level, 'description', path, { required: true });
+
+        const relationships = this.checkObject(level, 'factionRelationships', path, false);
+        if (relationships) {
+            for (const faction in relationships) {
+                const relationPath = `${path}.factionRelationships.${faction}`;
+                if (!this._factions.has(faction)) {
+                    this.error(relationPath, `未知阵营 "${faction}"`);
+                }
+                const relation = this.checkObject(relationships, faction, `${path}.factionRelationships`, true);
+                const attacks = relation ? this.checkArray(relation, 'attacks', relationPath, true) : null;
+                if (attacks) {
+                    attacks.forEach((target, index) => this.checkReference(target, 'faction', `${relationPath}.attacks[${index}]`));
+                }
+            }
+        }
+
+        const spawnerIds = new Set<string>();
+        const spawners = this.checkArray(level, 'monsterSpawners', path, false);
+        if (spawners) {
+            spawners.forEach((spawner, index) => {
+                const spawnerPath = `${path}.monsterSpawners[${index}]`;
+                this.validateSpawner(spawner, spawnerPath);
+                if (this.isObject(spawner) && typeof spawner.id === 'string') {
+                    if (spawnerIds.has(spawner.id)) {
+                        this.error(`${spawnerPath}.id`, `生成器ID "${spawner.id}" 在关卡内重复`);
+                    }
+                    spawnerIds.add(spawner.id);
+                }
+            });
+        }
+
+        const legacyEnemies = this.checkArray(level, 'enemies', path, false);
+        if (legacyEnemies) {
+            legacyEnemies.forEach((enemy, index) => {
+                const enemyPath = `${path}.enemies[${index}]`;
+                if (!this.isObject(enemy)) {
+                    this.error(enemyPath, `应为对象，实际为 ${this.typeOf(enemy)}`);
+                    return;
+                }
+                this.checkString(enemy, 'type', enemyPath, { required: true, ref: 'enemy' });
+                this.checkNumber(enemy, 'spawnCount', enemyPath, { required: true, integer: true, min: 0 });
+                this.checkNumber(enemy, 'spawnInterval', enemyPath, { required: true, min: 0 });
+                this.checkString(enemy, 'faction', enemyPath, { ref: 'faction' });
+            });
+        }
+
+        const objectives = this.checkArray(level, 'objectives', path, false);
+        if (objectives) {
+            objectives.forEach((objective, index) => this.validateObjective(objective, `${path}.objectives[${index}]`, spawnerIds));
+        }
+    }
+
+    private validateSpawner(spawner: any, path: string): void {
+        if (!this.isObject(spawner)) {
+            this.error(path, `应为对象，实际为 ${this.typeOf(spawner)}`);
+            return;
+        }
+        this.checkUnknownFields(spawner, path, SPAWNER_FIELDS);
+
+        this.checkString(spawner, 'id', path, { required: true });
+        this.checkPoint(spawner, 'position', path, true);
+        const spawnRadius = this.checkNumber(spawner, 'spawnRadius', path, { required: true, min: 0 });
+        const spawnType = this.checkString(spawner, 'spawnType', path, { required: true, values: Object.values(SpawnShape) });
+        this.checkSize(spawner, 'size', path, false);
+        const innerRadius = this.checkNumber(spawner, 'innerRadius', path, { min: 0 });
+        if (innerRadius !== undefined && spawnRadius !== undefined && innerRadius > spawnRadius) {
+            this.error(`${path}.innerRadius`, `内半径 ${innerRadius} 大于 spawnRadius ${spawnRadius}`);
+        }
+        this.checkNumber(spawner, 'offscreenMargin', path, { min: 0 });
+        this.checkPoint(spawner, 'randomOffset', path, false);
+        this.checkString(spawner, 'faction', path, { ref: 'faction' });
+
+        const points = this.checkArray(spawner, 'points', path, false);
+        if (points) {
+            points.forEach((point, index) => this.checkPointValue(point, `${path}.points[${index}]`));
+        }
+        const minPoints = spawnType === SpawnShape.Line ? 2 : spawnType === SpawnShape.Polygon ? 3 : 0;
+        if (minPoints > 0 && (!points || points.length < minPoints)) {
+            this.error(`${path}.points`, `生成形状 ${spawnType} 至少需要 ${minPoints} 个顶点`);
+        }
+
+        const enemies = this.checkArray(spawner, 'enemies', path, false);
+        if (enemies) {
+            enemies.forEach((enemy, index) => {
+                const enemyPath = `${path}.enemies[${index}]`;
+                if (!this.isObject(enemy)) {
+                    this.error(enemyPath, `应为对象，实际为 ${this.typeOf(enemy)}`);
+                    return;
+                }
+                this.checkUnknownFields(enemy, enemyPath, SPAWNER_ENEMY_FIELDS);
+                this.checkString(enemy, 'type', enemyPath, { required: true, ref: 'enemy' });
+                this.checkNumber(enemy, 'count', enemyPath, { required: true, integer: true, min: 0 });
+                this.checkNumber(enemy, 'spawnInterval', enemyPath, { required: true, min: 0 });
+                this.checkNumber(enemy, 'maxAlive', enemyPath, { required: true, integer: true, min: 0 });
+                this.checkNumber(enemy, 'spawnDelay', enemyPath, { required: true, min: 0 });
+                this.checkBoolean(enemy, 'respawnOnDeath', enemyPath, true);
+                this.checkString(enemy, 'faction', enemyPath, { required: true, ref: 'faction' });
+            });
+        }
+
+        const waves = this.checkObject(spawner, 'waves', path, false);
+        if (waves) {
+            this.validateWaveMode(waves, `${path}.waves`);
+            if (enemies) {
+                this.warn(`${path}.enemies`, '配置了波次模式，enemies 会被忽略');
+            }
+        } else if (!enemies) {
+            this.warn(path, '既没有 enemies 也没有 waves，生成器不会生成任何敌人');
+        }
+    }
+
+    private validateWaveMode(mode: any, path: string): void {
+        this.checkUnknownFields(mode, path, WAVE_MODE_FIELDS);
+        this.checkBoolean(mode, 'loop', path, false);
+        this.checkNumber(mode, 'initialDelay', path, { min: 0 });
+        this.checkNumber(mode, 'waveDelay', path, { min: 0 });
+        this.checkString(mode, 'trigger', path, { values: Object.values(WaveTrigger) });
+        this.checkNumber(mode, 'spawnInterval', path, { min: 0 });
+
+        const scaling = this.checkObject(mode, 'scaling', path, false);
+        if (scaling) {
+            this.checkNumber(scaling, 'healthPerWave', `${path}.scaling`, { min: 0 });
+            this.checkNumber(scaling, 'attackPerWave', `${path}.scaling`, { min: 0 });
+            this.checkNumber(scaling, 'countPerWave', `${path}.scaling`, { min: 0 });
+        }
+
+        const waves = this.checkArray(mode, 'waves', path, true, 1);
+        if (!waves) {
+            return;
+        }
+        waves.forEach((wave, index) => {
+            const wavePath = `${path}.waves[${index}]`;
+            if (!this.isObject(wave)) {
+                this.error(wavePath, `应为对象，实际为 ${this.typeOf(wave)}`);
+                return;
+            }
+            this.checkUnknownFields(wave, wavePath, WAVE_FIELDS);
+            this.checkString(wave, 'name', wavePath);
+            this.checkNumber(wave, 'delay', wavePath, { min: 0 });
+            this.checkString(wave, 'trigger', wavePath, { values: Object.values(WaveTrigger) });
+            this.checkNumber(wave, 'duration', wavePath, { positive: true });
+            this.checkNumber(wave, 'spawnInterval', wavePath, { min: 0 });
+            this.checkNumber(wave, 'healthMultiplier', wavePath, { positive: true });
+            this.checkNumber(wave, 'attackMultiplier', wavePath, { positive: true });
+
+            const enemies = this.checkArray(wave, 'enemies', wavePath, true, 1);
+            if (enemies) {
+                enemies.forEach((enemy, enemyIndex) => {
+                    const enemyPath = `${wavePath}.enemies[${enemyIndex}]`;
+                    if (!this.isObject(enemy)) {
+                        this.error(enemyPath, `应为对象，实际为 ${this.typeOf(enemy)}`);
+                        return;
+                    }
+                    this.checkString(enemy, 'type', enemyPath, { required: true, ref: 'enemy' });
+                    this.checkNumber(enemy, 'count', enemyPath, { required: true, integer: true, min: 1 });
+                    this.checkString(enemy, 'faction', enemyPath, { ref: 'faction' });
+                });
+            }
+        });
+    }
+
+    private validateObjective(objective: any, path: string, spawnerIds: Set<string>): void {
+        if (!this.isObject(objective)) {
+            this.error(path, `应为对象，实际为 ${this.typeOf(objective)}`);
+            return;
+        }
+        this.checkString(objective, 'id', path);
+        this.checkString(objective, 'description', path);
+        this.checkBoolean(objective, 'optional', path, false);
+
+        const type = this.checkString(objective, 'type', path, { required: true, values: Object.values(ObjectiveType) });
+        switch (type) {
+            case ObjectiveType.Kill:
+                this.checkNumber(objective, 'count', path, { required: true, integer: true, min: 1 });
+                this.checkString(objective, 'enemyType', path, { ref: 'enemy' });
+                this.checkString(objective, 'faction', path, { ref: 'faction' });
+                this.checkString(objective, 'killerFaction', path, { ref: 'faction' });
+                break;
+            case ObjectiveType.Survive:
+                this.checkNumber(objective, 'duration', path, { positive: true });
+                break;
+            case ObjectiveType.DestroySpawner: {
+                const spawnerId = this.checkString(objective, 'spawnerId', path, { required: true });
+                if (spawnerId !== undefined && !spawnerIds.has(spawnerId)) {
+                    this.error(`${path}.spawnerId`, `关卡中不存在生成器 "${spawnerId}"`);
+                }
+                break;
+            }
+            case ObjectiveType.Protect:
+                this.checkString(objective, 'enemyType', path, { ref: 'enemy' });
+                this.checkString(objective, 'faction', path, { ref: 'faction' });
+                if (objective.enemyType === undefined && objective.faction === undefined) {
+                    this.warn(path, '保护目标未指定 enemyType 或 faction');
+                }
+                break;
+            case ObjectiveType.EliminateFaction:
+                this.checkString(objective, 'faction', path, { required: true, ref: 'faction' });
+                break;
+        }
+    }
+
+    // ========== 通用结构 ==========
+
+    private checkBuff(parent: any, key: string, path: string, required: boolean): void {
+        const buff = this.checkObject(parent, key, path, required);
+        if (!buff) {
+            return;
+        }
+        const buffPath = `${path}.${key}`;
+        this.checkNumber(buff, 'attackBonus', buffPath);
+        this.checkNumber(buff, 'defenseBonus', buffPath);
+        this.checkNumber(buff, 'moveSpeedMultiplier', buffPath, { positive: true });
+        this.checkNumber(buff, 'duration', buffPath, { required: true, positive: true });
+    }
+
+    private checkSize(parent: any, key: string, path: string, required: boolean): void {
+        const size = this.checkObject(parent, key, path, required);
+        if (size) {
+            this.checkNumber(size, 'width', `${path}.${key}`, { required: true, positive: true });
+            this.checkNumber(size, 'height', `${path}.${key}`, { required: true, positive: true });
+        }
+    }
+
+    /**
+     * 校验近战判定框形状参数
+     */
+    private checkMeleeHitboxShape(hitbox: any, path: string): void {
+        this.checkString(hitbox, 'shape', path, { values: Object.values(MeleeHitboxShape) });
+        this.checkNumber(hitbox, 'range', path, { positive: true });
+        this.checkNumber(hitbox, 'angle', path, { positive: true, max: 360 });
+        this.checkNumber(hitbox, 'width', path, { positive: true });
+        this.checkNumber(hitbox, 'offset', path);
+    }
+
+    /**
+     * 校验范围效果配置
+     * @param extraFields 所在配置额外允许的字段
+     */
+    private checkAreaEffect(area: any, path: string, extraFields: string[] = []): void {
+        this.checkUnknownFields(area, path, AREA_EFFECT_FIELDS.concat(extraFields));
+        const shape = this.checkString(area, 'shape', path, { values: Object.values(AreaShape) });
+        this.checkNumber(area, 'radius', path, { required: true, min: 0 });
+        this.checkNumber(area, 'angle', path, { positive: true, max: 360 });
+        this.checkNumber(area, 'width', path, { positive: true });
+        this.checkNumber(area, 'damageRatio', path, { min: 0 });
+        this.checkString(area, 'falloff', path, { values: Object.values(AreaFalloff) });
+        this.checkNumber(area, 'minFalloff', path, { min: 0, max: 1 });
+        this.checkBoolean(area, 'friendlyFire', path, false);
+        this.checkNumber(area, 'friendlyFireRatio', path, { min: 0 });
+        this.checkStatusEffects(area, 'statusEffects', path);
+        this.checkNumber(area, 'duration', path, { min: 0 });
+        this.checkNumber(area, 'tickInterval', path, { positive: true });
+
+        if (area.angle !== undefined && shape !== AreaShape.Cone) {
+            this.warn(`${path}.angle`, '只有扇形范围使用 angle');
+        }
+        if (area.width !== undefined && shape !== AreaShape.Line) {
+            this.warn(`${path}.width`, '只有直线范围使用 width');
+        }
+        if (area.tickInterval !== undefined && !area.duration) {
+            this.warn(`${path}.tickInterval`, '未配置 duration 的瞬时范围效果不会使用 tickInterval');
+        }
+    }
+
+    private checkStatusEffects(parent: any, key: string, path: string): void {
+        const list = this.checkArray(parent, key, path, false);
+        if (!list) {
+            return;
+        }
+
+        list.forEach((application, index) => {
+            const itemPath = `${path}.${key}[${index}]`;
+            if (!this.isObject(application)) {
+                this.error(itemPath, `应为对象，实际为 ${this.typeOf(application)}`);
+                return;
+            }
+            this.checkUnknownFields(application, itemPath, STATUS_EFFECT_FIELDS);
+            this.checkString(application, 'type', itemPath, { required: true, values: Object.values(StatusEffectType) });
+            this.checkNumber(application, 'duration', itemPath, { required: true, positive: true });
+            this.checkNumber(application, 'chance', itemPath, { min: 0, max: 1 });
+            this.checkNumber(application, 'tickDamage', itemPath, { min: 0 });
+            this.checkNumber(application, 'moveSpeedMultiplier', itemPath, { min: 0 });
+        });
+    }
+
+    private checkResistances(parent: any, key: string, path: string): void {
+        const resistances = this.checkObject(parent, key, path, false);
+        if (!resistances) {
+            return;
+        }
+
+        const types = Object.values(DamageType) as string[];
+        const resistancePath = `${path}.${key}`;
+        for (const type in resistances) {
+            if (types.indexOf(type) === -1) {
+                this.error(`${resistancePath}.${type}`, `无效伤害类型 "${type}"，可选值: ${types.join(', ')}`);
+                continue;
+            }
+            const value = this.checkNumber(resistances, type, resistancePath);
+            if (value !== undefined && (value < DAMAGE_DEFAULTS.minResistance || value > DAMAGE_DEFAULTS.maxResistance)) {
+                this.warn(`${resistancePath}.${type}`, `抗性 ${value} 超出 [${DAMAGE_DEFAULTS.minResistance}, ${DAMAGE_DEFAULTS.maxResistance}]，结算时会被截断`);
+            }
+        }
+    }
+
+    private checkPoint(parent: any, key: string, path: string, required: boolean): void {
+        if (parent[key] === undefined) {
+            if (required) {
+                this.error(`${path}.${key}`, '缺少必需字段');
+            }
+            return;
+        }
+        this.checkPointValue(parent[key], `${path}.${key}`);
+    }
+
+    private checkPointValue(point: any, path: string): void {
+        if (!this.isObject(point)) {
+            this.error(path, `应为 {x, y} 对象，实际为 ${this.typeOf(point)}`);
+            return;
+        }
+        this.checkNumber(point, 'x', path, { required: true });
+        this.checkNumber(point, 'y', path, { required: true });
+    }
+
+    // ========== 字段检查 ==========
+
+    private checkNumber(parent: any, key: string, path: string, rule: NumberRule = {}): number | undefined {
+        const value = parent[key];
+        const fieldPath = `${path}.${key}`;
+        if (value === undefined) {
+            if (rule.required) {
+                this.error(fieldPath, '缺少必需字段');
+            }
+            return undefined;
+        }
+        if (typeof value !== 'number' || !isFinite(value)) {
+            this.error(fieldPath, `应为数字，实际为 ${this.typeOf(value)}`);
+            return undefined;
+        }
+        if (rule.integer && !Number.isInteger(value)) {
+            this.error(fieldPath, `应为整数，实际为 ${value}`);
+        }
+        if (rule.positive && value <= 0) {
+            this.error(fieldPath, `应大于 0，实际为 ${value}`);
+        }
+        if (rule.min !== undefined && value < rule.min) {
+            this.error(fieldPath, `应不小于 ${rule.min}，实际为 ${value}`);
+        }
+        if (rule.max !== undefined && value > rule.max) {
+            this.error(fieldPath, `应不大于 ${rule.max}，实际为 ${value}`);
+        }
+        return value;
+    }
+
+    private checkString(parent: any, key: string, path: string, rule: StringRule = {}): string | undefined {
+        const value = parent[key];
+        const fieldPath = `${path}.${key}`;
+        if (value === undefined) {
+            if (rule.required) {
+                this.error(fieldPath, '缺少必需字段');
+            }
+            return undefined;
+        }
+        if (typeof value !== 'string') {
+            this.error(fieldPath, `应为字符串，实际为 ${this.typeOf(value)}`);
+            return undefined;
+        }
+        if (rule.required && value.length === 0) {
+            this.error(fieldPath, '不能为空字符串');
+        }
+        if (rule.values && rule.values.indexOf(value) === -1) {
+            this.error(fieldPath, `无效取值 "${value}"，可选值: ${rule.values.join(', ')}`);
+        }
+        if (rule.ref) {
+            this.checkReference(value, rule.ref, fieldPath);
+        }
+        return value;
+    }
+
+    private checkEnum(parent: any, key: string, path: string, values: number[], required: boolean): number | undefined {
+        const value = this.checkNumber(parent, key, path, { required });
+        if (value !== undefined && values.indexOf(value) === -1) {
+            this.error(`${path}.${key}`, `无效取值 ${value}，可选值: ${values.join(', ')}`);
+            return undefined;
+        }
+        return value;
+    }
+
+    private checkBoolean(parent: any, key: string, path: string, required: boolean): void {
+        const value = parent[key];
+        if (value === undefined) {
+            if (required) {
+                this.error(`${path}.${key}`, '缺少必需字段');
+            }
+            return;
+        }
+        if (typeof value !== 'boolean') {
+            this.error(`${path}.${key}`, `应为布尔值，实际为 ${this.typeOf(value)}`);
+        }
+    }
+
+    private checkObject(parent: any, key: string, path: string, required: boolean): any | null {
+        const value = parent[key];
+        if (value === undefined) {
+            if (required) {
+                this.error(`${path}.${key}`, '缺少必需字段');
+            }
+            return null;
+        }
+        if (!this.isObject(value)) {
+            this.error(`${path}.${key}`, `应为对象，实际为 ${this.typeOf(value)}`);
+            return null;
+        }
+        return value;
+    }
+
+    private checkArray(parent: any, key: string, path: string, required: boolean, minLength: number = 0): any[] | null {
+        const value = parent[key];
+        if (value === undefined) {
+            if (required) {
+                this.error(`${path}.${key}`, '缺少必需字段');
+            }
+            return null;
+        }
+        if (!Array.isArray(value)) {
+            this.error(`${path}.${key}`, `应为数组，实际为 ${this.typeOf(value)}`);
+            return null;
+        }
+        if (value.length < minLength) {
+            this.error(`${path}.${key}`, `至少需要 ${minLength} 个元素`);
+        }
+        return value;
+    }
+
+    private checkReference(value: any, kind: ReferenceKind, path: string): void {
+        if (typeof value !== 'string') {
+            this.error(path, `应为${REFERENCE_NAMES[kind]}ID字符串，实际为 ${this.typeOf(value)}`);
+            return;
+        }
+
+        let ids: Set<string> | null = null;
+        switch (kind) {
+            case 'enemy': ids = this._enemyIds; break;
+            case 'skill': ids = this._skillIds; break;
+            case 'projectile': ids = this._projectileIds; break;
+            case 'dropTable': ids = this._dropTableIds; break;
+            case 'faction': ids = this._factions; break;
+        }
+
+        if (ids && !ids.has(value)) {
+            this.error(path, `引用了不存在的${REFERENCE_NAMES[kind]} "${value}"`);
+        }
+    }
+
+    private checkUnknownFields(value: any, path: string, knownFields: readonly string[]): void {
+        for (const key in value) {
+            if (knownFields.indexOf(key) === -1) {
+                this.warn(`${path}.${key}`, '未知字段（拼写错误？）');
+            }
+        }
+    }
+
+    // ========== 工具 ==========
+
+    private isObject(value: any): boolean {
+        return value !== null && typeof value === 'object' && !Array.isArray(value);
+    }
+
+    private typeOf(value: any): string {
+        if (value === null) {
+            return 'null';
+        }
+        return Array.isArray(value) ? 'array' : typeof value;
+    }
+
+    private numericEnumValues(enumObject: Record<string, string | number>): number[] {
+        return Object.values(enumObject).filter(value => typeof value === 'number') as number[];
+    }
+
+    private error(path: string, message: string): void {
+        this._issues.push({ file: this._file, path, message, severity: ValidationSeverity.Error });
+    }
+
+    private warn(path: string, message: string): void {
+        this._issues.push({ file: this._file, path, message, severity: ValidationSeverity.Warning });
+    }
+}
+
+/**
+ * 校验游戏数据并返回报告
+ */
+export function validateGameData(sources: GameDataSources): ValidationReport {
+    return new DataValidator().validate(sources);
+}
+
+/**
+ * 把校验报告输出到控制台：错误用 console.error，警告用 console.warn，最后输出汇总
+ * @param tag 日志前缀
+ */
+export function logValidationReport(report: ValidationReport, tag: string = 'DataValidator'): void {
+    report.issues.forEach(issue => {
+        if (issue.severity === ValidationSeverity.Error) {
+            console.error(`${tag}: ❌ ${formatValidationIssue(issue)}`);
+        } else {
+            console.warn(`${tag}: ⚠️ ${formatValidationIssue(issue)}`);
+        }
+    });
+
+    if (report.errorCount === 0 && report.warningCount === 0) {
+        console.log(`${tag}: ✅ 数据校验通过`);
+    } else {
+        console.log(`${tag}: 数据校验完成，${report.errorCount} 个错误，${report.warningCount} 个警告`);
+    }
+}
@@ -14,6 +14,7 @@ export interface ICrowdableCharacter {
     getRigidBody(): any;
     getMoveSpeed(): number;
     isAlive(): boolean;
+    isKnockedBack?(): boolean;
 }
 
 /**
@@ -3,6 +3,8 @@ import { OrcaAgent } from '../components/OrcaAgent';
 import { gridManager } from './GridManager'; // 直接复用！
 import { poolManager } from '../managers/PoolManager';
 import { TempVarPool } from '../utils/TempVarPool';
+import { gameRandom } from '../utils/SeededRandom';
+import { simulationManager } from '../managers/SimulationManager';
 
 // 代表ORCA计算出的一条速度约束线
 interface OrcaLine {
@@ -91,7 +93,7 @@ export class OrcaSystem extends Component {
     }
 
     protected update(deltaTime: number): void {
-        const currentTime = Date.now() / 1000;
+        const currentTime = simulationManager.now() / 1000;
         if (currentTime - this.lastUpdateTime < this.UPDATE_INTERVAL) {
             return;
         }
@@ -288,7 +290,7 @@ export class OrcaSystem extends Component {
                     u = unitW.multiplyScalar(combinedRadius / timeHorizon - wLength);
                 } else {
                     // w几乎为零（相对速度≈voApex），随机选择推开方向
-                    const randomAngle = Math.random() * 2 * Math.PI;
+                    const randomAngle = gameRandom.next() * 2 * Math.PI;
                     // 【性能优化】使用临时变量池避免GC压力
                     u = TempVarPool.tempVec2_1.set(Math.cos(randomAngle), Math.sin(randomAngle)).multiplyScalar(combinedRadius / timeHorizon);
                 }
@@ -337,7 +339,7 @@ export class OrcaSystem extends Component {
                 relativePosition.clone().normalize().multiplyScalar(combinedRadius - dist) :
                 // 完全重叠时，随机选择分离方向
                 // 【性能优化】使用临时变量池避免GC压力
-                TempVarPool.tempVec2_4.set(Math.random() - 0.5, Math.random() - 0.5).normalize().multiplyScalar(combinedRadius);
+                TempVarPool.tempVec2_4.set(gameRandom.next() - 0.5, gameRandom.next() - 0.5).normalize().multiplyScalar(combinedRadius);
             
             // 【专注锁定和攻击状态优化】计算达到分离所需的相对速度，考虑各种锁定状态的抗推力
             let separationStrength = invTimeStep;
@@ -381,7 +383,7 @@ export class OrcaSystem extends Component {
                 direction = TempVarPool.tempVec2_5.set(-relativePosition.y, relativePosition.x).normalize();
             } else {
                 // 完全重叠且无相对速度：随机方向
-                const randomAngle = Math.random() * 2 * Math.PI;
+                const randomAngle = gameRandom.next() * 2 * Math.PI;
                 // 【性能优化】使用临时变量池避免GC压力
                 direction = TempVarPool.tempVec2_6.set(Math.cos(randomAngle), Math.sin(randomAngle));
             }
@@ -1,4 +1,5 @@
 import { _decorator, Component, Node, Vec3, Vec2, PhysicsSystem2D, ERaycast2DType } from 'cc';
+import { simulationManager } from '../managers/SimulationManager';
 
 const { ccclass, property } = _decorator;
 
@@ -272,7 +273,7 @@ export class PathfindingManager extends Component {
         const cacheKey = this.getCacheKey(start, end);
         const cachedPath = this.pathCache.get(cacheKey);
         
-        if (cachedPath && Date.now() / 1000 - cachedPath.timestamp < this.pathCacheTime) {
+        if (cachedPath && simulationManager.now() / 1000 - cachedPath.timestamp < this.pathCacheTime) {
             this.performanceStats.cacheHits++;
             console.log(`%c[PathfindingManager] 💾 缓存命中: ${cacheKey}`, 'color: cyan');
             callback(cachedPath);
@@ -286,7 +287,7 @@ export class PathfindingManager extends Component {
             end: end.clone(),
             callback: callback,
             priority: priority,
-            timestamp: Date.now()
+            timestamp: simulationManager.now()
         });
         
         // 按优先级排序
@@ -308,7 +309,7 @@ export class PathfindingManager extends Component {
         const cacheKey = this.getCacheKey(start, end);
         const cachedPath = this.pathCache.get(cacheKey);
         
-        if (cachedPath && Date.now() / 1000 - cachedPath.timestamp < this.pathCacheTime) {
+        if (cachedPath && simulationManager.now() / 1000 - cachedPath.timestamp < this.pathCacheTime) {
             this.performanceStats.cacheHits++;
             return cachedPath;
         }
@@ -342,11 +343,13 @@ export class PathfindingManager extends Component {
         this.isProcessing = true;
         const startTime = Date.now();
         
-        while (this.requestQueue.length > 0 && Date.now() - startTime < this.maxCalculationTimePerFrame) {
+        // 确定性模式下不按耗时限制处理数量，保证每帧解算的请求与机器性能无关
+        while (this.requestQueue.length > 0 &&
+               (simulationManager.isDeterministic || Date.now() - startTime < this.maxCalculationTimePerFrame)) {
             const request = this.requestQueue.shift()!;
             
-            // 检查请求是否过期（超过10秒）
-            if (Date.now() - request.timestamp > 10000) {
+            // 检查请求是否过期（超过10秒模拟时间）
+            if (simulationManager.now() - request.timestamp > 10000) {
                 console.warn(`%c[PathfindingManager] ⏰ 请求过期: ${request.id}`, 'color: orange');
                 request.callback(null);
                 continue;
@@ -466,7 +469,7 @@ export class PathfindingManager extends Component {
             nodes: path,
             distance: totalDistance,
             smoothed: smoothed,
-            timestamp: Date.now() / 1000
+            timestamp: simulationManager.now() / 1000
         };
     }
     
@@ -591,7 +594,7 @@ export class PathfindingManager extends Component {
      * 清理过期缓存
      */
     private cleanupCache(): void {
-        const currentTime = Date.now() / 1000;
+        const currentTime = simulationManager.now() / 1000;
         const expiredKeys: string[] = [];
         
         for (const [key, pathInfo] of this.pathCache) {
@@ -634,6 +637,19 @@ export class PathfindingManager extends Component {
         }
     }
     
+    /**
+     * 【新增】查询位置是否可行走（超出网格范围视为不可行走）
+     * 网格尚未初始化时返回 true，不阻止调用方的逻辑
+     */
+    public isWalkable(worldPos: Vec3): boolean {
+        if (this.grid.length === 0) {
+            return true;
+        }
+    
+        const node = this.getNodeFromWorldPosition(worldPos);
+        return node ? node.walkable : false;
+    }
+    
     /**
      * 清理指定位置周围的缓存
      */
@@ -0,0 +1,126 @@
+import { _decorator, Component } from 'cc';
+import { dataManager } from '../managers/DataManager';
+import { BattleSimulator } from '../systems/BattleSimulator';
+import { BATTLE_SIM_DEFAULTS, BattleSimReport, parseSimUnits } from '../configs/BattleSimConfig';
+import { FactionUtils } from '../configs/FactionConfig';
+import { downloadTextFile } from '../utils/FileExport';
+
+const { ccclass, property } = _decorator;
+
+/**
+ * 无头战斗模拟运行器
+ * 挂到任意场景节点上即可在启动时批量模拟对战（不需要 GameManager、预制体和关卡），
+ * 结果输出到控制台，浏览器环境下同时下载 JSON 和 CSV 报告，用于平衡 enemies.json。
+ */
+@ccclass('BattleSimulatorRunner')
+export class BattleSimulatorRunner extends Component {
+
+    @property({
+        displayName: "循环赛模式",
+        tooltip: "开启后参赛敌人两两对战（忽略A/B队配置）"
+    })
+    public roundRobin: boolean = false;
+
+    @property({
+        displayName: "循环赛敌人",
+        tooltip: "逗号分隔的敌人ID，留空表示全部敌人"
+    })
+    public roundRobinEnemies: string = '';
+
+    @property({
+        displayName: "循环赛每方数量",
+        min: 1,
+        step: 1
+    })
+    public roundRobinCount: number = 1;
+
+    @property({
+        displayName: "A队阵营",
+        tooltip: "red / blue / green / purple / player"
+    })
+    public teamAFaction: string = 'red';
+
+    @property({
+        displayName: "A队单位",
+        tooltip: "格式: ent_normal*3, lich_normal"
+    })
+    public teamAUnits: string = 'ent_normal*3';
+
+    @property({
+        displayName: "B队阵营",
+        tooltip: "red / blue / green / purple / player"
+    })
+    public teamBFaction: string = 'blue';
+
+    @property({
+        displayName: "B队单位",
+        tooltip: "格式: ent_normal*3, lich_normal"
+    })
+    public teamBUnits: string = 'orc_normal*3';
+
+    @property({
+        displayName: "模拟次数",
+        min: 1,
+        step: 1
+    })
+    public iterations: number = 1000;
+
+    @property({
+        displayName: "随机种子",
+        step: 1
+    })
+    public seed: number = BATTLE_SIM_DEFAULTS.seed;
+
+    @property({
+        displayName: "下载报告",
+        tooltip: "浏览器环境下运行结束后下载 JSON 和 CSV 报告"
+    })
+    public downloadReport: boolean = true;
+
+    protected async start(): Promise<void> {
+        if (!dataManager.isDataLoaded()) {
+            await dataManager.loadAllData();
+        }
+        this.runSimulation();
+    }
+
+    /**
+     * 按当前配置运行模拟并输出报告
+     */
+    public runSimulation(): BattleSimReport | null {
+        const simulator = new BattleSimulator();
+        const startTime = Date.now();
+
+        const report = this.roundRobin
+            ? simulator.runRoundRobin(
+                parseSimUnits(this.roundRobinEnemies).map(unit => unit.enemyId),
+                this.iterations,
+                this.roundRobinCount,
+                this.seed
+            )
+            : simulator.run({
+                teamA: { faction: FactionUtils.stringToFaction(this.teamAFaction), units: parseSimUnits(this.teamAUnits) },
+                teamB: { faction: FactionUtils.stringToFaction(this.teamBFaction), units: parseSimUnits(this.teamBUnits) },
+                iterations: this.iterations,
+                seed: this.seed
+            });
+
+        if (!report) {
+            console.error('BattleSimulatorRunner: 模拟失败，请检查队伍配置');
+            return null;
+        }
+
+        console.log(`BattleSimulatorRunner: ✅ 模拟完成，用时 ${Date.now() - startTime}ms`);
+        console.log(BattleSimulator.toMatchupCSV(report));
+        console.log(BattleSimulator.toEnemyCSV(report));
+
+        if (this.downloadReport) {
+            const suffix = `${report.seed}_${report.generatedAt}`;
+            downloadTextFile(`battle_sim_${suffix}.json`, BattleSimulator.toJSON(report), 'application/json');
+            downloadTextFile(`battle_sim_enemies_${suffix}.csv`, BattleSimulator.toEnemyCSV(report), 'text/csv');
+            downloadTextFile(`battle_sim_matchups_${suffix}.csv`, BattleSimulator.toMatchupCSV(report), 'text/csv');
+        }
+
+        return report;
+    }
+}
@@ -0,0 +1,57 @@
+import { _decorator, Component, JsonAsset } from 'cc';
+import { resourceManager } from '../managers/ResourceManager';
+import { validateGameData, logValidationReport } from '../systems/DataValidator';
+import { ValidationReport } from '../configs/DataValidationConfig';
+import { downloadTextFile } from '../utils/FileExport';
+
+const { ccclass, property } = _decorator;
+
+/**
+ * 数据校验运行器
+ * 挂到任意场景节点上即可在启动时单独校验 enemies.json、skills.json 和 levels.json，
+ * 直接读取原始 JSON（不经过 DataManager，数据有致命错误时也能得到完整报告），
+ * 结果输出到控制台，浏览器环境下可同时下载 JSON 报告。
+ */
+@ccclass('DataValidatorRunner')
+export class DataValidatorRunner extends Component {
+
+    @property({
+        displayName: "下载报告",
+        tooltip: "浏览器环境下校验结束后下载 JSON 报告"
+    })
+    public downloadReport: boolean = false;
+
+    protected async start(): Promise<void> {
+        await this.runValidation();
+    }
+
+    /**
+     * 加载数据文件并输出校验报告
+     */
+    public async runValidation(): Promise<ValidationReport> {
+        const [enemies, skills, levels, drops] = await Promise.all([
+            this.loadJson('data/enemies'),
+            this.loadJson('data/skills'),
+            this.loadJson('data/levels'),
+            this.loadJson('data/drops')
+        ]);
+
+        const report = validateGameData({ enemies, skills, levels, drops });
+        logValidationReport(report, 'DataValidatorRunner');
+
+        if (this.downloadReport) {
+            downloadTextFile(`data_validation_${report.generatedAt}.json`, JSON.stringify(report, null, 2), 'application/json');
+        }
+
+        return report;
+    }
+
+    private async loadJson(path: string): Promise<any> {
+        const asset = await resourceManager.loadResource(path, JsonAsset);
+        if (!asset) {
+            console.warn(`DataValidatorRunner: 未找到数据文件 ${path}，跳过校验`);
+            return undefined;
+        }
+        return asset.json;
+    }
+}
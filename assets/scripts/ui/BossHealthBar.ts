@@ -0,0 +1,229 @@
+// assets/scripts/ui/BossHealthBar.ts
+
+import { _decorator, Component, Node, Graphics, UITransform, Color, Label, Widget, director } from 'cc';
+
+const { ccclass, property } = _decorator;
+
+/**
+ * Boss血条 - 固定在屏幕顶部，独立于角色头顶的 HealthBarComponent
+ * 显示Boss名称、当前阶段、狂暴倒计时和血量
+ * 由 BossController 绑定/解绑，血量通过目标节点的 'health-changed' 事件更新
+ */
+@ccclass('BossHealthBar')
+export class BossHealthBar extends Component {
+
+    @property({ tooltip: '血条宽度（像素）' })
+    public barWidth: number = 480;
+
+    @property({ tooltip: '血条高度（像素）' })
+    public barHeight: number = 14;
+
+    @property({ tooltip: '距屏幕顶部的距离（像素）' })
+    public topMargin: number = 40;
+
+    // 内部组件
+    private barGraphics: Graphics | null = null;
+    private nameLabel: Label | null = null;
+    private phaseLabel: Label | null = null;
+    private enrageLabel: Label | null = null;
+
+    // 目标绑定
+    private _bossNode: Node | null = null;
+    private _currentHealth: number = 0;
+    private _maxHealth: number = 0;
+    private _isEnraged: boolean = false;
+
+    /**
+     * 获取场景中的Boss血条，不存在时在Canvas下创建
+     */
+    public static getOrCreate(): BossHealthBar | null {
+        const scene = director.getScene();
+        if (!scene) {
+            console.error('BossHealthBar: 无法获取当前场景。');
+            return null;
+        }
+
+        const canvas = scene.getComponentInChildren('cc.Canvas');
+        const parent = canvas && canvas.node ? canvas.node : scene;
+
+        let barNode = parent.getChildByName('BossHealthBar');
+        if (!barNode) {
+            barNode = new Node('BossHealthBar');
+            barNode.addComponent(UITransform);
+            parent.addChild(barNode);
+        }
+
+        return barNode.getComponent(BossHealthBar) || barNode.addComponent(BossHealthBar);
+    }
+
+    onLoad() {
+        this.createUI();
+        this.node.active = false;
+    }
+
+    onDestroy() {
+        this.unbindBoss();
+    }
+
+    /**
+     * 绑定Boss节点并显示血条
+     * @param bossNode Boss节点
+     * @param bossName 显示名称
+     * @param currentHealth 当前血量
+     * @param maxHealth 最大血量
+     */
+    public bindBoss(bossNode: Node, bossName: string, currentHealth: number, maxHealth: number): void {
+        this.unbindBoss();
+
+        this._bossNode = bossNode;
+        this._bossNode.on('health-changed', this.onHealthChanged, this);
+        this._currentHealth = currentHealth;
+        this._maxHealth = maxHealth;
+        this._isEnraged = false;
+
+        if (this.nameLabel) {
+            this.nameLabel.string = bossName;
+        }
+        this.setPhase('');
+        this.setEnrageRemaining(-1);
+
+        this.node.active = true;
+        this.updateBar();
+    }
+
+    /**
+     * 解绑Boss节点并隐藏血条
+     */
+    public unbindBoss(): void {
+        if (this._bossNode && this._bossNode.isValid) {
+            this._bossNode.off('health-changed', this.onHealthChanged, this);
+        }
+        this._bossNode = null;
+        this.node.active = false;
+    }
+
+    /**
+     * 是否正在显示指定Boss
+     */
+    public isBoundTo(bossNode: Node): boolean {
+        return this._bossNode === bossNode;
+    }
+
+    /**
+     * 设置阶段名称
+     */
+    public setPhase(phaseName: string): void {
+        if (this.phaseLabel) {
+            this.phaseLabel.string = phaseName;
+        }
+    }
+
+    /**
+     * 设置狂暴倒计时
+     * @param seconds 剩余秒数，小于0表示不显示
+     */
+    public setEnrageRemaining(seconds: number): void {
+        if (!this.enrageLabel || this._isEnraged) {
+            return;
+        }
+        if (seconds < 0) {
+            this.enrageLabel.string = '';
+            return;
+        }
+        const minutes = Math.floor(seconds / 60);
+        const secs = Math.floor(seconds % 60);
+        this.enrageLabel.string = `狂暴 ${minutes}:${secs < 10 ? '0' : ''}${secs}`;
+    }
+
+    /**
+     * 进入狂暴状态：血条变为深红色
+     */
+    public setEnraged(): void {
+        this._isEnraged = true;
+        if (this.enrageLabel) {
+            this.enrageLabel.string = '狂暴!';
+        }
+        this.updateBar();
+    }
+
+    private onHealthChanged(currentHealth: number, maxHealth: number): void {
+        this._currentHealth = currentHealth;
+        this._maxHealth = maxHealth;
+        this.updateBar();
+    }
+
+    /**
+     * 创建血条UI（锚定在屏幕顶部居中）
+     */
+    private createUI(): void {
+        const transform = this.node.getComponent(UITransform) || this.node.addComponent(UITransform);
+        transform.setContentSize(this.barWidth, this.barHeight + 36);
+
+        const widget = this.node.getComponent(Widget) || this.node.addComponent(Widget);
+        widget.isAlignTop = true;
+        widget.top = this.topMargin;
+        widget.isAlignHorizontalCenter = true;
+        widget.horizontalCenter = 0;
+
+        // 血条
+        const barNode = new Node('Bar');
+        barNode.setParent(this.node);
+        barNode.addComponent(UITransform).setContentSize(this.barWidth, this.barHeight);
+        barNode.setPosition(0, -8, 0);
+        this.barGraphics = barNode.addComponent(Graphics);
+
+        // 名称（血条上方居中）
+        this.nameLabel = this.createLabel('Name', 0, 12, 18, new Color(255, 220, 120, 255));
+
+        // 阶段名称（血条上方左侧）
+        this.phaseLabel = this.createLabel('Phase', -this.barWidth / 2 + 60, 12, 14, new Color(220, 220, 220, 255));
+
+        // 狂暴倒计时（血条上方右侧）
+        this.enrageLabel = this.createLabel('Enrage', this.barWidth / 2 - 60, 12, 14, new Color(255, 90, 90, 255));
+    }
+
+    private createLabel(name: string, x: number, y: number, fontSize: number, color: Color): Label {
+        const labelNode = new Node(name);
+        labelNode.setParent(this.node);
+        labelNode.addComponent(UITransform);
+        labelNode.setPosition(x, y, 0);
+
+        const label = labelNode.addComponent(Label);
+        label.fontSize = fontSize;
+        label.lineHeight = fontSize + 2;
+        label.color = color;
+        label.string = '';
+        return label;
+    }
+
+    /**
+     * 绘制血条
+     */
+    private updateBar(): void {
+        if (!this.barGraphics) return;
+
+        const healthPercent = this._maxHealth > 0 ? this._currentHealth / this._maxHealth : 0;
+        const halfWidth = this.barWidth / 2;
+        const halfHeight = this.barHeight / 2;
+
+        this.barGraphics.clear();
+
+        // 背景
+        this.barGraphics.fillColor = new Color(40, 20, 20, 220);
+        this.barGraphics.rect(-halfWidth, -halfHeight, this.barWidth, this.barHeight);
+        this.barGraphics.fill();
+
+        // 血量填充（狂暴后为深红色）
+        if (healthPercent > 0) {
+            this.barGraphics.fillColor = this._isEnraged ? new Color(150, 0, 30, 255) : new Color(200, 40, 40, 255);
+            this.barGraphics.rect(-halfWidth, -halfHeight, this.barWidth * healthPercent, this.barHeight);
+            this.barGraphics.fill();
+        }
+
+        // 边框
+        this.barGraphics.strokeColor = new Color(230, 200, 120, 255);
+        this.barGraphics.lineWidth = 2;
+        this.barGraphics.rect(-halfWidth, -halfHeight, this.barWidth, this.barHeight);
+        this.barGraphics.stroke();
+    }
+}
@@ -0,0 +1,26 @@
+// assets/scripts/utils/FileExport.ts
+
+import { sys } from 'cc';
+
+/**
+ * 浏览器环境下把文本内容下载为文件（回放文件、模拟报告等）
+ * @param fileName 文件名
+ * @param content 文件内容
+ * @param mimeType MIME 类型
+ * @returns 是否已触发下载（非浏览器环境返回 false）
+ */
+export function downloadTextFile(fileName: string, content: string, mimeType: string = 'text/plain'): boolean {
+    if (!sys.isBrowser) {
+        console.warn(`FileExport: 非浏览器环境，无法下载 ${fileName}`);
+        return false;
+    }
+
+    const blob = new Blob([content], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+    return true;
+}
@@ -0,0 +1,104 @@
+// assets/scripts/utils/SeededRandom.ts
+
+/**
+ * 可设置种子的伪随机数生成器（mulberry32）
+ * 相同种子产生完全相同的序列，用于确定性模拟。
+ * 所有影响战斗结果的随机（生成位置、词缀、掉落、ORCA 扰动等）都应通过 gameRandom 获取，
+ * 纯表现用的随机（伤害文字抖动等）继续使用 Math.random，避免消耗游戏随机序列。
+ */
+export class SeededRandom {
+    private _seed: number = 0;
+    private _state: number = 0;
+
+    constructor(seed: number = Date.now()) {
+        this.setSeed(seed);
+    }
+
+    // ========== 种子与状态 ==========
+
+    public get seed(): number {
+        return this._seed;
+    }
+
+    /**
+     * 重新设置种子，序列从头开始
+     */
+    public setSeed(seed: number): void {
+        this._seed = seed >>> 0;
+        this._state = this._seed;
+    }
+
+    /**
+     * 获取内部状态（可与 setState 配合保存/恢复随机序列位置）
+     */
+    public getState(): number {
+        return this._state;
+    }
+
+    public setState(state: number): void {
+        this._state = state >>> 0;
+    }
+
+    // ========== 随机数 ==========
+
+    /**
+     * [0, 1) 均匀分布，替代 Math.random()
+     */
+    public next(): number {
+        this._state = (this._state + 0x6D2B79F5) >>> 0;
+        let t = this._state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+
+    /**
+     * [min, max) 浮点数
+     */
+    public range(min: number, max: number): number {
+        return min + this.next() * (max - min);
+    }
+
+    /**
+     * [min, max] 整数
+     */
+    public int(min: number, max: number): number {
+        return min + Math.floor(this.next() * (max - min + 1));
+    }
+
+    /**
+     * 以 probability 的概率返回 true
+     */
+    public chance(probability: number): boolean {
+        return this.next() < probability;
+    }
+
+    /**
+     * [0, 2π) 随机角度
+     */
+    public angle(): number {
+        return this.next() * Math.PI * 2;
+    }
+
+    /**
+     * 随机返回 1 或 -1
+     */
+    public sign(): number {
+        return this.next() < 0.5 ? -1 : 1;
+    }
+
+    /**
+     * 从数组中随机取一个元素，空数组返回 undefined
+     */
+    public pick<T>(items: readonly T[]): T | undefined {
+        if (items.length === 0) {
+            return undefined;
+        }
+        return items[Math.floor(this.next() * items.length)];
+    }
+}
+
+/**
+ * 全局游戏随机数生成器（确定性模式下由 SimulationManager 设置种子）
+ */
+export const gameRandom = new SeededRandom();